@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {  getStripeServer  } from '@/lib/stripe';
 import Stripe from 'stripe';
+import { formatSerial, getSessionSerials } from '@/lib/edition-serials';
+import { getOrderBySession } from '@/lib/orders';
 
 /**
  * GET handler for retrieving Stripe checkout session data
@@ -35,6 +37,7 @@ export async function GET(
         payment_status: 'paid',
         session_id: 'test_success',
         created: Date.now(),
+        serials: ['#37/472', '#38/472', '#39/472'],
       }, { status: 200 });
     }
 
@@ -93,6 +96,18 @@ session = await stripe.checkout.sessions.retrieve(sessionId, {
       );
     }
 
+    // Limited edition serials; empty until the webhook has numbered the order
+    const serials = await getSessionSerials(session.id).catch(error => {
+      console.error('Failed to load edition serials:', error);
+      return [];
+    });
+
+    // The order page to follow it on; null until the webhook has recorded the order
+    const order = await getOrderBySession(session.id).catch(error => {
+      console.error('Failed to load order:', error);
+      return null;
+    });
+
     // Extract relevant data for the success page
     const responseData = {
       customer_email: session.customer_details?.email || session.customer_email || '',
@@ -102,6 +117,8 @@ session = await stripe.checkout.sessions.retrieve(sessionId, {
       payment_status: session.payment_status,
       session_id: session.id,
       created: session.created,
+      serials: serials.map(formatSerial),
+      order_id: order?.id ?? null,
     };
 
     // Validate that we have essential data
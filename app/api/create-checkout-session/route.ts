@@ -1,184 +1,457 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { getStripeServer } from '@/lib/stripe';
-import crypto from 'crypto';
 import Stripe from 'stripe';
-import { withRateLimit, RateLimitConfigs } from '@/lib/rate-limiter';
+import { RateLimitConfigs } from '@/lib/rate-limiter';
+import { defineRoute, ApiError, RouteContext } from '@/lib/api-route';
+import { confirmedEmail } from '@/lib/get-request-user';
+import {
+  attachReservationSession,
+  CustomerRequiredError,
+  InsufficientInventoryError,
+  InventorySkus,
+  PurchaseLimitError,
+  releaseReservation,
+  reserveInventory,
+  ReservationItem,
+} from '@/lib/inventory';
+import {
+  assertDropOnSale,
+  DEFAULT_DROP_ID,
+  Drop,
+  DropUnavailableError,
+  getDrop,
+  isEarlyAccess,
+  isWaitlisted,
+} from '@/lib/drops';
+import { Catalog, getCatalog } from '@/lib/catalog';
+import {
+  attachPromotionSession,
+  PromotionError,
+  releasePromotion,
+  reservePromotion,
+  resolvePromotion,
+} from '@/lib/promotions';
+import {
+  CartLine,
+  customCardLine,
+  displayCaseLine,
+  limitedEditionLine,
+  normalizeFinish,
+  priceCart,
+  priceLine,
+} from '@/lib/pricing';
+import { quoteShipping, SHIPPING_COUNTRY_CODES } from '@/lib/shipping';
 
 
-/**
- * Get shipping option based on customer's country
- * Returns a single shipping option appropriate for the destination
- */
-
 const stripe = getStripeServer('platform');
 
-function getShippingOptionForCountry(country: string) {
-  // US Shipping
-  if (country === 'US') {
-    return {
-      shipping_rate_data: {
-        type: 'fixed_amount' as const,
-        fixed_amount: {
-          amount: 499, // $4.99 in cents
-          currency: 'usd',
-        },
-        display_name: 'Standard Shipping',
-        delivery_estimate: {
-          minimum: {
-            unit: 'business_day' as const,
-            value: 5,
-          },
-          maximum: {
-            unit: 'business_day' as const,
-            value: 7,
-          },
-        },
-        tax_behavior: 'exclusive' as const,
-      },
-    };
-  }
-  
-  // Canada Shipping
-  if (country === 'CA') {
-    return {
-      shipping_rate_data: {
-        type: 'fixed_amount' as const,
-        fixed_amount: {
-          amount: 1199, // $11.99 in cents
-          currency: 'usd',
-        },
-        display_name: 'Standard Shipping',
-        delivery_estimate: {
-          minimum: {
-            unit: 'business_day' as const,
-            value: 7,
-          },
-          maximum: {
-            unit: 'business_day' as const,
-            value: 14,
-          },
-        },
-        tax_behavior: 'exclusive' as const,
-      },
-    };
+// Sessions expire after Stripe's minimum of 30 minutes; stock is held for the
+// same window plus a grace period for payments that complete right at the end
+const CHECKOUT_SESSION_TTL_SECONDS = 30 * 60;
+const RESERVATION_GRACE_SECONDS = 5 * 60;
+
+/**
+ * Shipping options for the destination and parcel (lib/shipping): standard,
+ * tracked and express, with standard free above the zone's threshold or
+ * with a free shipping promotion
+ */
+function getShippingOptions(
+  country: string,
+  lines: CartLine[],
+  freeShipping = false
+): Stripe.Checkout.SessionCreateParams.ShippingOption[] {
+  const quotes = quoteShipping(country, lines, { subtotalCents: priceCart(lines).itemsCents, freeShipping });
+  if (quotes.length === 0) {
+    throw new ApiError(400, 'UNSUPPORTED_SHIPPING_COUNTRY', 'We do not ship to that country yet');
   }
-  
-  // International Shipping (all other countries)
-  return {
+
+  return quotes.map(quote => ({
     shipping_rate_data: {
-      type: 'fixed_amount' as const,
+      type: 'fixed_amount',
       fixed_amount: {
-        amount: 1699, // $16.99 in cents
+        amount: quote.amountCents,
         currency: 'usd',
       },
-      display_name: 'International Shipping',
+      display_name: quote.displayName,
       delivery_estimate: {
-        minimum: {
-          unit: 'business_day' as const,
-          value: 10,
-        },
-        maximum: {
-          unit: 'business_day' as const,
-          value: 21,
+        minimum: { unit: 'business_day', value: quote.minBusinessDays },
+        maximum: { unit: 'business_day', value: quote.maxBusinessDays },
+      },
+      tax_behavior: 'exclusive',
+      metadata: { service_level: quote.level },
+    },
+  }));
+}
+
+// Countries Stripe collects addresses for; the same list as the address form
+const ALLOWED_COUNTRIES = SHIPPING_COUNTRY_CODES as Stripe.Checkout.SessionCreateParams.ShippingAddressCollection.AllowedCountry[];
+
+const requiredAddressField = (field: string) =>
+  z.string({ required_error: `Invalid shipping address: ${field} is required` })
+    .trim()
+    .min(1, `Invalid shipping address: ${field} is required`);
+
+const ShippingAddressSchema = z.object({
+  email: requiredAddressField('email'),
+  name: requiredAddressField('name'),
+  line1: requiredAddressField('line1'),
+  line2: z.string().nullish(),
+  city: requiredAddressField('city'),
+  state: requiredAddressField('state'),
+  postal_code: requiredAddressField('postal_code'),
+  country: requiredAddressField('country'),
+}, { required_error: 'Shipping address is required' });
+
+const CartItemSchema = z.object({
+  productId: z.string(),
+  dropId: z.string().nullish(),  // Limited edition items; defaults to DEFAULT_DROP_ID
+  quantity: z.number().int().min(1).max(100),
+  name: z.string(),
+  cardFinish: z.string().nullish(),
+  customImageUrl: z.string().nullish(),
+  image: z.string().nullish(),
+});
+
+// Quantities arrive as numbers or numeric strings from the modals
+const QuantitySchema = z.union([z.number(), z.string()]).nullish();
+
+const CheckoutSessionBody = z.object({
+  shippingAddress: ShippingAddressSchema,
+  quantity: QuantitySchema,
+  includeDisplayCase: z.boolean().nullish(),
+  displayCaseQuantity: QuantitySchema,
+  isCustomCard: z.boolean().nullish(),
+  uploadId: z.string().nullish(),
+  customImageUrl: z.string().nullish(),
+  cardFinish: z.string().nullish(),
+  dropId: z.string().nullish(),
+  promotionCode: z.string().trim().max(64).nullish(),
+  cartItems: z.array(CartItemSchema).min(1, 'Cart is empty').nullish(),
+  isCartCheckout: z.boolean().nullish(),
+});
+
+type CheckoutSessionBody = z.infer<typeof CheckoutSessionBody>;
+type CartItem = z.infer<typeof CartItemSchema>;
+type ShippingAddressData = z.infer<typeof ShippingAddressSchema>;
+
+function parseQuantity(value: CheckoutSessionBody['quantity']): number {
+  return typeof value === 'number' ? Math.trunc(value) : parseInt(value ?? '', 10);
+}
+
+const DROP_ERROR_STATUS: Record<DropUnavailableError['code'], number> = {
+  DROP_NOT_FOUND: 404,
+  DROP_NOT_STARTED: 409,
+  DROP_ENDED: 409,
+  EARLY_ACCESS_ONLY: 403,
+};
+
+/**
+ * Load a drop for purchase; unknown, inactive, not-yet-started and ended
+ * drops can't be bought, and during early access only signed-in customers
+ * whose confirmed account email is on the waitlist can
+ */
+async function resolveDropForSale(dropId: string | null | undefined, accountEmail: string | null): Promise<Drop> {
+  const drop = await getDrop(dropId || DEFAULT_DROP_ID);
+  try {
+    if (!drop) {
+      throw new DropUnavailableError('DROP_NOT_FOUND', 'Drop not found');
+    }
+    const earlyAccess = isEarlyAccess(drop);
+    if (earlyAccess && !accountEmail) {
+      throw new ApiError(401, 'SIGN_IN_REQUIRED', `Sign in with the account on the ${drop.name} waitlist to buy during early access`);
+    }
+    const waitlisted = earlyAccess && !!accountEmail && await isWaitlisted(drop.id, accountEmail);
+    assertDropOnSale(drop, { waitlisted });
+    return drop;
+  } catch (error) {
+    if (error instanceof DropUnavailableError) {
+      throw new ApiError(DROP_ERROR_STATUS[error.code], error.code, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Line item for a drop at its volume price; quantity is fixed to what gets reserved
+ */
+function dropLineItem(drop: Drop, quantity: number, origin: string): Stripe.Checkout.SessionCreateParams.LineItem {
+  return {
+    price_data: {
+      currency: 'usd',
+      unit_amount: priceLine(limitedEditionLine(drop, quantity)).unitCents,
+      product_data: {
+        name: drop.name,
+        ...(drop.description && { description: drop.description }),
+        images: [new URL(drop.artworkUrl, origin).toString()],
+        metadata: { drop_id: drop.id },
+      },
+    },
+    quantity,
+  };
+}
+
+/**
+ * Line item for custom cards at the volume price plus the finish. Quantities
+ * are fixed so Stripe charges what lib/pricing computed.
+ */
+function customCardLineItem(
+  catalog: Catalog,
+  finish: string | null | undefined,
+  quantity: number,
+  customImageUrl: string | null | undefined
+): Stripe.Checkout.SessionCreateParams.LineItem {
+  const cardFinish = normalizeFinish(finish);
+  const finishLabel = cardFinish.charAt(0).toUpperCase() + cardFinish.slice(1);
+  const finishDescription = cardFinish === 'rainbow'
+    ? ' and holographic rainbow finish'
+    : cardFinish === 'gloss' ? ' and high-gloss finish' : '';
+
+  return {
+    price_data: {
+      currency: 'usd',
+      unit_amount: priceLine(customCardLine(catalog.priceList, cardFinish, quantity)).unitCents,
+      product_data: {
+        name: `Custom Card - ${finishLabel} Finish`,
+        description: `Custom trading card with your uploaded artwork${finishDescription}. Image: ${customImageUrl || 'Not provided'}`,
+        metadata: {
+          product_id: catalog.customCardProduct.id,
+          card_finish: cardFinish,
+          custom_image_url: customImageUrl || '',
         },
       },
-      tax_behavior: 'exclusive' as const,
     },
+    quantity,
+  };
+}
+
+function displayCaseLineItem(catalog: Catalog, quantity: number): Stripe.Checkout.SessionCreateParams.LineItem {
+  return {
+    price_data: {
+      currency: 'usd',
+      unit_amount: priceLine(displayCaseLine(catalog.priceList, quantity)).unitCents,
+      product: catalog.displayCaseProduct.id,
+    },
+    quantity,
   };
 }
 
 /**
- * Validate CSRF tokens for App Router
- * Adapts the CSRF validation logic for NextRequest instead of NextApiRequest
+ * Apply the entered code, or else the best automatic promotion, to the
+ * session: the discount as a single-use Stripe coupon and free shipping as a
+ * zero shipping rate. Per-customer caps count against the signed-in account,
+ * never the shipping email. createReservedSession reserves the redemption
+ * from the metadata.
  */
-function validateCSRFForAppRouter(request: NextRequest): boolean {
-  // Extract CSRF token from cookies
-  const cookieHeader = request.headers.get('cookie') || '';
-  const cookies = Object.fromEntries(
-    cookieHeader.split(';').map(cookie => {
-      const [key, value] = cookie.trim().split('=');
-      return [key, value];
-    })
-  );
-  const cookieToken = cookies['csrf_token'] || null;
-  
-  // Extract CSRF token from headers
-  const headerToken = request.headers.get('x-csrf-token') || null;
-  
-  // Both tokens must be present
-  if (!cookieToken || !headerToken) {
-    return false;
+async function applyPromotion(
+  params: Stripe.Checkout.SessionCreateParams,
+  lines: CartLine[],
+  code: string | null | undefined,
+  shippingAddress: ShippingAddressData,
+  accountEmail: string | null
+): Promise<void> {
+  let applied;
+  try {
+    applied = await resolvePromotion(lines, {
+      code,
+      accountEmail,
+      shippingCountry: shippingAddress.country,
+    });
+  } catch (error) {
+    throw promotionApiError(error);
   }
-  
-  // Both tokens must be the same length to prevent timing attacks
-  if (cookieToken.length !== headerToken.length) {
-    return false;
+  if (!applied) return;
+
+  const { promotion, discount, breakdown, savedCents } = applied;
+  if (breakdown.discountCents > 0) {
+    const coupon = await stripe.coupons.create({
+      amount_off: breakdown.discountCents,
+      currency: 'usd',
+      duration: 'once',
+      max_redemptions: 1,
+      name: promotion.code.slice(0, 40),
+      metadata: { promotion_code: promotion.code },
+    });
+    // Stripe doesn't allow customer-entered codes alongside a discount
+    delete params.allow_promotion_codes;
+    params.discounts = [{ coupon: coupon.id }];
   }
-  
+  if (discount.freeShipping) {
+    params.shipping_options = getShippingOptions(shippingAddress.country, lines, true);
+  }
+
+  params.metadata = {
+    ...params.metadata,
+    promotionCode: promotion.code,
+    promotionDiscountCents: savedCents.toString(),
+  };
+}
+
+function promotionApiError(error: unknown): unknown {
+  if (error instanceof PromotionError) {
+    if (error.code === 'PROMO_SIGN_IN_REQUIRED') {
+      return new ApiError(401, error.code, error.message);
+    }
+    const conflict = error.code === 'PROMO_CUSTOMER_LIMIT' || error.code === 'PROMO_EXHAUSTED';
+    return new ApiError(conflict ? 409 : 400, error.code, error.message);
+  }
+  return error;
+}
+
+/**
+ * Reserve the session's promotion redemption, if it has one, so concurrent
+ * checkouts can't go over its caps. The reservation is redeemed by the webhook
+ * on payment and released when the session expires.
+ */
+async function reservePromotionRedemption(
+  params: Stripe.Checkout.SessionCreateParams,
+  expiresAt: Date,
+  accountEmail: string | null
+): Promise<string | null> {
+  const code = params.metadata?.promotionCode;
+  if (!code) return null;
+
+  const discountCents = Number(params.metadata?.promotionDiscountCents ?? 0);
   try {
-    // Use constant-time comparison to prevent timing attacks
-    return crypto.timingSafeEqual(
-      Buffer.from(cookieToken, 'hex'),
-      Buffer.from(headerToken, 'hex')
-    );
-  } catch {
-    // If there's an error (e.g., invalid hex), tokens don't match
-    return false;
+    return await reservePromotion(String(code), accountEmail, discountCents, expiresAt);
+  } catch (error) {
+    throw promotionApiError(error);
   }
 }
 
 /**
- * Handle cart checkout with multiple items
+ * Hold stock for the session before it exists; errors map to the codes the
+ * modals already handle. Per-customer drop limits are counted by confirmed
+ * account email, so limited drops need the customer signed in.
  */
-interface CartItem {
-  productId: string
-  quantity: number
-  pricePerUnit?: number
-  name: string
-  cardFinish?: string
-  customImageUrl?: string
-  image?: string
+async function reserveStock(items: ReservationItem[], expiresAt: Date, accountEmail: string | null): Promise<string | null> {
+  const held = items.filter(item => item.quantity > 0);
+  if (held.length === 0) return null;
+
+  try {
+    return await reserveInventory(held, expiresAt, accountEmail ?? undefined);
+  } catch (error) {
+    if (error instanceof CustomerRequiredError) {
+      throw new ApiError(401, 'SIGN_IN_REQUIRED', 'Sign in to buy from a drop with a purchase limit');
+    }
+    if (error instanceof PurchaseLimitError) {
+      throw new ApiError(
+        400,
+        'PURCHASE_LIMIT_EXCEEDED',
+        error.remaining <= 0
+          ? 'You have reached the purchase limit for this drop'
+          : `You can buy ${error.remaining} more of this drop`,
+        { remaining: error.remaining }
+      );
+    }
+    if (error instanceof InsufficientInventoryError) {
+      if (error.sku === InventorySkus.displayCase) {
+        throw new ApiError(
+          400,
+          'INSUFFICIENT_DISPLAY_CASE_INVENTORY',
+          error.available <= 0
+            ? 'Display cases are currently sold out'
+            : `Only ${error.available} display case(s) available`,
+          { availableDisplayCaseInventory: error.available }
+        );
+      }
+      throw new ApiError(
+        400,
+        'INSUFFICIENT_INVENTORY',
+        error.available <= 0 ? 'Product is currently sold out' : `Only ${error.available} item(s) available`,
+        { availableInventory: error.available }
+      );
+    }
+    console.error('Error reserving inventory:', error);
+    throw new ApiError(503, 'INVENTORY_CHECK_FAILED', 'Unable to verify inventory availability');
+  }
 }
 
-interface ShippingAddressData {
-  email: string
-  name: string
-  line1: string
-  line2?: string
-  city: string
-  state: string
-  postal_code: string
-  country: string
+/**
+ * Create a Checkout Session holding stock for its items, and its promotion
+ * redemption, until the session expires. The reservations are committed by the
+ * webhook on payment and released when the session expires, or straight away
+ * if the session can't be created.
+ */
+async function createReservedSession(
+  params: Stripe.Checkout.SessionCreateParams,
+  items: ReservationItem[],
+  accountEmail: string | null
+): Promise<Stripe.Checkout.Session> {
+  const expiresAt = Math.floor(Date.now() / 1000) + CHECKOUT_SESSION_TTL_SECONDS;
+  params.expires_at = expiresAt;
+
+  const holdUntil = new Date((expiresAt + RESERVATION_GRACE_SECONDS) * 1000);
+
+  const promotionReservation = await reservePromotionRedemption(params, holdUntil, accountEmail);
+  if (promotionReservation) {
+    params.metadata = { ...params.metadata, promotionReservation };
+  }
+  const releasePromotionReservation = async () => {
+    if (promotionReservation) {
+      await releasePromotion(promotionReservation).catch(releaseError =>
+        console.error('Failed to release promotion reservation:', releaseError)
+      );
+    }
+  };
+
+  let reservation: string | null;
+  try {
+    reservation = await reserveStock(items, holdUntil, accountEmail);
+  } catch (error) {
+    await releasePromotionReservation();
+    throw error;
+  }
+  if (reservation) {
+    params.metadata = { ...params.metadata, inventoryReservation: reservation };
+  }
+
+  let session: Stripe.Checkout.Session;
+  try {
+    session = await stripe.checkout.sessions.create(params);
+  } catch (error) {
+    if (reservation) {
+      await releaseReservation(reservation).catch(releaseError =>
+        console.error('Failed to release inventory reservation:', releaseError)
+      );
+    }
+    await releasePromotionReservation();
+    throw error;
+  }
+
+  if (reservation) {
+    await attachReservationSession(reservation, session.id).catch(attachError =>
+      console.error('Failed to attach reservation to session:', attachError)
+    );
+  }
+  if (promotionReservation) {
+    await attachPromotionSession(promotionReservation, session.id).catch(attachError =>
+      console.error('Failed to attach promotion reservation to session:', attachError)
+    );
+  }
+  return session;
 }
 
+/**
+ * Handle cart checkout with multiple items
+ */
 async function handleCartCheckout(
   request: NextRequest, 
   cartItems: CartItem[], 
-  shippingAddress: ShippingAddressData
+  shippingAddress: ShippingAddressData,
+  accountEmail: string | null,
+  promotionCode?: string | null
 ): Promise<NextResponse> {
   const origin = request.headers.get('origin') || 'http://localhost:3000';
   
   try {
-    // Fetch real-time inventory data using the request origin
-    // This ensures we're always calling the same domain the user is on
-    const apiBaseUrl = origin;
-    
-    const inventoryResponse = await fetch(`${apiBaseUrl}/api/inventory`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!inventoryResponse.ok) {
-      throw new Error('Failed to fetch inventory data');
-    }
+    // Prices come from the server catalogue; anything the client sent is ignored
+    const catalog = await getCatalog();
 
-    const inventoryResult = await inventoryResponse.json();
-    const inventoryData = inventoryResult.data;
-
-    // Build line items from cart
+    // Build line items from cart, and the same lines for promotions
     const lineItems: Array<Stripe.Checkout.SessionCreateParams.LineItem> = [];
+    const priceLines: CartLine[] = [];
+    const reservationItems: ReservationItem[] = [];
     const metadata: Record<string, string> = {
       isCartCheckout: 'true',
       shippingCountry: shippingAddress.country,
@@ -192,76 +465,21 @@ async function handleCartCheckout(
       totalQuantity += quantity;
       
       if (productId === 'limited-edition-card') {
-        // Limited edition card
-        const productData = inventoryData.product;
-        if (!productData) {
-          throw new Error('Limited edition card not available');
-        }
-        
-        // Check for existing price or create new one
-        const existingPrices = await stripe.prices.list({
-          product: productData.id,
-          active: true,
-          limit: 1
-        });
-        
-        let priceId;
-        if (existingPrices.data.length > 0) {
-          priceId = existingPrices.data[0].id;
-        } else {
-          // Create price if it doesn't exist
-          const price = await stripe.prices.create({
-            currency: 'usd',
-            unit_amount: inventoryData.pricePerUnit * 100, // Convert to cents
-            product: productData.id,
-            nickname: 'Limited Edition Card'
-          });
-          priceId = price.id;
-        }
-        
-        lineItems.push({
-          price: priceId,
-          quantity: quantity,
-          adjustable_quantity: {
-            enabled: true,
-            minimum: 1,
-            maximum: Math.min(100, inventoryData.inventory)
-          }
-        });
+        // Limited edition card from a drop
+        const drop = await resolveDropForSale(item.dropId, accountEmail);
+
+        lineItems.push(dropLineItem(drop, quantity, origin));
+        priceLines.push(limitedEditionLine(drop, quantity));
+        reservationItems.push({ sku: drop.sku, quantity, perCustomerLimit: drop.perCustomerLimit });
         
         metadata[`item${itemIndex}_type`] = 'limited-edition';
         metadata[`item${itemIndex}_quantity`] = quantity.toString();
+        metadata[`item${itemIndex}_dropId`] = drop.id;
         
       } else if (productId === 'custom-card') {
         // Custom card with finish
-        const basePrice = (inventoryData.customCard?.pricePerUnit || 9) * 100; // Convert dollars to cents
-        const finishPrice = (cardFinish === 'rainbow' || cardFinish === 'gloss') ? 400 : 0; // $4.00 in cents
-        const totalPrice = basePrice + finishPrice;
-        
-        const customCardName = cardFinish && cardFinish !== 'matte' 
-          ? `Custom Card - ${cardFinish.charAt(0).toUpperCase() + cardFinish.slice(1)} Finish`
-          : 'Custom Card - Matte Finish';
-          
-        lineItems.push({
-          price_data: {
-            currency: 'usd',
-            unit_amount: totalPrice,
-            product_data: {
-              name: customCardName,
-              description: `Custom trading card with your uploaded artwork${cardFinish === 'rainbow' ? ' and holographic rainbow finish' : cardFinish === 'gloss' ? ' and high-gloss finish' : ''}. Image: ${customImageUrl || 'Not provided'}`,
-              metadata: {
-                card_finish: cardFinish || 'matte',
-                custom_image_url: customImageUrl || ''
-              }
-            }
-          },
-          quantity: quantity,
-          adjustable_quantity: {
-            enabled: true,
-            minimum: 1,
-            maximum: 100
-          }
-        });
+        lineItems.push(customCardLineItem(catalog, cardFinish, quantity, customImageUrl));
+        priceLines.push(customCardLine(catalog.priceList, cardFinish, quantity));
         
         metadata[`item${itemIndex}_type`] = 'custom-card';
         metadata[`item${itemIndex}_quantity`] = quantity.toString();
@@ -270,36 +488,9 @@ async function handleCartCheckout(
         
       } else if (productId === 'display-case') {
         // Display case
-        const displayCaseData = inventoryData.displayCases;
-        if (!displayCaseData?.product) {
-          throw new Error('Display case not available');
-        }
-        
-        // Check for existing price or create new one
-        const existingPrices = await stripe.prices.list({
-          product: displayCaseData.product.id,
-          active: true,
-          limit: 1
-        });
-        
-        let priceId;
-        if (existingPrices.data.length > 0) {
-          priceId = existingPrices.data[0].id;
-        } else {
-          // Create price if it doesn't exist
-          const price = await stripe.prices.create({
-            currency: 'usd',
-            unit_amount: displayCaseData.pricePerUnit * 100, // Convert to cents
-            product: displayCaseData.product.id,
-            nickname: 'Acrylic Display Case'
-          });
-          priceId = price.id;
-        }
-        
-        lineItems.push({
-          price: priceId,
-          quantity: quantity,
-        });
+        lineItems.push(displayCaseLineItem(catalog, quantity));
+        priceLines.push(displayCaseLine(catalog.priceList, quantity));
+        reservationItems.push({ sku: InventorySkus.displayCase, quantity });
         
         metadata[`item${itemIndex}_type`] = 'display-case';
         metadata[`item${itemIndex}_quantity`] = quantity.toString();
@@ -309,20 +500,12 @@ async function handleCartCheckout(
     }
     
     if (lineItems.length === 0) {
-      return NextResponse.json(
-        { 
-          error: 'No valid items in cart',
-          code: 'INVALID_CART_ITEMS'
-        },
-        { status: 400 }
-      );
+      throw new ApiError(400, 'INVALID_CART_ITEMS', 'No valid items in cart');
     }
     
     // Add total quantity to metadata for success page display
     metadata['quantity'] = totalQuantity.toString();
     
-    // Get shipping option
-    const shippingOption = getShippingOptionForCountry(shippingAddress.country);
     
     // Create customer
     let customerId: string | undefined;
@@ -352,23 +535,17 @@ async function handleCartCheckout(
     }
     
     // Create checkout session
-    const session = await stripe.checkout.sessions.create({
+    const sessionParams: Stripe.Checkout.SessionCreateParams = {
       payment_method_types: ['card', 'crypto'],
       line_items: lineItems,
       mode: 'payment',
       success_url: `${origin}/success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: origin,
       customer: customerId,
-      shipping_options: [shippingOption],
+      shipping_options: getShippingOptions(shippingAddress.country, priceLines),
       billing_address_collection: 'required',
       shipping_address_collection: {
-        allowed_countries: [
-          'US', 'CA', 'GB', 'FR', 'DE', 'IT', 'ES', 'AU', 'JP', 'KR', 'NL', 
-          'CH', 'SE', 'NO', 'DK', 'FI', 'IE', 'BE', 'AT', 'PT', 'PL', 'CZ', 
-          'HU', 'RO', 'GR', 'HR', 'SI', 'SK', 'EE', 'LV', 'LT', 'BG', 'MT', 
-          'CY', 'LU', 'NZ', 'SG', 'HK', 'TW', 'MY', 'TH', 'ID', 'PH', 'VN', 
-          'IN', 'IL', 'AE', 'SA', 'ZA', 'MX', 'BR', 'AR', 'CL', 'CO', 'PE'
-        ],
+        allowed_countries: ALLOWED_COUNTRIES,
       },
       phone_number_collection: {
         enabled: true,
@@ -386,7 +563,10 @@ async function handleCartCheckout(
         },
       },
       metadata,
-    });
+    };
+    await applyPromotion(sessionParams, priceLines, promotionCode, shippingAddress, accountEmail);
+
+    const session = await createReservedSession(sessionParams, reservationItems, accountEmail);
     
     return NextResponse.json(
       { 
@@ -404,39 +584,21 @@ async function handleCartCheckout(
     );
     
   } catch (error) {
+    if (error instanceof ApiError || error instanceof Stripe.errors.StripeError) throw error;
     console.error('Cart checkout error:', error);
-    
-    const errorMessage = error instanceof Error ? error.message : 'Failed to create checkout session';
-    const errorCode = error instanceof Stripe.errors.StripeError ? error.code : 'CHECKOUT_ERROR';
-    
-    return NextResponse.json(
-      { 
-        error: errorMessage,
-        code: errorCode,
-        details: error instanceof Error ? error.stack : undefined
-      },
-      { status: 500 }
-    );
+    throw new ApiError(500, 'CHECKOUT_ERROR', 'Failed to create checkout session');
   }
 }
 
 /**
  * POST handler for creating Stripe checkout sessions
- * Protected by CSRF validation and rate limiting for security
  */
-async function handleCheckoutSession(request: NextRequest) {
-  // Apply CSRF protection (skip in development for testing)
-  const isTestEnvironment = process.env.NODE_ENV === 'development' && request.headers.get('x-test-mode') === 'true';
-  
-  if (!isTestEnvironment && !validateCSRFForAppRouter(request)) {
-    return NextResponse.json(
-      { 
-        error: 'CSRF validation failed',
-        code: 'CSRF_INVALID'
-      },
-      { status: 403 }
-    );
-  }
+async function handleCheckoutSession({
+  req: request,
+  body,
+  user,
+}: RouteContext<CheckoutSessionBody, Record<string, never>, 'optional'>) {
+  const accountEmail = confirmedEmail(user);
 
   try {
     // Log incoming request for debugging
@@ -449,21 +611,6 @@ async function handleCheckoutSession(request: NextRequest) {
       }
     });
 
-    // Parse request body
-    let body;
-    try {
-      body = await request.json();
-    } catch (parseError) {
-      console.error('Failed to parse request body:', parseError);
-      return NextResponse.json(
-        { 
-          error: 'Invalid JSON in request body',
-          code: 'INVALID_JSON'
-        },
-        { status: 400 }
-      );
-    }
-
     const { 
       quantity, 
       includeDisplayCase, 
@@ -473,6 +620,8 @@ async function handleCheckoutSession(request: NextRequest) {
       uploadId, 
       customImageUrl, 
       cardFinish,
+      dropId,
+      promotionCode,
       cartItems,
       isCartCheckout 
     } = body;
@@ -485,90 +634,40 @@ async function handleCheckoutSession(request: NextRequest) {
       uploadId,
       customImageUrl,
       cardFinish,
+      dropId,
       isCartCheckout,
       cartItemsCount: cartItems?.length,
       hasShippingAddress: !!shippingAddress
     });
 
-    // Validate shipping address
-    if (!shippingAddress || typeof shippingAddress !== 'object') {
-      return NextResponse.json(
-        { 
-          error: 'Shipping address is required',
-          code: 'MISSING_SHIPPING_ADDRESS'
-        },
-        { status: 400 }
-      );
-    }
-
-    const requiredFields = ['email', 'name', 'line1', 'city', 'state', 'postal_code', 'country'];
-    for (const field of requiredFields) {
-      if (!shippingAddress[field] || typeof shippingAddress[field] !== 'string' || shippingAddress[field].trim() === '') {
-        return NextResponse.json(
-          { 
-            error: `Invalid shipping address: ${field} is required`,
-            code: 'INVALID_SHIPPING_ADDRESS'
-          },
-          { status: 400 }
-        );
-      }
-    }
-
     // Check if this is a cart checkout
     if (isCartCheckout && cartItems) {
-      // Validate cart items
-      if (!Array.isArray(cartItems) || cartItems.length === 0) {
-        return NextResponse.json(
-          { 
-            error: 'Cart is empty',
-            code: 'EMPTY_CART'
-          },
-          { status: 400 }
-        );
-      }
-      
-      // Process cart checkout
-      return handleCartCheckout(request, cartItems, shippingAddress);
+      return handleCartCheckout(request, cartItems, shippingAddress, accountEmail, promotionCode);
     }
     
     // Validate custom card requirements for single item checkout
     if (isCustomCard && !uploadId && !customImageUrl) {
-      return NextResponse.json(
-        { 
-          error: 'Upload ID or custom image URL is required for custom cards',
-          code: 'MISSING_UPLOAD_ID'
-        },
-        { status: 400 }
-      );
+      throw new ApiError(400, 'MISSING_UPLOAD_ID', 'Upload ID or custom image URL is required for custom cards');
     }
 
     // Validate quantity input
-    const parsedQuantity = parseInt(quantity, 10);
+    const parsedQuantity = parseQuantity(quantity);
     if (isNaN(parsedQuantity) || parsedQuantity < 1 || parsedQuantity > 100) {
-      return NextResponse.json(
-        { 
-          error: 'Invalid quantity. Must be between 1 and 100.',
-          code: 'INVALID_QUANTITY'
-        },
-        { status: 400 }
-      );
+      throw new ApiError(400, 'INVALID_QUANTITY', 'Invalid quantity. Must be between 1 and 100.');
     }
 
     // Validate display case quantity if included
     let parsedDisplayCaseQuantity = 0;
     if (includeDisplayCase) {
-      parsedDisplayCaseQuantity = parseInt(displayCaseQuantity, 10);
+      parsedDisplayCaseQuantity = parseQuantity(displayCaseQuantity);
       if (isNaN(parsedDisplayCaseQuantity) || parsedDisplayCaseQuantity < 1 || parsedDisplayCaseQuantity > 100) {
-        return NextResponse.json(
-          { 
-            error: 'Invalid display case quantity. Must be between 1 and 100.',
-            code: 'INVALID_DISPLAY_CASE_QUANTITY'
-          },
-          { status: 400 }
-        );
+        throw new ApiError(400, 'INVALID_DISPLAY_CASE_QUANTITY', 'Invalid display case quantity. Must be between 1 and 100.');
       }
     }
 
+    // Limited edition cards are bought from a drop that must be on sale
+    const drop = isCustomCard ? null : await resolveDropForSale(dropId, accountEmail);
+
     // Get the origin for success/cancel URLs
     const origin = request.headers.get('origin') || 'http://localhost:3000';
     
@@ -580,9 +679,13 @@ async function handleCheckoutSession(request: NextRequest) {
     // This ensures we're always calling the same domain the user is on
     const apiBaseUrl = origin;
     
+    const inventoryUnavailable = () =>
+      new ApiError(503, 'INVENTORY_CHECK_FAILED', 'Unable to verify inventory availability');
+
     let inventoryData;
     try {
-      const inventoryResponse = await fetch(`${apiBaseUrl}/api/inventory`, {
+      const query = drop ? `?dropId=${encodeURIComponent(drop.id)}` : '';
+      const inventoryResponse = await fetch(`${apiBaseUrl}/api/inventory${query}`, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
@@ -591,196 +694,64 @@ async function handleCheckoutSession(request: NextRequest) {
 
       if (!inventoryResponse.ok) {
         console.error('Failed to fetch inventory:', inventoryResponse.status);
-        return NextResponse.json(
-          { 
-            error: 'Unable to verify inventory availability',
-            code: 'INVENTORY_CHECK_FAILED'
-          },
-          { status: 503 }
-        );
+        throw inventoryUnavailable();
       }
 
       const inventoryResult = await inventoryResponse.json();
       if (!inventoryResult.success) {
         console.error('Inventory API returned error:', inventoryResult.error);
-        return NextResponse.json(
-          { 
-            error: 'Unable to verify inventory availability',
-            code: 'INVENTORY_CHECK_FAILED'
-          },
-          { status: 503 }
-        );
+        throw inventoryUnavailable();
       }
 
       inventoryData = inventoryResult.data;
     } catch (error) {
+      if (error instanceof ApiError) throw error;
       console.error('Error fetching inventory:', error);
-      return NextResponse.json(
-        { 
-          error: 'Unable to verify inventory availability',
-          code: 'INVENTORY_CHECK_FAILED'
-        },
-        { status: 503 }
-      );
+      throw inventoryUnavailable();
     }
 
     // Skip inventory check for custom cards (made to order)
     if (!isCustomCard && inventoryData.inventory < parsedQuantity) {
-      return NextResponse.json(
-        { 
-          error: inventoryData.inventory <= 0 
-            ? 'Product is currently sold out'
-            : `Only ${inventoryData.inventory} item(s) available`,
-          code: 'INSUFFICIENT_INVENTORY',
-          availableInventory: inventoryData.inventory
-        },
-        { status: 400 }
+      throw new ApiError(
+        400,
+        'INSUFFICIENT_INVENTORY',
+        inventoryData.inventory <= 0
+          ? 'Product is currently sold out'
+          : `Only ${inventoryData.inventory} item(s) available`,
+        { availableInventory: inventoryData.inventory }
       );
     }
 
     // Validate display case inventory if needed
     if (includeDisplayCase && inventoryData.displayCases.inventory < parsedDisplayCaseQuantity) {
-      return NextResponse.json(
-        { 
-          error: inventoryData.displayCases.inventory <= 0 
-            ? 'Display cases are currently sold out'
-            : `Only ${inventoryData.displayCases.inventory} display case(s) available`,
-          code: 'INSUFFICIENT_DISPLAY_CASE_INVENTORY',
-          availableDisplayCaseInventory: inventoryData.displayCases.inventory
-        },
-        { status: 400 }
+      throw new ApiError(
+        400,
+        'INSUFFICIENT_DISPLAY_CASE_INVENTORY',
+        inventoryData.displayCases.inventory <= 0
+          ? 'Display cases are currently sold out'
+          : `Only ${inventoryData.displayCases.inventory} display case(s) available`,
+        { availableDisplayCaseInventory: inventoryData.displayCases.inventory }
       );
     }
 
-    // Calculate pricing based on product type and card finish
-    const productData = isCustomCard ? inventoryData.customCard : inventoryData;
-    const productId = isCustomCard ? inventoryData.customCard.product.id : inventoryData.product.id;
-    
-    // Add card finish pricing for custom cards
-    let cardFinishPricePerCard = 0;
-    if (isCustomCard && (cardFinish === 'rainbow' || cardFinish === 'gloss')) {
-      cardFinishPricePerCard = 4.00; // $4.00 additional for rainbow or gloss finish
-    }
-    
-    const basePricePerUnit = productData.pricePerUnit;
-    const totalPricePerUnit = basePricePerUnit + cardFinishPricePerCard;
-    const pricePerUnitCents = Math.round(totalPricePerUnit * 100); // Convert to cents
+    // Prices come from the server catalogue and drop (lib/pricing)
+    const catalog = await getCatalog();
 
-    // Create or get a price for the product
-    let priceId;
-    try {
-      // Create a price for the product with appropriate description
-      const priceDescription = cardFinish && cardFinish !== 'matte' 
-        ? `Custom Card - ${cardFinish.charAt(0).toUpperCase() + cardFinish.slice(1)} Finish`
-        : 'Custom Card';
-        
-      // For custom cards, we'll use price_data instead of creating a price object
-      // This allows us to show the finish type in the checkout
-      if (isCustomCard) {
-        // We'll use price_data in the session creation instead
-        priceId = null;
-      } else {
-        const price = await stripe.prices.create({
-          currency: 'usd',
-          unit_amount: pricePerUnitCents,
-          product: productId, // Reference the appropriate product
-          nickname: priceDescription,
-          metadata: {
-            cardFinish: cardFinish || 'matte',
-            basePrice: basePricePerUnit.toString(),
-            finishPrice: cardFinishPricePerCard.toString()
-          }
-        });
-        priceId = price.id;
-      }
-    } catch (error) {
-      console.error('Error creating price:', error);
-      return NextResponse.json(
-        { 
-          error: 'Failed to create price for product',
-          code: 'PRICE_CREATION_FAILED',
-          details: error instanceof Error ? error.message : 'Unknown error'
-        },
-        { status: 500 }
-      );
-    }
-
-    // Create display case price if needed
-    let displayCasePriceId;
-    if (includeDisplayCase) {
-      try {
-        const displayCasePricePerUnitCents = Math.round(inventoryData.displayCases.pricePerUnit * 100); // Convert to cents
-        const displayCasePrice = await stripe.prices.create({
-          currency: 'usd',
-          unit_amount: displayCasePricePerUnitCents,
-          product: inventoryData.displayCases.product.id, // Reference the display case product
-        });
-        displayCasePriceId = displayCasePrice.id;
-      } catch (error) {
-        console.error('Error creating display case price:', error);
-        return NextResponse.json(
-          { 
-            error: 'Failed to create price for display case',
-            code: 'DISPLAY_CASE_PRICE_CREATION_FAILED'
-          },
-          { status: 500 }
-        );
-      }
-    }
-
-    // Build line items array with dynamic description
     const lineItems: Array<Stripe.Checkout.SessionCreateParams.LineItem> = [];
-    
+    const priceLines: CartLine[] = [];
     if (isCustomCard) {
-      // Use price_data for custom cards to show finish type
-      const customCardName = cardFinish && cardFinish !== 'matte' 
-        ? `Custom Card - ${cardFinish.charAt(0).toUpperCase() + cardFinish.slice(1)} Finish`
-        : 'Custom Card - Matte Finish';
-        
-      lineItems.push({
-        price_data: {
-          currency: 'usd',
-          unit_amount: pricePerUnitCents,
-          product_data: {
-            name: customCardName,
-            description: `Custom trading card with your uploaded artwork${cardFinish === 'rainbow' ? ' and holographic rainbow finish' : cardFinish === 'gloss' ? ' and high-gloss finish' : ''}. Image: ${customImageUrl}`,
-            metadata: {
-              product_id: productId,
-              card_finish: cardFinish || 'matte',
-              custom_image_url: customImageUrl
-            }
-          }
-        },
-        quantity: parsedQuantity,
-        adjustable_quantity: {
-          enabled: true,
-          minimum: 1,
-          maximum: 100
-        }
-      });
-    } else {
-      // Use regular price ID for non-custom products
-      lineItems.push({
-        price: priceId,
-        quantity: parsedQuantity,
-        adjustable_quantity: {
-          enabled: true,
-          minimum: 1,
-          maximum: 100
-        }
-      });
+      lineItems.push(customCardLineItem(catalog, cardFinish, parsedQuantity, customImageUrl));
+      priceLines.push(customCardLine(catalog.priceList, cardFinish, parsedQuantity));
+    } else if (drop) {
+      lineItems.push(dropLineItem(drop, parsedQuantity, origin));
+      priceLines.push(limitedEditionLine(drop, parsedQuantity));
     }
 
-    // Add display case line item if included
-    if (includeDisplayCase && displayCasePriceId) {
-      lineItems.push({
-        price: displayCasePriceId,
-        quantity: parsedDisplayCaseQuantity,
-      });
+    if (includeDisplayCase) {
+      lineItems.push(displayCaseLineItem(catalog, parsedDisplayCaseQuantity));
+      priceLines.push(displayCaseLine(catalog.priceList, parsedDisplayCaseQuantity));
     }
 
-    // Get the appropriate shipping option for the customer's country
-    const shippingOption = getShippingOptionForCountry(shippingAddress.country);
 
     // Create or update customer with shipping details
     let customerId: string | undefined;
@@ -812,9 +783,15 @@ async function handleCheckoutSession(request: NextRequest) {
 
     console.log('📦 Creating checkout session with line items:', JSON.stringify(lineItems, null, 2));
 
+    // Limited edition cards and display cases are held until the session completes or expires
+    const reservationItems: ReservationItem[] = [
+      ...(drop ? [{ sku: drop.sku, quantity: parsedQuantity, perCustomerLimit: drop.perCustomerLimit }] : []),
+      { sku: InventorySkus.displayCase, quantity: includeDisplayCase ? parsedDisplayCaseQuantity : 0 },
+    ];
+
     // Create Stripe checkout session
-const session = await stripe.checkout.sessions.retrieve(sessionId, {
-        payment_method_types: ['card', 'crypto'],
+    const sessionParams: Stripe.Checkout.SessionCreateParams = {
+      payment_method_types: ['card', 'crypto'],
       line_items: lineItems,
       mode: 'payment',
       success_url: `${origin}/success?session_id={CHECKOUT_SESSION_ID}`,
@@ -826,22 +803,17 @@ const session = await stripe.checkout.sessions.retrieve(sessionId, {
         payment_intent_data: {
           statement_descriptor: 'CARDIFY CUSTOM',
           metadata: {
-            custom_image_url: customImageUrl,
+            custom_image_url: customImageUrl ?? '',
             card_finish: cardFinish || 'matte'
           }
         }
       }),
       // Let Stripe collect the shipping address and validate it
       shipping_address_collection: {
-        allowed_countries: ['US', 'CA', 'MX', 'GB', 'DE', 'FR', 'IT', 'ES', 'NL', 'BE', 
-                            'AT', 'CH', 'SE', 'NO', 'DK', 'FI', 'IE', 'PT', 'PL', 'CZ', 
-                            'HU', 'RO', 'BG', 'HR', 'SI', 'SK', 'LT', 'LV', 'EE', 'GR', 
-                            'CY', 'MT', 'LU', 'AU', 'NZ', 'JP', 'SG', 'HK', 'KR', 'TW', 
-                            'MY', 'TH', 'PH', 'ID', 'VN', 'IN', 'AE', 'SA', 'IL', 'TR', 
-                            'ZA', 'BR', 'AR', 'CL', 'PE', 'CO'],
+        allowed_countries: ALLOWED_COUNTRIES,
       },
-      // Only show the single appropriate shipping option
-      shipping_options: [shippingOption],
+      // Standard, tracked and express for the destination
+      shipping_options: getShippingOptions(shippingAddress.country, priceLines),
       allow_promotion_codes: true,
       // Note: Consent collection requires Dashboard configuration
       // Go to Stripe Dashboard → Settings → Checkout settings and enable:
@@ -868,14 +840,18 @@ const session = await stripe.checkout.sessions.retrieve(sessionId, {
         shippingCountry: shippingAddress.country,
         timestamp: new Date().toISOString(),
         isCustomCard: isCustomCard?.toString() || 'false',
+        ...(drop && { dropId: drop.id }),
         ...(uploadId && { uploadId }),
         ...(customImageUrl && { customImageUrl }),
         ...(cardFinish && { cardFinish }),
       },
-    });
+    };
+    await applyPromotion(sessionParams, priceLines, promotionCode, shippingAddress, accountEmail);
 
-    // Note: Inventory will be decremented after successful payment via webhook
-    // This prevents inventory reduction for abandoned checkouts
+    const session = await createReservedSession(sessionParams, reservationItems, accountEmail);
+
+    // Note: Reserved inventory is committed after successful payment via webhook
+    // and released by checkout.session.expired for abandoned checkouts
 
     // Return session information
     return NextResponse.json(
@@ -893,36 +869,30 @@ const session = await stripe.checkout.sessions.retrieve(sessionId, {
     );
 
   } catch (error: unknown) {
+    // Stripe errors map to STRIPE_ERROR in defineRoute
+    if (error instanceof ApiError || error instanceof Stripe.errors.StripeError) throw error;
     console.error('Error creating checkout session:', error);
-    
-    // Handle specific Stripe errors
-    if (error instanceof Stripe.errors.StripeError) {
-      return NextResponse.json(
-        { 
-          error: 'Payment processing error',
-          code: 'STRIPE_ERROR',
-          details: error.message
-        },
-        { status: 500 }
-      );
-    }
-
-    // Generic error response
-    return NextResponse.json(
-      { 
-        error: 'Failed to create checkout session',
-        code: 'SESSION_CREATION_FAILED'
-      },
-      { status: 500 }
-    );
+    throw new ApiError(500, 'SESSION_CREATION_FAILED', 'Failed to create checkout session');
   }
 }
 
 /**
- * Export the POST handler with rate limiting applied
- * Using checkout configuration: 20 requests per 5 minutes per IP
+ * CSRF protected, rate limited with the checkout budget (20 per 5 minutes)
  */
-export const POST = withRateLimit(handleCheckoutSession, RateLimitConfigs.checkout);
+export const POST = defineRoute({
+  auth: 'optional',
+  csrf: true,
+  rateLimit: RateLimitConfigs.checkout,
+  body: CheckoutSessionBody,
+  bodyErrorCodes: {
+    shippingAddress: 'INVALID_SHIPPING_ADDRESS',
+    cartItems: 'EMPTY_CART',
+    quantity: 'INVALID_QUANTITY',
+    displayCaseQuantity: 'INVALID_DISPLAY_CASE_QUANTITY',
+    promotionCode: 'INVALID_PROMO_CODE',
+  },
+  handler: handleCheckoutSession,
+});
 
 /**
  * Handle other HTTP methods
@@ -1,9 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
-import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
-import { cookies } from 'next/headers'
+import { z } from 'zod'
 import type Stripe from 'stripe'
-import { getStripeServer } from '@/lib/stripe'
+import { defineRoute, ApiError } from '@/lib/api-route'
+import { RateLimitConfigs } from '@/lib/rate-limiter'
+import {
+  createMarketPaymentIntent,
+  MARKET_PAYMENT_ERROR_STATUS,
+  MarketPaymentError,
+  marketPaymentTerms,
+  retrieveMarketPaymentIntent,
+} from '@/lib/marketplace-payments'
+import { OfferError, offerCheckout, OFFER_ERROR_STATUS } from '@/lib/offers'
 
 export const dynamic = 'force-dynamic'
 
@@ -13,110 +21,110 @@ const admin = createClient(
   process.env.SUPABASE_SERVICE_KEY!
 )
 
-const stripe = getStripeServer('market')
-const PLATFORM_FEE_PERCENT = 5
+const PaymentIntentBody = z.object({
+  listingId: z.string().min(1, 'Missing listingId'),
+})
 
-export async function POST(req: NextRequest) {
-  const { listingId } = await req.json()
-  if (!listingId) {
-    return NextResponse.json({ error: 'Missing listingId' }, { status: 400 })
+function toApiError(error: unknown): unknown {
+  if (error instanceof OfferError) {
+    return new ApiError(OFFER_ERROR_STATUS[error.code], error.code, error.message)
   }
-
-  // IMPORTANT: pass the *function* `cookies` to the helper, not a resolved store
-  const supabase = createRouteHandlerClient({ cookies })
-  const { data: { user } } = await supabase.auth.getUser()
-  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-
-  // Get listing
-  const { data: listing, error: listErr } = await admin
-    .from('mkt_listings')
-    .select('id, price_cents, currency, status, is_active, seller_id')
-    .eq('id', listingId)
-    .single()
-
-  if (listErr || !listing || !(listing.status === 'listed' && listing.is_active)) {
-    return NextResponse.json({ error: 'Listing unavailable' }, { status: 409 })
+  if (error instanceof MarketPaymentError) {
+    return new ApiError(MARKET_PAYMENT_ERROR_STATUS[error.code], error.code, error.message)
   }
+  return error
+}
 
-  // Get seller (can be null – add guard)
-  const { data: seller, error: sellerErr } = await admin
-    .from('mkt_profiles')
-    .select('stripe_account_id, is_admin, stripe_verified')
-    .eq('id', listing.seller_id)
-    .maybeSingle()
+export const POST = defineRoute({
+  auth: 'required',
+  csrf: true,
+  rateLimit: RateLimitConfigs.checkout,
+  body: PaymentIntentBody,
+  bodyErrorCodes: { listingId: 'MISSING_LISTING_ID' },
+  handler: async ({ body: { listingId }, user }) => {
+    // Get listing
+    const { data: listing, error: listErr } = await admin
+      .from('mkt_listings')
+      .select('id, price_cents, currency, status, is_active, seller_id')
+      .eq('id', listingId)
+      .single()
 
-  if (sellerErr) {
-    return NextResponse.json({ error: 'Seller lookup failed' }, { status: 500 })
-  }
-  if (!seller) {
-    return NextResponse.json({ error: 'Seller profile missing' }, { status: 500 })
-  }
+    if (listErr || !listing || !(listing.status === 'listed' && listing.is_active)) {
+      throw new ApiError(409, 'LISTING_UNAVAILABLE', 'Listing unavailable')
+    }
 
-  const stripeAcct = seller.is_admin ? undefined : (seller.stripe_account_id ?? null)
-  if (!seller.is_admin && (!stripeAcct || seller.stripe_verified !== true)) {
-    return NextResponse.json({ error: 'Seller not connected/verified with Stripe' }, { status: 400 })
-  }
+    try {
+      // A listing held for an accepted offer is paid at the offer amount,
+      // with the intent created on acceptance, and only by that buyer
+      const held = await offerCheckout(listing.id, user.id)
+      if (held) {
+        if (held.intent.status === 'canceled') {
+          throw new ApiError(409, 'OFFER_EXPIRED', 'Your accepted offer has lapsed')
+        }
+        return NextResponse.json({
+          clientSecret   : held.intent.client_secret,
+          paymentIntentId: held.intent.id,
+          stripeAccount  : held.stripeAccount,
+        })
+      }
 
-  const cents = listing.price_cents
-  const fee   = stripeAcct ? Math.round(cents * PLATFORM_FEE_PERCENT / 100) : undefined
+      const cents = listing.price_cents
+      const currency = listing.currency || 'USD'
+      const terms = await marketPaymentTerms(listing.seller_id, cents)
+      const stripeAcct = terms.stripeAccount
 
-  // Reuse pending tx if exists
-  const { data: open } = await admin
-    .from('mkt_transactions')
-    .select('id, stripe_payment_id')
-    .eq('listing_id', listing.id)
-    .eq('buyer_id', user.id)
-    .eq('status', 'pending')
-    .maybeSingle()
+      // Reuse pending tx if exists
+      const { data: open } = await admin
+        .from('mkt_transactions')
+        .select('id, stripe_payment_id')
+        .eq('listing_id', listing.id)
+        .eq('buyer_id', user.id)
+        .eq('status', 'pending')
+        .maybeSingle()
 
-  const makePI = async (): Promise<Stripe.PaymentIntent> =>
-    stripe.paymentIntents.create(
-      {
-        amount: cents,
-        currency: (listing.currency || 'USD').toLowerCase(),
-        application_fee_amount: fee,              // auto-ignored when undefined
-        metadata: {
-          mkt_listing_id: listing.id,
-          mkt_buyer_id:   user.id,
-          mkt_seller_id:  listing.seller_id,
-        },
-      },
-      stripeAcct ? { stripeAccount: stripeAcct } : undefined
-    )
+      const makePI = (): Promise<Stripe.PaymentIntent> =>
+        createMarketPaymentIntent(
+          { listingId: listing.id, buyerId: user.id, sellerId: listing.seller_id, amountCents: cents, currency },
+          terms
+        )
 
-  let intent: Stripe.PaymentIntent
-  if (open?.stripe_payment_id) {
-    intent = await stripe.paymentIntents.retrieve(
-      open.stripe_payment_id,
-      stripeAcct ? { stripeAccount: stripeAcct } : undefined
-    )
-    if (intent.status !== 'requires_payment_method') {
-      intent = await makePI()
-      await admin.from('mkt_transactions').update({
-        stripe_payment_id : intent.id,
-        seller_acct       : stripeAcct ?? null,
-        platform_fee_cents: fee ?? 0,
-        amount_cents      : cents,
-        currency          : (listing.currency || 'USD').toUpperCase(),
-      }).eq('id', open.id)
-    }
-  } else {
-    intent = await makePI()
-    await admin.from('mkt_transactions').insert({
-      buyer_id          : user.id,
-      listing_id        : listing.id,
-      amount_cents      : cents,
-      currency          : (listing.currency || 'USD').toUpperCase(),
-      stripe_payment_id : intent.id,
-      status            : 'pending',
-      seller_acct       : stripeAcct ?? null,
-      platform_fee_cents: fee ?? 0,
-    })
-  }
+      let intent: Stripe.PaymentIntent
+      if (open?.stripe_payment_id) {
+        intent = await retrieveMarketPaymentIntent(open.stripe_payment_id, stripeAcct)
+        // sellers can reprice a listing and lapsed offers leave an intent for
+        // their amount, so an intent for another price is replaced too
+        if (intent.status !== 'requires_payment_method' || intent.amount !== cents) {
+          intent = await makePI()
+          await admin.from('mkt_transactions').update({
+            stripe_payment_id : intent.id,
+            seller_acct       : stripeAcct,
+            platform_fee_cents: terms.feeCents ?? 0,
+            amount_cents      : cents,
+            currency          : currency.toUpperCase(),
+            offer_id          : null,
+          }).eq('id', open.id)
+        }
+      } else {
+        intent = await makePI()
+        await admin.from('mkt_transactions').insert({
+          buyer_id          : user.id,
+          listing_id        : listing.id,
+          amount_cents      : cents,
+          currency          : currency.toUpperCase(),
+          stripe_payment_id : intent.id,
+          status            : 'pending',
+          seller_acct       : stripeAcct,
+          platform_fee_cents: terms.feeCents ?? 0,
+        })
+      }
 
-  return NextResponse.json({
-    clientSecret   : intent.client_secret,
-    paymentIntentId: intent.id,
-    stripeAccount  : stripeAcct ?? null,
-  })
-}
+      return NextResponse.json({
+        clientSecret   : intent.client_secret,
+        paymentIntentId: intent.id,
+        stripeAccount  : stripeAcct,
+      })
+    } catch (error) {
+      throw toApiError(error)
+    }
+  },
+})
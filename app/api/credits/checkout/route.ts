@@ -1,16 +1,15 @@
 // app/api/credits/checkout/route.ts
-import { NextRequest, NextResponse } from "next/server"
-import { cookies } from "next/headers"
-import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
+import { NextResponse } from "next/server"
+import { z } from "zod"
 import { getStripeServer } from "@/lib/stripe"
+import { defineRoute, ApiError } from "@/lib/api-route"
+import { RateLimitConfigs } from "@/lib/rate-limiter"
+import { getCreditPack } from "@/lib/credit-packs"
 
 export const dynamic = "force-dynamic"
 
 const stripe = getStripeServer("market")
 
-const CREDITS_PER_USD = 4
-const ALLOWED_PACKS = [20, 40, 60] as const
-
 function siteUrl(path = "") {
   const base =
     process.env.NEXT_PUBLIC_SITE_URL ||
@@ -19,22 +18,31 @@ function siteUrl(path = "") {
   return `${base}${path}`
 }
 
-export async function POST(req: NextRequest) {
-  try {
-    const supabase = createRouteHandlerClient({ cookies })
-    const {
-      data: { user },
-    } = await supabase.auth.getUser()
-    if (!user) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 })
-    }
+const CheckoutBody = z.object({
+  packId: z.string().min(1, "Invalid pack"),
+})
 
-    const { usd } = await req.json().catch(() => ({}))
-    if (!ALLOWED_PACKS.includes(usd)) {
-      return NextResponse.json({ error: "Invalid pack" }, { status: 400 })
+export const POST = defineRoute({
+  auth: "required",
+  csrf: true,
+  rateLimit: RateLimitConfigs.checkout,
+  body: CheckoutBody,
+  bodyErrorCodes: { packId: "INVALID_PACK" },
+  handler: async ({ body: { packId }, user }) => {
+    const pack = await getCreditPack(packId)
+    if (!pack) {
+      throw new ApiError(400, "INVALID_PACK", "That credit pack is not available")
     }
 
-    const credits = usd * CREDITS_PER_USD
+    // Base and bonus are recorded separately; the webhook grants both
+    const metadata = {
+      kind: "credits_purchase",
+      userId: user.id,
+      packId: pack.id,
+      credits: String(pack.baseCredits),
+      bonusCredits: String(pack.bonusCredits),
+      usd: String(pack.usd),
+    }
 
     const session = await stripe.checkout.sessions.create({
       mode: "payment",
@@ -49,10 +57,12 @@ export async function POST(req: NextRequest) {
         {
           price_data: {
             currency: "usd",
-            unit_amount: usd * 100,
+            unit_amount: pack.usd * 100,
             product_data: {
-              name: `${credits} Image Credits`,
-              description: `$${usd} credit pack (${credits} images)`,
+              name: `${pack.credits} Image Credits`,
+              description: pack.bonusCredits > 0
+                ? `$${pack.usd} credit pack (${pack.baseCredits} images + ${pack.bonusCredits} bonus)`
+                : `$${pack.usd} credit pack (${pack.credits} images)`,
             },
           },
           quantity: 1,
@@ -60,22 +70,12 @@ export async function POST(req: NextRequest) {
       ],
 
       // Session-level metadata (used by checkout.session.completed)
-      metadata: {
-        kind: "credits_purchase",
-        userId: user.id,
-        credits: String(credits),
-        usd: String(usd),
-      },
+      metadata,
 
       // ⭐ Also put the same metadata on the PaymentIntent
       // so payment_intent.succeeded can grant credits too.
       payment_intent_data: {
-        metadata: {
-          kind: "credits_purchase",
-          userId: user.id,
-          credits: String(credits),
-          usd: String(usd),
-        },
+        metadata,
       },
 
       // Optional: helps correlation on your side
@@ -83,7 +83,5 @@ export async function POST(req: NextRequest) {
     })
 
     return NextResponse.json({ url: session.url }, { status: 200 })
-  } catch (err: any) {
-    return NextResponse.json({ error: err?.message || "Checkout error" }, { status: 500 })
-  }
-}
+  },
+})
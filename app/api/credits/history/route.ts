@@ -0,0 +1,96 @@
+// app/api/credits/history/route.ts
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { defineRoute, ApiError } from "@/lib/api-route"
+import { RateLimitConfigs } from "@/lib/rate-limiter"
+import {
+  listLedgerEntries,
+  InvalidHistoryCursorError,
+  LEDGER_REASONS,
+  LedgerHistoryEntry,
+  LedgerHistoryQuery,
+  LedgerReason,
+} from "@/lib/credits-ledger"
+
+export const dynamic = "force-dynamic"
+
+// CSV export walks pages server-side up to this many rows
+const MAX_EXPORT_ROWS = 5000
+
+const HistoryQuery = z.object({
+  type: z
+    .string()
+    .optional()
+    .transform(value => (value ? value.split(",") : []))
+    .pipe(z.array(z.enum(LEDGER_REASONS as [LedgerReason, ...LedgerReason[]]))),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  format: z.enum(["json", "csv"]).default("json"),
+})
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(entries: LedgerHistoryEntry[]): string {
+  const header = ["date", "type", "credits", "balance_after", "payment_intent", "amount_usd", "image_url"]
+  const rows = entries.map(entry => [
+    entry.createdAt,
+    entry.reason,
+    entry.credits,
+    entry.balanceAfter,
+    entry.paymentIntent,
+    entry.amountCents === null ? null : (entry.amountCents / 100).toFixed(2),
+    entry.upload?.imageUrl,
+  ])
+  return [header, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n"
+}
+
+/**
+ * GET - the signed-in user's credit history, newest first
+ * ?type=purchase,spend&from=&to=&cursor=&limit= ; ?format=csv downloads every matching row
+ */
+export const GET = defineRoute({
+  auth: "required",
+  rateLimit: RateLimitConfigs.relaxed,
+  handler: async ({ req, user }) => {
+    const parsed = HistoryQuery.safeParse(Object.fromEntries(req.nextUrl.searchParams))
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
+      throw new ApiError(400, "INVALID_QUERY", `Invalid ${issue.path.join(".") || "query"}: ${issue.message}`)
+    }
+
+    const { type, from, to, cursor, limit, format } = parsed.data
+    const query: LedgerHistoryQuery = { reasons: type, from, to, cursor, limit }
+
+    try {
+      if (format === "csv") {
+        const entries: LedgerHistoryEntry[] = []
+        let next: string | null = null
+        do {
+          const page = await listLedgerEntries(user.id, { ...query, cursor: next, limit: 100 })
+          entries.push(...page.entries)
+          next = page.nextCursor
+        } while (next && entries.length < MAX_EXPORT_ROWS)
+
+        return new NextResponse(toCsv(entries.slice(0, MAX_EXPORT_ROWS)), {
+          headers: {
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition": `attachment; filename="credit-history-${new Date().toISOString().slice(0, 10)}.csv"`,
+          },
+        })
+      }
+
+      const page = await listLedgerEntries(user.id, query)
+      return NextResponse.json({ success: true, ...page })
+    } catch (error) {
+      if (error instanceof InvalidHistoryCursorError) {
+        throw new ApiError(400, "INVALID_CURSOR", error.message)
+      }
+      throw error
+    }
+  },
+})
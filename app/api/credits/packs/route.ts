@@ -0,0 +1,18 @@
+// app/api/credits/packs/route.ts
+import { NextResponse } from "next/server"
+import { defineRoute } from "@/lib/api-route"
+import { RateLimitConfigs } from "@/lib/rate-limiter"
+import { listCreditPacks } from "@/lib/credit-packs"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET - credit packs currently on sale (the /credits page renders from this)
+ */
+export const GET = defineRoute({
+  rateLimit: RateLimitConfigs.relaxed,
+  handler: async () => {
+    const packs = await listCreditPacks()
+    return NextResponse.json({ success: true, packs })
+  },
+})
@@ -0,0 +1,33 @@
+// app/api/credits/redeem/route.ts
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { defineRoute, ApiError } from "@/lib/api-route"
+import { RateLimitConfigs } from "@/lib/rate-limiter"
+import { redeemPromoCode, PromoCodeError } from "@/lib/credit-packs"
+
+const RedeemBody = z.object({
+  code: z.string().trim().min(1, "Promo code is required").max(64),
+})
+
+/**
+ * POST - redeem a promo code for free credits
+ * Strict rate limit: codes are guessable by brute force otherwise
+ */
+export const POST = defineRoute({
+  auth: "required",
+  csrf: true,
+  rateLimit: RateLimitConfigs.strict,
+  body: RedeemBody,
+  bodyErrorCodes: { code: "INVALID_PROMO_CODE" },
+  handler: async ({ body: { code }, user }) => {
+    try {
+      const { credits, balance } = await redeemPromoCode(user.id, code)
+      return NextResponse.json({ success: true, credits, balance })
+    } catch (error) {
+      if (error instanceof PromoCodeError) {
+        throw new ApiError(error.code === "PROMO_ALREADY_REDEEMED" ? 409 : 400, error.code, error.message)
+      }
+      throw error
+    }
+  },
+})
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { defineRoute, ApiError } from '@/lib/api-route'
+import { expireOffers } from '@/lib/offers'
+import { safeEqual } from '@/lib/signing'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET - expire lapsed offers and release listings held for unpaid ones
+ * Called by the scheduler with `Authorization: Bearer $CRON_SECRET`.
+ * Lapsed offers and holds already stop counting; this records them and
+ * cancels the held PaymentIntents.
+ */
+export const GET = defineRoute({
+  handler: async ({ req, correlationId }) => {
+    const secret = process.env.CRON_SECRET
+    const authorization = req.headers.get('authorization') ?? ''
+    if (!secret || !safeEqual(authorization, `Bearer ${secret}`)) {
+      throw new ApiError(401, 'UNAUTHORIZED', 'Not authorized')
+    }
+
+    const released = await expireOffers()
+
+    if (released.length > 0) {
+      console.log(`[${correlationId}] Released listings held for unpaid offers:`, released)
+    }
+
+    return NextResponse.json({
+      success: true,
+      released,
+    })
+  },
+})
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { defineRoute, ApiError } from '@/lib/api-route'
+import { runFulfilmentJobs } from '@/lib/fulfilment'
+import { safeEqual } from '@/lib/signing'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET - run due fulfilment jobs (Easyship shipments for paid orders)
+ * Called by the scheduler with `Authorization: Bearer $CRON_SECRET`.
+ * Picks up jobs whose first attempt in the webhook failed, once their
+ * backoff has passed. `?limit=` caps the jobs run per call (default 10).
+ */
+export const GET = defineRoute({
+  handler: async ({ req, correlationId }) => {
+    const secret = process.env.CRON_SECRET
+    const authorization = req.headers.get('authorization') ?? ''
+    if (!secret || !safeEqual(authorization, `Bearer ${secret}`)) {
+      throw new ApiError(401, 'UNAUTHORIZED', 'Not authorized')
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.nextUrl.searchParams.get('limit') ?? '10', 10) || 10, 1), 50)
+    const results = await runFulfilmentJobs({ limit })
+
+    const failed = results.filter(result => result.status === 'failed')
+    if (failed.length > 0) {
+      console.error(`[${correlationId}] Fulfilment jobs failed and need attention:`, failed)
+    }
+
+    return NextResponse.json({
+      success: true,
+      processed: results.length,
+      results,
+    })
+  },
+})
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { defineRoute, ApiError } from '@/lib/api-route'
+import { reconcileCredits } from '@/lib/credits-ledger'
+import { safeEqual } from '@/lib/signing'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET - recompute credit balances from the ledger and report drift
+ * Called by the scheduler with `Authorization: Bearer $CRON_SECRET`.
+ * `?fix=true` rewrites drifted balances from the ledger.
+ */
+export const GET = defineRoute({
+  handler: async ({ req, correlationId }) => {
+    const secret = process.env.CRON_SECRET
+    const authorization = req.headers.get('authorization') ?? ''
+    if (!secret || !safeEqual(authorization, `Bearer ${secret}`)) {
+      throw new ApiError(401, 'UNAUTHORIZED', 'Not authorized')
+    }
+
+    const fix = req.nextUrl.searchParams.get('fix') === 'true'
+    const drift = await reconcileCredits({ fix })
+
+    if (drift.length > 0) {
+      console.warn(`[${correlationId}] Credit balance drift for ${drift.length} user(s)${fix ? ' (fixed)' : ''}:`, drift)
+    }
+
+    return NextResponse.json({
+      success: true,
+      fixed: fix,
+      driftCount: drift.length,
+      drift,
+    })
+  },
+})
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { defineRoute, ApiError } from '@/lib/api-route'
+import { releaseExpiredReservations } from '@/lib/inventory'
+import { safeEqual } from '@/lib/signing'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET - release checkout holds past their expiry
+ * Called by the scheduler with `Authorization: Bearer $CRON_SECRET`.
+ * Expired holds already stop counting against stock; this returns them to
+ * inventory.reserved when checkout.session.expired never arrived.
+ */
+export const GET = defineRoute({
+  handler: async ({ req, correlationId }) => {
+    const secret = process.env.CRON_SECRET
+    const authorization = req.headers.get('authorization') ?? ''
+    if (!secret || !safeEqual(authorization, `Bearer ${secret}`)) {
+      throw new ApiError(401, 'UNAUTHORIZED', 'Not authorized')
+    }
+
+    const released = await releaseExpiredReservations()
+
+    if (released.length > 0) {
+      console.log(`[${correlationId}] Released expired inventory holds:`, released)
+    }
+
+    return NextResponse.json({
+      success: true,
+      released,
+    })
+  },
+})
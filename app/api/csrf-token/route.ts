@@ -1,38 +1,29 @@
-import { NextResponse } from 'next/server';
-import { generateCsrfToken, CSRF_CONFIG } from '@/lib/csrf';
+import { NextRequest, NextResponse } from 'next/server';
+import { issueCsrfToken, setCsrfCookies, CSRF_CONFIG } from '@/lib/csrf';
 import { withRateLimit, RateLimitConfigs } from '@/lib/rate-limiter';
 
 /**
  * GET handler for CSRF token endpoint
- * Generates a new CSRF token and sets it as a secure cookie
- * Returns the token to be used in request headers
+ * Issues a signed token bound to the caller's session (and user, if signed in),
+ * sets it as a secure cookie and returns it to be used in request headers
  */
-async function handleGetCsrfToken() {
+async function handleGetCsrfToken(request: NextRequest) {
   try {
     // Generate a new CSRF token
-    const token = generateCsrfToken();
-    
-    // Prepare cookie options for App Router
-    const cookieOptions = [
-      `${CSRF_CONFIG.COOKIE_NAME}=${token}`,
-      'HttpOnly',
-      `Path=/`,
-      `Max-Age=${CSRF_CONFIG.MAX_AGE}`,
-      `SameSite=Strict`,
-      process.env.NODE_ENV === 'production' ? 'Secure' : ''
-    ].filter(Boolean).join('; ');
+    const issued = await issueCsrfToken(request);
     
     // Create response with CSRF token
     const response = NextResponse.json(
       { 
-        csrfToken: token,
+        csrfToken: issued.token,
+        expiresIn: CSRF_CONFIG.MAX_AGE,
         message: 'CSRF token generated successfully' 
       },
       { status: 200 }
     );
     
-    // Set the cookie header
-    response.headers.set('Set-Cookie', cookieOptions);
+    // Set the session and token cookies
+    setCsrfCookies(response, issued);
     
     return response;
   } catch (error) {
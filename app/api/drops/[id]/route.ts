@@ -0,0 +1,21 @@
+// app/api/drops/[id]/route.ts
+import { NextResponse } from "next/server"
+import { defineRoute, ApiError } from "@/lib/api-route"
+import { RateLimitConfigs } from "@/lib/rate-limiter"
+import { getDropWithAvailability } from "@/lib/drops"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET - one drop with its price tiers, sale window, limit and stock
+ */
+export const GET = defineRoute<undefined, { id: string }>({
+  rateLimit: RateLimitConfigs.relaxed,
+  handler: async ({ params: { id } }) => {
+    const drop = await getDropWithAvailability(id)
+    if (!drop) {
+      throw new ApiError(404, "DROP_NOT_FOUND", "Drop not found")
+    }
+    return NextResponse.json({ success: true, drop })
+  },
+})
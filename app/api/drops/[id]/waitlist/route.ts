@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { defineRoute, ApiError } from "@/lib/api-route"
+import { RateLimitConfigs } from "@/lib/rate-limiter"
+import { confirmedEmail } from "@/lib/get-request-user"
+import { earlyAccessEndsAt, getDrop, joinWaitlist } from "@/lib/drops"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * POST - join a scheduled drop's waitlist before it opens, as the signed-in
+ * user's confirmed email. Checkout grants early access to that account only.
+ */
+export const POST = defineRoute<undefined, { id: string }, "required">({
+  auth: "required",
+  csrf: true,
+  rateLimit: RateLimitConfigs.strict,
+  handler: async ({ params: { id }, user }) => {
+    const email = confirmedEmail(user)
+    if (!email) {
+      throw new ApiError(403, "EMAIL_NOT_CONFIRMED", "Confirm your email address to join the waitlist")
+    }
+
+    const drop = await getDrop(id)
+    if (!drop) {
+      throw new ApiError(404, "DROP_NOT_FOUND", "Drop not found")
+    }
+    if (!drop.startsAt || new Date(drop.startsAt) <= new Date()) {
+      throw new ApiError(409, "WAITLIST_CLOSED", "This drop is no longer taking waitlist signups")
+    }
+
+    const joined = await joinWaitlist(drop.id, email)
+
+    return NextResponse.json({
+      success: true,
+      joined,
+      email,
+      startsAt: drop.startsAt,
+      earlyAccessEndsAt: earlyAccessEndsAt(drop)?.toISOString() ?? null,
+    })
+  },
+})
@@ -0,0 +1,18 @@
+// app/api/drops/route.ts
+import { NextResponse } from "next/server"
+import { defineRoute } from "@/lib/api-route"
+import { RateLimitConfigs } from "@/lib/rate-limiter"
+import { listDrops } from "@/lib/drops"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET - active drops with status (upcoming / live / sold_out / ended) and stock
+ */
+export const GET = defineRoute({
+  rateLimit: RateLimitConfigs.relaxed,
+  handler: async () => {
+    const drops = await listDrops()
+    return NextResponse.json({ success: true, drops })
+  },
+})
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { defineRoute, ApiError } from '@/lib/api-route'
+import { RateLimitConfigs } from '@/lib/rate-limiter'
+import { getGuestIdentity, getRemaining, setGuestDeviceCookie } from '@/lib/guest-quota-server'
+
+/**
+ * GET - free creations the current guest has left. They are used by guest
+ * uploads (POST /api/upload) once stored.
+ */
+export const GET = defineRoute({
+  rateLimit: RateLimitConfigs.relaxed,
+  handler: async ({ req, correlationId }) => {
+    const identity = getGuestIdentity(req)
+
+    const quota = await getRemaining(identity).catch(error => {
+      console.error(`[${correlationId}] Guest quota lookup failed:`, error)
+      throw new ApiError(503, 'GUEST_QUOTA_UNAVAILABLE', 'Unable to check free creations')
+    })
+
+    const response = NextResponse.json({ success: true, ...quota })
+    setGuestDeviceCookie(response, identity)
+    return response
+  },
+})
@@ -1,171 +1,94 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getStripeServer } from '@/lib/stripe';
-import crypto from 'crypto';
-
-    const stripe = getStripeServer('platform'); // or 'market'
-
-
-// Configuration constants
-const PRODUCT_CONFIG = {
-  LIMITED_EDITION_PRODUCT_ID: 'prod_limited_edition_card',
-  DEFAULT_INVENTORY: 472,
-  PRICE_PER_UNIT: 4900, // $49.00 in cents
-  DISPLAY_CASE_PRODUCT_ID: 'prod_acrylic_display_case',
-  DISPLAY_CASE_DEFAULT_INVENTORY: 5000,
-  DISPLAY_CASE_PRICE_PER_UNIT: 1900, // $19.00 in cents
-  CUSTOM_CARD_PRODUCT_ID: 'prod_custom_card',
-  CUSTOM_CARD_PRICE_PER_UNIT: 900, // $9.00 in cents
-} as const;
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { defineRoute, ApiError, RouteContext } from '@/lib/api-route';
+import {
+  adjustInventory,
+  getInventoryLevels,
+  InsufficientInventoryError,
+  InventorySkus,
+  setInventory,
+} from '@/lib/inventory';
+import { DEFAULT_DROP_ID, Drop, dropStatus, earlyAccessEndsAt, getDrop, setDropPrice } from '@/lib/drops';
+import { getCatalog } from '@/lib/catalog';
+import { tierTable } from '@/lib/pricing';
+import { isAdmin } from '@/lib/admin';
+
+// Stock lives in the inventory table (lib/inventory.ts), limited edition
+// cards are priced per drop (lib/drops.ts) and the remaining products come
+// from the catalogue (lib/catalog.ts). Prices are computed by lib/pricing.ts,
+// the same engine checkout charges with.
+
+const UpdateInventoryBody = z.object({
+  dropId: z.string().optional(),
+  inventory: z.number().int('Invalid inventory value').min(0, 'Invalid inventory value'),
+  pricePerUnit: z.number().positive('Invalid price per unit').optional(),
+});
+
+const DecrementInventoryBody = z.object({
+  dropId: z.string().optional(),
+  decrementBy: z.number().int('Invalid decrement value').positive('Invalid decrement value'),
+});
+
+async function resolveDrop(dropId: string | null | undefined): Promise<Drop> {
+  const drop = await getDrop(dropId || DEFAULT_DROP_ID);
+  if (!drop) {
+    throw new ApiError(404, 'DROP_NOT_FOUND', 'Drop not found');
+  }
+  return drop;
+}
 
+// Stock and drop prices are set by hand, so writes need an admin account
+async function requireAdmin(userId: string): Promise<void> {
+  if (!(await isAdmin(userId))) {
+    throw new ApiError(403, 'FORBIDDEN', 'Admin access required');
+  }
+}
 
+const centsToDollars = (cents: number) => cents / 100;
 
 /**
- * Validate CSRF tokens for App Router
+ * Tier table in dollars for display
  */
-function validateCSRFForAppRouter(request: NextRequest): boolean {
-  const cookieHeader = request.headers.get('cookie') || '';
-  const cookies = Object.fromEntries(
-    cookieHeader.split(';').map(cookie => {
-      const [key, value] = cookie.trim().split('=');
-      return [key, value];
-    })
-  );
-  const cookieToken = cookies['csrf_token'] || null;
-  const headerToken = request.headers.get('x-csrf-token') || null;
-  
-  if (!cookieToken || !headerToken) {
-    return false;
-  }
-  
-  if (cookieToken.length !== headerToken.length) {
-    return false;
-  }
-  
-  try {
-    return crypto.timingSafeEqual(
-      Buffer.from(cookieToken, 'hex'),
-      Buffer.from(headerToken, 'hex')
-    );
-  } catch {
-    return false;
-  }
+function displayTiers(table: ReturnType<typeof tierTable>) {
+  return table.map(tier => ({
+    quantity: tier.quantity,
+    pricePerUnit: centsToDollars(tier.pricePerUnitCents),
+    totalPrice: centsToDollars(tier.totalPriceCents),
+    discount: tier.discount,
+  }));
 }
 
 /**
  * GET handler for fetching inventory and pricing information
+ * ?dropId= picks the limited edition drop (defaults to the original drop)
  */
-export async function GET() {
+async function handleGetInventory({ req }: RouteContext<undefined, Record<string, never>, 'none'>) {
   try {
-    // Get or create the limited edition product
-    let product;
-    
-    try {
-      // Try to retrieve existing product
-      product = await stripe.products.retrieve(PRODUCT_CONFIG.LIMITED_EDITION_PRODUCT_ID);
-    } catch {
-      // Product doesn't exist, create it
-      console.log('Creating limited edition product...');
-      product = await stripe.products.create({
-        id: PRODUCT_CONFIG.LIMITED_EDITION_PRODUCT_ID,
-        name: 'Limited Edition Cardify Card',
-        description: 'Exclusive limited edition collectible card',
-        images: ['https://your-domain.com/card_back_1.webp'], // Update with actual domain
-        metadata: {
-          inventory: PRODUCT_CONFIG.DEFAULT_INVENTORY.toString(),
-          price_per_unit: PRODUCT_CONFIG.PRICE_PER_UNIT.toString(),
-          version: '1', // Initialize version for optimistic locking
-          created_at: new Date().toISOString(),
-          type: 'limited_edition'
-        }
-      });
-    }
+    const drop = await resolveDrop(req.nextUrl.searchParams.get('dropId'));
+    const { priceList, displayCaseProduct, customCardProduct } = await getCatalog();
 
-    // Get or create the display case product
-    let displayCaseProduct;
-    
-    try {
-      // Try to retrieve existing display case product
-      displayCaseProduct = await stripe.products.retrieve(PRODUCT_CONFIG.DISPLAY_CASE_PRODUCT_ID);
-    } catch {
-      // Product doesn't exist, create it
-      console.log('Creating display case product...');
-      displayCaseProduct = await stripe.products.create({
-        id: PRODUCT_CONFIG.DISPLAY_CASE_PRODUCT_ID,
-        name: 'Acrylic Display Case',
-        description: 'Premium acrylic display case for collectible cards',
-        images: ['https://your-domain.com/display_case.webp'], // Update with actual domain
-        metadata: {
-          inventory: PRODUCT_CONFIG.DISPLAY_CASE_DEFAULT_INVENTORY.toString(),
-          price_per_unit: PRODUCT_CONFIG.DISPLAY_CASE_PRICE_PER_UNIT.toString(),
-          version: '1', // Initialize version for optimistic locking
-          created_at: new Date().toISOString(),
-          type: 'display_case'
-        }
-      });
-    }
-
-    // Extract inventory and pricing from product metadata
-    const inventory = parseInt(product.metadata.inventory || PRODUCT_CONFIG.DEFAULT_INVENTORY.toString(), 10);
-    const pricePerUnit = parseInt(product.metadata.price_per_unit || PRODUCT_CONFIG.PRICE_PER_UNIT.toString(), 10);
-    
-    // Extract display case inventory and pricing
-    const displayCaseInventory = parseInt(displayCaseProduct.metadata.inventory || PRODUCT_CONFIG.DISPLAY_CASE_DEFAULT_INVENTORY.toString(), 10);
-    const displayCasePricePerUnit = parseInt(displayCaseProduct.metadata.price_per_unit || PRODUCT_CONFIG.DISPLAY_CASE_PRICE_PER_UNIT.toString(), 10);
-    
-    // Get or create custom card product
-    let customCardProduct;
-    
-    try {
-      // Try to retrieve existing custom card product
-      customCardProduct = await stripe.products.retrieve(PRODUCT_CONFIG.CUSTOM_CARD_PRODUCT_ID);
-    } catch {
-      // Product doesn't exist, create it
-      console.log('Creating custom card product...');
-      customCardProduct = await stripe.products.create({
-        id: PRODUCT_CONFIG.CUSTOM_CARD_PRODUCT_ID,
-        name: 'Custom Cardify Card',
-        description: 'Custom trading card with your own artwork',
-        images: ['https://your-domain.com/custom_card_placeholder.webp'], // Update with actual domain
-        metadata: {
-          price_per_unit: PRODUCT_CONFIG.CUSTOM_CARD_PRICE_PER_UNIT.toString(),
-          created_at: new Date().toISOString(),
-          type: 'custom_card'
-        }
-      });
-    }
-    
-    // Extract custom card pricing
-    const customCardPricePerUnit = parseInt(customCardProduct.metadata.price_per_unit || PRODUCT_CONFIG.CUSTOM_CARD_PRICE_PER_UNIT.toString(), 10);
-    
-    // Calculate pricing tiers (bulk discounts)
-    const pricingTiers = [
-      { quantity: 1, pricePerUnit, totalPrice: pricePerUnit, discount: 0 },
-      { quantity: 5, pricePerUnit: Math.floor(pricePerUnit * 0.95), totalPrice: Math.floor(pricePerUnit * 0.95 * 5), discount: 5 },
-      { quantity: 10, pricePerUnit: Math.floor(pricePerUnit * 0.90), totalPrice: Math.floor(pricePerUnit * 0.90 * 10), discount: 10 },
-      { quantity: 25, pricePerUnit: Math.floor(pricePerUnit * 0.85), totalPrice: Math.floor(pricePerUnit * 0.85 * 25), discount: 15 },
-    ];
-    
-    // Calculate custom card pricing tiers
-    const customCardPricingTiers = [
-      { quantity: 1, pricePerUnit: customCardPricePerUnit, totalPrice: customCardPricePerUnit, discount: 0 },
-      { quantity: 5, pricePerUnit: Math.floor(customCardPricePerUnit * 0.95), totalPrice: Math.floor(customCardPricePerUnit * 0.95 * 5), discount: 5 },
-      { quantity: 10, pricePerUnit: Math.floor(customCardPricePerUnit * 0.90), totalPrice: Math.floor(customCardPricePerUnit * 0.90 * 10), discount: 10 },
-      { quantity: 25, pricePerUnit: Math.floor(customCardPricePerUnit * 0.85), totalPrice: Math.floor(customCardPricePerUnit * 0.85 * 25), discount: 15 },
-    ];
+    // available = stock - units held by unexpired checkouts
+    const levels = await getInventoryLevels([drop.sku, InventorySkus.displayCase]);
+    const cards = levels[drop.sku];
+    const cases = levels[InventorySkus.displayCase];
 
     return NextResponse.json({
       success: true,
       data: {
-        inventory,
-        pricePerUnit: pricePerUnit / 100, // Convert to dollars for display
-        pricingTiers: pricingTiers.map(tier => ({
-          ...tier,
-          pricePerUnit: tier.pricePerUnit / 100,
-          totalPrice: tier.totalPrice / 100,
-        })),
+        inventory: cards.available, // kept for existing clients; same as available
+        stock: cards.onHand,
+        reserved: cards.reserved,
+        available: cards.available,
+        soldOutAt: drop.soldOutAt, // Set once the last card sells; the modal shows the sold out state
+        pricePerUnit: centsToDollars(drop.priceCents), // Convert to dollars for display
+        pricingTiers: displayTiers(tierTable(drop.priceCents, drop.priceTiers)),
+        discountTiers: drop.priceTiers, // For lib/pricing on the client
         displayCases: {
-          inventory: displayCaseInventory,
-          pricePerUnit: displayCasePricePerUnit / 100, // Convert to dollars for display
+          inventory: cases.available,
+          stock: cases.onHand,
+          reserved: cases.reserved,
+          available: cases.available,
+          pricePerUnit: centsToDollars(priceList.displayCaseCents), // Convert to dollars for display
           product: {
             id: displayCaseProduct.id,
             name: displayCaseProduct.name,
@@ -174,12 +97,14 @@ export async function GET() {
           }
         },
         customCard: {
-          pricePerUnit: customCardPricePerUnit / 100, // Convert to dollars for display
-          pricingTiers: customCardPricingTiers.map(tier => ({
-            ...tier,
-            pricePerUnit: tier.pricePerUnit / 100,
-            totalPrice: tier.totalPrice / 100,
-          })),
+          pricePerUnit: centsToDollars(priceList.customCardCents), // Convert to dollars for display
+          pricingTiers: displayTiers(tierTable(priceList.customCardCents, priceList.customCardTiers)),
+          discountTiers: priceList.customCardTiers,
+          finishPrices: {
+            matte: centsToDollars(priceList.finishSurchargeCents.matte),
+            rainbow: centsToDollars(priceList.finishSurchargeCents.rainbow),
+            gloss: centsToDollars(priceList.finishSurchargeCents.gloss),
+          },
           product: {
             id: customCardProduct.id,
             name: customCardProduct.name,
@@ -188,244 +113,122 @@ export async function GET() {
           }
         },
         product: {
-          id: product.id,
-          name: product.name,
-          description: product.description,
-          images: product.images,
+          id: drop.id,
+          name: drop.name,
+          description: drop.description,
+          images: [drop.artworkUrl],
+        },
+        drop: {
+          id: drop.id,
+          status: dropStatus(drop, cards),
+          editionSize: drop.editionSize,
+          perCustomerLimit: drop.perCustomerLimit,
+          startsAt: drop.startsAt,
+          endsAt: drop.endsAt,
+          earlyAccessEndsAt: earlyAccessEndsAt(drop)?.toISOString() ?? null,
         },
         lastUpdated: new Date().toISOString(),
       }
     });
 
   } catch (error) {
+    if (error instanceof ApiError) throw error;
     console.error('Error fetching inventory:', error);
-    return NextResponse.json(
-      { 
-        success: false,
-        error: 'Failed to fetch inventory data',
-        code: 'INVENTORY_FETCH_ERROR'
-      },
-      { status: 500 }
-    );
+    throw new ApiError(500, 'INVENTORY_FETCH_ERROR', 'Failed to fetch inventory data');
   }
 }
 
 /**
- * POST handler for updating inventory (admin only)
- * This would typically be protected by admin authentication
+ * POST handler for updating inventory and the drop price (admin only)
  */
-export async function POST(request: NextRequest) {
-  // Apply CSRF protection for write operations
-  if (!validateCSRFForAppRouter(request)) {
-    return NextResponse.json(
-      { 
-        success: false,
-        error: 'CSRF validation failed',
-        code: 'CSRF_INVALID'
-      },
-      { status: 403 }
-    );
-  }
-
+async function handleUpdateInventory({ body, user }: RouteContext<z.infer<typeof UpdateInventoryBody>, Record<string, never>, 'required'>) {
   try {
-    const body = await request.json();
-    const { inventory, pricePerUnit } = body;
+    await requireAdmin(user.id);
+    const { dropId, inventory, pricePerUnit } = body;
+    const drop = await resolveDrop(dropId);
 
-    // Validate input
-    if (typeof inventory !== 'number' || inventory < 0) {
-      return NextResponse.json(
-        { 
-          success: false,
-          error: 'Invalid inventory value',
-          code: 'INVALID_INVENTORY'
-        },
-        { status: 400 }
-      );
-    }
+    const level = await setInventory(drop.sku, inventory);
 
-    if (pricePerUnit && (typeof pricePerUnit !== 'number' || pricePerUnit <= 0)) {
-      return NextResponse.json(
-        { 
-          success: false,
-          error: 'Invalid price per unit',
-          code: 'INVALID_PRICE'
-        },
-        { status: 400 }
-      );
+    let pricePerUnitCents: number | undefined;
+    if (pricePerUnit) {
+      pricePerUnitCents = Math.floor(pricePerUnit * 100); // Convert to cents
+      await setDropPrice(drop.id, pricePerUnitCents);
     }
 
-    // Get current product to access version
-    const currentProduct = await stripe.products.retrieve(PRODUCT_CONFIG.LIMITED_EDITION_PRODUCT_ID);
-    const currentVersion = parseInt(currentProduct.metadata.version || '0', 10);
-
-    // Update product metadata with version increment
-    const updateData: Stripe.ProductUpdateParams = {
-      metadata: {
-        ...currentProduct.metadata,
-        inventory: inventory.toString(),
-        version: (currentVersion + 1).toString(),
-        updated_at: new Date().toISOString(),
-        ...(pricePerUnit && { price_per_unit: Math.floor(pricePerUnit * 100).toString() }) // Convert to cents
-      }
-    };
-
-    const product = await stripe.products.update(
-      PRODUCT_CONFIG.LIMITED_EDITION_PRODUCT_ID,
-      updateData
-    );
-
     return NextResponse.json({
       success: true,
       data: {
-        inventory: parseInt(product.metadata.inventory, 10),
-        pricePerUnit: parseInt(product.metadata.price_per_unit, 10) / 100,
+        dropId: drop.id,
+        inventory: level.onHand,
+        available: level.available,
+        ...(pricePerUnitCents !== undefined && { pricePerUnit: pricePerUnitCents / 100 }),
         updated: true,
         timestamp: new Date().toISOString(),
       }
     });
 
   } catch (error) {
+    if (error instanceof ApiError) throw error;
+    if (error instanceof InsufficientInventoryError) {
+      throw new ApiError(409, 'INVENTORY_RESERVED', 'Inventory cannot be set below the units held by open checkouts');
+    }
     console.error('Error updating inventory:', error);
-    return NextResponse.json(
-      { 
-        success: false,
-        error: 'Failed to update inventory',
-        code: 'INVENTORY_UPDATE_ERROR'
-      },
-      { status: 500 }
-    );
+    throw new ApiError(500, 'INVENTORY_UPDATE_ERROR', 'Failed to update inventory');
   }
 }
 
 /**
- * PATCH handler for decrementing inventory (used after successful purchases)
- * Uses optimistic locking to prevent race conditions
+ * PATCH handler for decrementing inventory by hand (admin only)
+ * The decrement is conditional in the database, so concurrent calls can't oversell
  */
-export async function PATCH(request: NextRequest) {
-  // Apply CSRF protection
-  if (!validateCSRFForAppRouter(request)) {
-    return NextResponse.json(
-      { 
-        success: false,
-        error: 'CSRF validation failed',
-        code: 'CSRF_INVALID'
-      },
-      { status: 403 }
-    );
-  }
-
+async function handleDecrementInventory({ body, user }: RouteContext<z.infer<typeof DecrementInventoryBody>, Record<string, never>, 'required'>) {
   try {
-    const body = await request.json();
-    const { decrementBy } = body;
-
-    if (typeof decrementBy !== 'number' || decrementBy <= 0) {
-      return NextResponse.json(
-        { 
-          success: false,
-          error: 'Invalid decrement value',
-          code: 'INVALID_DECREMENT'
-        },
-        { status: 400 }
-      );
-    }
-
-    // Implement optimistic locking with retry mechanism
-    const MAX_RETRIES = 3;
-    const RETRY_DELAY_MS = 100; // Start with 100ms, exponential backoff
-    
-    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-      try {
-        // Get current inventory with version
-        const product = await stripe.products.retrieve(PRODUCT_CONFIG.LIMITED_EDITION_PRODUCT_ID);
-        const currentInventory = parseInt(product.metadata.inventory || '0', 10);
-        const currentVersion = parseInt(product.metadata.version || '0', 10);
-
-        if (currentInventory < decrementBy) {
-          return NextResponse.json(
-            { 
-              success: false,
-              error: 'Insufficient inventory',
-              code: 'INSUFFICIENT_INVENTORY',
-              currentInventory
-            },
-            { status: 400 }
-          );
-        }
-
-        const newInventory = currentInventory - decrementBy;
-        const newVersion = currentVersion + 1;
-
-        // Atomic update with version check
-        // If another request modified the product, this will fail with the version mismatch
-        await stripe.products.update(
-          PRODUCT_CONFIG.LIMITED_EDITION_PRODUCT_ID,
-          {
-            metadata: {
-              ...product.metadata,
-              inventory: newInventory.toString(),
-              version: newVersion.toString(),
-              updated_at: new Date().toISOString(),
-              last_decrement_by: decrementBy.toString(),
-            }
-          }
-        );
+    await requireAdmin(user.id);
+    const { dropId, decrementBy } = body;
+    const drop = await resolveDrop(dropId);
 
-        // Verify the update was atomic by checking if version matches expectation
-        const verificationProduct = await stripe.products.retrieve(PRODUCT_CONFIG.LIMITED_EDITION_PRODUCT_ID);
-        const actualVersion = parseInt(verificationProduct.metadata.version || '0', 10);
-        
-        if (actualVersion !== newVersion) {
-          // Version mismatch detected - retry
-          if (attempt < MAX_RETRIES - 1) {
-            // Exponential backoff
-            await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * Math.pow(2, attempt)));
-            continue;
-          } else {
-            throw new Error('Failed to acquire atomic lock after retries');
-          }
-        }
-
-        // Success - atomic operation completed
-        return NextResponse.json({
-          success: true,
-          data: {
-            previousInventory: currentInventory,
-            newInventory,
-            decrementBy,
-            version: newVersion,
-            attempt: attempt + 1,
-            timestamp: new Date().toISOString(),
-          }
-        });
+    const level = await adjustInventory(drop.sku, -decrementBy);
 
-      } catch (retryError) {
-        if (attempt < MAX_RETRIES - 1) {
-          // Exponential backoff before retry
-          await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * Math.pow(2, attempt)));
-          continue;
-        } else {
-          throw retryError;
-        }
+    return NextResponse.json({
+      success: true,
+      data: {
+        dropId: drop.id,
+        previousInventory: level.available + decrementBy,
+        newInventory: level.available,
+        decrementBy,
+        timestamp: new Date().toISOString(),
       }
-    }
-
-    // Should never reach here
-    throw new Error('Max retries exceeded');
+    });
 
   } catch (error) {
+    if (error instanceof ApiError) throw error;
+    if (error instanceof InsufficientInventoryError) {
+      throw new ApiError(400, 'INSUFFICIENT_INVENTORY', 'Insufficient inventory', { currentInventory: error.available });
+    }
     console.error('Error decrementing inventory:', error);
-    return NextResponse.json(
-      { 
-        success: false,
-        error: 'Failed to decrement inventory',
-        code: 'INVENTORY_DECREMENT_ERROR',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
+    throw new ApiError(500, 'INVENTORY_DECREMENT_ERROR', 'Failed to decrement inventory');
   }
 }
 
+export const GET = defineRoute({ handler: handleGetInventory });
+
+// Write operations are CSRF protected and admin only
+export const POST = defineRoute({
+  auth: 'required',
+  csrf: true,
+  body: UpdateInventoryBody,
+  bodyErrorCodes: { dropId: 'INVALID_DROP', inventory: 'INVALID_INVENTORY', pricePerUnit: 'INVALID_PRICE' },
+  handler: handleUpdateInventory,
+});
+
+export const PATCH = defineRoute({
+  auth: 'required',
+  csrf: true,
+  body: DecrementInventoryBody,
+  bodyErrorCodes: { dropId: 'INVALID_DROP', decrementBy: 'INVALID_DECREMENT' },
+  handler: handleDecrementInventory,
+});
+
 /**
  * Handle unsupported HTTP methods
  */
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { defineRoute, ApiError } from "@/lib/api-route"
+import { RateLimitConfigs } from "@/lib/rate-limiter"
+import { cancelListing, ListingError, LISTING_ERROR_STATUS, updateListing } from "@/lib/listings"
+
+export const dynamic = "force-dynamic"
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const UpdateListingBody = z
+  .object({
+    priceCents: z.number({ invalid_type_error: "Price must be a number" }).int("Price must be a whole number of cents").optional(),
+    title: z.string().trim().min(1, "Title is required").max(120, "Title is too long").optional(),
+    description: z.string().trim().max(2000, "Description is too long").optional(),
+    finish: z.enum(["matte", "rainbow", "gloss"]).optional(),
+  })
+  .refine(body => Object.values(body).some(value => value !== undefined), {
+    message: "Nothing to update",
+  })
+
+function listingId(id: string): string {
+  if (!UUID.test(id)) {
+    throw new ApiError(404, "LISTING_NOT_FOUND", "Listing not found")
+  }
+  return id
+}
+
+function toApiError(error: unknown): unknown {
+  if (error instanceof ListingError) {
+    return new ApiError(LISTING_ERROR_STATUS[error.code], error.code, error.message)
+  }
+  return error
+}
+
+/**
+ * PATCH - change the price, title, description or finish of the seller's listing
+ * while it is for sale
+ */
+export const PATCH = defineRoute<z.infer<typeof UpdateListingBody>, { id: string }, "required">({
+  auth: "required",
+  csrf: true,
+  rateLimit: RateLimitConfigs.standard,
+  body: UpdateListingBody,
+  bodyErrorCodes: { priceCents: "INVALID_PRICE", title: "INVALID_TITLE", description: "INVALID_DESCRIPTION", finish: "INVALID_FINISH" },
+  handler: async ({ body, params: { id }, user }) => {
+    try {
+      const listing = await updateListing(user.id, listingId(id), body)
+      return NextResponse.json({ success: true, listing })
+    } catch (error) {
+      throw toApiError(error)
+    }
+  },
+})
+
+/**
+ * DELETE - take the seller's listing off sale
+ */
+export const DELETE = defineRoute<undefined, { id: string }, "required">({
+  auth: "required",
+  csrf: true,
+  rateLimit: RateLimitConfigs.standard,
+  handler: async ({ params: { id }, user }) => {
+    try {
+      const listing = await cancelListing(user.id, listingId(id))
+      return NextResponse.json({ success: true, listing })
+    } catch (error) {
+      throw toApiError(error)
+    }
+  },
+})
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { defineRoute, ApiError } from "@/lib/api-route"
+import { RateLimitConfigs } from "@/lib/rate-limiter"
+import { createListing, ListingError, LISTING_ERROR_STATUS } from "@/lib/listings"
+
+export const dynamic = "force-dynamic"
+
+const CreateListingBody = z.object({
+  sourceType: z.enum(["asset", "uploaded_image"]).default("asset"),
+  sourceId: z.string().uuid("Invalid item"),
+  priceCents: z.number({ invalid_type_error: "Price is required" }).int("Price must be a whole number of cents"),
+  finish: z.enum(["matte", "rainbow", "gloss"]).default("matte"),
+})
+
+/**
+ * POST - list one of the signed-in seller's assets or uploaded images for sale
+ * The seller must own the item and be verified with Stripe, the item must not
+ * already be listed, and the price must be within the configured bounds
+ * (lib/listing-price.ts).
+ */
+export const POST = defineRoute({
+  auth: "required",
+  csrf: true,
+  rateLimit: RateLimitConfigs.standard,
+  body: CreateListingBody,
+  bodyErrorCodes: { sourceType: "INVALID_SOURCE", sourceId: "INVALID_SOURCE", priceCents: "INVALID_PRICE", finish: "INVALID_FINISH" },
+  handler: async ({ body, user }) => {
+    try {
+      const listing = await createListing(user.id, body)
+      return NextResponse.json({ success: true, listing }, { status: 201 })
+    } catch (error) {
+      if (error instanceof ListingError) {
+        throw new ApiError(LISTING_ERROR_STATUS[error.code], error.code, error.message)
+      }
+      throw error
+    }
+  },
+})
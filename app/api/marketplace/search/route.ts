@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { defineRoute, ApiError } from "@/lib/api-route"
+import { RateLimitConfigs } from "@/lib/rate-limiter"
+import { parseMarketplaceQuery } from "@/lib/marketplace-query"
+import { MarketplaceSearchError, searchMarketplace } from "@/lib/marketplace-search"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET - one page of marketplace listings for sale
+ * Query: q (full-text), min / max (dollars), seller, from / to (YYYY-MM-DD),
+ * finish, sort (newest | price_asc | price_desc | popular), cursor, limit.
+ * Pass the returned nextCursor as cursor, with the same filters, for the
+ * next page.
+ */
+export const GET = defineRoute({
+  rateLimit: RateLimitConfigs.relaxed,
+  handler: async ({ req }) => {
+    const params = req.nextUrl.searchParams
+    const limit = params.get("limit") ? parseInt(params.get("limit")!, 10) : undefined
+
+    try {
+      const page = await searchMarketplace(parseMarketplaceQuery(params), {
+        cursor: params.get("cursor"),
+        limit: Number.isFinite(limit) ? limit : undefined,
+      })
+      return NextResponse.json({ success: true, ...page })
+    } catch (error) {
+      if (error instanceof MarketplaceSearchError) {
+        throw new ApiError(400, error.code, error.message)
+      }
+      throw error
+    }
+  },
+})
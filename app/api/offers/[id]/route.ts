@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { defineRoute, ApiError } from "@/lib/api-route"
+import { RateLimitConfigs } from "@/lib/rate-limiter"
+import { MARKET_PAYMENT_ERROR_STATUS, MarketPaymentError } from "@/lib/marketplace-payments"
+import { OfferError, OFFER_ERROR_STATUS, respondToOffer } from "@/lib/offers"
+
+export const dynamic = "force-dynamic"
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const RespondToOfferBody = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("accept") }),
+  z.object({ type: z.literal("decline") }),
+  z.object({ type: z.literal("withdraw") }),
+  z.object({
+    type: z.literal("counter"),
+    amountCents: z.number({ invalid_type_error: "Amount is required" }).int("Amount must be a whole number of cents"),
+  }),
+])
+
+function toApiError(error: unknown): unknown {
+  if (error instanceof OfferError) {
+    return new ApiError(OFFER_ERROR_STATUS[error.code], error.code, error.message)
+  }
+  if (error instanceof MarketPaymentError) {
+    return new ApiError(MARKET_PAYMENT_ERROR_STATUS[error.code], error.code, error.message)
+  }
+  return error
+}
+
+/**
+ * POST - answer an open offer: accept, decline or counter it when it waits
+ * on you, or withdraw your own offer as the buyer. Accepting holds the
+ * listing for the buyer to pay the agreed amount.
+ */
+export const POST = defineRoute<z.infer<typeof RespondToOfferBody>, { id: string }, "required">({
+  auth: "required",
+  csrf: true,
+  rateLimit: RateLimitConfigs.standard,
+  body: RespondToOfferBody,
+  bodyErrorCodes: { type: "INVALID_ACTION", amountCents: "INVALID_AMOUNT" },
+  handler: async ({ body, params: { id }, user }) => {
+    if (!UUID.test(id)) {
+      throw new ApiError(404, "OFFER_NOT_FOUND", "Offer not found")
+    }
+    try {
+      const offer = await respondToOffer(user.id, id, body)
+      return NextResponse.json({ success: true, offer })
+    } catch (error) {
+      throw toApiError(error)
+    }
+  },
+})
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { defineRoute, ApiError } from "@/lib/api-route"
+import { RateLimitConfigs } from "@/lib/rate-limiter"
+import { makeOffer, OfferError, OFFER_ERROR_STATUS } from "@/lib/offers"
+
+export const dynamic = "force-dynamic"
+
+const MakeOfferBody = z.object({
+  listingId: z.string().uuid("Invalid listing"),
+  amountCents: z.number({ invalid_type_error: "Amount is required" }).int("Amount must be a whole number of cents"),
+})
+
+/**
+ * POST - offer less than the asking price on a listing
+ * The seller is emailed and answers from their profile; the offer expires
+ * if they don't (lib/offers.ts).
+ */
+export const POST = defineRoute({
+  auth: "required",
+  csrf: true,
+  rateLimit: RateLimitConfigs.standard,
+  body: MakeOfferBody,
+  bodyErrorCodes: { listingId: "LISTING_NOT_FOUND", amountCents: "INVALID_AMOUNT" },
+  handler: async ({ body, user }) => {
+    try {
+      const offer = await makeOffer(user.id, body)
+      return NextResponse.json({ success: true, offer }, { status: 201 })
+    } catch (error) {
+      if (error instanceof OfferError) {
+        throw new ApiError(OFFER_ERROR_STATUS[error.code], error.code, error.message)
+      }
+      throw error
+    }
+  },
+})
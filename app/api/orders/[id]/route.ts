@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { defineRoute, ApiError } from "@/lib/api-route"
+import { RateLimitConfigs } from "@/lib/rate-limiter"
+import { getOrder, getOrderEvents } from "@/lib/orders"
+
+export const dynamic = "force-dynamic"
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * GET - an order's status, items, tracking and timeline for /orders/[id]
+ * The order id is only shown to its buyer (success page, emails, profile),
+ * so it works as the link to the order; the response leaves out the
+ * street address, contact details and payment ids.
+ */
+export const GET = defineRoute<undefined, { id: string }>({
+  rateLimit: RateLimitConfigs.standard,
+  handler: async ({ params: { id } }) => {
+    const order = UUID.test(id) ? await getOrder(id) : null
+    if (!order) {
+      throw new ApiError(404, "ORDER_NOT_FOUND", "Order not found")
+    }
+    const events = await getOrderEvents(order.id)
+
+    return NextResponse.json({
+      success: true,
+      order: {
+        id: order.id,
+        status: order.status,
+        statusChangedAt: order.statusChangedAt,
+        createdAt: order.createdAt,
+        items: order.items.map(({ kind, quantity, dropId, finish }) => ({ kind, quantity, dropId, finish })),
+        serials: order.serials,
+        amountTotalCents: order.amountTotalCents,
+        shippingCents: order.shippingCents,
+        currency: order.currency,
+        shippingLevel: order.shippingLevel,
+        destination: {
+          city: order.shippingAddress.city,
+          state: order.shippingAddress.state,
+          country: order.shippingAddress.country,
+        },
+        trackingNumber: order.trackingNumber,
+        trackingUrl: order.trackingUrl,
+        courierName: order.courierName,
+      },
+      events: events.map(({ status, description, location, occurredAt }) => ({ status, description, location, occurredAt })),
+    })
+  },
+})
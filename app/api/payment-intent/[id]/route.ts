@@ -1,6 +1,8 @@
-import { NextResponse, type NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
 import { getStripeServer } from '@/lib/stripe'
 import { createClient } from '@supabase/supabase-js'
+import { defineRoute, ApiError } from '@/lib/api-route'
+import { RateLimitConfigs } from '@/lib/rate-limiter'
 
 const admin = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -9,23 +11,24 @@ const admin = createClient(
 
 const stripe = getStripeServer('market')
 
-export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
-  const { id } = await params
+export const GET = defineRoute<undefined, { id: string }>({
+  rateLimit: RateLimitConfigs.relaxed,
+  handler: async ({ params: { id } }) => {
+    const { data: tx, error } = await admin
+      .from('mkt_transactions')
+      .select('seller_acct')
+      .eq('stripe_payment_id', id)
+      .single()
 
-  const { data: tx, error } = await admin
-    .from('mkt_transactions')
-    .select('seller_acct')
-    .eq('stripe_payment_id', id)
-    .single()
+    if (error || !tx) {
+      throw new ApiError(404, 'TX_NOT_FOUND', 'Tx not found')
+    }
 
-  if (error || !tx) {
-    return NextResponse.json({ error: 'Tx not found' }, { status: 404 })
-  }
+    const intent = await stripe.paymentIntents.retrieve(
+      id,
+      tx.seller_acct ? { stripeAccount: tx.seller_acct } : undefined
+    )
 
-  const intent = await stripe.paymentIntents.retrieve(
-    id,
-    tx.seller_acct ? { stripeAccount: tx.seller_acct } : undefined
-  )
-
-  return NextResponse.json({ intent, tx })
-}
+    return NextResponse.json({ intent, tx })
+  },
+})
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { defineRoute, ApiError } from "@/lib/api-route"
+import { confirmedEmail } from "@/lib/get-request-user"
+import { RateLimitConfigs } from "@/lib/rate-limiter"
+import { catalogLines, getCatalog } from "@/lib/catalog"
+import { PromotionError, resolvePromotion } from "@/lib/promotions"
+
+export const dynamic = "force-dynamic"
+
+const ValidateBody = z.object({
+  code: z.string().trim().max(64).nullish(),
+  shippingCountry: z.string().trim().length(2).nullish(),
+  items: z.array(z.object({
+    productId: z.string(),
+    dropId: z.string().nullish(),
+    quantity: z.number().int().min(1).max(100),
+    cardFinish: z.string().nullish(),
+  })).min(1, "Cart is empty"),
+})
+
+/**
+ * POST - check a promo code against a cart and price the discount.
+ * Without a code, returns the best automatic promotion (or none). Per-customer
+ * caps are checked against the signed-in account, as at checkout. Checkout
+ * repeats the same check, so this is only for showing the discount early.
+ * Strict rate limit: codes are guessable by brute force otherwise
+ */
+export const POST = defineRoute({
+  auth: "optional",
+  csrf: true,
+  rateLimit: RateLimitConfigs.strict,
+  body: ValidateBody,
+  bodyErrorCodes: { code: "INVALID_PROMO_CODE", items: "EMPTY_CART" },
+  handler: async ({ user, body: { code, shippingCountry, items } }) => {
+    const lines = await catalogLines(await getCatalog(), items)
+
+    try {
+      const applied = await resolvePromotion(lines, { code, accountEmail: confirmedEmail(user), shippingCountry })
+      if (!applied) {
+        return NextResponse.json({ success: true, promotion: null })
+      }
+
+      const { promotion, discount, breakdown, savedCents } = applied
+      return NextResponse.json({
+        success: true,
+        promotion: {
+          code: promotion.code,
+          description: promotion.description,
+          kind: promotion.kind,
+          automatic: promotion.automatic,
+        },
+        itemsCents: breakdown.itemsCents,
+        discountCents: breakdown.discountCents,
+        freeShipping: !!discount.freeShipping,
+        savedCents,
+      })
+    } catch (error) {
+      if (error instanceof PromotionError) {
+        const status = error.code === "PROMO_SIGN_IN_REQUIRED" ? 401 : error.code === "PROMO_CUSTOMER_LIMIT" ? 409 : 400
+        throw new ApiError(status, error.code, error.message)
+      }
+      throw error
+    }
+  },
+})
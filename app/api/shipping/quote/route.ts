@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { defineRoute, ApiError } from "@/lib/api-route"
+import { RateLimitConfigs } from "@/lib/rate-limiter"
+import { catalogLines, getCatalog } from "@/lib/catalog"
+import { priceCart } from "@/lib/pricing"
+import { quoteShipping, shipmentWeightGrams, zoneFor } from "@/lib/shipping"
+
+export const dynamic = "force-dynamic"
+
+const QuoteBody = z.object({
+  country: z.string().trim().length(2),
+  items: z.array(z.object({
+    productId: z.string(),
+    dropId: z.string().nullish(),
+    quantity: z.number().int().min(1).max(100),
+    cardFinish: z.string().nullish(),
+  })).min(1, "Cart is empty"),
+})
+
+/**
+ * POST - shipping options for a cart and destination, priced from the same
+ * rate table checkout uses. Free shipping promotions are not applied here;
+ * the promo code field shows those.
+ */
+export const POST = defineRoute({
+  csrf: true,
+  rateLimit: RateLimitConfigs.standard,
+  body: QuoteBody,
+  bodyErrorCodes: { country: "INVALID_COUNTRY", items: "EMPTY_CART" },
+  handler: async ({ body: { country, items } }) => {
+    const zone = zoneFor(country)
+    if (!zone) {
+      throw new ApiError(400, "UNSUPPORTED_SHIPPING_COUNTRY", "We do not ship to that country yet")
+    }
+
+    const lines = await catalogLines(await getCatalog(), items)
+    const { itemsCents } = priceCart(lines)
+
+    return NextResponse.json({
+      success: true,
+      zone: { id: zone.id, name: zone.name },
+      weightGrams: shipmentWeightGrams(lines),
+      subtotalCents: itemsCents,
+      options: quoteShipping(country, lines, { subtotalCents: itemsCents }),
+    })
+  },
+})
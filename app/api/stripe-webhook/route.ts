@@ -3,6 +3,10 @@ import { NextRequest, NextResponse } from "next/server"
 import { createClient } from "@supabase/supabase-js"
 import type Stripe from "stripe"
 import { getStripeServer } from "@/lib/stripe"
+import { applyCredits, clawbackPurchaseCredits, disputedCents, LedgerKeys } from "@/lib/credits-ledger"
+import { creditsFromMetadata } from "@/lib/credit-packs"
+import { EmailTemplateName, EmailTemplates, sendTemplateEmail } from "@/lib/email-templates"
+import { cancelMarketPaymentIntent, refundMarketPaymentIntent } from "@/lib/marketplace-payments"
 
 export const runtime = "nodejs"       // required for raw body access
 export const dynamic = "force-dynamic"
@@ -18,6 +22,31 @@ function getAdmin() {
 
 /* ---------------- helpers ---------------- */
 
+// emails never fail the webhook; the idempotency key keeps replays from resending
+async function notify<K extends EmailTemplateName>(template: K, to: string | null | undefined, data: EmailTemplates[K], idempotencyKey: string) {
+  if (!to) return console.warn("[wh] no email address for", template, idempotencyKey)
+  try {
+    const result = await sendTemplateEmail(template, to, data, { idempotencyKey })
+    console.log("[wh] email", template, result.status, idempotencyKey)
+  } catch (err) {
+    console.error("[wh] email failed:", template, idempotencyKey, err instanceof Error ? err.message : err)
+  }
+}
+
+// a seller's contact address: their marketplace profile, else their account
+async function sellerContact(sellerId: string) {
+  const admin = getAdmin()
+  const { data: profile } = await admin
+    .from("mkt_profiles")
+    .select("email, display_name")
+    .eq("id", sellerId)
+    .maybeSingle()
+  if (profile?.email) return { email: profile.email as string, name: (profile.display_name as string | null) ?? null }
+
+  const { data } = await admin.auth.admin.getUserById(sellerId)
+  return { email: data.user?.email ?? null, name: (profile?.display_name as string | null) ?? null }
+}
+
 async function markSellerReadiness(acct: Stripe.Account) {
   const admin = getAdmin()
   const verified =
@@ -46,7 +75,7 @@ async function markSellerReadiness(acct: Stripe.Account) {
     .eq("stripe_account_id", acct.id)
 }
 
-async function transferAssetToBuyer(listingId: string, buyerId: string) {
+async function transferListingAsset(listingId: string, ownerId: string) {
   const admin = getAdmin()
   const { data: listing, error } = await admin
     .from("mkt_listings")
@@ -62,20 +91,20 @@ async function transferAssetToBuyer(listingId: string, buyerId: string) {
   if (listing.source_type === "asset") {
     const { error: upErr } = await admin
       .from("user_assets")
-      .update({ owner_id: buyerId })
+      .update({ owner_id: ownerId })
       .eq("id", listing.source_id)
     if (upErr) console.error("[wh] transferAsset(asset) err:", upErr.message)
-    else console.log("[wh] transferAsset(asset) OK", listing.source_id, "→", buyerId)
+    else console.log("[wh] transferAsset(asset) OK", listing.source_id, "→", ownerId)
     return
   }
 
   const { error: upErr2 } = await admin
     .from("user_assets")
-    .update({ owner_id: buyerId })
+    .update({ owner_id: ownerId })
     .eq("source_type", "uploaded_image")
     .eq("source_id", listing.source_id)
   if (upErr2) console.error("[wh] transferAsset(uploaded_image) err:", upErr2.message)
-  else console.log("[wh] transferAsset(uploaded_image) OK", listing.source_id, "→", buyerId)
+  else console.log("[wh] transferAsset(uploaded_image) OK", listing.source_id, "→", ownerId)
 }
 
 async function queuePayoutIfPossible(listingId: string, sellerId?: string | null, netCents?: number) {
@@ -102,7 +131,108 @@ async function queuePayoutIfPossible(listingId: string, sellerId?: string | null
   else console.log("[wh] payout queued:", listingId, netCents)
 }
 
-async function handlePaymentIntentSucceeded(pi: Stripe.PaymentIntent) {
+// Sell the listing to this payment's buyer unless it's held for another offer
+// or someone else's payment already bought it. Returns why it can't be sold,
+// or null once it's sold to this payment (including on replays).
+async function claimListing(listingId: string, buyerId: string, paymentIntentId: string, offerId: string | undefined) {
+  const admin = getAdmin()
+  const now = new Date().toISOString()
+
+  const { data: listing, error } = await admin
+    .from("mkt_listings")
+    .select("status, buyer_id, locked_offer_id, locked_until")
+    .eq("id", listingId)
+    .maybeSingle()
+  if (error) throw new Error(`listing fetch failed: ${error.message}`)
+  if (!listing) return "listing not found"
+
+  const heldForOther =
+    listing.locked_offer_id &&
+    listing.locked_until &&
+    Date.parse(listing.locked_until) > Date.now() &&
+    listing.locked_offer_id !== offerId
+  if (heldForOther) return "listing held for another offer"
+
+  const { data: sold, error: soldErr } = await admin
+    .from("mkt_listings")
+    .update({
+      buyer_id: buyerId,
+      status: "sold",
+      is_active: false,
+      locked_offer_id: null,
+      locked_until: null,
+      updated_at: now,
+    })
+    .eq("id", listingId)
+    .eq("status", "listed")
+    .select("id")
+  if (soldErr) throw new Error(`listing update failed: ${soldErr.message}`)
+  if (sold?.length) return null
+
+  // Already sold: a replay of this payment, or someone else's sale
+  if (listing.status !== "sold" || listing.buyer_id !== buyerId) return "listing no longer for sale"
+  const { data: others, error: othersErr } = await admin
+    .from("mkt_transactions")
+    .select("id")
+    .eq("listing_id", listingId)
+    .eq("status", "completed")
+    .neq("stripe_payment_id", paymentIntentId)
+    .limit(1)
+  if (othersErr) throw new Error(`tx fetch failed: ${othersErr.message}`)
+  return others?.length ? "listing already paid for" : null
+}
+
+// a payment that lost the listing to another is refunded, not sold again
+async function refundUnsoldPayment(pi: Stripe.PaymentIntent, stripeAccount: string | null, reason: string) {
+  console.warn("[wh] refunding payment for unavailable listing:", { payment_intent: pi.id, reason })
+  try {
+    await refundMarketPaymentIntent(pi.id, stripeAccount)
+  } catch (err) {
+    return console.error("[wh] refund failed:", pi.id, err instanceof Error ? err.message : err)
+  }
+
+  const now = new Date().toISOString()
+  const { error } = await getAdmin()
+    .from("mkt_transactions")
+    .update({ status: "refunded", refunded_at: now, updated_at: now })
+    .eq("stripe_payment_id", pi.id)
+  if (error) console.error("[wh] tx refund err:", error.message)
+}
+
+// once sold, no other payment for the listing may go through: pending
+// checkouts and accepted offers that weren't the one paid
+async function cancelOtherIntents(listingId: string, paymentIntentId: string) {
+  const admin = getAdmin()
+  const intents = new Map<string, string | null>()
+
+  const { data: pending, error: txErr } = await admin
+    .from("mkt_transactions")
+    .select("stripe_payment_id, seller_acct")
+    .eq("listing_id", listingId)
+    .eq("status", "pending")
+  if (txErr) console.error("[wh] pending tx fetch err:", txErr.message)
+  for (const tx of pending ?? []) {
+    if (tx.stripe_payment_id) intents.set(tx.stripe_payment_id, tx.seller_acct ?? null)
+  }
+
+  const { data: offers, error: offersErr } = await admin
+    .from("mkt_offers")
+    .select("payment_intent_id, stripe_account_id")
+    .eq("listing_id", listingId)
+    .eq("status", "accepted")
+  if (offersErr) console.error("[wh] accepted offers fetch err:", offersErr.message)
+  for (const offer of offers ?? []) {
+    if (offer.payment_intent_id) intents.set(offer.payment_intent_id, offer.stripe_account_id ?? null)
+  }
+
+  intents.delete(paymentIntentId)
+  for (const [id, stripeAccount] of intents) {
+    await cancelMarketPaymentIntent(id, stripeAccount)
+  }
+  if (intents.size) console.log("[wh] cancelled other intents:", listingId, [...intents.keys()])
+}
+
+async function handlePaymentIntentSucceeded(pi: Stripe.PaymentIntent, stripeAccount: string | null) {
   const admin = getAdmin()
   const md = (pi.metadata ?? {}) as any
   const listingId = md.mkt_listing_id as string | undefined
@@ -118,6 +248,10 @@ async function handlePaymentIntentSucceeded(pi: Stripe.PaymentIntent) {
   const amountCents = Number(pi.amount)
   const platformFeeCents = Number(pi.application_fee_amount ?? 0)
   const netCents = Math.max(0, amountCents - platformFeeCents)
+  const offerId = md.mkt_offer_id as string | undefined
+
+  const unavailable = await claimListing(listingId, buyerId, stripeId, offerId)
+  if (unavailable) return refundUnsoldPayment(pi, stripeAccount, unavailable)
 
   const { data: tx1, error: tx1Err } = await admin
     .from("mkt_transactions")
@@ -140,30 +274,48 @@ async function handlePaymentIntentSucceeded(pi: Stripe.PaymentIntent) {
     if (tx2Err) console.error("[wh] tx fallback error:", tx2Err.message)
   }
 
-  const { error: listErr } = await admin
-    .from("mkt_listings")
-    .update({
-      buyer_id: buyerId,
-      status: "sold",
-      is_active: false,
-      updated_at: new Date().toISOString(),
-    })
-    .eq("id", listingId)
-  if (listErr) console.error("[wh] listing update err:", listErr.message)
+  await cancelOtherIntents(listingId, stripeId)
 
-  await transferAssetToBuyer(listingId, buyerId)
+  // The paid offer (if any) completes; every other live offer on the listing closes
+  if (offerId) {
+    const { error: offerErr } = await admin
+      .from("mkt_offers")
+      .update({ status: "completed", updated_at: new Date().toISOString() })
+      .eq("id", offerId)
+    if (offerErr) console.error("[wh] offer update err:", offerErr.message)
+  }
+  const { error: offersErr } = await admin
+    .from("mkt_offers")
+    .update({ status: "closed", updated_at: new Date().toISOString() })
+    .eq("listing_id", listingId)
+    .in("status", ["open", "accepted"])
+  if (offersErr) console.error("[wh] offers close err:", offersErr.message)
+
+  await transferListingAsset(listingId, buyerId)
   await queuePayoutIfPossible(listingId, sellerId, netCents)
+
+  if (sellerId) {
+    const { data: listing } = await admin.from("mkt_listings").select("title").eq("id", listingId).maybeSingle()
+    const seller = await sellerContact(sellerId)
+    await notify("marketplace-item-sold", seller.email, {
+      sellerName: seller.name,
+      listingTitle: listing?.title || "Your listing",
+      amountCents,
+      netCents,
+      currency: pi.currency,
+    }, `mkt-sold:${stripeId}`)
+  }
 }
 
 async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session) {
-  const admin = getAdmin()
   const md = (session.metadata ?? {}) as any
   console.log("[wh] session metadata:", md)
 
   if (md.kind !== "credits_purchase") return
 
   const userId = md.userId as string | undefined
-  const credits = parseInt(md.credits ?? "0", 10)
+  // base pack credits plus any bonus recorded at checkout
+  const { total: credits, bonus } = creditsFromMetadata(md)
   const amount_cents = session.amount_total ?? 0
   const piId =
     typeof session.payment_intent === "string"
@@ -175,47 +327,140 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session)
     return
   }
 
-  // 1) ledger (idempotent)
-  const { error: insErr } = await admin
-    .from("credits_ledger")
-    .insert({
-      user_id: userId,
-      payment_intent: piId,
-      amount_cents,
-      credits,
-      reason: "purchase",
-    })
-  if (insErr && (insErr as any).code !== "23505") {
-    console.error("[wh] ledger insert err:", insErr.message)
-  }
+  // ledger entry + balance in one transaction; replays of the same payment are no-ops
+  const { applied, balance } = await applyCredits({
+    userId,
+    delta: credits,
+    reason: "purchase",
+    idempotencyKey: LedgerKeys.purchase(piId),
+    paymentIntent: piId,
+    amountCents: amount_cents,
+    metadata: { packId: md.packId ?? null, bonusCredits: bonus },
+  })
+  if (!applied) return console.log("[wh] credits already granted:", { userId, payment_intent: piId })
+
+  console.log("[wh] credits granted:", { userId, credits, balance, payment_intent: piId })
+  await notify("credits-purchased", session.customer_details?.email, {
+    credits,
+    bonusCredits: bonus,
+    amountCents: amount_cents,
+    currency: session.currency ?? "usd",
+  }, `credits:${piId}`)
+}
+
+function paymentIntentIdOf(source: { payment_intent: string | Stripe.PaymentIntent | null }) {
+  return typeof source.payment_intent === "string" ? source.payment_intent : source.payment_intent?.id ?? null
+}
+
+async function cancelPendingPayouts(listingId: string) {
+  const { error } = await getAdmin()
+    .from("mkt_payouts")
+    .update({ status: "cancelled" })
+    .eq("listing_id", listingId)
+    .eq("status", "pending")
+  if (error) console.error("[wh] payout cancel err:", error.message)
+}
 
-  // 2) increment credits (RPC or fallback)
-  const { error: rpcErr } = await admin.rpc("increment_profile_credits", {
-    p_user_id: userId,
-    p_delta: credits,
+// full refund of a marketplace sale: the asset goes back to the seller
+async function refundMarketplaceSale(paymentIntentId: string) {
+  const admin = getAdmin()
+  const now = new Date().toISOString()
+
+  const { data: tx, error: txErr } = await admin
+    .from("mkt_transactions")
+    .update({ status: "refunded", refunded_at: now, updated_at: now })
+    .eq("stripe_payment_id", paymentIntentId)
+    .in("status", ["completed", "disputed"])
+    .select("id, listing_id")
+    .maybeSingle()
+  if (txErr) return console.error("[wh] tx refund err:", txErr.message)
+  // payments refunded because the listing went to someone else never sold it
+  if (!tx?.listing_id) return console.log("[wh] refund: no marketplace sale for", paymentIntentId)
+
+  const { data: listing, error: listErr } = await admin
+    .from("mkt_listings")
+    .update({ status: "refunded", is_active: false, refunded_at: now, updated_at: now })
+    .eq("id", tx.listing_id)
+    .select("seller_id")
+    .single()
+  if (listErr || !listing) return console.error("[wh] listing refund err:", listErr?.message)
+
+  await transferListingAsset(tx.listing_id, listing.seller_id)
+  await cancelPendingPayouts(tx.listing_id)
+  console.log("[wh] marketplace sale refunded:", { listingId: tx.listing_id, paymentIntentId })
+}
+
+// credits purchases lose credits in proportion to the amount returned;
+// returns false when the payment wasn't a credits purchase
+async function reverseCreditsPurchase(paymentIntentId: string, refundedCents: number, idempotencyKey: string, objectId: string) {
+  const result = await clawbackPurchaseCredits({
+    paymentIntent: paymentIntentId,
+    refundedCents,
+    idempotencyKey,
+    metadata: { stripeObject: objectId },
   })
-  if (rpcErr) {
-    console.warn("[wh] RPC missing/failed, fallback:", rpcErr.message)
-    const { data: prof, error: readErr } = await admin
-      .from("mkt_profiles")
-      .select("credits")
-      .eq("id", userId)
-      .single()
-    if (readErr) {
-      const { error: createErr } = await admin
-        .from("mkt_profiles")
-        .upsert({ id: userId, credits }, { onConflict: "id" })
-      if (createErr) return console.error("[wh] upsert profile failed:", createErr.message)
-    } else {
-      const current = Number(prof?.credits ?? 0)
-      const { error: upErr } = await admin
-        .from("mkt_profiles")
-        .upsert({ id: userId, credits: current + credits }, { onConflict: "id" })
-      if (upErr) return console.error("[wh] credits upsert failed:", upErr.message)
-    }
-  }
+  if (!result) return false
+
+  const log = result.overdrawn ? console.warn : console.log
+  log("[wh] credits clawed back:", {
+    userId: result.userId,
+    credits: result.credits,
+    balance: result.balance,
+    overdrawn: result.overdrawn,
+    payment_intent: paymentIntentId,
+  })
+  return true
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  const piId = paymentIntentIdOf(charge)
+  if (!piId) return console.warn("[wh] refunded charge has no payment intent", charge.id)
+
+  // refund events carry the cumulative amount, so key on it
+  const key = LedgerKeys.refund(`${charge.id}:${charge.amount_refunded}`)
+  const isCreditsPurchase = await reverseCreditsPurchase(piId, charge.amount_refunded, key, charge.id)
+
+  await notify("refund-issued", charge.billing_details?.email || charge.receipt_email, {
+    customerName: charge.billing_details?.name ?? null,
+    amountCents: charge.amount_refunded,
+    currency: charge.currency,
+    fullRefund: charge.refunded,
+    orderId: null,
+  }, `refund:${charge.id}:${charge.amount_refunded}`)
+  if (isCreditsPurchase) return
+
+  // partial refunds leave the sale in place
+  if (!charge.refunded) return console.log("[wh] partial refund, sale kept:", piId, charge.amount_refunded)
+  await refundMarketplaceSale(piId)
+}
+
+async function handleChargeDisputeCreated(dispute: Stripe.Dispute, stripeAccount: string | null) {
+  const piId = paymentIntentIdOf(dispute)
+  console.warn("[wh] charge disputed:", { dispute: dispute.id, payment_intent: piId, amount: dispute.amount, reason: dispute.reason })
+  if (!piId) return
+
+  // clawbacks take the charge's cumulative figure, so count earlier refunds in
+  const charge = typeof dispute.charge === "string"
+    ? await stripe.charges.retrieve(dispute.charge, undefined, stripeAccount ? { stripeAccount } : undefined)
+    : dispute.charge
+  const clawedBack = await reverseCreditsPurchase(piId, disputedCents(charge, dispute.amount), LedgerKeys.dispute(dispute.id), dispute.id)
+  if (clawedBack) return
+
+  // the asset stays with the buyer until the dispute is decided; hold the seller's payout
+  const now = new Date().toISOString()
+  const { data: tx, error } = await getAdmin()
+    .from("mkt_transactions")
+    .update({ status: "disputed", disputed_at: now, updated_at: now })
+    .eq("stripe_payment_id", piId)
+    .select("listing_id")
+    .maybeSingle()
+  if (error) return console.error("[wh] tx dispute err:", error.message)
+  if (tx?.listing_id) await cancelPendingPayouts(tx.listing_id)
+}
 
-  console.log("[wh] credits granted:", { userId, credits, payment_intent: piId })
+// nothing is held before payment, so an abandoned checkout only needs logging
+function handleCheckoutSessionExpired(session: Stripe.Checkout.Session) {
+  console.log("[wh] checkout expired:", { session: session.id, kind: session.metadata?.kind ?? null })
 }
 
 /* ---------------- webhook route ---------------- */
@@ -267,7 +512,16 @@ export async function POST(req: NextRequest) {
           await handleCheckoutSessionCompleted(event.data.object as Stripe.Checkout.Session)
           break
         case "payment_intent.succeeded":
-          await handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent)
+          await handlePaymentIntentSucceeded(event.data.object as Stripe.PaymentIntent, event.account ?? null)
+          break
+        case "charge.refunded":
+          await handleChargeRefunded(event.data.object as Stripe.Charge)
+          break
+        case "charge.dispute.created":
+          await handleChargeDisputeCreated(event.data.object as Stripe.Dispute, event.account ?? null)
+          break
+        case "checkout.session.expired":
+          handleCheckoutSessionExpired(event.data.object as Stripe.Checkout.Session)
           break
         case "account.updated":
         case "capability.updated":
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { defineRoute, ApiError } from "@/lib/api-route"
+import { applyTrackingUpdate, getTrackingAdapter, TrackingUpdate } from "@/lib/tracking"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * POST - carrier tracking webhook (e.g. /api/tracking/easyship)
+ * The provider's adapter verifies the signature and parses the payload;
+ * each update moves the order to shipped / delivered or adds a checkpoint
+ * to its timeline. Unknown shipments and out-of-order updates are
+ * acknowledged so the carrier doesn't retry them.
+ */
+export const POST = defineRoute<undefined, { provider: string }>({
+  handler: async ({ req, params: { provider }, correlationId }) => {
+    const adapter = getTrackingAdapter(provider)
+    if (!adapter) {
+      throw new ApiError(404, "UNKNOWN_PROVIDER", "Unknown tracking provider")
+    }
+
+    const rawBody = await req.text()
+    if (!adapter.verify(rawBody, req.headers)) {
+      throw new ApiError(401, "INVALID_SIGNATURE", "Invalid webhook signature")
+    }
+
+    let updates: TrackingUpdate[]
+    try {
+      updates = adapter.parse(rawBody)
+    } catch {
+      throw new ApiError(400, "INVALID_PAYLOAD", "Invalid webhook payload")
+    }
+
+    const results = []
+    for (const update of updates) {
+      const outcome = await applyTrackingUpdate(adapter.id, update)
+      if (outcome.result !== "applied") {
+        console.warn(`[${correlationId}] Tracking update not applied:`, outcome)
+      }
+      results.push({ eventKey: update.eventKey, result: outcome.result })
+    }
+
+    return NextResponse.json({ success: true, results })
+  },
+})
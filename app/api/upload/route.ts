@@ -1,8 +1,10 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import crypto from 'crypto'
 import { getRequiredEnvVar } from '@/lib/env-validation'
-import { withRateLimit, RateLimitConfigs } from '@/lib/rate-limiter'
+import { RateLimitConfigs } from '@/lib/rate-limiter'
+import { defineRoute, ApiError } from '@/lib/api-route'
+import { consume, getGuestIdentity, getRemaining, GuestQuota, setGuestDeviceCookie } from '@/lib/guest-quota-server'
 
 // Initialize Supabase client with service key for server-side operations
 const supabaseUrl = getRequiredEnvVar('SUPABASE_URL')
@@ -14,38 +16,6 @@ const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
 const ALLOWED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/webp']
 const BUCKET_NAME = 'custom-uploads'
 
-/**
- * Validate CSRF tokens for App Router
- */
-function validateCSRFForAppRouter(request: NextRequest): boolean {
-  const cookieHeader = request.headers.get('cookie') || ''
-  const cookies = Object.fromEntries(
-    cookieHeader.split(';').map(cookie => {
-      const [key, value] = cookie.trim().split('=')
-      return [key, value]
-    })
-  )
-  const cookieToken = cookies['csrf_token'] || null
-  const headerToken = request.headers.get('x-csrf-token') || null
-  
-  if (!cookieToken || !headerToken) {
-    return false
-  }
-  
-  if (cookieToken.length !== headerToken.length) {
-    return false
-  }
-  
-  try {
-    return crypto.timingSafeEqual(
-      Buffer.from(cookieToken, 'hex'),
-      Buffer.from(headerToken, 'hex')
-    )
-  } catch {
-    return false
-  }
-}
-
 /**
  * Generate a unique filename to prevent collisions
  */
@@ -56,60 +26,54 @@ function generateUniqueFilename(originalFilename: string): string {
   return `${timestamp}-${randomString}.${extension}`
 }
 
+function guestQuotaUnavailable(correlationId: string) {
+  return (error: unknown): never => {
+    console.error(`[${correlationId}] Guest quota check failed:`, error)
+    throw new ApiError(503, 'GUEST_QUOTA_UNAVAILABLE', 'Unable to check free creations')
+  }
+}
+
+function guestQuotaExhausted(quota: GuestQuota) {
+  return new ApiError(403, 'GUEST_QUOTA_EXHAUSTED', 'Free creation limit reached. Sign in to continue.', quota)
+}
+
 /**
  * POST handler for uploading custom card artwork
+ * CSRF protected and rate limited (uploads budget, shared with GET /api/uploads).
+ * Guest uploads are creations: they need a free creation left, and one is
+ * used only once the upload has been stored.
  */
-async function handleUpload(request: NextRequest) {
-  // Skip CSRF for multipart/form-data uploads
-  const contentType = request.headers.get('content-type') || ''
-  const isMultipartUpload = contentType.includes('multipart/form-data')
-  const isTestEnvironment = process.env.NODE_ENV === 'development' && request.headers.get('x-test-mode') === 'true'
-  
-  if (!isMultipartUpload && !isTestEnvironment && !validateCSRFForAppRouter(request)) {
-    return NextResponse.json(
-      { 
-        error: 'CSRF validation failed',
-        code: 'CSRF_INVALID'
-      },
-      { status: 403 }
-    )
-  }
+export const POST = defineRoute({
+  auth: 'optional',
+  csrf: true,
+  rateLimit: RateLimitConfigs.uploads,
+  handler: async ({ req, user, correlationId }) => {
+    const guest = user ? null : getGuestIdentity(req)
+    if (guest) {
+      const quota = await getRemaining(guest).catch(guestQuotaUnavailable(correlationId))
+      if (quota.remaining <= 0) {
+        throw guestQuotaExhausted(quota)
+      }
+    }
 
-  try {
     // Parse multipart form data
-    const formData = await request.formData()
+    const formData = await req.formData().catch(() => {
+      throw new ApiError(400, 'INVALID_FORM_DATA', 'Expected multipart form data')
+    })
     const file = formData.get('file') as File | null
     
     if (!file) {
-      return NextResponse.json(
-        { 
-          error: 'No file provided',
-          code: 'NO_FILE'
-        },
-        { status: 400 }
-      )
+      throw new ApiError(400, 'NO_FILE', 'No file provided')
     }
 
     // Validate file type
     if (!ALLOWED_MIME_TYPES.includes(file.type)) {
-      return NextResponse.json(
-        { 
-          error: 'Invalid file type. Only PNG, JPEG, and WebP images are allowed.',
-          code: 'INVALID_FILE_TYPE'
-        },
-        { status: 400 }
-      )
+      throw new ApiError(400, 'INVALID_FILE_TYPE', 'Invalid file type. Only PNG, JPEG, and WebP images are allowed.')
     }
 
     // Validate file size
     if (file.size > MAX_FILE_SIZE) {
-      return NextResponse.json(
-        { 
-          error: 'File too large. Maximum size is 10MB.',
-          code: 'FILE_TOO_LARGE'
-        },
-        { status: 400 }
-      )
+      throw new ApiError(400, 'FILE_TOO_LARGE', 'File too large. Maximum size is 10MB.')
     }
 
     // Convert File to ArrayBuffer
@@ -134,15 +98,8 @@ async function handleUpload(request: NextRequest) {
       })
 
     if (uploadError) {
-      console.error('Upload error:', uploadError)
-      return NextResponse.json(
-        { 
-          error: 'Failed to upload file',
-          code: 'UPLOAD_FAILED',
-          details: uploadError.message
-        },
-        { status: 500 }
-      )
+      console.error(`[${correlationId}] Upload error:`, uploadError)
+      throw new ApiError(500, 'UPLOAD_FAILED', 'Failed to upload file')
     }
 
     // Get public URL for the uploaded file
@@ -164,25 +121,36 @@ async function handleUpload(request: NextRequest) {
       .single()
 
     if (dbError) {
-      console.error('Database error:', dbError)
+      console.error(`[${correlationId}] Database error:`, dbError)
       
       // Try to clean up the uploaded file
       await supabase.storage
         .from(BUCKET_NAME)
         .remove([filePath])
       
-      return NextResponse.json(
-        { 
-          error: 'Failed to save upload metadata',
-          code: 'DB_ERROR',
-          details: dbError.message
-        },
-        { status: 500 }
-      )
+      throw new ApiError(500, 'DB_ERROR', 'Failed to save upload metadata')
+    }
+
+    // Another request may have used the last free creation meanwhile; the upload goes if so
+    let quota: GuestQuota | undefined
+    if (guest) {
+      const removeUpload = async () => {
+        await supabase.from('custom_uploads').delete().eq('id', dbData.id)
+        await supabase.storage.from(BUCKET_NAME).remove([filePath])
+      }
+      const consumed = await consume(guest).catch(async error => {
+        await removeUpload()
+        return guestQuotaUnavailable(correlationId)(error)
+      })
+      if (!consumed.allowed) {
+        await removeUpload()
+        throw guestQuotaExhausted(consumed.quota)
+      }
+      quota = consumed.quota
     }
 
     // Return success response with upload details
-    return NextResponse.json({
+    const response = NextResponse.json({
       success: true,
       url: publicUrl,
       data: {
@@ -192,27 +160,13 @@ async function handleUpload(request: NextRequest) {
         fileSize: file.size,
         mimeType: file.type,
         uploadedAt: dbData.uploaded_at
-      }
-    })
-
-  } catch (error) {
-    console.error('Upload error:', error)
-    return NextResponse.json(
-      { 
-        error: 'An unexpected error occurred',
-        code: 'UNKNOWN_ERROR',
-        details: error instanceof Error ? error.message : 'Unknown error'
       },
-      { status: 500 }
-    )
-  }
-}
-
-/**
- * Export the POST handler with rate limiting
- * Using strict configuration for uploads: 10 requests per minute per IP
- */
-export const POST = withRateLimit(handleUpload, RateLimitConfigs.strict);
+      ...(quota && { quota })
+    })
+    if (guest) setGuestDeviceCookie(response, guest)
+    return response
+  },
+})
 
 /**
  * GET handler - not supported for uploads
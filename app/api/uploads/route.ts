@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase'
+import { withRateLimit, RateLimitConfigs } from '@/lib/rate-limiter'
 
-export async function GET(request: NextRequest) {
+async function handleListUploads(request: NextRequest) {
   try {
     // Get query parameters
     const searchParams = request.nextUrl.searchParams
@@ -53,4 +54,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+// Shares its budget with POST /api/upload (see RateLimitRouteGroups)
+export const GET = withRateLimit(handleListUploads, RateLimitConfigs.uploads)
@@ -2,6 +2,30 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getStripeServer } from '@/lib/stripe';
 import Stripe from 'stripe';
 import { supabase } from '@/lib/supabase';
+import { applyCredits, clawbackPurchaseCredits, disputedCents, LedgerKeys } from '@/lib/credits-ledger';
+import { creditsFromMetadata } from '@/lib/credit-packs';
+import {
+  adjustInventoryOnce,
+  commitReservation,
+  InsufficientInventoryError,
+  releaseReservation,
+} from '@/lib/inventory';
+import { DEFAULT_DROP_ID, getDrop } from '@/lib/drops';
+import {
+  assignSerials,
+  compactSerials,
+  EditionExhaustedError,
+  EditionSerial,
+  voidSessionSerials,
+} from '@/lib/edition-serials';
+import { recordRedemption, releasePromotion } from '@/lib/promotions';
+import { enqueueFulfilment, orderItemsFromMetadata, runFulfilmentJobs } from '@/lib/fulfilment';
+import { getOrderByPaymentIntent, getOrderBySession, NewOrder, OrderTransitionError, transitionOrder } from '@/lib/orders';
+import { ServiceLevel } from '@/lib/shipping';
+import { SendEmailOptions } from '@/lib/email';
+import { EmailTemplateName, EmailTemplates, sendTemplateEmail } from '@/lib/email-templates';
+
+const stripe = getStripeServer('platform');
 
 /**
  * Enhanced logging and error handling system for webhook processing
@@ -665,8 +689,6 @@ async function executeWithRetry<T>(
 export async function POST(request: NextRequest) {
   // Generate correlation ID for tracking this request
   const correlationId = generateCorrelationId();
-  
-    const stripe = getStripeServer('platform'); // or 'market'
 
   // Start performance monitoring
   const startTime = Date.now();
@@ -873,6 +895,18 @@ export async function POST(request: NextRequest) {
               }
             }, correlationId);
             break;
+
+          case 'charge.refunded':
+            await handleChargeRefunded(event.data.object as Stripe.Charge, correlationId);
+            break;
+
+          case 'charge.dispute.created':
+            await handleChargeDisputeCreated(event.data.object as Stripe.Dispute, correlationId);
+            break;
+
+          case 'checkout.session.expired':
+            await handleCheckoutSessionExpired(event.data.object as Stripe.Checkout.Session, correlationId);
+            break;
           
           default:
             logEvent({
@@ -966,7 +1000,8 @@ export async function POST(request: NextRequest) {
 async function handleCreditsPurchase(session: Stripe.Checkout.Session, correlationId: string) {
   const payment_intent = (session.payment_intent as string) || session.id
   const userId = session.metadata?.userId as string | undefined
-  const credits = parseInt(session.metadata?.credits || '0', 10)
+  // Base pack credits plus any bonus recorded at checkout
+  const { total: credits, bonus } = creditsFromMetadata(session.metadata ?? {})
   const amount_cents = session.amount_total ?? 0
 
   if (!userId || !credits || credits <= 0) {
@@ -979,70 +1014,42 @@ async function handleCreditsPurchase(session: Stripe.Checkout.Session, correlati
     return
   }
 
-  // Idempotent: unique on payment_intent
-  const { data: existing, error: selErr } = await supabase
-    .from('credits_ledger')
-    .select('id')
-    .eq('payment_intent', payment_intent)
-    .maybeSingle()
-
-  if (selErr) {
+  // Ledger entry + balance in one transaction; replays of the same payment are no-ops
+  let result;
+  try {
+    result = await applyCredits({
+      userId,
+      delta: credits,
+      reason: 'purchase',
+      idempotencyKey: LedgerKeys.purchase(payment_intent),
+      paymentIntent: payment_intent,
+      amountCents: amount_cents,
+      metadata: { packId: session.metadata?.packId ?? null, bonusCredits: bonus },
+    })
+  } catch (error) {
     logError(
       ErrorCategory.DATABASE,
-      'Ledger lookup failed',
-      selErr,
+      'Credit grant failed',
+      error,
       correlationId,
-      { payment_intent }
+      { userId, credits, payment_intent }
     )
-    throw selErr
-  }
-
-  if (!existing) {
-    const { error: insErr } = await supabase
-      .from('credits_ledger')
-      .insert({
-        user_id: userId,
-        payment_intent,
-        amount_cents,
-        credits,           // positive for purchase
-        reason: 'purchase'
-      })
-
-    // 23505 = unique_violation => already processed (ok to ignore)
-    if (insErr && (insErr as any).code !== '23505') {
-      logError(
-        ErrorCategory.DATABASE,
-        'Ledger insert failed',
-        insErr,
-        correlationId,
-        { payment_intent }
-      )
-      throw insErr
-    }
-
-    // increment balance
-    const { error: rpcErr } = await supabase.rpc('increment_profile_credits', {
-      p_user_id: userId,
-      p_delta: credits
-    })
-    if (rpcErr) {
-      logError(
-        ErrorCategory.DATABASE,
-        'Credit increment failed',
-        rpcErr,
-        correlationId,
-        { userId, credits }
-      )
-      throw rpcErr
-    }
+    throw error
   }
 
   logEvent({
     level: LogLevel.INFO,
-    message: 'Credits granted',
+    message: result.applied ? 'Credits granted' : 'Credits already granted',
     eventId: session.id,
-    data: { userId, credits, payment_intent }
+    data: { userId, credits, balance: result.balance, payment_intent }
   }, correlationId)
+
+  await sendCustomerEmail('credits-purchased', session.customer_details?.email, {
+    credits,
+    bonusCredits: bonus,
+    amountCents: amount_cents,
+    currency: session.currency ?? 'usd',
+  }, { idempotencyKey: `credits:${payment_intent}` }, session.id, correlationId)
 }
 
 
@@ -1172,6 +1179,12 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session,
                                   !uploadId && 
                                   !customImageUrl && 
                                   (!isCartCheckout || limitedEditionQuantity > 0);
+
+    // Sessions that reserved stock at checkout take it from the reservation
+    const inventoryReservation = session.metadata?.inventoryReservation;
+    if (inventoryReservation) {
+      await settleInventoryReservation(inventoryReservation, 'commit', session.id, correlationId);
+    }
     
     if (shouldUpdateInventory && limitedEditionQuantity > 0) {
       // Cart checkout with limited edition cards - update only limited edition quantity
@@ -1186,7 +1199,9 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session,
         }
       }, correlationId);
       
-      await updateInventory(limitedEditionQuantity, session.id, correlationId);
+      if (!inventoryReservation) {
+        await updateSessionInventory(session, correlationId);
+      }
     } else if (shouldUpdateInventory && !isCartCheckout) {
       // Single item checkout for limited edition card
       logEvent({
@@ -1202,7 +1217,9 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session,
         }
       }, correlationId);
       
-      await updateInventory(quantity, session.id, correlationId);
+      if (!inventoryReservation) {
+        await updateSessionInventory(session, correlationId);
+      }
     } else {
       // This is a custom card order - handle it separately
       logEvent({
@@ -1222,8 +1239,20 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session,
       await handleCustomCardOrder(session, uploadId || customImageUrl, correlationId);
     }
     
+    // Number each limited edition unit within its edition
+    const serials = await assignSessionSerials(session, correlationId);
+    
+    // Count the promotion used at checkout against its caps
+    await recordSessionPromotion(session, correlationId);
+    
     // Store customer data and marketing consent
-    await storeCustomerData(session, correlationId);
+    await storeCustomerData(session, correlationId, serials);
+    
+    // Record the order and ship it through Easyship
+    await enqueueSessionFulfilment(session, correlationId, serials);
+
+    // Order confirmation, plus the drops list welcome for customers who opted in
+    await sendOrderEmails(session, marketingConsent, correlationId);
     
     completePerformanceMonitoring(sessionMetrics, 'checkout_session_completed', correlationId, true);
     
@@ -1254,27 +1283,61 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session,
 }
 
 /**
- * Update inventory after successful purchase
- * Decrements inventory and handles race conditions with version control
+ * Apply a session's limited edition quantities to each drop's stock, for
+ * sessions without a reservation and for refunds ('restore')
  */
-async function updateInventory(purchasedQuantity: number, sessionId: string, correlationId: string) {
-  const PRODUCT_ID = 'prod_limited_edition_card';
-  
-  // Safety check: Log a warning if this function is called with suspicious metadata
+async function updateSessionInventory(
+  session: Stripe.Checkout.Session,
+  correlationId: string,
+  change: 'purchase' | 'restore' = 'purchase'
+) {
+  const quantities = limitedEditionQuantitiesOf(session.metadata ?? {});
+  for (const [dropId, quantity] of Object.entries(quantities)) {
+    await updateInventory(dropId, quantity, session.id, correlationId, change);
+  }
+}
+
+/**
+ * Update a drop's inventory for sessions without a reservation (created
+ * before stock moved to the database) and for refunds ('restore').
+ * The change is a conditional update on the inventory row, so concurrent
+ * webhooks can't lose each other's writes, and is keyed on the change and
+ * session, so a retried event doesn't apply it twice.
+ */
+async function updateInventory(
+  dropId: string,
+  purchasedQuantity: number,
+  sessionId: string,
+  correlationId: string,
+  change: 'purchase' | 'restore' = 'purchase'
+) {
+  // Past orders can belong to drops that have since been deactivated
+  const drop = await getDrop(dropId, { includeInactive: true });
+  if (!drop) {
+    logEvent({
+      level: LogLevel.CRITICAL,
+      message: 'CRITICAL: Order references an unknown drop - inventory not updated',
+      sessionId,
+      data: { dropId, purchasedQuantity, change, requiresAttention: true }
+    }, correlationId);
+    return;
+  }
+
   logEvent({
     level: LogLevel.INFO,
     message: 'Starting limited edition inventory update',
     sessionId,
     data: { 
       purchasedQuantity,
-      productId: PRODUCT_ID,
+      change,
+      dropId,
+      sku: drop.sku,
       operation: 'inventory_update_start'
     }
   }, correlationId);
   
-  // Enhanced retry configuration for inventory updates with version conflict handling
   const inventoryRetryConfig: RetryConfig = {
-    maxAttempts: 5, // More attempts for inventory due to potential version conflicts
+    maxAttempts: 5,
     baseDelayMs: 500,
     maxDelayMs: 8000,
     exponentialBase: 2,
@@ -1285,111 +1348,68 @@ async function updateInventory(purchasedQuantity: number, sessionId: string, cor
       'ETIMEDOUT',
       'EAI_AGAIN',
       'NETWORK_ERROR',
-      'RATE_LIMITED',
-      'version_conflict', // Custom error for optimistic locking conflicts
-      'stripe_api_error'
+      'RATE_LIMITED'
     ]
   };
 
   await executeWithRetry(
     async () => {
-      logEvent({
-        level: LogLevel.INFO,
-        message: 'Starting inventory update operation',
-        sessionId,
-        data: { 
-          purchasedQuantity,
-          productId: PRODUCT_ID,
-          operation: 'inventory_update'
-        }
-      }, correlationId);
-      
-      // Get current product state
-      const product = await stripe.products.retrieve(PRODUCT_ID);
-      
-      // Extra safety check: Verify this is actually the limited edition product
-      if (product.metadata.type !== 'limited_edition') {
+      let level;
+      try {
+        level = await adjustInventoryOnce(
+          drop.sku,
+          change === 'restore' ? purchasedQuantity : -purchasedQuantity,
+          `${change}:${sessionId}`
+        );
+      } catch (error) {
+        if (!(error instanceof InsufficientInventoryError)) throw error;
+
+        // The customer has already paid; flag the oversell rather than fail the webhook
         logEvent({
           level: LogLevel.CRITICAL,
-          message: 'CRITICAL: Attempted to update inventory for wrong product type!',
+          message: 'CRITICAL: Paid quantity exceeds available limited edition inventory',
           sessionId,
           data: { 
-            productId: PRODUCT_ID,
-            actualProductType: product.metadata.type,
-            productName: product.name,
-            expectedType: 'limited_edition'
+            dropId,
+            purchasedQuantity,
+            available: error.available,
+            requiresAttention: true
           }
         }, correlationId);
-        
-        throw new Error(`Invalid product type for inventory update: ${product.metadata.type}`);
+        return;
       }
-      
-      // Extract current inventory and version
-      const currentInventory = parseInt(product.metadata.inventory || '1000', 10);
-      const currentVersion = parseInt(product.metadata.version || '0', 10);
-      
-      // Calculate new inventory
-      const newInventory = Math.max(0, currentInventory - purchasedQuantity);
-      
-      logEvent({
-        level: LogLevel.INFO,
-        message: 'Inventory calculation complete',
-        sessionId,
-        data: { 
-          currentInventory,
-          purchasedQuantity,
-          newInventory,
-          currentVersion,
-          operation: 'inventory_calculation'
-        }
-      }, correlationId);
-      
-      // Validate sufficient inventory (shouldn't happen due to checkout validation, but safety check)
-      if (currentInventory < purchasedQuantity) {
+
+      if (!level) {
         logEvent({
-          level: LogLevel.WARN,
-          message: 'Insufficient inventory detected during update',
+          level: LogLevel.INFO,
+          message: 'Inventory already updated for this session',
           sessionId,
-          data: { 
-            currentInventory,
-            purchasedQuantity,
-            deficit: purchasedQuantity - currentInventory
-          }
+          data: { dropId, change }
         }, correlationId);
-        // Still proceed with update to prevent negative inventory
+        return;
       }
       
-      // Update product with optimistic locking via version increment
-      await stripe.products.update(PRODUCT_ID, {
-        metadata: {
-          ...product.metadata,
-          inventory: newInventory.toString(),
-          version: (currentVersion + 1).toString(),
-          last_purchase_session: sessionId,
-          last_updated: new Date().toISOString(),
-        }
-      });
-      
       logEvent({
         level: LogLevel.INFO,
         message: 'Inventory successfully updated',
         sessionId,
         data: { 
-          newInventory,
-          newVersion: currentVersion + 1,
-          sessionId,
+          onHand: level.onHand,
+          available: level.available,
+          change,
           operation: 'inventory_update_success'
         }
       }, correlationId);
       
       // Log low inventory warning
-      if (newInventory <= 10) {
+      if (change === 'purchase' && level.available <= 10) {
         logEvent({
           level: LogLevel.WARN,
           message: 'Low inventory alert triggered',
           sessionId,
           data: { 
-            newInventory,
+            dropId,
+            available: level.available,
             threshold: 10,
             requiresAttention: true
           }
@@ -1402,11 +1422,597 @@ async function updateInventory(purchasedQuantity: number, sessionId: string, cor
     { 
       sessionId,
       purchasedQuantity,
-      productId: PRODUCT_ID
+      sku: drop.sku
     }
   );
 }
 
+// Stripe metadata values are capped at 500 characters
+const METADATA_VALUE_LIMIT = 500;
+
+/**
+ * Give each limited edition unit of a completed session its edition serial
+ * and record them on the PaymentIntent (metadata.serials). Fulfilment prints
+ * them on the order's packing description. Replays return the serials already assigned.
+ */
+async function assignSessionSerials(
+  session: Stripe.Checkout.Session,
+  correlationId: string
+): Promise<EditionSerial[]> {
+  const serials: EditionSerial[] = [];
+  const customerEmail = session.customer_details?.email ?? session.customer_email;
+
+  for (const [dropId, quantity] of Object.entries(limitedEditionQuantitiesOf(session.metadata ?? {}))) {
+    try {
+      serials.push(...await executeWithRetry(
+        () => assignSerials(dropId, session.id, quantity, customerEmail),
+        'edition_serials_assign',
+        correlationId,
+        DEFAULT_RETRY_CONFIG,
+        { sessionId: session.id, dropId, quantity }
+      ));
+    } catch (error) {
+      if (!(error instanceof EditionExhaustedError)) throw error;
+
+      // Only possible if the edition was restocked past its size
+      logEvent({
+        level: LogLevel.CRITICAL,
+        message: 'CRITICAL: Edition has no serials left for paid units',
+        sessionId: session.id,
+        data: { dropId, quantity, free: error.free, requiresAttention: true }
+      }, correlationId);
+    }
+  }
+
+  if (serials.length === 0) return serials;
+
+  let compact = compactSerials(serials);
+  if (compact.length > METADATA_VALUE_LIMIT) {
+    compact = `${compact.slice(0, METADATA_VALUE_LIMIT - 3)}...`;
+  }
+
+  const paymentIntent = paymentIntentIdOf(session);
+  if (paymentIntent) {
+    try {
+      await stripe.paymentIntents.update(paymentIntent, { metadata: { serials: compact } });
+    } catch (error) {
+      // The serials are in edition_serials either way
+      logError(
+        ErrorCategory.EXTERNAL_API,
+        'Failed to record edition serials on the payment',
+        error,
+        correlationId,
+        { sessionId: session.id, paymentIntent, serials: compact }
+      );
+    }
+  }
+
+  logEvent({
+    level: LogLevel.INFO,
+    message: 'Edition serials assigned',
+    sessionId: session.id,
+    data: { serials: compact }
+  }, correlationId);
+
+  return serials;
+}
+
+/**
+ * Mark the promotion redemption reserved at checkout
+ * (metadata.promotionReservation) as paid. Replays record nothing.
+ */
+async function recordSessionPromotion(session: Stripe.Checkout.Session, correlationId: string): Promise<void> {
+  const code = session.metadata?.promotionCode;
+  const reservation = session.metadata?.promotionReservation;
+  if (!code) return;
+
+  if (!reservation) {
+    logEvent({
+      level: LogLevel.WARN,
+      message: 'Promotion used without a reservation; redemption not recorded',
+      sessionId: session.id,
+      data: { code }
+    }, correlationId);
+    return;
+  }
+
+  const discountCents = parseInt(session.metadata?.promotionDiscountCents ?? '0', 10) || 0;
+  const recorded = await executeWithRetry(
+    () => recordRedemption(reservation, session.id),
+    'promotion_redemption_record',
+    correlationId,
+    DEFAULT_RETRY_CONFIG,
+    { sessionId: session.id, code }
+  );
+
+  logEvent({
+    level: LogLevel.INFO,
+    message: recorded ? 'Promotion redemption recorded' : 'Promotion redemption already recorded',
+    sessionId: session.id,
+    data: { code, discountCents, reservation }
+  }, correlationId);
+}
+
+// Newer API versions move shipping_details under collected_information
+type SessionShipping = Stripe.Checkout.Session & {
+  collected_information?: { shipping_details?: Stripe.Checkout.Session.ShippingDetails | null } | null;
+};
+
+const SERVICE_LEVELS: ServiceLevel[] = ['standard', 'tracked', 'express'];
+
+/**
+ * The service level the customer picked, from the shipping rate's metadata
+ * (set by create-checkout-session). Falls back to standard.
+ */
+async function sessionServiceLevel(session: Stripe.Checkout.Session, correlationId: string): Promise<ServiceLevel> {
+  const rate = session.shipping_cost?.shipping_rate;
+  if (!rate) return 'standard';
+
+  try {
+    const shippingRate = typeof rate === 'string' ? await stripe.shippingRates.retrieve(rate) : rate;
+    const level = shippingRate.metadata?.service_level as ServiceLevel | undefined;
+    return level && SERVICE_LEVELS.includes(level) ? level : 'standard';
+  } catch (error) {
+    logError(
+      ErrorCategory.EXTERNAL_API,
+      'Failed to read the session shipping rate; shipping as standard',
+      error,
+      correlationId,
+      { sessionId: session.id }
+    );
+    return 'standard';
+  }
+}
+
+/**
+ * Record the session's order and enqueue its fulfilment job (idempotent per
+ * session), then make the first attempt. A failed attempt doesn't fail the
+ * webhook: /api/cron/fulfilment retries it with backoff.
+ */
+async function enqueueSessionFulfilment(
+  session: Stripe.Checkout.Session,
+  correlationId: string,
+  serials: EditionSerial[] = []
+): Promise<void> {
+  const shippingDetails = session.shipping_details ?? (session as SessionShipping).collected_information?.shipping_details;
+  const address = shippingDetails?.address;
+  if (!address?.line1 || !address.city || !address.postal_code || !address.country) {
+    logEvent({
+      level: LogLevel.CRITICAL,
+      message: 'CRITICAL: Paid session has no shipping address; order not sent to fulfilment',
+      sessionId: session.id,
+      data: { requiresAttention: true }
+    }, correlationId);
+    return;
+  }
+
+  const order: NewOrder = {
+    checkoutSessionId: session.id,
+    paymentIntentId: paymentIntentIdOf(session),
+    customerEmail: session.customer_details?.email ?? session.customer_email,
+    customerName: shippingDetails?.name ?? session.customer_details?.name ?? null,
+    customerPhone: session.customer_details?.phone ?? null,
+    shippingAddress: {
+      line1: address.line1,
+      line2: address.line2 ?? null,
+      city: address.city,
+      state: address.state ?? null,
+      postalCode: address.postal_code,
+      country: address.country,
+    },
+    items: orderItemsFromMetadata(session.metadata ?? {}),
+    serials: serials.length > 0 ? compactSerials(serials) : null,
+    amountTotalCents: session.amount_total ?? 0,
+    shippingCents: session.total_details?.amount_shipping ?? 0,
+    currency: session.currency ?? 'usd',
+    shippingLevel: await sessionServiceLevel(session, correlationId),
+  };
+
+  const orderId = await executeWithRetry(
+    () => enqueueFulfilment(order),
+    'fulfilment_enqueue',
+    correlationId,
+    DEFAULT_RETRY_CONFIG,
+    { sessionId: session.id }
+  );
+
+  try {
+    const [result] = await runFulfilmentJobs({ orderId, limit: 1 });
+    logEvent({
+      level: result?.status === 'failed' ? LogLevel.CRITICAL : LogLevel.INFO,
+      message: result
+        ? `Fulfilment attempt ${result.status}`
+        : 'Fulfilment job already running or done',
+      sessionId: session.id,
+      data: { ...result, orderId, requiresAttention: result?.status === 'failed' }
+    }, correlationId);
+  } catch (error) {
+    logError(
+      ErrorCategory.EXTERNAL_API,
+      'Fulfilment attempt failed; the job will be retried',
+      error,
+      correlationId,
+      { sessionId: session.id, orderId }
+    );
+  }
+}
+
+/**
+ * Settle the stock a session reserved at checkout: committed on payment,
+ * released on expiry. Replays are no-ops.
+ */
+async function settleInventoryReservation(
+  reference: string,
+  outcome: 'commit' | 'release',
+  sessionId: string,
+  correlationId: string
+) {
+  let settled: boolean;
+  try {
+    settled = await executeWithRetry(
+      () => (outcome === 'commit' ? commitReservation(reference) : releaseReservation(reference)),
+      `inventory_reservation_${outcome}`,
+      correlationId,
+      DEFAULT_RETRY_CONFIG,
+      { sessionId, reference }
+    );
+  } catch (error) {
+    if (!(error instanceof InsufficientInventoryError)) throw error;
+
+    // Paid after the hold lapsed and the units were sold to someone else
+    logEvent({
+      level: LogLevel.CRITICAL,
+      message: 'CRITICAL: Payment completed after its reservation lapsed and stock ran out',
+      sessionId,
+      data: { reference, sku: error.sku, available: error.available, requiresAttention: true }
+    }, correlationId);
+    return;
+  }
+
+  logEvent({
+    level: LogLevel.INFO,
+    message: settled
+      ? `Inventory reservation ${outcome === 'commit' ? 'committed' : 'released'}`
+      : 'Inventory reservation already settled',
+    sessionId,
+    data: { reference, outcome }
+  }, correlationId);
+}
+
+/**
+ * Limited edition units a completed session took from inventory, by drop.
+ * Mirrors the rules handleCheckoutSessionCompleted uses to decrement;
+ * sessions from before drops bought the default drop.
+ */
+function limitedEditionQuantitiesOf(metadata: Stripe.Metadata): Record<string, number> {
+  const quantities: Record<string, number> = {};
+  const add = (dropId: string | undefined, quantity: number) => {
+    if (quantity <= 0) return;
+    const id = dropId || DEFAULT_DROP_ID;
+    quantities[id] = (quantities[id] ?? 0) + quantity;
+  };
+
+  if (metadata.kind === 'credits_purchase') return quantities;
+  if (metadata.isCustomCard === 'true' || metadata.uploadId || metadata.customImageUrl) return quantities;
+  if (metadata.isCartCheckout !== 'true') {
+    add(metadata.dropId, parseInt(metadata.quantity || '1', 10));
+    return quantities;
+  }
+
+  for (let itemIndex = 0; metadata[`item${itemIndex}_type`]; itemIndex++) {
+    if (metadata[`item${itemIndex}_type`] === 'limited-edition') {
+      add(metadata[`item${itemIndex}_dropId`], parseInt(metadata[`item${itemIndex}_quantity`] || '0', 10));
+    }
+  }
+  return quantities;
+}
+
+function paymentIntentIdOf(source: { payment_intent: string | Stripe.PaymentIntent | null }): string | null {
+  return typeof source.payment_intent === 'string' ? source.payment_intent : source.payment_intent?.id ?? null;
+}
+
+/**
+ * Claw back credits bought with a refunded or disputed payment.
+ * Returns false when the payment was not a credits purchase.
+ */
+async function reverseCreditsPurchase(
+  paymentIntent: string,
+  refundedCents: number,
+  idempotencyKey: string,
+  eventObjectId: string,
+  correlationId: string
+): Promise<boolean> {
+  let result;
+  try {
+    result = await clawbackPurchaseCredits({
+      paymentIntent,
+      refundedCents,
+      idempotencyKey,
+      metadata: { stripeObject: eventObjectId },
+    });
+  } catch (error) {
+    logError(
+      ErrorCategory.DATABASE,
+      'Credit clawback failed',
+      error,
+      correlationId,
+      { paymentIntent, refundedCents }
+    );
+    throw error;
+  }
+
+  if (!result) return false;
+
+  logEvent({
+    level: result.overdrawn ? LogLevel.WARN : LogLevel.INFO,
+    message: result.overdrawn ? 'Credits clawed back - balance overdrawn' : 'Credits clawed back',
+    eventId: eventObjectId,
+    data: { userId: result.userId, credits: result.credits, balance: result.balance, applied: result.applied, paymentIntent }
+  }, correlationId);
+  return true;
+}
+
+/**
+ * Handle refunds: credits purchases lose the refunded share of their credits,
+ * fully refunded limited edition orders put their units back in inventory
+ */
+async function handleChargeRefunded(charge: Stripe.Charge, correlationId: string) {
+  const paymentIntent = paymentIntentIdOf(charge);
+  if (!paymentIntent) {
+    logEvent({
+      level: LogLevel.WARN,
+      message: 'Refunded charge has no payment intent - skipping',
+      eventId: charge.id,
+      data: { amountRefunded: charge.amount_refunded }
+    }, correlationId);
+    return;
+  }
+
+  // Each refund event carries the cumulative amount, so key on it
+  const isCreditsPurchase = await reverseCreditsPurchase(
+    paymentIntent,
+    charge.amount_refunded,
+    LedgerKeys.refund(`${charge.id}:${charge.amount_refunded}`),
+    charge.id,
+    correlationId
+  );
+
+  // Each refund, partial or full, gets its own email
+  const refundedOrder = isCreditsPurchase ? null : await getOrderByPaymentIntent(paymentIntent);
+  await sendCustomerEmail('refund-issued', charge.billing_details?.email || charge.receipt_email, {
+    customerName: charge.billing_details?.name ?? null,
+    amountCents: charge.amount_refunded,
+    currency: charge.currency,
+    fullRefund: charge.refunded,
+    orderId: refundedOrder?.id ?? null,
+  }, { idempotencyKey: `refund:${charge.id}:${charge.amount_refunded}` }, charge.id, correlationId);
+
+  if (isCreditsPurchase) return;
+
+  if (!charge.refunded) {
+    logEvent({
+      level: LogLevel.INFO,
+      message: 'Partial refund - inventory unchanged',
+      eventId: charge.id,
+      data: { paymentIntent, amount: charge.amount, amountRefunded: charge.amount_refunded }
+    }, correlationId);
+    return;
+  }
+
+  await markOrderRefunded(paymentIntent, charge, correlationId);
+
+  const sessions = await stripe.checkout.sessions.list({ payment_intent: paymentIntent, limit: 1 });
+  const session = sessions.data[0];
+  if (!session) {
+    logEvent({
+      level: LogLevel.WARN,
+      message: 'No checkout session for refunded charge - inventory unchanged',
+      eventId: charge.id,
+      data: { paymentIntent }
+    }, correlationId);
+    return;
+  }
+
+  if (Object.keys(limitedEditionQuantitiesOf(session.metadata ?? {})).length === 0) {
+    logEvent({
+      level: LogLevel.INFO,
+      message: 'Refunded order has no limited edition cards - inventory unchanged',
+      eventId: charge.id,
+      sessionId: session.id,
+      data: { paymentIntent }
+    }, correlationId);
+    return;
+  }
+
+  await updateSessionInventory(session, correlationId, 'restore');
+
+  // Refunded cards are void; their numbers go back to the edition
+  const voided = await voidSessionSerials(session.id);
+  if (voided > 0) {
+    logEvent({
+      level: LogLevel.INFO,
+      message: 'Voided edition serials of refunded order',
+      eventId: charge.id,
+      sessionId: session.id,
+      data: { voided }
+    }, correlationId);
+  }
+}
+
+/**
+ * Move a fully refunded order to refunded, which stops any fulfilment
+ * still pending
+ */
+async function markOrderRefunded(paymentIntent: string, charge: Stripe.Charge, correlationId: string) {
+  const order = await getOrderByPaymentIntent(paymentIntent);
+  if (!order) return;
+
+  try {
+    const { changed, from } = await transitionOrder(order.id, 'refunded', {
+      source: 'stripe',
+      description: 'Payment refunded',
+      eventKey: `stripe:refund:${charge.id}`,
+    });
+    logEvent({
+      level: LogLevel.INFO,
+      message: changed ? 'Order marked refunded' : 'Order already refunded',
+      eventId: charge.id,
+      data: { orderId: order.id, from }
+    }, correlationId);
+  } catch (error) {
+    if (!(error instanceof OrderTransitionError)) throw error;
+    logEvent({
+      level: LogLevel.WARN,
+      message: 'Refunded order status unchanged',
+      eventId: charge.id,
+      data: { orderId: order.id, reason: error.message }
+    }, correlationId);
+  }
+}
+
+/**
+ * Send a customer email from a webhook handler. Failures are logged rather
+ * than thrown: the payment has been processed either way, and failing the
+ * webhook would replay everything else.
+ */
+async function sendCustomerEmail<K extends EmailTemplateName>(
+  template: K,
+  to: string | null | undefined,
+  data: EmailTemplates[K],
+  options: SendEmailOptions,
+  eventId: string,
+  correlationId: string
+): Promise<void> {
+  if (!to) {
+    logEvent({
+      level: LogLevel.WARN,
+      message: 'No customer email - email not sent',
+      eventId,
+      data: { template }
+    }, correlationId);
+    return;
+  }
+
+  try {
+    const result = await sendTemplateEmail(template, to, data, options);
+    logEvent({
+      level: LogLevel.INFO,
+      message: result.status === 'sent' ? 'Customer email sent' : 'Customer email skipped',
+      eventId,
+      data: { template, ...result }
+    }, correlationId);
+  } catch (error) {
+    logError(
+      ErrorCategory.EXTERNAL_API,
+      'Failed to send customer email',
+      error,
+      correlationId,
+      { eventId, template }
+    );
+  }
+}
+
+/**
+ * Confirm a paid session's order. Customers who opted in to promotions at
+ * checkout also get the drops list welcome, once per address.
+ */
+async function sendOrderEmails(session: Stripe.Checkout.Session, marketingConsent: boolean, correlationId: string) {
+  const email = session.customer_details?.email;
+
+  const order = await getOrderBySession(session.id).catch(error => {
+    logError(ErrorCategory.DATABASE, 'Failed to load order for confirmation email', error, correlationId, {
+      sessionId: session.id
+    });
+    return null;
+  });
+  if (order) {
+    await sendCustomerEmail('order-confirmation', order.customerEmail ?? email, { order }, {
+      idempotencyKey: `order:${order.id}:confirmation`
+    }, session.id, correlationId);
+  }
+
+  if (marketingConsent && email) {
+    await sendCustomerEmail('drop-updates-welcome', email, {
+      customerName: session.customer_details?.name ?? null
+    }, {
+      idempotencyKey: `drop-updates-welcome:${email.toLowerCase()}`,
+      marketingConsent
+    }, session.id, correlationId);
+  }
+}
+
+/**
+ * Handle disputes: the disputed amount is withdrawn immediately, so credits
+ * are clawed back now. Shipped cards aren't coming back, so inventory stays.
+ */
+async function handleChargeDisputeCreated(dispute: Stripe.Dispute, correlationId: string) {
+  const paymentIntent = paymentIntentIdOf(dispute);
+
+  logEvent({
+    level: LogLevel.WARN,
+    message: 'Charge disputed',
+    eventId: dispute.id,
+    data: { paymentIntent, amount: dispute.amount, reason: dispute.reason, status: dispute.status }
+  }, correlationId);
+
+  if (!paymentIntent) return;
+
+  // Clawbacks take the charge's cumulative figure, so count earlier refunds in
+  const charge = typeof dispute.charge === 'string'
+    ? await stripe.charges.retrieve(dispute.charge)
+    : dispute.charge;
+
+  await reverseCreditsPurchase(
+    paymentIntent,
+    disputedCents(charge, dispute.amount),
+    LedgerKeys.dispute(dispute.id),
+    dispute.id,
+    correlationId
+  );
+}
+
+/**
+ * Handle abandoned checkouts: stock reserved for the session goes back on sale
+ * and its promotion redemption no longer counts towards the caps
+ */
+async function handleCheckoutSessionExpired(session: Stripe.Checkout.Session, correlationId: string) {
+  const inventoryReservation = session.metadata?.inventoryReservation;
+  const promotionReservation = session.metadata?.promotionReservation;
+
+  logEvent({
+    level: LogLevel.INFO,
+    message: 'Checkout session expired',
+    eventId: session.id,
+    sessionId: session.id,
+    data: {
+      kind: session.metadata?.kind ?? null,
+      inventoryReservation: inventoryReservation ?? null,
+      promotionReservation: promotionReservation ?? null
+    }
+  }, correlationId);
+
+  if (inventoryReservation) {
+    await settleInventoryReservation(inventoryReservation, 'release', session.id, correlationId);
+  }
+
+  if (promotionReservation) {
+    const released = await executeWithRetry(
+      () => releasePromotion(promotionReservation),
+      'promotion_reservation_release',
+      correlationId,
+      DEFAULT_RETRY_CONFIG,
+      { sessionId: session.id, promotionReservation }
+    );
+
+    logEvent({
+      level: LogLevel.INFO,
+      message: released ? 'Promotion reservation released' : 'Promotion reservation already settled',
+      sessionId: session.id,
+      data: { promotionReservation }
+    }, correlationId);
+  }
+}
+
 /**
  * Handle custom card order after successful payment
  * Creates order record linking upload to checkout session
@@ -1452,6 +2058,14 @@ async function handleCustomCardOrder(session: Stripe.Checkout.Session, uploadId:
       throw error;
     }
 
+    await sendCustomerEmail('custom-card-proof-received', session.customer_details?.email, {
+      customerName: session.customer_details?.name ?? null,
+      quantity,
+      finish: cardFinish,
+      imageUrl: session.metadata?.customImageUrl || null,
+      orderId: null,
+    }, { idempotencyKey: `custom-proof:${session.id}` }, session.id, correlationId);
+
     logEvent({
       level: LogLevel.INFO,
       message: 'Custom card order record created successfully',
@@ -1488,7 +2102,11 @@ async function handleCustomCardOrder(session: Stripe.Checkout.Session, uploadId:
  * Store customer data and marketing consent after successful purchase
  * Creates or updates Stripe customer records with purchase history
  */
-async function storeCustomerData(session: Stripe.Checkout.Session, correlationId: string) {
+async function storeCustomerData(
+  session: Stripe.Checkout.Session,
+  correlationId: string,
+  serials: EditionSerial[] = []
+) {
   // Customer data retry configuration
   const customerDataRetryConfig: RetryConfig = {
     maxAttempts: 3,
@@ -1624,7 +2242,8 @@ async function storeCustomerData(session: Stripe.Checkout.Session, correlationId
           amount: purchaseAmount,
           quantity,
           date: new Date().toISOString(),
-          product_type: 'limited_edition_card'
+          product_type: 'limited_edition_card',
+          ...(serials.length > 0 && { serials: compactSerials(serials) })
         };
         
         const updatedPurchaseHistory = [...existingPurchaseHistory, newPurchase];
@@ -1655,7 +2274,7 @@ async function storeCustomerData(session: Stripe.Checkout.Session, correlationId
         });
         
         // Store purchase in Supabase
-        await storeCustomerPurchase(customer.id, newPurchase, correlationId);
+        await storeCustomerPurchase(customer.id, { ...newPurchase, edition_serials: serials }, correlationId);
         
       } else {
         // Create new customer
@@ -1671,7 +2290,8 @@ async function storeCustomerData(session: Stripe.Checkout.Session, correlationId
           amount: purchaseAmount,
           quantity,
           date: new Date().toISOString(),
-          product_type: 'limited_edition_card'
+          product_type: 'limited_edition_card',
+          ...(serials.length > 0 && { serials: compactSerials(serials) })
         }];
         
         // Create initial consent history entry
@@ -1710,7 +2330,7 @@ async function storeCustomerData(session: Stripe.Checkout.Session, correlationId
         });
         
         // Store purchase in Supabase
-        await storeCustomerPurchase(customer.id, purchaseHistory[0], correlationId);
+        await storeCustomerPurchase(customer.id, { ...purchaseHistory[0], edition_serials: serials }, correlationId);
       }
       
       // Comprehensive consent processing logging for compliance
@@ -1,9 +1,10 @@
 // app/auth/callback/route.ts
-import { NextResponse } from "next/server"
+import { NextRequest, NextResponse } from "next/server"
 import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
 import { cookies } from "next/headers"
+import { mergeGuestUsage } from "@/lib/guest-quota-server"
 
-export async function GET(request: Request) {
+export async function GET(request: NextRequest) {
   const { searchParams, origin } = new URL(request.url)
   const code = searchParams.get("code")
   const next = searchParams.get("next") ?? "/"
@@ -17,7 +18,14 @@ export async function GET(request: Request) {
       cookies: () => cookies(),
     })
 
-    await supabase.auth.exchangeCodeForSession(code) // sets session cookie
+    const { data } = await supabase.auth.exchangeCodeForSession(code) // sets session cookie
+
+    // carry free creations used as a guest over to the profile (never blocks sign in)
+    if (data.user) {
+      await mergeGuestUsage(request, data.user.id).catch(error =>
+        console.error("Failed to merge guest quota:", error)
+      )
+    }
   }
 
   return NextResponse.redirect(redirectUrl)
@@ -7,6 +7,7 @@ import { useSearchParams, useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { useToast } from '@/hooks/use-toast'
+import { csrfFetch } from '@/lib/csrf-client'
 import { ShieldCheck, Lock, CreditCard, Loader2 } from 'lucide-react'
 
 /** Load Stripe for the (optional) connected account */
@@ -104,7 +105,7 @@ export default function CheckoutPage() {
 
     ;(async () => {
       try {
-        const res = await fetch('/api/create-payment-intent', {
+        const res = await csrfFetch('/api/create-payment-intent', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ listingId }),
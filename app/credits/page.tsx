@@ -6,35 +6,44 @@ import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
 import { useToast } from "@/hooks/use-toast"
-
-const PACKS = [
-  { usd: 20, images: 80, tag: "Starter" },
-  { usd: 40, images: 160, tag: "Popular" },
-  { usd: 60, images: 240, tag: "Best Value" },
-] as const
+import { csrfFetch } from "@/lib/csrf-client"
+import { CreditHistory } from "@/components/credit-history"
+import type { CreditPack } from "@/lib/credit-packs"
 
 export default function CreditsPage() {
   const supabase = createClientComponentClient()
   const { toast } = useToast()
   const [uid, setUid] = useState<string | null>(null)
-  const [busy, setBusy] = useState<number | null>(null)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [packs, setPacks] = useState<CreditPack[] | null>(null)
+  const [promoCode, setPromoCode] = useState("")
+  const [redeeming, setRedeeming] = useState(false)
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => setUid(session?.user?.id ?? null))
   }, [supabase])
 
-  const buy = async (usd: number) => {
+  // packs come from the same table checkout prices from
+  useEffect(() => {
+    fetch("/api/credits/packs")
+      .then(res => res.json())
+      .then(json => setPacks(json?.packs ?? []))
+      .catch(() => setPacks([]))
+  }, [])
+
+  const buy = async (packId: string) => {
     if (!uid) {
       toast({ title: "Sign in required", description: "Please sign in to buy credits.", variant: "destructive" })
       return
     }
-    setBusy(usd)
+    setBusy(packId)
     try {
-      const res = await fetch("/api/credits/checkout", {
+      const res = await csrfFetch("/api/credits/checkout", {
         method: "POST",
         headers: { "content-type": "application/json" },
-        body: JSON.stringify({ usd }),
+        body: JSON.stringify({ packId }),
       })
       const json = await res.json()
       if (!res.ok || !json?.url) {
@@ -49,35 +58,94 @@ export default function CreditsPage() {
     }
   }
 
+  const redeem = async () => {
+    if (!uid) {
+      toast({ title: "Sign in required", description: "Please sign in to redeem a code.", variant: "destructive" })
+      return
+    }
+    setRedeeming(true)
+    try {
+      const res = await csrfFetch("/api/credits/redeem", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ code: promoCode }),
+      })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: "Code not redeemed", description: json?.error ?? "Unexpected error", variant: "destructive" })
+        return
+      }
+      setPromoCode("")
+      toast({ title: "Code redeemed", description: `${json.credits} credits added to your balance.` })
+    } catch (e) {
+      toast({ title: "Code not redeemed", description: e instanceof Error ? e.message : String(e), variant: "destructive" })
+    } finally {
+      setRedeeming(false)
+    }
+  }
+
   return (
     <div className="min-h-screen bg-cyber-black pt-24 px-6">
       <div className="max-w-5xl mx-auto">
         <div className="mb-8 flex items-center justify-between">
           <div>
             <h1 className="text-3xl md:text-4xl font-bold text-white tracking-wider">Buy Credits</h1>
-            <p className="text-gray-400">$1 = 4 image generations</p>
+            <p className="text-gray-400">1 credit = 1 image generation</p>
           </div>
           <Link href="/profile"><Button className="cyber-button">Back to Profile</Button></Link>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-          {PACKS.map(p => (
-            <Card key={p.usd} className="bg-cyber-dark/60 border border-cyber-cyan/30 hover:border-cyber-cyan/60">
+          {packs === null && <div className="text-gray-500">Loading packs…</div>}
+          {packs?.length === 0 && <div className="text-gray-500">No credit packs are on sale right now.</div>}
+          {packs?.map(p => (
+            <Card key={p.id} className="bg-cyber-dark/60 border border-cyber-cyan/30 hover:border-cyber-cyan/60">
               <CardHeader className="flex items-center justify-between">
                 <CardTitle className="text-white">${p.usd} Pack</CardTitle>
-                <Badge className="bg-cyber-cyan/20 border border-cyber-cyan/40 text-cyber-cyan">{p.tag}</Badge>
+                {p.tag && (
+                  <Badge className="bg-cyber-cyan/20 border border-cyber-cyan/40 text-cyber-cyan">{p.tag}</Badge>
+                )}
               </CardHeader>
               <CardContent className="space-y-3">
-                <div className="text-4xl font-extrabold text-white">{p.images}</div>
-                <div className="text-sm text-gray-400">images included</div>
-                <Button className="cyber-button w-full" onClick={() => buy(p.usd)} disabled={busy === p.usd}>
-                  {busy === p.usd ? "Starting…" : `Buy for $${p.usd}`}
+                <div className="text-4xl font-extrabold text-white">{p.credits}</div>
+                <div className="text-sm text-gray-400">
+                  images included
+                  {p.bonusCredits > 0 && (
+                    <span className="ml-2 text-cyber-green">+{p.bonusPercent}% bonus ({p.bonusCredits} free)</span>
+                  )}
+                </div>
+                <Button className="cyber-button w-full" onClick={() => buy(p.id)} disabled={busy === p.id}>
+                  {busy === p.id ? "Starting…" : `Buy for $${p.usd}`}
                 </Button>
-                <div className="text-xs text-gray-500">~ ${(p.usd / p.images).toFixed(2)} per image</div>
+                <div className="text-xs text-gray-500">
+                  ~ ${(p.usd / p.credits).toFixed(2)} per image
+                  {p.expiresAt && <> · Offer ends {new Date(p.expiresAt).toLocaleDateString()}</>}
+                </div>
               </CardContent>
             </Card>
           ))}
         </div>
+
+        <Card className="mt-6 bg-cyber-dark/60 border border-cyber-cyan/30">
+          <CardContent className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3 p-6">
+            <div className="text-white font-semibold whitespace-nowrap">Have a promo code?</div>
+            <Input
+              value={promoCode}
+              onChange={e => setPromoCode(e.target.value.toUpperCase())}
+              placeholder="ENTER CODE"
+              className="bg-cyber-black border-gray-600 text-white font-mono"
+            />
+            <Button className="cyber-button" onClick={redeem} disabled={redeeming || !promoCode.trim()}>
+              {redeeming ? "Redeeming…" : "Redeem"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {uid && (
+          <div className="mt-10 pb-16">
+            <CreditHistory />
+          </div>
+        )}
       </div>
     </div>
   )
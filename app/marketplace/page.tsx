@@ -1,43 +1,37 @@
 'use client'
 
-import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import Link from 'next/link'
 import Image from 'next/image'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
 import type { SupabaseClient } from '@supabase/supabase-js'
-import { Search, User as UserIcon } from "lucide-react"
+import { Search, User as UserIcon, X } from "lucide-react"
 
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { useToast } from '@/hooks/use-toast'
 import { signInWithGoogle } from '@/lib/supabase-browser'
-
-type ListingRow = {
-  id: string
-  title: string
-  description: string | null
-  image_url: string | null
-  price_cents: number
-  currency: string
-  seller_id: string
-  buyer_id: string | null
-  status: 'listed' | 'sold' | 'inactive'
-  is_active: boolean
-  created_at: string | null
-}
-
-type SellerMeta = {
-  id: string
-  display_name: string | null
-  avatar_url: string | null
-}
+import { csrfFetch } from '@/lib/csrf-client'
+import { formatListingPrice, parseListingPrice } from '@/lib/listing-price'
+import {
+  MARKETPLACE_FINISHES,
+  MARKETPLACE_SORTS,
+  MarketplaceFilters,
+  MarketplaceSort,
+  marketplaceQueryString,
+  parseMarketplaceQuery,
+} from '@/lib/marketplace-query'
+import type { MarketplaceListing, MarketplacePage } from '@/lib/marketplace-search'
+import type { CardFinish } from '@/lib/pricing'
 
 /* ───────────────────────── helpers ───────────────────────── */
 
-const dollars = (cents: number) => (cents / 100).toFixed(2)
+const dollars = (cents: number | null) => (cents === null ? '' : (cents / 100).toFixed(2))
 
 const initials = (name?: string | null) => {
   if (!name) return '?'
@@ -50,19 +44,18 @@ const initials = (name?: string | null) => {
 function MarketplaceCard({
   listing,
   currentUserId,
-  seller,
   onCancel,
   onBuy,
+  onOffer,
 }: {
-  listing: ListingRow
+  listing: MarketplaceListing
   currentUserId: string | null
-  seller?: SellerMeta
-  onCancel: (l: ListingRow) => Promise<void>
-  onBuy: (l: ListingRow) => void
+  onCancel: (l: MarketplaceListing) => Promise<void>
+  onBuy: (l: MarketplaceListing) => void
+  onOffer: (l: MarketplaceListing) => void
 }) {
-  const isSoldOrInactive = listing.status !== 'listed' || !listing.is_active
-  const isSeller = !!currentUserId && currentUserId === listing.seller_id
-  const priceUSD = Number(listing.price_cents) / 100
+  const isSeller = !!currentUserId && currentUserId === listing.sellerId
+  const priceUSD = Number(listing.priceCents) / 100
 
   return (
     <Card className="group bg-cyber-dark/60 border border-cyber-cyan/30 hover:border-cyber-cyan/60 hover:shadow-[0_0_30px_rgba(0,255,255,0.15)] transition-all duration-300 font-mono">
@@ -70,21 +63,14 @@ function MarketplaceCard({
         {/* Uniform image area */}
         <div className="relative overflow-hidden rounded-t-lg aspect-[4/3]">
           <Image
-            src={listing.image_url || '/placeholder.svg'}
+            src={listing.imageUrl || '/placeholder.svg'}
             alt={listing.title}
             fill
             sizes="(max-width:768px) 100vw, (max-width:1280px) 50vw, 33vw"
             className="object-cover group-hover:scale-105 transition-transform duration-300"
-            priority
           />
-          <Badge
-            className={`absolute top-2 left-2 text-xs ${
-              isSoldOrInactive
-                ? 'bg-red-600/70 border border-red-400/40'
-                : 'bg-emerald-600/70 border border-emerald-300/40'
-            }`}
-          >
-            {isSoldOrInactive ? 'Unavailable' : 'Available'}
+          <Badge className="absolute top-2 left-2 text-xs capitalize bg-emerald-600/70 border border-emerald-300/40">
+            {listing.finish}
           </Badge>
         </div>
 
@@ -100,22 +86,22 @@ function MarketplaceCard({
             <div className="flex items-center gap-2">
               {/* Seller avatar -> seller profile page */}
 <Link
-  href={`/seller/${listing.seller_id}`}
-  title={seller?.display_name || 'View seller'}
+  href={`/seller/${listing.sellerId}`}
+  title={listing.sellerName || 'View seller'}
   className="relative grid place-items-center w-10 h-10 rounded-full overflow-hidden border-2 border-cyber-cyan hover:border-cyber-green transition-colors"
 >
-  {seller?.avatar_url ? (
+  {listing.sellerAvatarUrl ? (
       <Image
-           src={seller.avatar_url}
-      alt={seller.display_name || 'Seller'}
+           src={listing.sellerAvatarUrl}
+      alt={listing.sellerName || 'Seller'}
         fill
         sizes="(max-width: 1024px) 100vw, 33vw"
         className="object-contain object-center p-2"
       />
  
-  ) : (seller?.display_name && initials(seller.display_name) !== '?') ? (
+  ) : (listing.sellerName && initials(listing.sellerName) !== '?') ? (
     <span className="text-cyber-cyan text-sm font-bold">
-      {initials(seller.display_name)}
+      {initials(listing.sellerName)}
     </span>
   ) : (
     <UserIcon className="w-5 h-5 text-cyber-cyan" />
@@ -129,20 +115,28 @@ function MarketplaceCard({
                   size="sm"
                   variant="destructive"
                   className="min-w-[112px]"
-                  disabled={isSoldOrInactive}
                   onClick={() => onCancel(listing)}
                 >
                   Cancel
                 </Button>
               ) : (
-                <Button
-                  size="sm"
-                  className="min-w-[112px] bg-cyber-dark border-2 border-cyber-green text-cyber-green hover:bg-cyber-green/10"
-                  disabled={isSoldOrInactive}
-                  onClick={() => onBuy(listing)}
-                >
-                  Buy
-                </Button>
+                <>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="bg-cyber-dark border-cyber-cyan/40 text-cyber-cyan hover:bg-cyber-cyan/10"
+                    onClick={() => onOffer(listing)}
+                  >
+                    Offer
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="min-w-[112px] bg-cyber-dark border-2 border-cyber-green text-cyber-green hover:bg-cyber-green/10"
+                    onClick={() => onBuy(listing)}
+                  >
+                    Buy
+                  </Button>
+                </>
               )}
             </div>
           </div>
@@ -154,16 +148,33 @@ function MarketplaceCard({
 
 /* ───────────────────────── page ───────────────────────── */
 
-export default function MarketplacePage() {
+const ANY_FINISH = 'any'
+
+function MarketplaceContent() {
   const router = useRouter()
+  const searchParams = useSearchParams()
   const supabase: SupabaseClient = createClientComponentClient()
   const { toast } = useToast()
 
+  // the URL is the source of truth for the search; inputs are drafts until applied
+  const queryString = marketplaceQueryString(parseMarketplaceQuery(new URLSearchParams(searchParams.toString())))
+  const filters = useMemo(() => parseMarketplaceQuery(new URLSearchParams(queryString)), [queryString])
+
   const [uid, setUid] = useState<string | null>(null)
+  const [listings, setListings] = useState<MarketplaceListing[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
-  const [listings, setListings] = useState<ListingRow[]>([])
-  const [q, setQ] = useState('')
-  const [sellerMap, setSellerMap] = useState<Record<string, SellerMeta>>({})
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [q, setQ] = useState(filters.q)
+  const [minPrice, setMinPrice] = useState(dollars(filters.minPriceCents))
+  const [maxPrice, setMaxPrice] = useState(dollars(filters.maxPriceCents))
+  const [offering, setOffering] = useState<{ listing: MarketplaceListing; value: string } | null>(null)
+  const [sendingOffer, setSendingOffer] = useState(false)
+
+  // responses for an older query string are dropped
+  const activeQuery = useRef(queryString)
+  const sentinel = useRef<HTMLDivElement | null>(null)
 
   // resolve session
   useEffect(() => {
@@ -182,71 +193,108 @@ export default function MarketplacePage() {
     }
   }, [supabase])
 
-  const loadSellerMeta = useCallback(
-    async (sellerIds: string[]) => {
-      if (sellerIds.length === 0) return
-      const uniq = Array.from(new Set(sellerIds))
-      const { data, error } = await supabase
-        .from('mkt_profiles')
-        .select('id, display_name, avatar_url')
-        .in('id', uniq)
-        .returns<SellerMeta[]>()
-
-      if (!error && data) {
-        const map: Record<string, SellerMeta> = {}
-        for (const s of data) map[s.id] = s
-        setSellerMap(map)
-      }
-    },
-    [supabase]
-  )
-
-  const loadListings = useCallback(async () => {
+  // back/forward navigation changes the URL under the inputs
+  useEffect(() => {
+    setQ(filters.q)
+    setMinPrice(dollars(filters.minPriceCents))
+    setMaxPrice(dollars(filters.maxPriceCents))
+  }, [filters])
+
+  const fetchPage = useCallback(async (cursor: string | null): Promise<MarketplacePage> => {
+    const params = new URLSearchParams(queryString)
+    if (cursor) params.set('cursor', cursor)
+    const res = await fetch(`/api/marketplace/search?${params.toString()}`, { cache: 'no-store' })
+    const json = await res.json()
+    if (!res.ok) throw new Error(json?.error ?? `HTTP ${res.status}`)
+    return json as MarketplacePage
+  }, [queryString])
+
+  // first page whenever the search changes
+  useEffect(() => {
+    activeQuery.current = queryString
     setLoading(true)
-
-    let query = supabase
-      .from('mkt_listings')
-      .select('id,title,description,image_url,price_cents,currency,seller_id,buyer_id,status,is_active,created_at')
-      .eq('status', 'listed')
-      .eq('is_active', true)
-      .order('created_at', { ascending: false })
-
-    if (q.trim()) {
-      const like = `%${q.trim()}%`
-      query = query.or(`title.ilike.${like},description.ilike.${like}`)
+    setLoadError(null)
+    setListings([])
+    setNextCursor(null)
+
+    fetchPage(null)
+      .then(page => {
+        if (activeQuery.current !== queryString) return
+        setListings(page.listings)
+        setNextCursor(page.nextCursor)
+      })
+      .catch(e => {
+        if (activeQuery.current !== queryString) return
+        console.error('marketplace search error:', e)
+        setLoadError(e instanceof Error ? e.message : String(e))
+      })
+      .finally(() => {
+        if (activeQuery.current === queryString) setLoading(false)
+      })
+  }, [queryString, fetchPage])
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return
+    setLoadingMore(true)
+    try {
+      const page = await fetchPage(nextCursor)
+      if (activeQuery.current !== queryString) return
+      setListings(prev => {
+        const seen = new Set(prev.map(l => l.id))
+        return [...prev, ...page.listings.filter(l => !seen.has(l.id))]
+      })
+      setNextCursor(page.nextCursor)
+    } catch (e) {
+      setLoadError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setLoadingMore(false)
     }
+  }, [nextCursor, loadingMore, fetchPage, queryString])
 
-    const { data, error } = await query.returns<ListingRow[]>()
-
-    if (error) {
-      console.error('loadListings error:', error.message)
-      setListings([])
-      setLoading(false)
-      return
-    }
-
-    const rows = data ?? []
-    setListings(rows)
-    setLoading(false)
-
-    // fetch seller meta for avatar + name
-    loadSellerMeta(rows.map(r => r.seller_id))
-  }, [supabase, q, loadSellerMeta])
-
+  // infinite scroll: fetch the next page as the end of the grid comes into view
   useEffect(() => {
-    loadListings()
-  }, [loadListings])
+    const node = sentinel.current
+    if (!node || !nextCursor) return
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) loadMore()
+      },
+      { rootMargin: '600px 0px' }
+    )
+    observer.observe(node)
+    return () => observer.disconnect()
+  }, [nextCursor, loadMore])
+
+  const applyFilters = useCallback(
+    (changes: Partial<MarketplaceFilters>) => {
+      const next = marketplaceQueryString({ ...filters, ...changes })
+      if (next === queryString) return
+      router.push(next ? `/marketplace?${next}` : '/marketplace', { scroll: false })
+    },
+    [filters, queryString, router]
+  )
+
+  // text and price inputs apply together; unreadable prices are left out
+  const applySearch = () => {
+    applyFilters({
+      q: q.trim(),
+      minPriceCents: parseListingPrice(minPrice),
+      maxPriceCents: parseListingPrice(maxPrice),
+    })
+  }
 
   const resultsText = useMemo(() => {
     if (loading) return 'Loading…'
+    if (loadError && listings.length === 0) return 'Search failed. Please try again.'
     const n = listings.length
-    return `${n} item${n === 1 ? '' : 's'} found`
-  }, [loading, listings.length])
+    if (n === 0) return 'No listings match your search'
+    return nextCursor ? `Showing ${n} items` : `${n} item${n === 1 ? '' : 's'} found`
+  }, [loading, loadError, listings.length, nextCursor])
 
   // seller-only action
   const cancelListing = useCallback(
-    async (listing: ListingRow) => {
-      if (!uid || uid !== listing.seller_id) {
+    async (listing: MarketplaceListing) => {
+      if (!uid || uid !== listing.sellerId) {
         toast({
           title: 'Unable to cancel',
           description: 'Only the seller can cancel this listing.',
@@ -255,31 +303,27 @@ export default function MarketplacePage() {
         return
       }
 
-      const { error } = await supabase
-        .from('mkt_listings')
-        .update({ status: 'inactive', is_active: false })
-        .eq('id', listing.id)
-        .eq('seller_id', uid)
-
-      if (error) {
-        toast({ title: 'Cancel failed', description: error.message, variant: 'destructive' })
+      try {
+        const res = await csrfFetch(`/api/listings/${listing.id}`, { method: 'DELETE' })
+        const json = await res.json()
+        if (!res.ok) {
+          toast({ title: 'Cancel failed', description: json?.error ?? 'Unexpected error', variant: 'destructive' })
+          return
+        }
+      } catch (e) {
+        toast({ title: 'Cancel failed', description: e instanceof Error ? e.message : String(e), variant: 'destructive' })
         return
       }
 
       setListings(prev => prev.filter(r => r.id !== listing.id))
       toast({ title: 'Listing canceled', description: `${listing.title} removed.` })
     },
-    [supabase, uid, toast]
+    [uid, toast]
   )
 
   // buy action with auth gate
   const handleBuy = useCallback(
-    (listing: ListingRow) => {
-      if (listing.status !== 'listed' || !listing.is_active) {
-        toast({ title: 'Unavailable', description: 'This item is not currently available.', variant: 'destructive' })
-        return
-      }
-
+    (listing: MarketplaceListing) => {
       const checkoutUrl = `/checkout?listingId=${listing.id}`
 
       if (!uid) {
@@ -289,9 +333,60 @@ export default function MarketplacePage() {
 
       router.push(checkoutUrl)
     },
-    [uid, router, toast]
+    [uid, router]
+  )
+
+  // offer action with the same auth gate; the seller answers from their profile
+  const handleOffer = useCallback(
+    (listing: MarketplaceListing) => {
+      if (!uid) {
+        signInWithGoogle(queryString ? `/marketplace?${queryString}` : '/marketplace')
+        return
+      }
+      setOffering({ listing, value: dollars(Math.floor(listing.priceCents * 0.9)) })
+    },
+    [uid, queryString]
   )
 
+  const submitOffer = async () => {
+    if (!offering) return
+    const amountCents = parseListingPrice(offering.value)
+    if (amountCents === null || amountCents >= offering.listing.priceCents) {
+      toast({
+        title: 'Invalid offer',
+        description: `Offer less than the listed ${formatListingPrice(offering.listing.priceCents)}`,
+        variant: 'destructive',
+      })
+      return
+    }
+
+    setSendingOffer(true)
+    try {
+      const res = await csrfFetch('/api/offers', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ listingId: offering.listing.id, amountCents }),
+      })
+      const json = await res.json()
+      if (!res.ok || !json?.offer) {
+        toast({ title: 'Offer not sent', description: json?.error ?? 'Unexpected error', variant: 'destructive' })
+        return
+      }
+      toast({
+        title: 'Offer sent',
+        description: `${formatListingPrice(amountCents)} for ${offering.listing.title}. Track it on your profile.`,
+      })
+      setOffering(null)
+    } catch (e) {
+      toast({ title: 'Offer not sent', description: e instanceof Error ? e.message : String(e), variant: 'destructive' })
+    } finally {
+      setSendingOffer(false)
+    }
+  }
+
+  const filterInputClass = 'h-12 bg-cyber-dark/60 border-cyber-cyan/30 focus:border-cyber-cyan/60 text-white'
+  const sellerName = listings.find(l => l.sellerId === filters.sellerId)?.sellerName
+
   return (
     <div className="min-h-screen bg-cyber-black relative overflow-hidden font-mono">
       {/* subtle grid + scanlines to match the rest of the site */}
@@ -305,24 +400,106 @@ export default function MarketplacePage() {
           <p className="text-gray-400">Discover and purchase amazing cards</p>
         </div>
 
-        {/* Search only (no price filters since price is fixed) */}
-        <div className="flex flex-col md:flex-row items-stretch gap-4 mb-8">
+        {/* Search and price range */}
+        <form
+          className="flex flex-col md:flex-row items-stretch gap-4 mb-4"
+          onSubmit={(e) => {
+            e.preventDefault()
+            applySearch()
+          }}
+        >
           <div className="flex-1 relative">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 h-5 w-5" />
             <Input
+              type="search"
               placeholder="Search listings…"
-              className="pl-10 h-12 bg-cyber-dark/60 border-cyber-cyan/30 focus:border-cyber-cyan/60 text-white"
+              className={`pl-10 ${filterInputClass}`}
               value={q}
               onChange={(e) => setQ(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && loadListings()}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Min $"
+              inputMode="decimal"
+              aria-label="Minimum price in USD"
+              className={`w-28 ${filterInputClass}`}
+              value={minPrice}
+              onChange={(e) => setMinPrice(e.target.value)}
+            />
+            <span className="text-gray-500">–</span>
+            <Input
+              placeholder="Max $"
+              inputMode="decimal"
+              aria-label="Maximum price in USD"
+              className={`w-28 ${filterInputClass}`}
+              value={maxPrice}
+              onChange={(e) => setMaxPrice(e.target.value)}
             />
           </div>
           <Button
-            onClick={loadListings}
+            type="submit"
             className="h-12 bg-cyber-dark border-2 border-cyber-cyan text-cyber-cyan hover:bg-cyber-cyan/10"
           >
-            Refresh
+            Search
           </Button>
+        </form>
+
+        {/* Sort, finish and listing date */}
+        <div className="flex flex-col md:flex-row md:items-center gap-4 mb-8">
+          <Select value={filters.sort} onValueChange={(value) => applyFilters({ sort: value as MarketplaceSort })}>
+            <SelectTrigger aria-label="Sort listings" className={`md:w-56 ${filterInputClass}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MARKETPLACE_SORTS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.finish ?? ANY_FINISH}
+            onValueChange={(value) => applyFilters({ finish: value === ANY_FINISH ? null : (value as CardFinish) })}
+          >
+            <SelectTrigger aria-label="Card finish" className={`md:w-44 capitalize ${filterInputClass}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_FINISH}>Any finish</SelectItem>
+              {MARKETPLACE_FINISHES.map(finish => (
+                <SelectItem key={finish} value={finish} className="capitalize">
+                  {finish}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              aria-label="Listed on or after"
+              className={`md:w-44 ${filterInputClass}`}
+              value={filters.listedFrom ?? ''}
+              onChange={(e) => applyFilters({ listedFrom: e.target.value || null })}
+            />
+            <span className="text-gray-500">–</span>
+            <Input
+              type="date"
+              aria-label="Listed on or before"
+              className={`md:w-44 ${filterInputClass}`}
+              value={filters.listedTo ?? ''}
+              onChange={(e) => applyFilters({ listedTo: e.target.value || null })}
+            />
+          </div>
+          {filters.sellerId && (
+            <Badge className="h-8 gap-2 bg-cyber-dark border border-cyber-cyan/40 text-cyber-cyan">
+              Seller: {sellerName || 'selected'}
+              <button type="button" aria-label="Show all sellers" onClick={() => applyFilters({ sellerId: null })}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )}
         </div>
 
         {/* Results */}
@@ -338,20 +515,75 @@ export default function MarketplacePage() {
             ))}
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-            {listings.map((row) => (
-              <MarketplaceCard
-                key={row.id}
-                listing={row}
-                currentUserId={uid}
-                seller={sellerMap[row.seller_id]}
-                onCancel={cancelListing}
-                onBuy={handleBuy}
-              />
-            ))}
-          </div>
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {listings.map((row) => (
+                <MarketplaceCard
+                  key={row.id}
+                  listing={row}
+                  currentUserId={uid}
+                  onCancel={cancelListing}
+                  onBuy={handleBuy}
+                  onOffer={handleOffer}
+                />
+              ))}
+            </div>
+
+            {/* infinite scroll sentinel; the button is the fallback */}
+            <div ref={sentinel} className="flex justify-center py-8">
+              {nextCursor && (
+                <Button
+                  variant="outline"
+                  disabled={loadingMore}
+                  onClick={loadMore}
+                  className="bg-cyber-dark border-cyber-cyan/40 text-cyber-cyan hover:bg-cyber-cyan/10"
+                >
+                  {loadingMore ? 'Loading…' : 'Load more'}
+                </Button>
+              )}
+            </div>
+          </>
         )}
       </div>
+
+      <Dialog open={!!offering} onOpenChange={(open) => !open && setOffering(null)}>
+        <DialogContent className="bg-cyber-dark border border-cyber-cyan/30 font-mono">
+          <DialogHeader>
+            <DialogTitle className="text-white">Make an offer</DialogTitle>
+          </DialogHeader>
+          {offering && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-400">
+                {offering.listing.title} is listed at {formatListingPrice(offering.listing.priceCents)}.
+                The seller can accept, decline or counter.
+              </p>
+              <Input
+                value={offering.value}
+                onChange={(e) => setOffering({ ...offering, value: e.target.value })}
+                placeholder="0.00"
+                inputMode="decimal"
+                className={filterInputClass}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setOffering(null)} disabled={sendingOffer}>
+              Cancel
+            </Button>
+            <Button className="cyber-button" onClick={submitOffer} disabled={sendingOffer}>
+              {sendingOffer ? 'Sending…' : 'Send offer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
+
+export default function MarketplacePage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-cyber-black" />}>
+      <MarketplaceContent />
+    </Suspense>
+  )
+}
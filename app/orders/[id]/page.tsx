@@ -0,0 +1,192 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams } from "next/navigation"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { CheckCircle, Circle, ExternalLink, MapPin } from "lucide-react"
+import { ORDER_PROGRESS, ORDER_STATUS_LABELS, OrderStatus } from "@/lib/order-status"
+
+interface OrderView {
+  id: string
+  status: OrderStatus
+  statusChangedAt: string | null
+  createdAt: string
+  items: { kind: "limited-edition" | "custom-card" | "display-case"; quantity: number; finish?: string }[]
+  serials: string | null
+  amountTotalCents: number
+  currency: string
+  destination: { city: string; state: string | null; country: string }
+  trackingNumber: string | null
+  trackingUrl: string | null
+  courierName: string | null
+}
+
+interface OrderEventView {
+  status: OrderStatus | null
+  description: string
+  location: string | null
+  occurredAt: string
+}
+
+const ITEM_LABELS: Record<OrderView["items"][number]["kind"], string> = {
+  "limited-edition": "Limited Edition Card",
+  "custom-card": "Custom Card",
+  "display-case": "Display Case",
+}
+
+export default function OrderPage() {
+  const { id } = useParams<{ id: string }>()
+  const [order, setOrder] = useState<OrderView | null>(null)
+  const [events, setEvents] = useState<OrderEventView[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/orders/${encodeURIComponent(id)}`)
+      .then(async res => {
+        const json = await res.json()
+        if (!res.ok) throw new Error(json?.error ?? "Failed to load order")
+        setOrder(json.order)
+        setEvents(json.events ?? [])
+      })
+      .catch(e => setError(String(e?.message ?? e)))
+  }, [id])
+
+  const reached = order ? ORDER_PROGRESS.indexOf(order.status) : -1
+  const closed = order?.status === "cancelled" || order?.status === "refunded"
+
+  return (
+    <div className="min-h-screen bg-cyber-black pt-24 px-6 pb-16">
+      <div className="max-w-3xl mx-auto">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-white tracking-wider">
+              Order {order ? `#${order.id.slice(0, 8).toUpperCase()}` : ""}
+            </h1>
+            {order && (
+              <p className="text-gray-400">Placed {new Date(order.createdAt).toLocaleDateString()}</p>
+            )}
+          </div>
+          <Link href="/profile"><Button className="cyber-button">Your Profile</Button></Link>
+        </div>
+
+        {error && (
+          <Card className="bg-cyber-dark/60 border border-cyber-orange/40">
+            <CardContent className="p-6 text-center text-cyber-orange">{error}</CardContent>
+          </Card>
+        )}
+        {!order && !error && <div className="text-gray-500">Loading order…</div>}
+
+        {order && (
+          <div className="space-y-6">
+            {/* Status */}
+            <Card className="bg-cyber-dark/60 border border-cyber-cyan/30">
+              <CardHeader className="flex flex-row items-center justify-between gap-4">
+                <CardTitle className="text-white">Status</CardTitle>
+                <Badge variant="outline" className={closed ? "border-gray-600 text-gray-400" : "border-cyber-green/40 text-cyber-green"}>
+                  {ORDER_STATUS_LABELS[order.status]}
+                </Badge>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {closed ? (
+                  <p className="text-gray-400">
+                    {order.status === "refunded"
+                      ? "This order was refunded."
+                      : "This order was cancelled and will not ship."}
+                  </p>
+                ) : (
+                  <ol className="grid grid-cols-4 gap-2">
+                    {ORDER_PROGRESS.map((status, index) => (
+                      <li key={status} className="flex flex-col items-center text-center gap-1">
+                        {index <= reached
+                          ? <CheckCircle className="w-6 h-6 text-cyber-green" />
+                          : <Circle className="w-6 h-6 text-gray-600" />}
+                        <span className={index <= reached ? "text-sm text-white" : "text-sm text-gray-500"}>
+                          {ORDER_STATUS_LABELS[status]}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+
+                {order.trackingUrl && (
+                  <a href={order.trackingUrl} target="_blank" rel="noopener noreferrer" className="inline-block">
+                    <Button variant="outline" className="border-cyber-cyan/40 text-cyber-cyan">
+                      Track with {order.courierName ?? "the carrier"}
+                      <ExternalLink className="w-4 h-4 ml-2" />
+                    </Button>
+                  </a>
+                )}
+                {order.trackingNumber && (
+                  <p className="text-xs text-gray-400">
+                    Tracking number: <span className="text-cyber-cyan font-mono">{order.trackingNumber}</span>
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Items */}
+            <Card className="bg-cyber-dark/60 border border-cyber-cyan/30">
+              <CardHeader>
+                <CardTitle className="text-white">Items</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-gray-300">
+                {order.items.map((item, index) => (
+                  <div key={index} className="flex justify-between">
+                    <span>
+                      {ITEM_LABELS[item.kind]}
+                      {item.finish && item.finish !== "matte" ? ` (${item.finish})` : ""}
+                    </span>
+                    <span className="text-white">× {item.quantity}</span>
+                  </div>
+                ))}
+                {order.serials && (
+                  <div className="text-xs text-gray-400">Edition numbers: <span className="font-mono text-cyber-cyan">{order.serials}</span></div>
+                )}
+                <div className="flex justify-between border-t border-cyber-cyan/20 pt-2">
+                  <span>Total paid</span>
+                  <span className="text-cyber-pink font-bold">
+                    ${(order.amountTotalCents / 100).toFixed(2)} {order.currency.toUpperCase()}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-400 flex items-center gap-1">
+                  <MapPin className="w-3 h-3" />
+                  Shipping to {[order.destination.city, order.destination.state, order.destination.country].filter(Boolean).join(", ")}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Timeline */}
+            <Card className="bg-cyber-dark/60 border border-cyber-cyan/30">
+              <CardHeader>
+                <CardTitle className="text-white">Timeline</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {events.length === 0 ? (
+                  <div className="text-gray-500">No updates yet.</div>
+                ) : (
+                  <ol className="border-l border-cyber-cyan/30 space-y-4">
+                    {[...events].reverse().map((event, index) => (
+                      <li key={index} className="ml-4">
+                        <div className="text-xs text-gray-500">
+                          {new Date(event.occurredAt).toLocaleString()}
+                          {event.location ? ` • ${event.location}` : ""}
+                        </div>
+                        <div className={event.status ? "text-white font-bold" : "text-gray-300"}>
+                          {event.status ? `${ORDER_STATUS_LABELS[event.status]}: ` : ""}
+                          {event.description}
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -12,11 +12,19 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/hooks/use-toast"
+import { csrfFetch } from "@/lib/csrf-client"
+import type { Listing } from "@/lib/listings"
+import { formatListingPrice, listingPriceBounds, listingPriceError, parseListingPrice } from "@/lib/listing-price"
+import { MARKETPLACE_FINISHES } from "@/lib/marketplace-query"
+import type { CardFinish } from "@/lib/pricing"
 import { useOwnedCardify } from "@/hooks/useOwnedCardify"
 import NFTCard from "@/components/NFTCard"
 import { WalletButton } from "@/components/WalletConnect"
 import AvatarUploader from "@/components/AvatarUploader"
+import { ProfileOrders } from "@/components/profile-orders"
+import { ProfileOffers } from "@/components/profile-offers"
 import { Pencil, Check, X, Sparkles } from "lucide-react"
 
 const FACTORY = process.env.NEXT_PUBLIC_FACTORY_ADDRESS as `0x${string}`
@@ -91,8 +99,12 @@ export default function Profile() {
 
   const [sellOpen, setSellOpen] = useState(false)
   const [selectedAsset, setSelectedAsset] = useState<UIAsset | null>(null)
-  const FIXED_PRICE_USD = 9
+  const priceBounds = listingPriceBounds()
+  const [priceInput, setPriceInput] = useState("")
+  const [finish, setFinish] = useState<CardFinish>("matte")
   const [creating, setCreating] = useState(false)
+  const [repricing, setRepricing] = useState<{ listingId: string; value: string } | null>(null)
+  const [savingPrice, setSavingPrice] = useState(false)
 
   const [listingBySource, setListingBySource] = useState<Record<string, ListingRow | undefined>>({})
   const [canceling, setCanceling] = useState<string | null>(null)
@@ -320,9 +332,26 @@ export default function Profile() {
 
   const openSell = (a: UIAsset) => {
     setSelectedAsset(a)
+    setPriceInput((priceBounds.minCents / 100).toFixed(2))
+    setFinish("matte")
     setSellOpen(true)
   }
 
+  // Why a typed price can't be used, or null
+  const priceProblem = (input: string) => {
+    const cents = parseListingPrice(input)
+    return cents === null ? "Enter a price in dollars, e.g. 12.50" : listingPriceError(cents, priceBounds)
+  }
+
+  const toListingRow = (listing: Listing): ListingRow => ({
+    id: listing.id,
+    source_id: listing.sourceId,
+    seller_id: listing.sellerId,
+    status: listing.status as ListingRow["status"],
+    is_active: listing.isActive,
+    price_cents: listing.priceCents,
+  })
+
   const createListing = async () => {
     if (!uid || !selectedAsset) return
     if (!canSell) {
@@ -333,41 +362,74 @@ export default function Profile() {
       })
       return
     }
+    const priceCents = parseListingPrice(priceInput)
+    if (priceCents === null || priceProblem(priceInput)) return
     setCreating(true)
-    const { data, error } = await supabase
-      .from("mkt_listings")
-      .insert({
-        title: selectedAsset.file_name,
-        image_url: selectedAsset.public_url,
-        price_cents: FIXED_PRICE_USD * 100,
-        seller_id: uid,
-        status: "listed",
-        is_active: true,
-        source_type: "asset",
-        source_id: selectedAsset.id,
+    try {
+      const res = await csrfFetch("/api/listings", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ sourceType: "asset", sourceId: selectedAsset.id, priceCents, finish }),
       })
-      .select("id, source_id, seller_id, status, is_active, price_cents")
-      .returns<ListingRow[]>()
-    setCreating(false)
-    if (error) {
-      toast({ title: "Listing failed", description: error.message, variant: "destructive" })
-      return
+      const json = await res.json()
+      if (!res.ok || !json?.listing) {
+        toast({ title: "Listing failed", description: json?.error ?? "Unexpected error", variant: "destructive" })
+        return
+      }
+      const row = toListingRow(json.listing)
+      setListingBySource((prev) => ({ ...prev, [row.source_id]: row }))
+      toast({ title: "Listed for sale", description: `${selectedAsset.file_name} • ${formatListingPrice(row.price_cents)}` })
+      setSellOpen(false)
+      setSelectedAsset(null)
+    } catch (e) {
+      toast({ title: "Listing failed", description: e instanceof Error ? e.message : String(e), variant: "destructive" })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const saveListingPrice = async (listing: ListingRow) => {
+    if (!repricing || repricing.listingId !== listing.id) return
+    const priceCents = parseListingPrice(repricing.value)
+    if (priceCents === null || priceProblem(repricing.value)) return
+    setSavingPrice(true)
+    try {
+      const res = await csrfFetch(`/api/listings/${listing.id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ priceCents }),
+      })
+      const json = await res.json()
+      if (!res.ok || !json?.listing) {
+        toast({ title: "Price not updated", description: json?.error ?? "Unexpected error", variant: "destructive" })
+        return
+      }
+      const row = toListingRow(json.listing)
+      setListingBySource((prev) => ({ ...prev, [row.source_id]: row }))
+      setRepricing(null)
+      toast({ title: "Price updated", description: formatListingPrice(row.price_cents) })
+    } catch (e) {
+      toast({ title: "Price not updated", description: e instanceof Error ? e.message : String(e), variant: "destructive" })
+    } finally {
+      setSavingPrice(false)
     }
-    const row = data?.[0]
-    if (row) setListingBySource((prev) => ({ ...prev, [row.source_id]: row }))
-    toast({ title: "Listed for sale", description: `${selectedAsset.file_name} • $${FIXED_PRICE_USD}.00` })
-    setSellOpen(false)
-    setSelectedAsset(null)
   }
 
   const cancelListing = async (listing: ListingRow) => {
     if (!uid) return
     setCanceling(listing.id)
-    const { error } = await supabase.from("mkt_listings").update({ status: "inactive", is_active: false }).eq("id", listing.id)
-    setCanceling(null)
-    if (error) {
-      toast({ title: "Cancel failed", description: error.message, variant: "destructive" })
+    try {
+      const res = await csrfFetch(`/api/listings/${listing.id}`, { method: "DELETE" })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: "Cancel failed", description: json?.error ?? "Unexpected error", variant: "destructive" })
+        return
+      }
+    } catch (e) {
+      toast({ title: "Cancel failed", description: e instanceof Error ? e.message : String(e), variant: "destructive" })
       return
+    } finally {
+      setCanceling(null)
     }
     setListingBySource((prev) => {
       const next = { ...prev }
@@ -614,9 +676,49 @@ export default function Profile() {
                           <div className="flex flex-wrap items-center gap-2 pt-2">
                             {listed ? (
                               <>
-                                <Badge className="bg-green-500/15 border border-green-500/30 text-green-400">
-                                  ${((existing!.price_cents ?? 0) / 100).toFixed(2)}
-                                </Badge>
+                                {repricing?.listingId === existing!.id ? (
+                                  <div className="flex items-center gap-1">
+                                    <Input
+                                      value={repricing.value}
+                                      onChange={(e) => setRepricing({ listingId: existing!.id, value: e.target.value })}
+                                      onKeyDown={(e) => e.key === "Enter" && saveListingPrice(existing!)}
+                                      inputMode="decimal"
+                                      aria-label="Listing price in USD"
+                                      className="h-8 w-24 bg-cyber-dark border-cyber-cyan/40 text-white"
+                                    />
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      className="h-8 px-2 border-green-500/40 text-green-400"
+                                      onClick={() => saveListingPrice(existing!)}
+                                      disabled={savingPrice || Boolean(priceProblem(repricing.value))}
+                                      title={priceProblem(repricing.value) ?? "Save price"}
+                                    >
+                                      <Check className="w-4 h-4" />
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      className="h-8 px-2 border-gray-600 text-gray-400"
+                                      onClick={() => setRepricing(null)}
+                                      disabled={savingPrice}
+                                      title="Cancel"
+                                    >
+                                      <X className="w-4 h-4" />
+                                    </Button>
+                                  </div>
+                                ) : (
+                                  <Badge
+                                    className="bg-green-500/15 border border-green-500/30 text-green-400 cursor-pointer"
+                                    onClick={() =>
+                                      setRepricing({ listingId: existing!.id, value: ((existing!.price_cents ?? 0) / 100).toFixed(2) })
+                                    }
+                                    title="Change price"
+                                  >
+                                    {formatListingPrice(existing!.price_cents ?? 0)}
+                                    <Pencil className="w-3 h-3 ml-1" />
+                                  </Badge>
+                                )}
                                 <Button
                                   variant="destructive"
                                   size="sm"
@@ -661,6 +763,22 @@ export default function Profile() {
           )}
         </section>
 
+        {/* Orders */}
+        <section className="mb-14">
+          <div className="mb-4">
+            <h2 className="text-2xl font-bold text-white tracking-wider">Orders</h2>
+          </div>
+          <ProfileOrders uid={uid} />
+        </section>
+
+        {/* Offers */}
+        <section className="mb-14">
+          <div className="mb-4">
+            <h2 className="text-2xl font-bold text-white tracking-wider">Offers</h2>
+          </div>
+          <ProfileOffers uid={uid} />
+        </section>
+
         {/* On-chain NFTs */}
         <section>
           <div className="mb-4 flex items-center justify-between">
@@ -685,7 +803,7 @@ export default function Profile() {
         </section>
       </div>
 
-      {/* Sell dialog – price locked to $9 */}
+      {/* Sell dialog – seller sets the price within the marketplace bounds */}
       <Dialog open={sellOpen} onOpenChange={setSellOpen}>
         <DialogContent>
           <DialogHeader>
@@ -693,6 +811,36 @@ export default function Profile() {
           </DialogHeader>
           <div className="space-y-4">
             <div className="text-sm text-gray-400 break-words">{selectedAsset?.file_name}</div>
+            <div className="space-y-1">
+              <label htmlFor="listing-price" className="text-sm text-gray-300">Price (USD)</label>
+              <Input
+                id="listing-price"
+                value={priceInput}
+                onChange={(e) => setPriceInput(e.target.value)}
+                inputMode="decimal"
+                placeholder={(priceBounds.minCents / 100).toFixed(2)}
+                className="bg-cyber-dark border-cyber-cyan/40 text-white"
+              />
+              <div className={priceInput && priceProblem(priceInput) ? "text-xs text-cyber-orange" : "text-xs text-gray-500"}>
+                {(priceInput && priceProblem(priceInput)) ||
+                  `Between ${formatListingPrice(priceBounds.minCents)} and ${formatListingPrice(priceBounds.maxCents)}`}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="listing-finish" className="text-sm text-gray-300">Card finish</label>
+              <Select value={finish} onValueChange={(value) => setFinish(value as CardFinish)}>
+                <SelectTrigger id="listing-finish" className="bg-cyber-dark border-cyber-cyan/40 text-white capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MARKETPLACE_FINISHES.map((option) => (
+                    <SelectItem key={option} value={option} className="capitalize">
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             {!canSell && (
               <div className="mt-2 text-xs text-cyber-orange">Stripe not connected. Connect your account to list items.</div>
             )}
@@ -702,8 +850,10 @@ export default function Profile() {
               Close
             </Button>
             {canSell ? (
-              <Button onClick={createListing} disabled={creating} className="cyber-button">
-                {creating ? "Listing…" : "List for $9"}
+              <Button onClick={createListing} disabled={creating || Boolean(priceProblem(priceInput))} className="cyber-button">
+                {creating
+                  ? "Listing…"
+                  : `List for ${formatListingPrice(parseListingPrice(priceInput) ?? priceBounds.minCents)}`}
               </Button>
             ) : (
               <Button
@@ -176,11 +176,18 @@ export default function SellerGalleryPage() {
             </div>
           </div>
 
-          <Link href="/marketplace">
-            <Button variant="outline" className="border-cyber-cyan/40 text-cyber-cyan hover:bg-cyber-cyan/10">
-              Back to Marketplace
-            </Button>
-          </Link>
+          <div className="flex gap-2">
+            <Link href={`/marketplace?seller=${sellerId}`}>
+              <Button variant="outline" className="border-cyber-cyan/40 text-cyber-cyan hover:bg-cyber-cyan/10">
+                Search Their Listings
+              </Button>
+            </Link>
+            <Link href="/marketplace">
+              <Button variant="outline" className="border-cyber-cyan/40 text-cyber-cyan hover:bg-cyber-cyan/10">
+                Back to Marketplace
+              </Button>
+            </Link>
+          </div>
         </div>
 
         {loading ? (
@@ -5,7 +5,7 @@ import { useSearchParams } from "next/navigation"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
-import { CheckCircle, Home, Mail, Crown, Sparkles, ArrowRight, RefreshCw, AlertTriangle, Wifi, WifiOff } from "lucide-react"
+import { CheckCircle, Home, Mail, Crown, Sparkles, ArrowRight, RefreshCw, AlertTriangle, Wifi, WifiOff, Package } from "lucide-react"
 import { XLogo } from "@/components/ui/x-logo"
 
 interface SessionData {
@@ -13,6 +13,8 @@ interface SessionData {
   amount_total: number
   quantity: number
   marketing_consent: boolean
+  serials?: string[]  // Limited edition numbers, e.g. "#37/472"
+  order_id?: string | null  // Order page id, once the webhook has recorded the order
 }
 
 interface ErrorState {
@@ -430,6 +432,15 @@ function SuccessPageContent() {
                       <span className="text-white font-bold">{sessionData.quantity} card{sessionData.quantity > 1 ? 's' : ''}</span>
                     </div>
                     
+                    {sessionData.serials && sessionData.serials.length > 0 && (
+                      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start py-2 border-b border-cyber-cyan/20 gap-2">
+                        <span className="text-gray-300">Edition Number{sessionData.serials.length > 1 ? 's' : ''}:</span>
+                        <span className="text-cyber-cyan font-mono font-bold text-sm sm:text-base sm:text-right">
+                          {sessionData.serials.join(', ')}
+                        </span>
+                      </div>
+                    )}
+                    
                     <div className="flex justify-between items-center py-2 border-b border-cyber-cyan/20">
                       <span className="text-gray-300">Total Paid:</span>
                       <span className="text-cyber-pink font-bold text-xl">
@@ -445,6 +456,15 @@ function SuccessPageContent() {
                         </p>
                       </div>
                     )}
+
+                    {sessionData.order_id && (
+                      <Link href={`/orders/${sessionData.order_id}`} className="block pt-2">
+                        <Button className="w-full bg-cyber-dark/80 border-2 border-cyber-cyan text-cyber-cyan hover:bg-cyber-cyan/10 font-bold tracking-wider">
+                          <Package className="w-4 h-4 mr-2" />
+                          Track Your Order
+                        </Button>
+                      </Link>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -491,7 +511,7 @@ function SuccessPageContent() {
                     <div className="w-6 h-6 bg-cyber-orange/20 rounded-full flex items-center justify-center mt-0.5">
                       <span className="text-cyber-orange text-xs font-bold">1</span>
                     </div>
-                    <p>You'll receive an email confirmation with tracking details within 24 hours.</p>
+                    <p>We will email you as your order moves into production, ships and arrives, with tracking details once it is on its way.</p>
                   </div>
                   
                   <div className="flex items-start gap-3">
@@ -13,7 +13,7 @@ import { Upload, AlertCircle, ArrowRight, Sparkles, Loader2 } from 'lucide-react
 import { Checkbox } from "@/components/ui/checkbox"
 import { cropImageToAspectRatio } from "@/lib/image-processing"
 import { uploadToSupabase } from "@/lib/upload"
-import { canCreateMore, incrementGuestCreation, getRemaining, FREE_LIMIT } from "@/lib/guest-quota"
+import { canCreateMore, uploadGuestCreation, refreshGuestQuota, getRemaining, FREE_LIMIT } from "@/lib/guest-quota"
 import { getSupabaseBrowserClient, signInWithGoogle } from "@/lib/supabase-browser"
 import { useToast } from "@/hooks/use-toast"
 
@@ -99,6 +99,7 @@ useEffect(() => {
 
 useEffect(() => {
   const onUpdate = () => setRemaining(getRemaining())
+  refreshGuestQuota()
   window.addEventListener("cardify-free-updated", onUpdate)
   window.addEventListener("storage", onUpdate)
   return () => {
@@ -259,20 +260,26 @@ const handleFinalizeClick = async () => {
   setIsUploadingToDatabase(true)
   setUploadError(null)
 
+  // guests upload through the server, which uses a free creation only once the upload is stored
+  const upload = async (blob: Blob) => {
+    if (user) return uploadToSupabase(blob)
+    const created = await uploadGuestCreation(blob)
+    if (!created) throw new Error("guest_quota_exhausted")
+    return created
+  }
+
   try {
-    // uploads (this is where the DB trigger will deduct 1 credit)
+    // uploads (for signed-in users this is where the DB trigger will deduct 1 credit)
     if (!uploadedImageUrl && processedImageBlob) {
-      const uploadData = await uploadToSupabase(processedImageBlob)
+      const uploadData = await upload(processedImageBlob)
       setUploadedImageUrl(uploadData.publicUrl)
     } else if (!uploadedImageUrl && uploadedImage) {
       const imageBlob = await fetch(uploadedImage).then(r => r.blob())
-      const uploadData = await uploadToSupabase(imageBlob)
+      const uploadData = await upload(imageBlob)
       setUploadedImageUrl(uploadData.publicUrl)
     }
 
-    // guests consume free quota on success (unchanged)
     if (!user) {
-      incrementGuestCreation()
       setRemaining(getRemaining())
       toast({ title: "Created!", description: `You have ${getRemaining()} of ${FREE_LIMIT} free remaining.` })
     }
@@ -280,7 +287,10 @@ const handleFinalizeClick = async () => {
     setShowCheckoutModal(true)
   } catch (error: any) {
     const msg = String(error?.message || error)
-    if (msg.includes("no_credits") || msg.includes("insufficient_credits")) {
+    if (msg.includes("guest_quota_exhausted")) {
+      toast({ title: "Sign in required", description: `You’ve used your ${FREE_LIMIT} free creations. Sign in to continue.` })
+      signInWithGoogle("/upload")
+    } else if (msg.includes("no_credits") || msg.includes("insufficient_credits")) {
       // keep storage cleaned (upload.ts already tries remove on failure)
       toast({ title: "No credits", description: "Buy credits to continue." })
       // flip UI to Buy Credits state by leaving credits as-is (0)
@@ -35,9 +35,9 @@ const ComponentLoader = () => (
 );
 
 // Wrapper components with loading states
-export const LimitedEditionModalWithSuspense = ({ isOpen, onClose }: { isOpen: boolean; onClose?: () => void }) => (
+export const LimitedEditionModalWithSuspense = ({ isOpen, onClose, dropId }: { isOpen: boolean; onClose?: () => void; dropId?: string }) => (
   <Suspense fallback={isOpen ? <ModalLoader /> : null}>
-    <LazyLimitedEditionModal isOpen={isOpen} onClose={onClose} />
+    <LazyLimitedEditionModal isOpen={isOpen} onClose={onClose} dropId={dropId} />
   </Suspense>
 );
 
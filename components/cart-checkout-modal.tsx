@@ -6,31 +6,43 @@ import { Card } from "@/components/ui/card"
 import { ShippingAddressForm, type ShippingAddress } from "./shipping-address-form"
 import { ArrowLeft } from "lucide-react"
 import { csrfFetch } from "@/lib/csrf-client"
+import type { AppliedPromoCode } from "./promo-code-field"
 
 import type { CartItem } from "@/lib/cart-context"
 
 interface CartCheckoutModalProps {
   cartItems: CartItem[]
   subtotal: number
+  promo?: AppliedPromoCode | null  // Entered in the cart; checkout re-checks it
   onBack: () => void
   onSuccess: () => void
 }
 
-export function CartCheckoutModal({ cartItems, subtotal, onBack, onSuccess }: CartCheckoutModalProps) {
+// Checkout errors the customer can fix by signing in; the cart is kept
+const SIGN_IN_CODES = ['SIGN_IN_REQUIRED', 'PROMO_SIGN_IN_REQUIRED']
+
+interface CheckoutError {
+  message: string
+  signIn: boolean
+}
+
+export function CartCheckoutModal({ cartItems, subtotal, promo, onBack, onSuccess }: CartCheckoutModalProps) {
   const [isProcessing, setIsProcessing] = useState(false)
+  const [checkoutError, setCheckoutError] = useState<CheckoutError | null>(null)
   
   const handleSubmit = async (address: ShippingAddress) => {
     setIsProcessing(true)
+    setCheckoutError(null)
     
     try {
-      // Build line items from cart
+      // Build line items from cart; the server prices them itself
       const lineItems = cartItems.flatMap((item) => {
         const cardItem = {
           productId: item.type === 'limited-edition' ? 'limited-edition-card' : 'custom-card',
           quantity: item.quantity,
-          pricePerUnit: item.pricePerUnit,
           name: item.name,
           image: item.image,
+          ...(item.type === 'limited-edition' && item.dropId && { dropId: item.dropId }),
           ...(item.type === 'custom-card' && {
             cardFinish: item.cardFinish,
             customImageUrl: item.image,
@@ -44,7 +56,6 @@ export function CartCheckoutModal({ cartItems, subtotal, onBack, onSuccess }: Ca
           items.push({
             productId: 'display-case',
             quantity: item.displayCaseQuantity,
-            pricePerUnit: item.displayCasePricePerUnit || 19.00,
             name: 'Acrylic Display Case',
             image: '/display-case.jpg'
           })
@@ -58,12 +69,18 @@ export function CartCheckoutModal({ cartItems, subtotal, onBack, onSuccess }: Ca
         body: JSON.stringify({ 
           cartItems: lineItems,
           isCartCheckout: true,
-          shippingAddress: address
+          shippingAddress: address,
+          ...(promo && { promotionCode: promo.code })
         }),
       })
 
       if (!response.ok) {
         const errorData = await response.json()
+        if (SIGN_IN_CODES.includes(errorData.code)) {
+          setCheckoutError({ message: errorData.error, signIn: true })
+          setIsProcessing(false)
+          return
+        }
         throw new Error(errorData.error || 'Failed to create checkout session')
       }
 
@@ -79,7 +96,7 @@ export function CartCheckoutModal({ cartItems, subtotal, onBack, onSuccess }: Ca
         throw new Error('No checkout URL received')
       }
     } catch (error) {
-      alert(error instanceof Error ? error.message : 'Failed to start checkout')
+      setCheckoutError({ message: error instanceof Error ? error.message : 'Failed to start checkout', signIn: false })
       setIsProcessing(false)
     }
   }
@@ -107,15 +124,32 @@ export function CartCheckoutModal({ cartItems, subtotal, onBack, onSuccess }: Ca
             <span className="text-gray-400">Items:</span>
             <span className="text-white">{cartItems.reduce((sum, item) => sum + item.quantity, 0)}</span>
           </div>
+          {promo && promo.discount > 0 && (
+            <div className="flex justify-between items-center text-sm mb-2">
+              <span className="text-gray-400">Discount ({promo.code}):</span>
+              <span className="text-cyber-green">-${promo.discount.toFixed(2)}</span>
+            </div>
+          )}
           <div className="flex justify-between items-center">
             <span className="text-white font-semibold">Subtotal:</span>
-            <span className="text-cyber-green font-bold text-lg">${subtotal.toFixed(2)}</span>
+            <span className="text-cyber-green font-bold text-lg">${(subtotal - (promo?.discount ?? 0)).toFixed(2)}</span>
           </div>
           <p className="text-xs text-gray-400 mt-2">
-            Shipping and taxes calculated at checkout
+            {promo?.freeShipping ? 'Free shipping applied. Taxes' : 'Shipping and taxes'} calculated at checkout
           </p>
         </Card>
         
+        {checkoutError && (
+          <div className="mb-4 p-3 rounded-lg border border-red-500/50 bg-red-500/10 text-sm" role="alert">
+            <p className="text-red-400">{checkoutError.message}</p>
+            {checkoutError.signIn && (
+              <p className="text-xs text-gray-300 mt-1">
+                Your cart has been kept. Sign in, then check out again.
+              </p>
+            )}
+          </div>
+        )}
+        
         <ShippingAddressForm
           onSubmit={handleSubmit}
           onBack={onBack}
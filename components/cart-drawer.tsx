@@ -4,8 +4,11 @@ import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { X, Minus, Plus, ShoppingCart, Trash2, AlertCircle } from "lucide-react"
-import { useCart, type CartItem } from "@/lib/cart-context"
+import { cartItemLines, useCart, type CartItem } from "@/lib/cart-context"
+import { priceLine } from "@/lib/pricing"
 import { CartCheckoutModal } from "./cart-checkout-modal"
+import { PromoCodeField, type AppliedPromoCode, type PromoItem } from "./promo-code-field"
+import { ShippingEstimate } from "./shipping-estimate"
 import Image from "next/image"
 
 interface CartDrawerProps {
@@ -18,9 +21,25 @@ export function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
   const [isClosing, setIsClosing] = useState(false)
   const [isVisible, setIsVisible] = useState(false)
   const [showCheckout, setShowCheckout] = useState(false)
+  const [promo, setPromo] = useState<AppliedPromoCode | null>(null)
   
   const subtotal = getSubtotal()
 
+  const promoItems: PromoItem[] = items.flatMap((item): PromoItem[] => [
+    item.type === 'limited-edition'
+      ? { productId: 'limited-edition-card', quantity: item.quantity, ...(item.dropId && { dropId: item.dropId }) }
+      : { productId: 'custom-card', quantity: item.quantity, cardFinish: item.cardFinish },
+    ...(item.includeDisplayCase && item.displayCaseQuantity > 0
+      ? [{ productId: 'display-case' as const, quantity: item.displayCaseQuantity }]
+      : []),
+  ])
+
+  // Line totals from lib/pricing, so volume tiers follow quantity changes
+  const lineTotals = (item: CartItem) => {
+    const [cards, displayCases] = cartItemLines(item).map(priceLine)
+    return { cards: cards.subtotalCents / 100, displayCases: (displayCases?.subtotalCents ?? 0) / 100 }
+  }
+
   // Handle smooth open/close transitions
   useEffect(() => {
     if (isOpen) {
@@ -81,6 +100,7 @@ export function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
           <CartCheckoutModal
             cartItems={items}
             subtotal={subtotal}
+            promo={promo}
             onBack={handleBackFromCheckout}
             onSuccess={handleCheckoutSuccess}
           />
@@ -179,7 +199,7 @@ export function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
                             <Plus className="w-3 h-3" />
                           </Button>
                           <span className="text-cyber-green text-sm ml-2">
-                            ${(item.pricePerUnit * item.quantity).toFixed(2)}
+                            ${lineTotals(item).cards.toFixed(2)}
                           </span>
                         </div>
                         
@@ -207,7 +227,7 @@ export function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
                                 <Plus className="w-2 h-2" />
                               </Button>
                               <span className="text-cyber-purple text-xs ml-2">
-                                ${((item.displayCasePricePerUnit || 19) * item.displayCaseQuantity).toFixed(2)}
+                                ${lineTotals(item).displayCases.toFixed(2)}
                               </span>
                             </div>
                           </div>
@@ -233,7 +253,7 @@ export function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
                     <AlertCircle className="w-4 h-4 text-cyber-cyan flex-shrink-0 mt-0.5" />
                     <p className="text-xs text-cyber-cyan">
                       All items will be shipped together for combined shipping. 
-                      International shipping calculated at checkout.
+                      Choose standard, tracked or express shipping at checkout.
                     </p>
                   </div>
                 </div>
@@ -244,10 +264,19 @@ export function CartDrawer({ isOpen, onClose }: CartDrawerProps) {
           {/* Footer */}
           {items.length > 0 && (
             <div className="border-t border-cyber-cyan/20 p-4 space-y-3">
+              <PromoCodeField items={promoItems} onChange={setPromo} />
+              <ShippingEstimate items={promoItems} freeShipping={promo?.freeShipping} />
+
+              {promo && promo.discount > 0 && (
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-gray-400">Discount ({promo.code}):</span>
+                  <span className="text-cyber-green">-${promo.discount.toFixed(2)}</span>
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <span className="text-white font-semibold">Subtotal:</span>
                 <span className="text-cyber-green font-bold text-xl neon-green">
-                  ${subtotal.toFixed(2)}
+                  ${(subtotal - (promo?.discount ?? 0)).toFixed(2)}
                 </span>
               </div>
               
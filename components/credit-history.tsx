@@ -0,0 +1,149 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { creditHistoryQuery, useCreditHistory, CreditHistoryFilters } from "@/hooks/use-credit-history"
+import type { LedgerHistoryEntry, LedgerReason } from "@/lib/credits-ledger"
+
+const TYPE_LABELS: Record<LedgerReason, string> = {
+  purchase: "Purchases",
+  spend: "Spends",
+  refund: "Refunds",
+  promo: "Promos",
+  adjustment: "Adjustments",
+}
+
+const TYPES = Object.keys(TYPE_LABELS) as LedgerReason[]
+
+function describe(entry: LedgerHistoryEntry): string {
+  switch (entry.reason) {
+    case "purchase":
+      return entry.amountCents !== null
+        ? `Bought a $${(entry.amountCents / 100).toFixed(0)} credit pack`
+        : "Bought credits"
+    case "spend":
+      return entry.upload ? "Card image created" : "Credit spent"
+    case "refund":
+      return typeof entry.metadata.stripeObject === "string" && entry.metadata.stripeObject.startsWith("dp_")
+        ? "Credits reversed (payment disputed)"
+        : "Credits reversed (payment refunded)"
+    case "promo":
+      return typeof entry.metadata.code === "string" ? `Promo code ${entry.metadata.code}` : "Promo credits"
+    default:
+      return typeof entry.metadata.note === "string" ? entry.metadata.note : "Balance adjustment"
+  }
+}
+
+export function CreditHistory() {
+  const [filters, setFilters] = useState<CreditHistoryFilters>({ types: [] })
+  const { entries, loading, error, hasMore, loadMore } = useCreditHistory(filters)
+
+  const toggleType = (type: LedgerReason) =>
+    setFilters(f => ({
+      ...f,
+      types: f.types.includes(type) ? f.types.filter(t => t !== type) : [...f.types, type],
+    }))
+
+  const exportHref = `/api/credits/history?${creditHistoryQuery(filters, { format: "csv" })}`
+
+  return (
+    <Card className="bg-cyber-dark/60 border border-cyber-cyan/30">
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <CardTitle className="text-white">Credit History</CardTitle>
+        <a href={exportHref} download>
+          <Button className="cyber-button" disabled={entries.length === 0}>Export CSV</Button>
+        </a>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2">
+          {TYPES.map(type => (
+            <Button
+              key={type}
+              size="sm"
+              variant="outline"
+              onClick={() => toggleType(type)}
+              className={
+                filters.types.includes(type)
+                  ? "border-cyber-cyan bg-cyber-cyan/20 text-cyber-cyan"
+                  : "border-gray-600 bg-transparent text-gray-400"
+              }
+            >
+              {TYPE_LABELS[type]}
+            </Button>
+          ))}
+          <div className="flex items-center gap-2 ml-auto">
+            <Input
+              type="date"
+              aria-label="From"
+              value={filters.from ?? ""}
+              onChange={e => setFilters(f => ({ ...f, from: e.target.value || undefined }))}
+              className="w-40 bg-cyber-black border-gray-600 text-white"
+            />
+            <span className="text-gray-500">–</span>
+            <Input
+              type="date"
+              aria-label="To"
+              value={filters.to ?? ""}
+              onChange={e => setFilters(f => ({ ...f, to: e.target.value || undefined }))}
+              className="w-40 bg-cyber-black border-gray-600 text-white"
+            />
+          </div>
+        </div>
+
+        {error && <div className="text-sm text-red-400">{error}</div>}
+
+        {/* Timeline */}
+        {entries.length === 0 && !loading ? (
+          <div className="text-sm text-gray-500 py-6 text-center">No credit activity yet.</div>
+        ) : (
+          <ol className="relative border-l border-cyber-cyan/30 ml-2">
+            {entries.map(entry => (
+              <li key={entry.id} className="mb-4 ml-4">
+                <span
+                  className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${
+                    entry.credits > 0 ? "bg-cyber-green" : "bg-cyber-pink"
+                  }`}
+                />
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3 min-w-0">
+                    {entry.upload && (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img src={entry.upload.imageUrl} alt="" className="h-10 w-10 rounded object-cover" />
+                    )}
+                    <div className="min-w-0">
+                      <div className="text-white truncate">{describe(entry)}</div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(entry.createdAt).toLocaleString()}
+                        <Badge variant="outline" className="ml-2 border-gray-700 text-gray-400">
+                          {entry.reason}
+                        </Badge>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <div className={`font-mono ${entry.credits > 0 ? "text-cyber-green" : "text-cyber-pink"}`}>
+                      {entry.credits > 0 ? `+${entry.credits}` : entry.credits}
+                    </div>
+                    {entry.balanceAfter !== null && (
+                      <div className="text-xs text-gray-500">Balance {entry.balanceAfter}</div>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {hasMore && (
+          <Button className="cyber-button w-full" onClick={loadMore} disabled={loading}>
+            {loading ? "Loading…" : "Load more"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -28,6 +28,8 @@ import { Minus, Plus, ShoppingCart, Star, Zap, Shield, AlertCircle, Loader2, Eye
 import { csrfFetch } from "@/lib/csrf-client"
 import { uploadToSupabase } from "@/lib/upload"
 import { useCart } from "@/lib/cart-context"
+import { PromoCodeField, type AppliedPromoCode, type PromoItem } from "./promo-code-field"
+import { customCardLine, DEFAULT_PRICE_LIST, priceCart, type CardFinish, type CartLine, type PriceTier } from "@/lib/pricing"
 
 interface CustomCardCheckoutModalProps {
   isOpen: boolean
@@ -66,6 +68,12 @@ interface InventoryData {
       images: string[]
     }
   }
+  customCard: {
+    pricePerUnit: number
+    pricingTiers: PricingTier[]
+    discountTiers: PriceTier[]
+    finishPrices: Record<CardFinish, number>
+  }
   product: {
     id: string
     name: string
@@ -536,6 +544,7 @@ export function CustomCardCheckoutModal({ isOpen, onClose, uploadedImage, proces
   
   // Display case state management
   const [includeDisplayCase, setIncludeDisplayCase] = useState(false)
+  const [promo, setPromo] = useState<AppliedPromoCode | null>(null)
   const [displayCaseQuantity, setDisplayCaseQuantity] = useState(1)
   
   // Card finish state management
@@ -797,40 +806,48 @@ export function CustomCardCheckoutModal({ isOpen, onClose, uploadedImage, proces
       }
     }
 
-    // Use custom card pricing tiers
+    // Same engine and inputs checkout prices with (lib/pricing); volume
+    // discounts apply to the base price, not the finish
     const customCardData = inventoryState.data.customCard
-    const applicableTiers = customCardData.pricingTiers.filter(
-      tier => quantityState.value >= tier.quantity
-    )
-    
-    const bestTier = applicableTiers.length > 0 
-      ? applicableTiers[applicableTiers.length - 1] // Get the highest quantity tier applicable
-      : customCardData.pricingTiers[0] // Fallback to base price
-
-    const pricePerUnit = bestTier.pricePerUnit
-    
-    // Add card finish pricing
-    const cardFinishPricePerCard = (cardFinish === 'rainbow' || cardFinish === 'gloss') ? 4.00 : 0
-    const totalPricePerUnit = pricePerUnit + cardFinishPricePerCard
-    
-    const cardsTotalPrice = totalPricePerUnit * quantityState.value
-    const originalPrice = customCardData.pricePerUnit * quantityState.value
-    const savings = originalPrice - (pricePerUnit * quantityState.value) // Savings only on base price, not style
-
-    // Add display case pricing if included
-    const displayCasePrice = inventoryState.data.displayCases?.pricePerUnit || 19.00
-    const displayCaseTotalPrice = includeDisplayCase ? (displayCasePrice * displayCaseQuantity) : 0
-    const totalPrice = cardsTotalPrice + displayCaseTotalPrice
+    const priceList = {
+      ...DEFAULT_PRICE_LIST,
+      customCardCents: Math.round(customCardData.pricePerUnit * 100),
+      customCardTiers: customCardData.discountTiers ?? DEFAULT_PRICE_LIST.customCardTiers,
+      finishSurchargeCents: customCardData.finishPrices
+        ? {
+            matte: Math.round(customCardData.finishPrices.matte * 100),
+            rainbow: Math.round(customCardData.finishPrices.rainbow * 100),
+            gloss: Math.round(customCardData.finishPrices.gloss * 100),
+          }
+        : DEFAULT_PRICE_LIST.finishSurchargeCents,
+      displayCaseCents: Math.round((inventoryState.data.displayCases?.pricePerUnit || 19.00) * 100),
+    }
+    const cardLine = customCardLine(priceList, cardFinish, quantityState.value)
+    const displayCaseLine: CartLine = {
+      kind: 'display-case',
+      quantity: includeDisplayCase ? displayCaseQuantity : 0,
+      baseUnitCents: priceList.displayCaseCents,
+      tiers: [],
+      surchargeCents: 0,
+    }
+    const breakdown = priceCart([cardLine, displayCaseLine])
+    const [cards, displayCases] = breakdown.lines
 
     return {
-      pricePerUnit: totalPricePerUnit,
-      basePrice: pricePerUnit,
-      totalPrice,
-      cardsTotalPrice,
-      displayCaseTotalPrice,
-      discount: bestTier.discount,
-      savings,
-      cardFinishPrice: cardFinishPricePerCard,
+      pricePerUnit: cards.unitCents / 100,
+      basePrice: (cards.unitCents - cards.surchargeCents) / 100,
+      totalPrice: breakdown.totalCents / 100,
+      cardsTotalPrice: cards.subtotalCents / 100,
+      displayCaseTotalPrice: (displayCases?.subtotalCents ?? 0) / 100,
+      discount: cards.discountPercent,
+      savings: breakdown.savingsCents / 100,
+      cardFinishPrice: cards.surchargeCents / 100,
+      pricing: {
+        baseUnitCents: cardLine.baseUnitCents,
+        tiers: cardLine.tiers,
+        surchargeCents: cardLine.surchargeCents,
+        displayCaseCents: priceList.displayCaseCents,
+      },
     }
   }
 
@@ -886,7 +903,13 @@ export function CustomCardCheckoutModal({ isOpen, onClose, uploadedImage, proces
   // Derived state for UI controls
   const isIncrementDisabled = quantityState.value >= QUANTITY_CONFIG.MAX || isSoldOut
   const isDecrementDisabled = quantityState.value <= QUANTITY_CONFIG.MIN
-  const totalPrice = currentPricing.totalPrice.toFixed(2)
+  const promoItems: PromoItem[] = [
+    { productId: 'custom-card', quantity: quantityState.value, cardFinish },
+    ...(includeDisplayCase && displayCaseQuantity > 0
+      ? [{ productId: 'display-case' as const, quantity: displayCaseQuantity }]
+      : []),
+  ]
+  const totalPrice = (currentPricing.totalPrice - (promo?.discount ?? 0)).toFixed(2)
 
   // Focus management for accessibility
   useEffect(() => {
@@ -1030,6 +1053,7 @@ export function CustomCardCheckoutModal({ isOpen, onClose, uploadedImage, proces
       includeDisplayCase: includeDisplayCase,
       displayCaseQuantity: displayCaseQuantity,
       displayCasePricePerUnit: inventoryState.data.displayCases?.pricePerUnit || 19.00,
+      pricing: pricing.pricing,
       uploadId: imageUrl
     })
     
@@ -1123,7 +1147,8 @@ export function CustomCardCheckoutModal({ isOpen, onClose, uploadedImage, proces
           shippingAddress: address,
           isCustomCard: true,
           customImageUrl: customImageUrl,
-          cardFinish: cardFinish
+          cardFinish: cardFinish,
+          ...(promo && { promotionCode: promo.code })
         }),
       })
 
@@ -1136,7 +1161,7 @@ export function CustomCardCheckoutModal({ isOpen, onClose, uploadedImage, proces
           errorCode: errorData.code,
           errorMessage: errorData.error,
           errorDetails: errorData.details || null,
-          availableInventory: errorData.availableInventory || null
+          availableInventory: errorData.details?.availableInventory || null
         })
         
         // Enhanced error handling based on specific error codes
@@ -1145,27 +1170,37 @@ export function CustomCardCheckoutModal({ isOpen, onClose, uploadedImage, proces
         switch (errorData.code) {
           case 'INSUFFICIENT_INVENTORY':
             // Update inventory state with server response
-            if (typeof errorData.availableInventory === 'number') {
+            if (typeof errorData.details?.availableInventory === 'number') {
               setInventoryState(prev => ({
                 ...prev,
-                data: prev.data ? { ...prev.data, inventory: errorData.availableInventory } : null
+                data: prev.data ? { ...prev.data, inventory: errorData.details?.availableInventory } : null
               }))
               
               // Adjust quantity if some inventory is still available
-              if (errorData.availableInventory > 0) {
-                const newQuantityState = validateQuantity(errorData.availableInventory)
+              if (errorData.details?.availableInventory > 0) {
+                const newQuantityState = validateQuantity(errorData.details?.availableInventory)
                 setQuantityState(newQuantityState)
                 saveQuantityToStorage(newQuantityState.value)
                 console.log('🔄 Auto-adjusted quantity due to insufficient inventory:', {
                   from: quantityState.value,
                   to: newQuantityState.value,
-                  availableInventory: errorData.availableInventory
+                  availableInventory: errorData.details?.availableInventory
                 })
               }
             }
             userMessage = errorData.error || 'Insufficient inventory available'
             break
             
+          case 'PROMO_NOT_FOUND':
+          case 'PROMO_NOT_STARTED':
+          case 'PROMO_EXPIRED':
+          case 'PROMO_EXHAUSTED':
+          case 'PROMO_CUSTOMER_LIMIT':
+          case 'PROMO_NOT_APPLICABLE':
+            // The code stopped applying after it was entered
+            userMessage = errorData.error
+            break
+            
           case 'CSRF_INVALID':
             userMessage = 'Security validation failed. Please refresh the page and try again.'
             console.error('🔒 CSRF validation failed - possible security issue or expired session')
@@ -1713,6 +1748,15 @@ export function CustomCardCheckoutModal({ isOpen, onClose, uploadedImage, proces
                           </div>
                         )}
                         
+                        <PromoCodeField items={promoItems} onChange={setPromo} />
+
+                        {promo && promo.discount > 0 && (
+                          <div className="flex justify-between items-center text-sm text-cyber-green">
+                            <span>Promo ({promo.code}):</span>
+                            <span className="font-bold">-${promo.discount.toFixed(2)}</span>
+                          </div>
+                        )}
+                        
                         <div className="flex justify-between items-center text-base sm:text-lg border-t border-cyber-cyan/20 pt-2">
                           <span className="text-white font-bold">Total:</span>
                           <span className="text-cyber-green font-bold text-lg sm:text-xl neon-green">${totalPrice}</span>
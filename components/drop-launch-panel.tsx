@@ -0,0 +1,130 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Clock, Loader2 } from "lucide-react"
+import { csrfFetch } from "@/lib/csrf-client"
+
+interface DropLaunchPanelProps {
+  dropId: string
+  startsAt: string
+  earlyAccessEndsAt: string | null
+  onLaunch: () => void  // Called once the countdown reaches zero
+}
+
+function remainingParts(ms: number) {
+  const seconds = Math.max(0, Math.floor(ms / 1000))
+  return {
+    days: Math.floor(seconds / 86400),
+    hours: Math.floor((seconds % 86400) / 3600),
+    minutes: Math.floor((seconds % 3600) / 60),
+    seconds: seconds % 60,
+  }
+}
+
+/**
+ * Countdown and waitlist signup shown in place of the order controls until a
+ * scheduled drop opens. Signups are for the signed-in account, which gets the
+ * early access window.
+ */
+export function DropLaunchPanel({ dropId, startsAt, earlyAccessEndsAt, onLaunch }: DropLaunchPanelProps) {
+  const launchTime = new Date(startsAt).getTime()
+  const [now, setNow] = useState(() => Date.now())
+  const [email, setEmail] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [joined, setJoined] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const launchedRef = useRef(false)
+
+  useEffect(() => {
+    if (now >= launchTime) {
+      if (!launchedRef.current) {
+        launchedRef.current = true
+        onLaunch()
+      }
+      return
+    }
+    const timer = setTimeout(() => setNow(Date.now()), 1000)
+    return () => clearTimeout(timer)
+  }, [now, launchTime, onLaunch])
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    try {
+      const response = await csrfFetch(`/api/drops/${encodeURIComponent(dropId)}/waitlist`, {
+        method: "POST",
+      })
+      if (response.status === 401) {
+        throw new Error("Sign in to join the waitlist")
+      }
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Could not join the waitlist")
+      }
+      setEmail(result.email)
+      setJoined(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not join the waitlist")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const { days, hours, minutes, seconds } = remainingParts(launchTime - now)
+  const earlyAccessMinutes = earlyAccessEndsAt
+    ? Math.round((new Date(earlyAccessEndsAt).getTime() - launchTime) / 60000)
+    : null
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center space-y-2">
+        <p className="text-sm font-bold text-cyber-cyan tracking-wider flex items-center justify-center gap-2">
+          <Clock className="w-4 h-4" />
+          Drop opens in
+        </p>
+        <div className="grid grid-cols-4 gap-2" role="timer" aria-live="off">
+          {[
+            ["Days", days],
+            ["Hours", hours],
+            ["Min", minutes],
+            ["Sec", seconds],
+          ].map(([label, value]) => (
+            <div key={label} className="bg-cyber-dark/60 border border-cyber-cyan/30 rounded-lg py-2">
+              <div className="text-xl sm:text-2xl font-bold text-white tabular-nums">
+                {String(value).padStart(2, "0")}
+              </div>
+              <div className="text-[10px] uppercase text-gray-400">{label}</div>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-400">{new Date(startsAt).toLocaleString()}</p>
+      </div>
+
+      {joined ? (
+        <div className="p-3 rounded-lg border-2 border-cyber-green bg-cyber-green/10 text-center text-sm text-cyber-green font-semibold">
+          You&apos;re on the waitlist as {email}. Check out signed in to that account when the drop opens
+          {earlyAccessMinutes ? ` for ${earlyAccessMinutes} minutes of early access.` : "."}
+        </div>
+      ) : (
+        <form onSubmit={handleJoin} className="space-y-2">
+          <p className="text-sm font-bold text-cyber-pink tracking-wider">Join the waitlist</p>
+          {earlyAccessMinutes && (
+            <p className="text-xs text-gray-400">
+              Waitlist members can buy for {earlyAccessMinutes} minutes before everyone else.
+            </p>
+          )}
+          <Button type="submit" disabled={submitting} className="cyber-button w-full">
+            {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : "Notify me"}
+          </Button>
+          {error && (
+            <p className="text-xs text-red-400" role="alert">
+              {error}
+            </p>
+          )}
+        </form>
+      )}
+    </div>
+  )
+}
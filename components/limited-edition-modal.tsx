@@ -7,13 +7,17 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import CardPreviewWithCase from "./CardPreviewWithCaseLazy"
 import { ShippingAddressForm, type ShippingAddress } from "./shipping-address-form"
+import { DropLaunchPanel } from "./drop-launch-panel"
 import { Minus, Plus, ShoppingCart, Star, Zap, Shield, AlertCircle, Loader2, Eye, EyeOff, X, ShoppingBag } from "lucide-react"
 import { csrfFetch } from "@/lib/csrf-client"
 import { useCart } from "@/lib/cart-context"
+import { PromoCodeField, type AppliedPromoCode, type PromoItem } from "./promo-code-field"
+import { priceCart, type CartLine, type PriceTier } from "@/lib/pricing"
 
 interface LimitedEditionModalProps {
   isOpen: boolean
   onClose?: () => void
+  dropId?: string  // Defaults to the original drop on the server
 }
 
 // Quantity state management types
@@ -33,8 +37,10 @@ interface PricingTier {
 
 interface InventoryData {
   inventory: number
+  soldOutAt: string | null
   pricePerUnit: number
   pricingTiers: PricingTier[]
+  discountTiers: PriceTier[]
   displayCases: {
     inventory: number
     pricePerUnit: number
@@ -51,6 +57,14 @@ interface InventoryData {
     description: string
     images: string[]
   }
+  drop: {
+    id: string
+    status: 'upcoming' | 'early_access' | 'live' | 'sold_out' | 'ended'
+    startsAt: string | null
+    endsAt: string | null
+    earlyAccessEndsAt: string | null
+    perCustomerLimit: number | null
+  }
   lastUpdated: string
 }
 
@@ -356,7 +370,9 @@ function LimitedEditionCardPreview() {
   )
 }
 
-export function LimitedEditionModal({ isOpen, onClose }: LimitedEditionModalProps) {
+export function LimitedEditionModal({ isOpen, onClose, dropId }: LimitedEditionModalProps) {
+  const inventoryUrl = dropId ? `/api/inventory?dropId=${encodeURIComponent(dropId)}` : '/api/inventory'
+
   // State for smooth closing animation
   const [isClosing, setIsClosing] = useState(false)
   const [isVisible, setIsVisible] = useState(false)
@@ -447,6 +463,7 @@ export function LimitedEditionModal({ isOpen, onClose }: LimitedEditionModalProp
   
   // Display case state management
   const [includeDisplayCase, setIncludeDisplayCase] = useState(false)
+  const [promo, setPromo] = useState<AppliedPromoCode | null>(null)
   const [displayCaseQuantity, setDisplayCaseQuantity] = useState(1)
   
   // Multi-step form state
@@ -587,7 +604,7 @@ export function LimitedEditionModal({ isOpen, onClose }: LimitedEditionModalProp
         setInventoryState(prev => ({ ...prev, loading: true, error: null }))
       }
 
-      const response = await fetch('/api/inventory', {
+      const response = await fetch(inventoryUrl, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
@@ -708,32 +725,37 @@ export function LimitedEditionModal({ isOpen, onClose }: LimitedEditionModalProp
       }
     }
 
-    // Find the best pricing tier for current quantity
-    const applicableTiers = inventoryState.data.pricingTiers.filter(
-      tier => quantityState.value >= tier.quantity
-    )
-    
-    const bestTier = applicableTiers.length > 0 
-      ? applicableTiers[applicableTiers.length - 1] // Get the highest quantity tier applicable
-      : inventoryState.data.pricingTiers[0] // Fallback to base price
-
-    const pricePerUnit = bestTier.pricePerUnit
-    const cardsTotalPrice = pricePerUnit * quantityState.value
-    const originalPrice = inventoryState.data.pricePerUnit * quantityState.value
-    const savings = originalPrice - cardsTotalPrice
-
-    // Add display case pricing if included
-    const displayCasePrice = inventoryState.data.displayCases?.pricePerUnit || 19.00
-    const displayCaseTotalPrice = includeDisplayCase ? (displayCasePrice * displayCaseQuantity) : 0
-    const totalPrice = cardsTotalPrice + displayCaseTotalPrice
+    // Same engine and inputs checkout prices with (lib/pricing)
+    const cardLine: CartLine = {
+      kind: 'limited-edition',
+      quantity: quantityState.value,
+      baseUnitCents: Math.round(inventoryState.data.pricePerUnit * 100),
+      tiers: inventoryState.data.discountTiers,
+      surchargeCents: 0,
+    }
+    const displayCaseLine: CartLine = {
+      kind: 'display-case',
+      quantity: includeDisplayCase ? displayCaseQuantity : 0,
+      baseUnitCents: Math.round((inventoryState.data.displayCases?.pricePerUnit || 19.00) * 100),
+      tiers: [],
+      surchargeCents: 0,
+    }
+    const breakdown = priceCart([cardLine, displayCaseLine])
+    const [cards, displayCases] = breakdown.lines
 
     return {
-      pricePerUnit,
-      totalPrice,
-      cardsTotalPrice,
-      displayCaseTotalPrice,
-      discount: bestTier.discount,
-      savings,
+      pricePerUnit: cards.unitCents / 100,
+      totalPrice: breakdown.totalCents / 100,
+      cardsTotalPrice: cards.subtotalCents / 100,
+      displayCaseTotalPrice: (displayCases?.subtotalCents ?? 0) / 100,
+      discount: cards.discountPercent,
+      savings: breakdown.savingsCents / 100,
+      pricing: {
+        baseUnitCents: cardLine.baseUnitCents,
+        tiers: cardLine.tiers,
+        surchargeCents: 0,
+        displayCaseCents: displayCaseLine.baseUnitCents,
+      },
     }
   }
 
@@ -741,7 +763,16 @@ export function LimitedEditionModal({ isOpen, onClose }: LimitedEditionModalProp
   const maxQuantity = inventoryState.data 
     ? Math.min(QUANTITY_CONFIG.MAX, inventoryState.data.inventory)
     : QUANTITY_CONFIG.MAX
-  const isSoldOut = inventoryState.data ? inventoryState.data.inventory <= 0 : false
+  const isSoldOut = inventoryState.data
+    ? !!inventoryState.data.soldOutAt || inventoryState.data.inventory <= 0
+    : false
+  // Scheduled drops show a countdown and waitlist signup until they open
+  const upcomingDrop = inventoryState.data?.drop?.status === 'upcoming' && inventoryState.data.drop.startsAt
+    ? inventoryState.data.drop
+    : null
+  const earlyAccessEndsAt = inventoryState.data?.drop?.status === 'early_access'
+    ? inventoryState.data.drop.earlyAccessEndsAt
+    : null
 
   // Initialize and validate quantity state
   // const initializeQuantityState = (initialValue: number = QUANTITY_CONFIG.DEFAULT): QuantityState => {
@@ -803,7 +834,13 @@ export function LimitedEditionModal({ isOpen, onClose }: LimitedEditionModalProp
   // Derived state for UI controls
   const isIncrementDisabled = quantityState.value >= maxQuantity || isSoldOut
   const isDecrementDisabled = quantityState.value <= QUANTITY_CONFIG.MIN
-  const totalPrice = currentPricing.totalPrice.toFixed(2)
+  const promoItems: PromoItem[] = [
+    { productId: 'limited-edition-card', quantity: quantityState.value, ...(inventoryState.data && { dropId: inventoryState.data.product.id }) },
+    ...(includeDisplayCase && displayCaseQuantity > 0
+      ? [{ productId: 'display-case' as const, quantity: displayCaseQuantity }]
+      : []),
+  ]
+  const totalPrice = (currentPricing.totalPrice - (promo?.discount ?? 0)).toFixed(2)
 
   // Focus management for accessibility
   useEffect(() => {
@@ -936,13 +973,15 @@ export function LimitedEditionModal({ isOpen, onClose }: LimitedEditionModalProp
     
     addItem({
       type: 'limited-edition',
-      name: 'Limited Edition "KOL Legend Series"',
-      image: '/Panther_v7_Pinkhair_FLAT.jpg',
+      dropId: inventoryState.data.product.id,
+      name: inventoryState.data.product.name,
+      image: inventoryState.data.product.images[0] || '/Panther_v7_Pinkhair_FLAT.jpg',
       quantity: quantityState.value,
       pricePerUnit: pricing.pricePerUnit,
       includeDisplayCase: includeDisplayCase,
       displayCaseQuantity: displayCaseQuantity,
-      displayCasePricePerUnit: inventoryState.data.displayCases?.pricePerUnit || 19.00
+      displayCasePricePerUnit: inventoryState.data.displayCases?.pricePerUnit || 19.00,
+      pricing: pricing.pricing
     })
     
     // Show confirmation message
@@ -984,7 +1023,7 @@ export function LimitedEditionModal({ isOpen, onClose }: LimitedEditionModalProp
         currentInventoryState: inventoryState.data?.inventory
       })
       
-      const inventoryResponse = await fetch('/api/inventory', {
+      const inventoryResponse = await fetch(inventoryUrl, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
@@ -1053,9 +1092,11 @@ export function LimitedEditionModal({ isOpen, onClose }: LimitedEditionModalProp
         method: 'POST',
         body: JSON.stringify({ 
           quantity: quantityState.value,
+          dropId: inventoryState.data?.product.id ?? dropId,
           includeDisplayCase,
           displayCaseQuantity,
-          shippingAddress: address
+          shippingAddress: address,
+          ...(promo && { promotionCode: promo.code })
         }),
       })
 
@@ -1068,7 +1109,7 @@ export function LimitedEditionModal({ isOpen, onClose }: LimitedEditionModalProp
           errorCode: errorData.code,
           errorMessage: errorData.error,
           errorDetails: errorData.details || null,
-          availableInventory: errorData.availableInventory || null
+          availableInventory: errorData.details?.availableInventory || null
         })
         
         // Enhanced error handling based on specific error codes
@@ -1077,27 +1118,46 @@ export function LimitedEditionModal({ isOpen, onClose }: LimitedEditionModalProp
         switch (errorData.code) {
           case 'INSUFFICIENT_INVENTORY':
             // Update inventory state with server response
-            if (typeof errorData.availableInventory === 'number') {
+            if (typeof errorData.details?.availableInventory === 'number') {
               setInventoryState(prev => ({
                 ...prev,
-                data: prev.data ? { ...prev.data, inventory: errorData.availableInventory } : null
+                data: prev.data ? { ...prev.data, inventory: errorData.details?.availableInventory } : null
               }))
               
               // Adjust quantity if some inventory is still available
-              if (errorData.availableInventory > 0) {
-                const newQuantityState = validateQuantity(errorData.availableInventory)
+              if (errorData.details?.availableInventory > 0) {
+                const newQuantityState = validateQuantity(errorData.details?.availableInventory)
                 setQuantityState(newQuantityState)
                 saveQuantityToStorage(newQuantityState.value)
                 console.log('🔄 Auto-adjusted quantity due to insufficient inventory:', {
                   from: quantityState.value,
                   to: newQuantityState.value,
-                  availableInventory: errorData.availableInventory
+                  availableInventory: errorData.details?.availableInventory
                 })
               }
             }
             userMessage = errorData.error || 'Insufficient inventory available'
             break
             
+          case 'PURCHASE_LIMIT_EXCEEDED':
+          case 'EARLY_ACCESS_ONLY':
+          case 'SIGN_IN_REQUIRED':
+          case 'DROP_NOT_STARTED':
+          case 'DROP_ENDED':
+          case 'DROP_NOT_FOUND':
+            userMessage = errorData.error
+            break
+            
+          case 'PROMO_NOT_FOUND':
+          case 'PROMO_NOT_STARTED':
+          case 'PROMO_EXPIRED':
+          case 'PROMO_EXHAUSTED':
+          case 'PROMO_CUSTOMER_LIMIT':
+          case 'PROMO_NOT_APPLICABLE':
+            // The code stopped applying after it was entered
+            userMessage = errorData.error
+            break
+            
           case 'CSRF_INVALID':
             userMessage = 'Security validation failed. Please refresh the page and try again.'
             console.error('🔒 CSRF validation failed - possible security issue or expired session')
@@ -1397,6 +1457,23 @@ export function LimitedEditionModal({ isOpen, onClose }: LimitedEditionModalProp
                   {/* Right Side - Order Controls */}
                   <div className="flex justify-center lg:items-center order-2 lg:order-2">
                     <div className="w-full max-w-sm space-y-3 sm:space-y-4 lg:space-y-5">
+                      {upcomingDrop && (
+                        <DropLaunchPanel
+                          dropId={upcomingDrop.id}
+                          startsAt={upcomingDrop.startsAt!}
+                          earlyAccessEndsAt={upcomingDrop.earlyAccessEndsAt}
+                          onLaunch={() => fetchInventoryData(true)}
+                        />
+                      )}
+
+                      {earlyAccessEndsAt && !isSoldOut && (
+                        <p className="text-xs text-center text-cyber-pink bg-cyber-dark/40 rounded-lg p-2">
+                          Early access for waitlist members until {new Date(earlyAccessEndsAt).toLocaleTimeString()}
+                        </p>
+                      )}
+
+                      {/* Sold out and upcoming drops have nothing to order yet */}
+                      {!isSoldOut && !upcomingDrop && (<>
                       {/* Quantity Selector - Improved mobile sizing */}
                       <div className={`space-y-2 ${isSoldOut ? 'opacity-50' : ''}`}>
                         <Label htmlFor="quantity" className="text-sm sm:text-base font-bold text-cyber-cyan tracking-wider">
@@ -1624,12 +1701,23 @@ export function LimitedEditionModal({ isOpen, onClose }: LimitedEditionModalProp
                           </div>
                         )}
                         
+                        <PromoCodeField items={promoItems} onChange={setPromo} />
+
+                        {promo && promo.discount > 0 && (
+                          <div className="flex justify-between items-center text-sm text-cyber-green">
+                            <span>Promo ({promo.code}):</span>
+                            <span className="font-bold">-${promo.discount.toFixed(2)}</span>
+                          </div>
+                        )}
+                        
                         <div className="flex justify-between items-center text-base sm:text-lg border-t border-cyber-cyan/20 pt-2">
                           <span className="text-white font-bold">Total:</span>
                           <span className="text-cyber-green font-bold text-lg sm:text-xl neon-green">${totalPrice}</span>
                         </div>
                       </div>
 
+                      </>)}
+
                       {/* Bulk Discount Tiers Display */}
                       {inventoryState.data && inventoryState.data.pricingTiers.length > 1 && !isSoldOut && (
                         <div className="text-xs text-gray-400 bg-cyber-dark/40 rounded-lg p-2 space-y-1">
@@ -1644,7 +1732,7 @@ export function LimitedEditionModal({ isOpen, onClose }: LimitedEditionModalProp
                       )}
 
                       {/* Action Buttons */}
-                      {isSoldOut ? (
+                      {upcomingDrop ? null : isSoldOut ? (
                         <Button
                           size="lg"
                           disabled
@@ -1693,7 +1781,9 @@ export function LimitedEditionModal({ isOpen, onClose }: LimitedEditionModalProp
                         </p>
                         <p className="text-xs text-gray-400">
                           {isSoldOut 
-                            ? 'This limited edition series has been completely sold out' 
+                            ? inventoryState.data?.soldOutAt
+                              ? `This limited edition series sold out on ${new Date(inventoryState.data.soldOutAt).toLocaleDateString()}`
+                              : 'This limited edition series has been completely sold out'
                             : 'Premium quality • Holographic effects • Worldwide shipping'
                           }
                         </p>
@@ -15,7 +15,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
-import { canCreateMore, getRemaining, FREE_LIMIT } from "@/lib/guest-quota"
+import { canCreateMore, getRemaining, refreshGuestQuota, FREE_LIMIT } from "@/lib/guest-quota"
 import { AvatarBubble } from "@/components/Avatar"
 
 /** Simple pill to display current credits (no calculations) */
@@ -50,6 +50,7 @@ export function Navigation() {
   // guest free tracking
   useEffect(() => {
     refreshRemainingFree()
+    refreshGuestQuota()
     const onUpdate = () => refreshRemainingFree()
     window.addEventListener("cardify-free-updated", onUpdate)
     window.addEventListener("storage", onUpdate)
@@ -0,0 +1,261 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useToast } from "@/hooks/use-toast"
+import { csrfFetch } from "@/lib/csrf-client"
+import { formatListingPrice, parseListingPrice } from "@/lib/listing-price"
+import { effectiveOfferStatus, offerAwaiting, OFFER_STATUS_LABELS, OfferParty, OfferStatus } from "@/lib/offer-status"
+
+interface OfferSummary {
+  id: string
+  listing_id: string
+  buyer_id: string
+  seller_id: string
+  amount_cents: number
+  proposed_by: OfferParty
+  status: OfferStatus
+  expires_at: string
+  payment_expires_at: string | null
+  updated_at: string
+  mkt_listings: { title: string | null; price_cents: number } | null
+}
+
+type OfferRequest = { type: "accept" | "decline" | "withdraw" } | { type: "counter"; amountCents: number }
+
+const STATUS_STYLES: Record<OfferStatus, string> = {
+  open: "border-cyber-cyan/40 text-cyber-cyan",
+  accepted: "border-cyber-orange/40 text-cyber-orange",
+  completed: "border-cyber-green/40 text-cyber-green",
+  declined: "border-gray-600 text-gray-400",
+  withdrawn: "border-gray-600 text-gray-400",
+  expired: "border-gray-600 text-gray-400",
+  closed: "border-gray-600 text-gray-400",
+}
+
+const ACTION_TOASTS: Record<OfferRequest["type"], string> = {
+  accept: "Offer accepted - the buyer has been asked to pay",
+  decline: "Offer declined",
+  withdraw: "Offer withdrawn",
+  counter: "Counter-offer sent",
+}
+
+/**
+ * Offers on the signed-in user's listings and offers they have made, newest
+ * activity first. RLS limits the rows to offers where they are the buyer or
+ * the seller; an open offer can be answered by whichever side it waits on.
+ */
+export function ProfileOffers({ uid }: { uid: string | null }) {
+  const supabase = createClientComponentClient()
+  const { toast } = useToast()
+  const [offers, setOffers] = useState<OfferSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [countering, setCountering] = useState<{ id: string; value: string } | null>(null)
+
+  const load = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("mkt_offers")
+      .select("id, listing_id, buyer_id, seller_id, amount_cents, proposed_by, status, expires_at, payment_expires_at, updated_at, mkt_listings(title, price_cents)")
+      .order("updated_at", { ascending: false })
+      .limit(50)
+    setError(error ? error.message : null)
+    setOffers((data as OfferSummary[] | null) ?? [])
+  }, [supabase])
+
+  useEffect(() => {
+    if (!uid) {
+      setOffers([])
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    load().then(() => {
+      if (!cancelled) setLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [uid, load])
+
+  const respond = async (offer: OfferSummary, request: OfferRequest) => {
+    setBusyId(offer.id)
+    try {
+      const res = await csrfFetch(`/api/offers/${offer.id}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(request),
+      })
+      const json = await res.json()
+      if (!res.ok || !json?.offer) {
+        toast({ title: "Offer not updated", description: json?.error ?? "Unexpected error", variant: "destructive" })
+        return
+      }
+      toast({ title: ACTION_TOASTS[request.type] })
+      setCountering(null)
+      await load()
+    } catch (e) {
+      toast({ title: "Offer not updated", description: e instanceof Error ? e.message : "Unexpected error", variant: "destructive" })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const submitCounter = (offer: OfferSummary) => {
+    const amountCents = parseListingPrice(countering?.value ?? "")
+    if (amountCents === null) {
+      toast({ title: "Enter a valid amount", variant: "destructive" })
+      return
+    }
+    respond(offer, { type: "counter", amountCents })
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 2 }).map((_, i) => (
+          <Skeleton key={i} className="w-full h-16 rounded border border-cyber-cyan/20" />
+        ))}
+      </div>
+    )
+  }
+
+  if (!uid || offers.length === 0) {
+    return (
+      <Card className="bg-cyber-dark/60 border border-cyber-cyan/30">
+        <CardContent className="p-6 text-center text-gray-400">
+          {!uid
+            ? "Sign in to view your offers."
+            : error
+              ? <span className="text-cyber-orange">Failed to load offers: {error}</span>
+              : "No offers yet."}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const now = Date.now()
+
+  return (
+    <div className="space-y-3">
+      {offers.map(offer => {
+        const role: OfferParty = offer.seller_id === uid ? "seller" : "buyer"
+        const status = effectiveOfferStatus(
+          {
+            status: offer.status,
+            proposedBy: offer.proposed_by,
+            expiresAt: offer.expires_at,
+            paymentExpiresAt: offer.payment_expires_at,
+          },
+          now
+        )
+        const yourTurn = status === "open" && offerAwaiting({ proposedBy: offer.proposed_by }) === role
+        const busy = busyId === offer.id
+        const title = offer.mkt_listings?.title || "Listing"
+
+        return (
+          <Card key={offer.id} className="bg-cyber-dark/60 border border-cyber-cyan/30">
+            <CardContent className="p-4 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <div className="text-white">
+                    {role === "seller" ? "Offer received" : "Offer sent"} • {title}
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    {formatListingPrice(offer.amount_cents)}
+                    {offer.mkt_listings && ` (listed at ${formatListingPrice(offer.mkt_listings.price_cents)})`}
+                    {offer.proposed_by === "seller" && " • counter-offer"}
+                    {status === "open" && ` • expires ${new Date(offer.expires_at).toLocaleString()}`}
+                    {status === "accepted" && offer.payment_expires_at &&
+                      ` • pay by ${new Date(offer.payment_expires_at).toLocaleString()}`}
+                  </div>
+                </div>
+                <Badge variant="outline" className={STATUS_STYLES[status]}>
+                  {OFFER_STATUS_LABELS[status]}
+                </Badge>
+              </div>
+
+              {(yourTurn || (status === "open" && role === "buyer") || (status === "accepted" && role === "buyer")) && (
+                <div className="flex flex-wrap items-center gap-2">
+                  {yourTurn && (
+                    <>
+                      <Button size="sm" className="cyber-button" disabled={busy} onClick={() => respond(offer, { type: "accept" })}>
+                        Accept
+                      </Button>
+                      {role === "seller" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="border-cyber-pink/40 text-cyber-pink"
+                          disabled={busy}
+                          onClick={() => respond(offer, { type: "decline" })}
+                        >
+                          Decline
+                        </Button>
+                      )}
+                      {countering?.id === offer.id ? (
+                        <>
+                          <Input
+                            value={countering.value}
+                            onChange={(e) => setCountering({ id: offer.id, value: e.target.value })}
+                            placeholder="0.00"
+                            inputMode="decimal"
+                            className="w-28 h-8 bg-cyber-dark border-cyber-cyan/40"
+                          />
+                          <Button size="sm" className="cyber-button" disabled={busy} onClick={() => submitCounter(offer)}>
+                            Send counter
+                          </Button>
+                          <Button size="sm" variant="ghost" disabled={busy} onClick={() => setCountering(null)}>
+                            Cancel
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="border-cyber-cyan/40 text-cyber-cyan"
+                          disabled={busy}
+                          onClick={() => setCountering({ id: offer.id, value: (offer.amount_cents / 100).toFixed(2) })}
+                        >
+                          Counter
+                        </Button>
+                      )}
+                    </>
+                  )}
+                  {status === "open" && role === "buyer" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="border-gray-600 text-gray-300"
+                      disabled={busy}
+                      onClick={() => respond(offer, { type: "withdraw" })}
+                    >
+                      Withdraw
+                    </Button>
+                  )}
+                  {status === "accepted" && role === "buyer" && (
+                    <Link href={`/checkout?listingId=${offer.listing_id}`}>
+                      <Button size="sm" className="cyber-button">
+                        Pay {formatListingPrice(offer.amount_cents)}
+                      </Button>
+                    </Link>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
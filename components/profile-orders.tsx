@@ -0,0 +1,114 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { ORDER_STATUS_LABELS, OrderStatus } from "@/lib/order-status"
+
+interface OrderSummary {
+  id: string
+  status: OrderStatus
+  amount_total_cents: number
+  currency: string
+  created_at: string
+  tracking_url: string | null
+}
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  paid: "border-cyber-cyan/40 text-cyber-cyan",
+  in_production: "border-cyber-orange/40 text-cyber-orange",
+  shipped: "border-cyber-pink/40 text-cyber-pink",
+  delivered: "border-cyber-green/40 text-cyber-green",
+  cancelled: "border-gray-600 text-gray-400",
+  refunded: "border-gray-600 text-gray-400",
+}
+
+/**
+ * The signed-in user's orders, newest first. RLS limits the rows to orders
+ * placed with the account's email.
+ */
+export function ProfileOrders({ uid }: { uid: string | null }) {
+  const supabase = createClientComponentClient()
+  const [orders, setOrders] = useState<OrderSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!uid) {
+      setOrders([])
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+    supabase
+      .from("orders")
+      .select("id, status, amount_total_cents, currency, created_at, tracking_url")
+      .order("created_at", { ascending: false })
+      .limit(20)
+      .then(({ data, error }) => {
+        if (cancelled) return
+        setError(error ? error.message : null)
+        setOrders((data as OrderSummary[] | null) ?? [])
+        setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [uid, supabase])
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 2 }).map((_, i) => (
+          <Skeleton key={i} className="w-full h-16 rounded border border-cyber-cyan/20" />
+        ))}
+      </div>
+    )
+  }
+
+  if (!uid || orders.length === 0) {
+    return (
+      <Card className="bg-cyber-dark/60 border border-cyber-cyan/30">
+        <CardContent className="p-6 text-center text-gray-400">
+          {!uid
+            ? "Sign in to view your orders."
+            : error
+              ? <span className="text-cyber-orange">Failed to load orders: {error}</span>
+              : "No orders yet."}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {orders.map(order => (
+        <Card key={order.id} className="bg-cyber-dark/60 border border-cyber-cyan/30">
+          <CardContent className="p-4 flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <div className="text-white font-mono">#{order.id.slice(0, 8).toUpperCase()}</div>
+              <div className="text-xs text-gray-400">
+                {new Date(order.created_at).toLocaleDateString()} • ${(order.amount_total_cents / 100).toFixed(2)}{" "}
+                {order.currency.toUpperCase()}
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <Badge variant="outline" className={STATUS_STYLES[order.status]}>
+                {ORDER_STATUS_LABELS[order.status]}
+              </Badge>
+              <Link href={`/orders/${order.id}`} className="text-sm text-cyber-cyan hover:text-cyber-pink underline">
+                View order
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader2, Tag, X } from "lucide-react"
+import { csrfFetch } from "@/lib/csrf-client"
+
+// A cart entry as /api/promotions/validate and checkout take it
+export interface PromoItem {
+  productId: "limited-edition-card" | "custom-card" | "display-case"
+  dropId?: string
+  quantity: number
+  cardFinish?: string
+}
+
+export interface AppliedPromoCode {
+  code: string
+  description: string
+  discount: number  // Dollars off the items
+  freeShipping: boolean
+}
+
+interface PromoCodeFieldProps {
+  items: PromoItem[]
+  onChange: (promo: AppliedPromoCode | null) => void
+}
+
+/**
+ * Promo code entry for the cart and checkout modals. The discount shown is
+ * priced by the server and re-checked when the items change; checkout applies
+ * the code again, so this is only a preview.
+ */
+export function PromoCodeField({ items, onChange }: PromoCodeFieldProps) {
+  const [code, setCode] = useState("")
+  const [applied, setApplied] = useState<AppliedPromoCode | null>(null)
+  const [checking, setChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const itemsKey = JSON.stringify(items)
+  const itemsRef = useRef(items)
+  itemsRef.current = items
+  const validatedKeyRef = useRef<string | null>(null)
+
+  const validate = async (promoCode: string) => {
+    setChecking(true)
+    setError(null)
+    validatedKeyRef.current = JSON.stringify(itemsRef.current)
+    try {
+      const response = await csrfFetch("/api/promotions/validate", {
+        method: "POST",
+        body: JSON.stringify({ code: promoCode, items: itemsRef.current }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success || !result.promotion) {
+        throw new Error(result.error || "That promo code is not valid")
+      }
+      const promo: AppliedPromoCode = {
+        code: result.promotion.code,
+        description: result.promotion.description,
+        discount: result.discountCents / 100,
+        freeShipping: result.freeShipping,
+      }
+      setApplied(promo)
+      onChange(promo)
+    } catch (err) {
+      setApplied(null)
+      onChange(null)
+      setError(err instanceof Error ? err.message : "That promo code is not valid")
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  // Re-price an applied code when quantities change (debounced for the rate limit)
+  const appliedCode = applied?.code
+  useEffect(() => {
+    if (!appliedCode || items.length === 0 || itemsKey === validatedKeyRef.current) return
+    const timer = setTimeout(() => validate(appliedCode), 800)
+    return () => clearTimeout(timer)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [itemsKey, appliedCode])
+
+  // Not a <form>: the field sits inside the modals' own forms
+  const handleApply = () => {
+    if (code.trim()) validate(code.trim())
+  }
+
+  const handleRemove = () => {
+    setApplied(null)
+    setCode("")
+    setError(null)
+    onChange(null)
+  }
+
+  if (applied) {
+    return (
+      <div className="flex items-center justify-between gap-2 p-2 rounded-lg border border-cyber-green/50 bg-cyber-green/10 text-sm">
+        <div className="flex items-center gap-2 min-w-0">
+          <Tag className="w-4 h-4 text-cyber-green flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="font-bold text-cyber-green">{applied.code}</p>
+            <p className="text-xs text-gray-300 truncate">
+              {applied.description}
+              {applied.discount > 0 && ` (-$${applied.discount.toFixed(2)})`}
+              {applied.freeShipping && " (free shipping)"}
+            </p>
+          </div>
+        </div>
+        {checking ? (
+          <Loader2 className="w-4 h-4 animate-spin text-cyber-green" />
+        ) : (
+          <button
+            type="button"
+            onClick={handleRemove}
+            className="text-gray-400 hover:text-red-400"
+            aria-label="Remove promo code"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor="promo-code" className="text-xs text-cyber-cyan tracking-wider">
+        Promo code
+      </Label>
+      <div className="flex gap-2">
+        <Input
+          id="promo-code"
+          value={code}
+          onChange={e => setCode(e.target.value.toUpperCase())}
+          onKeyDown={e => {
+            if (e.key === "Enter") {
+              e.preventDefault()
+              handleApply()
+            }
+          }}
+          placeholder="Enter code"
+          maxLength={64}
+          className="h-8 bg-cyber-dark/80 border-cyber-cyan/50 text-white uppercase"
+        />
+        <Button
+          type="button"
+          onClick={handleApply}
+          size="sm"
+          disabled={checking || !code.trim() || items.length === 0}
+          className="h-8 cyber-button"
+        >
+          {checking ? <Loader2 className="w-4 h-4 animate-spin" /> : "Apply"}
+        </Button>
+      </div>
+      {error && (
+        <p className="text-xs text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -7,78 +7,12 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue, SelectSeparator } from "@/components/ui/select"
 import { ArrowLeft, ArrowRight, Loader2 } from "lucide-react"
 import { allCountries } from "country-region-data"
+import { SHIPPING_ZONES } from "@/lib/shipping"
 
-// List of countries we ship to (from the checkout session)
-const SHIPPING_COUNTRIES = [
-  // North America
-  { code: 'US', name: 'United States' },
-  { code: 'CA', name: 'Canada' },
-  { code: 'MX', name: 'Mexico' },
-  
-  // Europe
-  { code: 'GB', name: 'United Kingdom' },
-  { code: 'DE', name: 'Germany' },
-  { code: 'FR', name: 'France' },
-  { code: 'IT', name: 'Italy' },
-  { code: 'ES', name: 'Spain' },
-  { code: 'NL', name: 'Netherlands' },
-  { code: 'BE', name: 'Belgium' },
-  { code: 'AT', name: 'Austria' },
-  { code: 'CH', name: 'Switzerland' },
-  { code: 'SE', name: 'Sweden' },
-  { code: 'NO', name: 'Norway' },
-  { code: 'DK', name: 'Denmark' },
-  { code: 'FI', name: 'Finland' },
-  { code: 'IE', name: 'Ireland' },
-  { code: 'PT', name: 'Portugal' },
-  { code: 'PL', name: 'Poland' },
-  { code: 'CZ', name: 'Czech Republic' },
-  { code: 'HU', name: 'Hungary' },
-  { code: 'RO', name: 'Romania' },
-  { code: 'BG', name: 'Bulgaria' },
-  { code: 'HR', name: 'Croatia' },
-  { code: 'SI', name: 'Slovenia' },
-  { code: 'SK', name: 'Slovakia' },
-  { code: 'LT', name: 'Lithuania' },
-  { code: 'LV', name: 'Latvia' },
-  { code: 'EE', name: 'Estonia' },
-  { code: 'GR', name: 'Greece' },
-  { code: 'CY', name: 'Cyprus' },
-  { code: 'MT', name: 'Malta' },
-  { code: 'LU', name: 'Luxembourg' },
-  
-  // Asia-Pacific
-  { code: 'AU', name: 'Australia' },
-  { code: 'NZ', name: 'New Zealand' },
-  { code: 'JP', name: 'Japan' },
-  { code: 'SG', name: 'Singapore' },
-  { code: 'HK', name: 'Hong Kong' },
-  { code: 'KR', name: 'South Korea' },
-  { code: 'TW', name: 'Taiwan' },
-  { code: 'MY', name: 'Malaysia' },
-  { code: 'TH', name: 'Thailand' },
-  { code: 'PH', name: 'Philippines' },
-  { code: 'ID', name: 'Indonesia' },
-  { code: 'VN', name: 'Vietnam' },
-  { code: 'IN', name: 'India' },
-  
-  // Middle East & Africa
-  { code: 'AE', name: 'United Arab Emirates' },
-  { code: 'SA', name: 'Saudi Arabia' },
-  { code: 'IL', name: 'Israel' },
-  { code: 'TR', name: 'Turkey' },
-  { code: 'ZA', name: 'South Africa' },
-  
-  // Americas (South & Central)
-  { code: 'BR', name: 'Brazil' },
-  { code: 'AR', name: 'Argentina' },
-  { code: 'CL', name: 'Chile' },
-  { code: 'PE', name: 'Peru' },
-  { code: 'CO', name: 'Colombia' },
-].sort((a, b) => a.name.localeCompare(b.name))
-
-// Extract country codes for the whitelist
-// const COUNTRY_WHITELIST = SHIPPING_COUNTRIES.map(country => country.code)
+// Countries we ship to, from the shipping zones checkout prices against
+const SHIPPING_COUNTRIES = SHIPPING_ZONES
+  .flatMap(zone => zone.countries)
+  .sort((a, b) => a.name.localeCompare(b.name))
 
 export interface ShippingAddress {
   email: string
@@ -0,0 +1,119 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, Truck } from "lucide-react"
+import { csrfFetch } from "@/lib/csrf-client"
+import { SHIPPING_ZONES, type ShippingQuote } from "@/lib/shipping"
+import type { PromoItem } from "./promo-code-field"
+
+const COUNTRIES = SHIPPING_ZONES
+  .flatMap(zone => zone.countries)
+  .sort((a, b) => a.name.localeCompare(b.name))
+
+interface ShippingEstimateProps {
+  items: PromoItem[]
+  freeShipping?: boolean  // A free shipping promo code is applied
+}
+
+/**
+ * Shipping options for the cart from /api/shipping/quote. The customer picks
+ * one of these again at checkout; this is only a preview.
+ */
+export function ShippingEstimate({ items, freeShipping = false }: ShippingEstimateProps) {
+  const [country, setCountry] = useState("US")
+  const [options, setOptions] = useState<ShippingQuote[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const itemsKey = JSON.stringify(items)
+
+  // Debounced so quantity steppers don't fire a request per click
+  useEffect(() => {
+    if (items.length === 0) return
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await csrfFetch("/api/shipping/quote", {
+          method: "POST",
+          body: JSON.stringify({ country, items }),
+        })
+        const result = await response.json()
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Unable to estimate shipping")
+        }
+        if (!cancelled) setOptions(result.options)
+      } catch (err) {
+        if (!cancelled) {
+          setOptions([])
+          setError(err instanceof Error ? err.message : "Unable to estimate shipping")
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }, 500)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [itemsKey, country])
+
+  const standard = options.find(option => option.level === "standard")
+  const freeOverCents = standard && !standard.free && !freeShipping ? standard.freeOverCents : null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-xs text-cyber-cyan tracking-wider flex items-center gap-1">
+          <Truck className="w-3 h-3" />
+          Shipping to
+        </Label>
+        <Select value={country} onValueChange={setCountry}>
+          <SelectTrigger className="h-8 w-44 bg-cyber-dark/80 border-cyber-cyan/50 text-white text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-cyber-dark border-cyber-cyan/50 max-h-64">
+            {COUNTRIES.map(c => (
+              <SelectItem key={c.code} value={c.code} className="text-white text-xs">
+                {c.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading && options.length === 0 ? (
+        <div className="flex justify-center py-1">
+          <Loader2 className="w-4 h-4 animate-spin text-cyber-cyan" />
+        </div>
+      ) : error ? (
+        <p className="text-xs text-red-400" role="alert">{error}</p>
+      ) : (
+        <ul className="space-y-1 text-xs">
+          {options.map(option => {
+            const free = option.free || (freeShipping && option.level === "standard")
+            return (
+              <li key={option.level} className="flex justify-between text-gray-300">
+                <span>
+                  {free ? "Free Standard Shipping" : option.displayName}
+                  <span className="text-gray-500"> ({option.minBusinessDays}-{option.maxBusinessDays} business days)</span>
+                </span>
+                <span className={free ? "text-cyber-green" : "text-white"}>
+                  {free ? "FREE" : `$${(option.amountCents / 100).toFixed(2)}`}
+                </span>
+              </li>
+            )
+          })}
+          {freeOverCents !== null && (
+            <li className="text-cyber-cyan">
+              Free standard shipping on orders over ${(freeOverCents / 100).toFixed(0)}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+// hooks/use-credit-history.ts
+"use client"
+import { useCallback, useEffect, useState } from "react"
+import { getSupabaseBrowserClient } from "@/lib/supabase-browser"
+import type { LedgerHistoryEntry, LedgerReason } from "@/lib/credits-ledger"
+
+export type CreditHistoryFilters = {
+  types: LedgerReason[]   // empty = all
+  from?: string           // yyyy-mm-dd, inclusive
+  to?: string             // yyyy-mm-dd, inclusive
+}
+
+/** Query string for /api/credits/history from the page filters */
+export function creditHistoryQuery(filters: CreditHistoryFilters, extra: Record<string, string> = {}) {
+  const params = new URLSearchParams(extra)
+  if (filters.types.length) params.set("type", filters.types.join(","))
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString())
+  if (filters.to) {
+    // make the end date inclusive
+    const end = new Date(`${filters.to}T00:00:00`)
+    end.setDate(end.getDate() + 1)
+    params.set("to", end.toISOString())
+  }
+  return params.toString()
+}
+
+export function useCreditHistory(filters: CreditHistoryFilters) {
+  const [entries, setEntries] = useState<LedgerHistoryEntry[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const sb = getSupabaseBrowserClient()
+
+  // a string, so callers can pass a fresh filters object each render
+  const query = creditHistoryQuery(filters)
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    const params = new URLSearchParams(query)
+    if (cursor) params.set("cursor", cursor)
+    const res = await fetch(`/api/credits/history?${params}`, { credentials: "same-origin" })
+    const json = await res.json()
+    if (!res.ok) throw new Error(json?.error ?? "Failed to load credit history")
+    return json as { entries: LedgerHistoryEntry[]; nextCursor: string | null }
+  }, [query])
+
+  // first page; also used to pick up new entries
+  const reload = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const { data: { user } } = await sb.auth.getUser()
+      if (!user) { setEntries([]); setNextCursor(null); return }
+      const page = await fetchPage(null)
+      setEntries(page.entries)
+      setNextCursor(page.nextCursor)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setLoading(false)
+    }
+  }, [sb, fetchPage])
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return
+    setLoading(true)
+    try {
+      const page = await fetchPage(nextCursor)
+      setEntries(prev => [...prev, ...page.entries])
+      setNextCursor(page.nextCursor)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+    } finally {
+      setLoading(false)
+    }
+  }, [fetchPage, nextCursor])
+
+  useEffect(() => {
+    reload()
+    const sub = sb.auth.onAuthStateChange(() => reload())
+    return () => sub.data.subscription.unsubscribe()
+  }, [reload, sb])
+
+  // realtime on this user's ledger rows (same pattern as useCredits)
+  useEffect(() => {
+    let ch: ReturnType<typeof sb.channel> | null = null
+    ;(async () => {
+      const { data: { user } } = await sb.auth.getUser()
+      if (!user) return
+      ch = sb.channel(`credits-ledger-${user.id}`)
+        .on("postgres_changes",
+          { event: "INSERT", schema: "public", table: "credits_ledger", filter: `user_id=eq.${user.id}` },
+          reload
+        ).subscribe()
+    })()
+    return () => { if (ch) sb.removeChannel(ch) }
+  }, [sb, reload])
+
+  return { entries, loading, error, hasMore: !!nextCursor, loadMore, reload }
+}
@@ -0,0 +1,53 @@
+/**
+ * Tests for clawing back purchased credits across refunds and disputes
+ */
+
+import { clawbackPurchaseCredits, disputedCents, LedgerKeys } from '../credits-ledger'
+
+// A 1000 cent purchase of 100 credits, clawed back the way credits_clawback() does
+const purchase = { amountCents: 1000, credits: 100 }
+let reversed = 0
+
+const rpc = vi.fn((_name: string, args: { p_refunded_cents: number }) => {
+  const target = Math.min(purchase.credits, Math.round(purchase.credits * args.p_refunded_cents / purchase.amountCents))
+  const delta = target - reversed
+  reversed = target
+  const row = { user_id: 'user-1', credits: -delta, entry_id: `entry-${rpc.mock.calls.length}`, balance: 100 - reversed, applied: delta > 0 }
+  return { maybeSingle: () => Promise.resolve({ data: row, error: null }) }
+})
+
+vi.mock('../supabase-admin', () => ({
+  supabaseAdmin: {
+    rpc: (...args: unknown[]) => rpc(...(args as Parameters<typeof rpc>)),
+  },
+}))
+
+beforeEach(() => {
+  reversed = 0
+  rpc.mockClear()
+})
+
+describe('disputedCents', () => {
+  it('should add the disputed amount to what was already refunded', () => {
+    expect(disputedCents({ amount: 1000, amount_refunded: 400 }, 600)).toBe(1000)
+    expect(disputedCents({ amount: 1000, amount_refunded: 0 }, 300)).toBe(300)
+  })
+
+  it('should never exceed the charge amount', () => {
+    expect(disputedCents({ amount: 1000, amount_refunded: 400 }, 1000)).toBe(1000)
+  })
+})
+
+describe('clawbackPurchaseCredits', () => {
+  it('should claw back every credit when the rest of a partly refunded charge is disputed', async () => {
+    const charge = { amount: 1000, amount_refunded: 400 }
+
+    const refund = await clawbackPurchaseCredits({ paymentIntent: 'pi_1', refundedCents: 400, idempotencyKey: LedgerKeys.refund('re_1') })
+    const dispute = await clawbackPurchaseCredits({ paymentIntent: 'pi_1', refundedCents: disputedCents(charge, 600), idempotencyKey: LedgerKeys.dispute('dp_1') })
+
+    expect(refund?.credits).toBe(-40)
+    expect(dispute?.credits).toBe(-60)
+    expect(dispute?.balance).toBe(0)
+    expect(rpc).toHaveBeenLastCalledWith('credits_clawback', expect.objectContaining({ p_refunded_cents: 1000 }))
+  })
+})
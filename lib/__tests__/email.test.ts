@@ -0,0 +1,277 @@
+/**
+ * Tests for sending email: MIME formatting, the consent and idempotency
+ * rules in sendEmail, the typed templates, and the SMTP client against a
+ * local fake server
+ */
+
+import net from 'net'
+import { formatMime, sendEmail } from '../email'
+import { renderEmail } from '../email-templates'
+import { dotStuff, sendSmtp } from '../smtp'
+
+const deliveries = vi.hoisted(() => ({
+  insertError: null as null | { code: string; message: string },
+  retried: [] as { id: string }[],
+  rows: [] as Record<string, unknown>[],
+}))
+
+vi.mock('../supabase-admin', () => {
+  const chain = (result: unknown) => {
+    const query: Record<string, unknown> = {}
+    for (const method of ['eq', 'select']) query[method] = () => query
+    query.then = (resolve: (value: unknown) => void) => resolve(result)
+    return query
+  }
+  return {
+    supabaseAdmin: {
+      from: () => ({
+        insert: (row: Record<string, unknown>) => {
+          deliveries.rows.push(row)
+          return Promise.resolve({ error: deliveries.insertError })
+        },
+        update: () => chain({ data: deliveries.retried, error: null }),
+      }),
+    },
+  }
+})
+
+function decodeParts(mime: string): string {
+  return mime
+    .split('\r\n\r\n')
+    .slice(1)
+    .map(part => Buffer.from(part.split('\r\n--')[0].replace(/\r\n/g, ''), 'base64').toString('utf8'))
+    .join('\n')
+}
+
+describe('email', () => {
+  beforeEach(() => {
+    process.env.EMAIL_PROVIDER = 'console'
+    deliveries.insertError = null
+    deliveries.retried = []
+    deliveries.rows = []
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('formatMime', () => {
+    it('should write a plain text message with encoded headers', () => {
+      const mime = formatMime({ to: 'buyer@example.com', subject: 'Café order', text: 'Hello ✨' }, 'abc@cardify.club')
+      expect(mime).toContain('To: buyer@example.com')
+      expect(mime).toContain(`Subject: =?UTF-8?B?${Buffer.from('Café order').toString('base64')}?=`)
+      expect(mime).toContain('Message-ID: <abc@cardify.club>')
+      expect(mime).toContain('Content-Type: text/plain; charset=utf-8')
+      expect(decodeParts(mime)).toBe('Hello ✨')
+    })
+
+    it('should write multipart/alternative when there is HTML', () => {
+      const mime = formatMime({ to: 'a@example.com', subject: 'Hi', text: 'text', html: '<p>html</p>' }, 'id@cardify.club')
+      expect(mime).toMatch(/Content-Type: multipart\/alternative; boundary="cardify-[0-9a-f]+"/)
+      expect(mime).toContain('Content-Type: text/html; charset=utf-8')
+    })
+  })
+
+  describe('sendEmail', () => {
+    it('should send and record transactional mail', async () => {
+      const result = await sendEmail({ to: 'a@example.com', subject: 'Hi', text: 'Hello' }, { idempotencyKey: 'k1' })
+      expect(result.status).toBe('sent')
+      expect(deliveries.rows[0]).toMatchObject({ idempotency_key: 'k1', recipient: 'a@example.com', provider: 'console' })
+    })
+
+    it('should skip marketing mail without consent', async () => {
+      const message = { to: 'a@example.com', subject: 'Drops', text: 'News', category: 'marketing' as const }
+      expect(await sendEmail(message)).toEqual({ status: 'skipped', reason: 'no_consent' })
+      expect(await sendEmail(message, { marketingConsent: false })).toEqual({ status: 'skipped', reason: 'no_consent' })
+      expect(deliveries.rows).toHaveLength(0)
+      expect((await sendEmail(message, { marketingConsent: true })).status).toBe('sent')
+    })
+
+    it('should skip a repeated idempotency key', async () => {
+      deliveries.insertError = { code: '23505', message: 'duplicate key' }
+      const result = await sendEmail({ to: 'a@example.com', subject: 'Hi', text: 'Hello' }, { idempotencyKey: 'k1' })
+      expect(result).toEqual({ status: 'skipped', reason: 'duplicate' })
+    })
+
+    it('should send again when the earlier attempt failed', async () => {
+      deliveries.insertError = { code: '23505', message: 'duplicate key' }
+      deliveries.retried = [{ id: 'row-1' }]
+      const result = await sendEmail({ to: 'a@example.com', subject: 'Hi', text: 'Hello' }, { idempotencyKey: 'k1' })
+      expect(result.status).toBe('sent')
+    })
+
+    it('should reject unknown providers', async () => {
+      process.env.EMAIL_PROVIDER = 'pigeon'
+      await expect(sendEmail({ to: 'a@example.com', subject: 'Hi', text: 'Hello' })).rejects.toThrow('Unknown EMAIL_PROVIDER')
+    })
+  })
+
+  describe('templates', () => {
+    it('should render a refund with the amount and order link', () => {
+      const email = renderEmail('refund-issued', {
+        customerName: 'Ada Buyer',
+        amountCents: 1250,
+        currency: 'usd',
+        fullRefund: false,
+        orderId: '3f6c1a2e-8b9d-4c1e-9f3a-1b2c3d4e5f60',
+      })
+      expect(email.category).toBe('transactional')
+      expect(email.subject).toBe('Refund issued for Cardify order 3F6C1A2E')
+      expect(email.text).toContain('Hi Ada,')
+      expect(email.text).toContain('We have refunded $12.50 USD of your payment.')
+      expect(email.text).toContain('/orders/3f6c1a2e-8b9d-4c1e-9f3a-1b2c3d4e5f60')
+    })
+
+    it('should escape user content in HTML', () => {
+      const email = renderEmail('marketplace-item-sold', {
+        sellerName: null,
+        listingTitle: '<script>alert(1)</script>',
+        amountCents: 900,
+        netCents: 810,
+        currency: 'usd',
+      })
+      expect(email.html).not.toContain('<script>')
+      expect(email.html).toContain('&lt;script&gt;')
+      expect(email.text).toContain('Hi there,')
+    })
+
+    it('should mark the drops welcome as marketing', () => {
+      expect(renderEmail('drop-updates-welcome', { customerName: null }).category).toBe('marketing')
+    })
+  })
+
+  describe('smtp', () => {
+    it('should dot-stuff lines starting with a dot', () => {
+      expect(dotStuff('a\n.b\n..c')).toBe('a\r\n..b\r\n...c')
+    })
+
+    it('should deliver a message to an SMTP server', async () => {
+      const commands: string[] = []
+      let data = ''
+      const server = net.createServer(socket => {
+        let inData = false
+        let buffer = ''
+        socket.write('220 fake ESMTP\r\n')
+        socket.on('data', chunk => {
+          buffer += chunk.toString()
+          let index: number
+          while ((index = buffer.indexOf('\r\n')) >= 0) {
+            const line = buffer.slice(0, index)
+            buffer = buffer.slice(index + 2)
+            if (inData) {
+              if (line === '.') {
+                inData = false
+                socket.write('250 queued\r\n')
+              } else {
+                data += `${line}\n`
+              }
+              continue
+            }
+            commands.push(line)
+            if (line.startsWith('EHLO')) socket.write('250-fake\r\n250 AUTH PLAIN\r\n')
+            else if (line === 'DATA') {
+              inData = true
+              socket.write('354 go ahead\r\n')
+            } else if (line.startsWith('AUTH')) socket.write('235 ok\r\n')
+            else if (line === 'QUIT') socket.end('221 bye\r\n')
+            else socket.write('250 ok\r\n')
+          }
+        })
+      })
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+      const { port } = server.address() as net.AddressInfo
+
+      try {
+        await sendSmtp(
+          { host: '127.0.0.1', port, secure: false, user: 'user', pass: 'pass', allowInsecureAuth: true, timeoutMs: 5000 },
+          { from: 'orders@cardify.club', to: ['buyer@example.com'] },
+          'Subject: Hi\r\n\r\n.hidden line\r\nbody'
+        )
+      } finally {
+        server.close()
+      }
+
+      expect(commands).toEqual([
+        'EHLO cardify.club',
+        `AUTH PLAIN ${Buffer.from('\0user\0pass').toString('base64')}`,
+        'MAIL FROM:<orders@cardify.club>',
+        'RCPT TO:<buyer@example.com>',
+        'DATA',
+      ])
+      expect(data).toBe('Subject: Hi\n\n..hidden line\nbody\n')
+    })
+
+    it('should not send credentials when the server offers no STARTTLS', async () => {
+      const commands: string[] = []
+      const server = net.createServer(socket => {
+        socket.write('220 fake\r\n')
+        socket.on('data', chunk => {
+          const line = chunk.toString().trim()
+          commands.push(line)
+          socket.write(line.startsWith('EHLO') ? '250-fake\r\n250 AUTH PLAIN\r\n' : '250 ok\r\n')
+        })
+      })
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+      const { port } = server.address() as net.AddressInfo
+
+      try {
+        await expect(sendSmtp(
+          { host: '127.0.0.1', port, secure: false, user: 'user', pass: 'pass', timeoutMs: 5000 },
+          { from: 'orders@cardify.club', to: ['buyer@example.com'] },
+          'Subject: Hi\r\n\r\nbody'
+        )).rejects.toMatchObject({ name: 'SmtpError', code: 530, retryable: false })
+      } finally {
+        server.close()
+      }
+
+      expect(commands.some(line => line.startsWith('AUTH'))).toBe(false)
+    })
+
+    it('should time out a stalled TLS handshake', async () => {
+      // Accepts STARTTLS, then never speaks TLS
+      const server = net.createServer(socket => {
+        socket.write('220 fake\r\n')
+        socket.on('data', chunk => {
+          const line = chunk.toString().trim()
+          if (line.startsWith('EHLO')) socket.write('250-fake\r\n250 STARTTLS\r\n')
+          else if (line === 'STARTTLS') socket.write('220 go ahead\r\n')
+        })
+      })
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+      const { port } = server.address() as net.AddressInfo
+
+      try {
+        await expect(sendSmtp(
+          { host: '127.0.0.1', port, secure: false, timeoutMs: 200 },
+          { from: 'orders@cardify.club', to: ['buyer@example.com'] },
+          'Subject: Hi\r\n\r\nbody'
+        )).rejects.toMatchObject({ name: 'SmtpError', message: 'SMTP connection timed out' })
+      } finally {
+        server.close()
+      }
+    })
+
+    it('should fail on a rejected recipient', async () => {
+      const server = net.createServer(socket => {
+        socket.write('220 fake\r\n')
+        socket.on('data', chunk => {
+          const line = chunk.toString()
+          socket.write(line.startsWith('RCPT') ? '550 no such user\r\n' : '250 ok\r\n')
+        })
+      })
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+      const { port } = server.address() as net.AddressInfo
+
+      try {
+        await expect(sendSmtp(
+          { host: '127.0.0.1', port, secure: false, timeoutMs: 5000 },
+          { from: 'orders@cardify.club', to: ['nobody@example.com'] },
+          'Subject: Hi\r\n\r\nbody'
+        )).rejects.toMatchObject({ name: 'SmtpError', code: 550, retryable: false })
+      } finally {
+        server.close()
+      }
+    })
+  })
+})
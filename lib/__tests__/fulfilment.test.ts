@@ -0,0 +1,153 @@
+/**
+ * Tests for the pure parts of fulfilment: reading orders from checkout
+ * metadata, the Easyship shipment built for them, and the retry backoff
+ */
+
+import { buildShipmentRequest, describeItems, orderItemsFromMetadata, retryDelaySeconds } from '../fulfilment'
+import { NewOrder } from '../orders'
+
+vi.mock('../supabase-admin', () => ({ supabaseAdmin: {} }))
+
+const ORDER: NewOrder = {
+  checkoutSessionId: 'cs_test_123',
+  paymentIntentId: 'pi_test_123',
+  customerEmail: 'buyer@example.com',
+  customerName: 'Ada Buyer',
+  customerPhone: null,
+  shippingAddress: {
+    line1: '1 Main St',
+    line2: null,
+    city: 'Toronto',
+    state: 'ON',
+    postalCode: 'M5V 1A1',
+    country: 'CA',
+  },
+  items: [
+    { kind: 'limited-edition', quantity: 3, dropId: 'kol-legend-series' },
+    { kind: 'display-case', quantity: 1 },
+  ],
+  serials: 'kol-legend-series:37-39/472',
+  amountTotalCents: 18596,
+  shippingCents: 1199,
+  currency: 'usd',
+  shippingLevel: 'tracked',
+}
+
+describe('fulfilment', () => {
+  describe('orderItemsFromMetadata', () => {
+    it('should read cart checkout items', () => {
+      expect(orderItemsFromMetadata({
+        isCartCheckout: 'true',
+        item0_type: 'limited-edition',
+        item0_quantity: '2',
+        item0_dropId: 'kol-legend-series',
+        item1_type: 'custom-card',
+        item1_quantity: '5',
+        item1_finish: 'rainbow',
+        item1_imageUrl: 'https://example.com/art.png',
+        item2_type: 'display-case',
+        item2_quantity: '1',
+        quantity: '8',
+      })).toEqual([
+        { kind: 'limited-edition', quantity: 2, dropId: 'kol-legend-series' },
+        { kind: 'custom-card', quantity: 5, finish: 'rainbow', imageUrl: 'https://example.com/art.png' },
+        { kind: 'display-case', quantity: 1 },
+      ])
+    })
+
+    it('should skip unknown and empty cart items', () => {
+      expect(orderItemsFromMetadata({
+        isCartCheckout: 'true',
+        item0_type: 'gift-card',
+        item0_quantity: '1',
+        item1_type: 'display-case',
+        item1_quantity: '0',
+      })).toEqual([])
+    })
+
+    it('should read a single limited edition checkout with display cases', () => {
+      expect(orderItemsFromMetadata({
+        quantity: '2',
+        dropId: 'kol-legend-series',
+        includeDisplayCase: 'true',
+        displayCaseQuantity: '2',
+        isCustomCard: 'false',
+      })).toEqual([
+        { kind: 'limited-edition', quantity: 2, dropId: 'kol-legend-series' },
+        { kind: 'display-case', quantity: 2 },
+      ])
+    })
+
+    it('should read a single custom card checkout', () => {
+      expect(orderItemsFromMetadata({
+        quantity: '1',
+        isCustomCard: 'true',
+        customImageUrl: 'https://example.com/art.png',
+        includeDisplayCase: 'false',
+        displayCaseQuantity: '0',
+      })).toEqual([
+        { kind: 'custom-card', quantity: 1, finish: 'matte', imageUrl: 'https://example.com/art.png' },
+      ])
+    })
+  })
+
+  describe('describeItems', () => {
+    it('should list each item with its quantity and the serials', () => {
+      expect(describeItems(ORDER.items, ORDER.serials))
+        .toBe('Limited Edition Cards (3) + Display Cases (1) [SN: kol-legend-series:37-39/472]')
+    })
+
+    it('should name non-matte custom card finishes', () => {
+      expect(describeItems([{ kind: 'custom-card', quantity: 2, finish: 'gloss' }])).toBe('Custom Cards (2, gloss)')
+      expect(describeItems([{ kind: 'custom-card', quantity: 2, finish: 'matte' }])).toBe('Custom Cards (2)')
+    })
+
+    it('should stay within Easyship description limits', () => {
+      expect(describeItems(ORDER.items, 'x'.repeat(500)).length).toBe(200)
+    })
+  })
+
+  describe('buildShipmentRequest', () => {
+    const request = buildShipmentRequest(ORDER)
+
+    it('should use the checkout session as the order number', () => {
+      expect(request.order_data.platform_order_number).toBe('cs_test_123')
+    })
+
+    it('should ship to the order address', () => {
+      expect(request.destination_address).toMatchObject({
+        line_1: '1 Main St',
+        city: 'Toronto',
+        state: 'ON',
+        postal_code: 'M5V 1A1',
+        country_alpha2: 'CA',
+        contact_name: 'Ada Buyer',
+        contact_email: 'buyer@example.com',
+      })
+    })
+
+    it('should weigh the parcel from the item weights and packaging', () => {
+      // 3 cards x 10 g + 1 case x 110 g + 40 g packaging
+      expect(request.parcels[0].total_actual_weight).toBe(0.18)
+    })
+
+    it('should declare the goods value without shipping', () => {
+      expect(request.parcels[0].items[0].declared_customs_value).toBe(173.97)
+      expect(request.parcels[0].items[0].declared_currency).toBe('USD')
+    })
+
+    it('should buy the label with the shipment', () => {
+      expect(request.shipping_settings).toMatchObject({ buy_label: true, buy_label_synchronous: true })
+    })
+  })
+
+  describe('retryDelaySeconds', () => {
+    it('should double the delay after each attempt', () => {
+      expect([1, 2, 3, 4].map(retryDelaySeconds)).toEqual([60, 120, 240, 480])
+    })
+
+    it('should cap the delay at 6 hours', () => {
+      expect(retryDelaySeconds(20)).toBe(6 * 60 * 60)
+    })
+  })
+})
@@ -82,6 +82,8 @@ describe('Image Processing Utilities', () => {
       const result = cropImageToAspectRatio(file)
       
       expect(result).toBeInstanceOf(Promise)
+      // There's no Image/canvas in Node, so the crop itself rejects
+      result.catch(() => {})
     })
   })
 })
\ No newline at end of file
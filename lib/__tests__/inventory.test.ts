@@ -0,0 +1,61 @@
+/**
+ * Tests for holding stock for guest and signed-in checkouts
+ */
+
+import { CustomerRequiredError, InventorySkus, PurchaseLimitError, reserveInventory } from '../inventory'
+
+const rpc = vi.fn()
+
+vi.mock('../supabase-admin', () => ({
+  supabaseAdmin: {
+    rpc: (...args: unknown[]) => rpc(...args),
+  },
+}))
+
+const EXPIRES_AT = new Date('2025-09-01T00:00:00Z')
+
+// A guest cart: cards from a drop without a limit, plus display cases
+const GUEST_CART = [
+  { sku: InventorySkus.limitedEdition, quantity: 3, perCustomerLimit: null },
+  { sku: InventorySkus.displayCase, quantity: 3 },
+]
+
+beforeEach(() => {
+  rpc.mockReset()
+})
+
+describe('reserveInventory', () => {
+  it('should hold a guest cart with no purchase limits', async () => {
+    rpc.mockResolvedValue({ error: null })
+
+    const reference = await reserveInventory(GUEST_CART, EXPIRES_AT)
+
+    expect(reference).toEqual(expect.any(String))
+    expect(rpc).toHaveBeenCalledWith('inventory_reserve', expect.objectContaining({
+      p_items: [
+        { sku: InventorySkus.limitedEdition, quantity: 3, per_customer_limit: null },
+        { sku: InventorySkus.displayCase, quantity: 3, per_customer_limit: null },
+      ],
+      p_customer_key: null,
+    }))
+  })
+
+  it('should ask for a customer when a guest cart has a drop with a limit', async () => {
+    rpc.mockResolvedValue({ error: { message: 'customer_required:limited-edition-card' } })
+    const cart = [{ ...GUEST_CART[0], perCustomerLimit: 2 }, GUEST_CART[1]]
+
+    const error = await reserveInventory(cart, EXPIRES_AT).catch(e => e)
+
+    expect(error).toBeInstanceOf(CustomerRequiredError)
+    expect(error.sku).toBe(InventorySkus.limitedEdition)
+  })
+
+  it('should report the units left under a purchase limit', async () => {
+    rpc.mockResolvedValue({ error: { message: 'purchase_limit_exceeded:limited-edition-card:1' } })
+
+    const error = await reserveInventory([{ ...GUEST_CART[0], perCustomerLimit: 2 }], EXPIRES_AT, 'buyer@example.com').catch(e => e)
+
+    expect(error).toBeInstanceOf(PurchaseLimitError)
+    expect(error.remaining).toBe(1)
+  })
+})
@@ -0,0 +1,64 @@
+/**
+ * Tests for seller listing prices: reading typed amounts and the
+ * configurable price bounds
+ */
+
+import { DEFAULT_LISTING_PRICE_BOUNDS, listingPriceBounds, listingPriceError, parseListingPrice } from '../listing-price'
+
+describe('listing-price', () => {
+  afterEach(() => {
+    delete process.env.NEXT_PUBLIC_LISTING_MIN_PRICE_CENTS
+    delete process.env.NEXT_PUBLIC_LISTING_MAX_PRICE_CENTS
+  })
+
+  describe('parseListingPrice', () => {
+    it('should read dollars and cents', () => {
+      expect(parseListingPrice('12')).toBe(1200)
+      expect(parseListingPrice('12.5')).toBe(1250)
+      expect(parseListingPrice(' $12.05 ')).toBe(1205)
+    })
+
+    it('should reject anything that is not an amount', () => {
+      expect(parseListingPrice('')).toBeNull()
+      expect(parseListingPrice('12.345')).toBeNull()
+      expect(parseListingPrice('-5')).toBeNull()
+      expect(parseListingPrice('ten')).toBeNull()
+    })
+  })
+
+  describe('listingPriceBounds', () => {
+    it('should default to $1 - $1,000', () => {
+      expect(listingPriceBounds()).toEqual({ minCents: 100, maxCents: 100000 })
+    })
+
+    it('should read the configured bounds', () => {
+      process.env.NEXT_PUBLIC_LISTING_MIN_PRICE_CENTS = '500'
+      process.env.NEXT_PUBLIC_LISTING_MAX_PRICE_CENTS = '2500'
+      expect(listingPriceBounds()).toEqual({ minCents: 500, maxCents: 2500 })
+    })
+
+    it('should fall back to the defaults when the bounds are inverted', () => {
+      process.env.NEXT_PUBLIC_LISTING_MIN_PRICE_CENTS = '5000'
+      process.env.NEXT_PUBLIC_LISTING_MAX_PRICE_CENTS = '100'
+      expect(listingPriceBounds()).toEqual(DEFAULT_LISTING_PRICE_BOUNDS)
+    })
+  })
+
+  describe('listingPriceError', () => {
+    const bounds = { minCents: 100, maxCents: 5000 }
+
+    it('should accept prices within the bounds, inclusive', () => {
+      expect(listingPriceError(100, bounds)).toBeNull()
+      expect(listingPriceError(5000, bounds)).toBeNull()
+    })
+
+    it('should reject prices outside the bounds', () => {
+      expect(listingPriceError(99, bounds)).toBe('Price must be between $1.00 and $50.00')
+      expect(listingPriceError(5001, bounds)).toBe('Price must be between $1.00 and $50.00')
+    })
+
+    it('should reject fractional cents', () => {
+      expect(listingPriceError(100.5, bounds)).toBe('Price must be a whole number of cents')
+    })
+  })
+})
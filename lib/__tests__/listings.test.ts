@@ -0,0 +1,102 @@
+/**
+ * Tests for the listing API's price checks and RPC error mapping
+ */
+
+import { cancelListing, createListing, ListingError, updateListing } from '../listings'
+
+const rpc = vi.fn()
+
+vi.mock('../supabase-admin', () => ({
+  supabaseAdmin: { rpc: (...args: unknown[]) => rpc(...args) },
+}))
+
+const SELLER = '0b7a5c1e-2d3f-4a5b-8c6d-7e8f9a0b1c2d'
+const SOURCE = '3f6c1a2e-8b9d-4c1e-9f3a-1b2c3d4e5f60'
+
+const ROW = {
+  id: 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d',
+  source_type: 'asset',
+  source_id: SOURCE,
+  seller_id: SELLER,
+  title: 'Dragon',
+  description: null,
+  image_url: 'https://cdn.example.com/dragon.png',
+  price_cents: 1250,
+  currency: null,
+  finish: 'matte',
+  status: 'listed',
+  is_active: true,
+}
+
+function rpcReturns(result: { data?: unknown; error?: { message: string } | null }) {
+  rpc.mockReturnValue({ single: () => Promise.resolve({ data: null, error: null, ...result }) })
+}
+
+async function errorCode(promise: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await promise
+  } catch (error) {
+    return error instanceof ListingError ? error.code : 'OTHER'
+  }
+  return undefined
+}
+
+describe('listings', () => {
+  beforeEach(() => {
+    rpc.mockReset()
+  })
+
+  it('should create through listing_create and return a camelCase listing', async () => {
+    rpcReturns({ data: ROW })
+    const listing = await createListing(SELLER, { sourceType: 'asset', sourceId: SOURCE, priceCents: 1250 })
+
+    expect(rpc).toHaveBeenCalledWith('listing_create', {
+      p_seller_id: SELLER,
+      p_source_type: 'asset',
+      p_source_id: SOURCE,
+      p_price_cents: 1250,
+      p_finish: 'matte',
+    })
+    expect(listing).toMatchObject({ sourceId: SOURCE, priceCents: 1250, currency: 'USD', isActive: true })
+  })
+
+  it('should reject prices outside the bounds before calling the database', async () => {
+    expect(await errorCode(createListing(SELLER, { sourceType: 'asset', sourceId: SOURCE, priceCents: 1 }))).toBe('INVALID_PRICE')
+    expect(await errorCode(updateListing(SELLER, ROW.id, { priceCents: 1_000_000_000 }))).toBe('INVALID_PRICE')
+    expect(rpc).not.toHaveBeenCalled()
+  })
+
+  it('should map RPC error tokens to listing errors', async () => {
+    const cases: [string, string][] = [
+      ['listing_seller_not_verified', 'SELLER_NOT_VERIFIED'],
+      ['listing_source_not_found', 'SOURCE_NOT_FOUND'],
+      ['listing_duplicate', 'DUPLICATE_LISTING'],
+    ]
+    for (const [token, code] of cases) {
+      rpcReturns({ error: { message: token } })
+      expect(await errorCode(createListing(SELLER, { sourceType: 'uploaded_image', sourceId: SOURCE, priceCents: 500 }))).toBe(code)
+    }
+
+    rpcReturns({ error: { message: 'listing_not_editable' } })
+    expect(await errorCode(cancelListing(SELLER, ROW.id))).toBe('LISTING_NOT_EDITABLE')
+  })
+
+  it('should pass null for fields an update leaves alone', async () => {
+    rpcReturns({ data: { ...ROW, title: 'Red Dragon' } })
+    await updateListing(SELLER, ROW.id, { title: 'Red Dragon' })
+
+    expect(rpc).toHaveBeenCalledWith('listing_update', {
+      p_listing_id: ROW.id,
+      p_seller_id: SELLER,
+      p_price_cents: null,
+      p_title: 'Red Dragon',
+      p_description: null,
+      p_finish: null,
+    })
+  })
+
+  it('should not hide unexpected database errors', async () => {
+    rpcReturns({ error: { message: 'connection reset' } })
+    expect(await errorCode(cancelListing(SELLER, ROW.id))).toBe('OTHER')
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Tests for marketplace search: reading and writing the query string, and
+ * cursor pages over the marketplace_search RPC
+ */
+
+import { DEFAULT_MARKETPLACE_FILTERS, marketplaceQueryString, parseMarketplaceQuery } from '../marketplace-query'
+import { decodeCursor, encodeCursor, searchMarketplace } from '../marketplace-search'
+
+const rpc = vi.fn()
+
+vi.mock('../supabase-admin', () => ({
+  supabaseAdmin: { rpc: (...args: unknown[]) => rpc(...args) },
+}))
+
+const SELLER = '0b7a5c1e-2d3f-4a5b-8c6d-7e8f9a0b1c2d'
+
+function row(n: number) {
+  return {
+    id: `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`,
+    title: `Card ${n}`,
+    description: null,
+    image_url: null,
+    price_cents: 100 * n,
+    currency: 'USD',
+    finish: 'matte',
+    seller_id: SELLER,
+    seller_name: 'Ada',
+    seller_avatar_url: null,
+    checkout_count: n,
+    created_at: `2025-09-0${n}T10:00:00.123456+00:00`,
+  }
+}
+
+function rpcReturns(rows: unknown[]) {
+  rpc.mockResolvedValue({ data: rows, error: null })
+}
+
+describe('marketplace search', () => {
+  beforeEach(() => {
+    rpc.mockReset()
+  })
+
+  describe('parseMarketplaceQuery', () => {
+    it('should read every filter', () => {
+      const filters = parseMarketplaceQuery(new URLSearchParams(
+        `q=red+dragon&min=5&max=12.50&seller=${SELLER}&from=2025-09-01&to=2025-09-30&finish=rainbow&sort=popular`
+      ))
+
+      expect(filters).toEqual({
+        q: 'red dragon',
+        minPriceCents: 500,
+        maxPriceCents: 1250,
+        sellerId: SELLER,
+        listedFrom: '2025-09-01',
+        listedTo: '2025-09-30',
+        finish: 'rainbow',
+        sort: 'popular',
+      })
+    })
+
+    it('should drop values it cannot read', () => {
+      const filters = parseMarketplaceQuery(new URLSearchParams('min=cheap&seller=bob&from=yesterday&finish=foil&sort=random'))
+      expect(filters).toEqual(DEFAULT_MARKETPLACE_FILTERS)
+    })
+
+    it('should round-trip and leave out defaults', () => {
+      const query = `q=dragon&min=5&max=12.50&seller=${SELLER}&finish=gloss&sort=price_asc`
+      expect(marketplaceQueryString(parseMarketplaceQuery(new URLSearchParams(query)))).toBe(query)
+      expect(marketplaceQueryString(DEFAULT_MARKETPLACE_FILTERS)).toBe('')
+    })
+  })
+
+  describe('cursors', () => {
+    it('should only be read back for the sort that made them', () => {
+      const cursor = encodeCursor({ sort: 'price_asc', id: row(1).id, value: 100 })
+      expect(decodeCursor(cursor, 'price_asc')).toEqual({ sort: 'price_asc', id: row(1).id, value: 100 })
+      expect(() => decodeCursor(cursor, 'newest')).toThrow('Invalid cursor')
+      expect(() => decodeCursor('not-a-cursor', 'price_asc')).toThrow('Invalid cursor')
+    })
+  })
+
+  describe('searchMarketplace', () => {
+    it('should return a cursor when there is another page', async () => {
+      rpcReturns([row(1), row(2), row(3)])
+      const page = await searchMarketplace({ ...DEFAULT_MARKETPLACE_FILTERS, sort: 'popular' }, { limit: 2 })
+
+      expect(rpc).toHaveBeenCalledWith('marketplace_search', expect.objectContaining({ p_sort: 'popular', p_limit: 3 }))
+      expect(page.listings.map(l => l.title)).toEqual(['Card 1', 'Card 2'])
+      expect(decodeCursor(page.nextCursor!, 'popular')).toEqual({ sort: 'popular', id: row(2).id, value: 2 })
+    })
+
+    it('should pass the cursor value as the argument for its sort', async () => {
+      rpcReturns([row(4)])
+      const cursor = encodeCursor({ sort: 'newest', id: row(3).id, value: row(3).created_at })
+      const page = await searchMarketplace(DEFAULT_MARKETPLACE_FILTERS, { cursor, limit: 2 })
+
+      expect(rpc).toHaveBeenCalledWith('marketplace_search', expect.objectContaining({
+        p_after_id: row(3).id,
+        p_after_created_at: row(3).created_at,
+        p_after_price_cents: null,
+        p_after_checkout_count: null,
+      }))
+      expect(page.nextCursor).toBeNull()
+    })
+
+    it('should make the date range whole UTC days', async () => {
+      rpcReturns([])
+      await searchMarketplace({ ...DEFAULT_MARKETPLACE_FILTERS, listedFrom: '2025-09-01', listedTo: '2025-09-30' })
+
+      expect(rpc).toHaveBeenCalledWith('marketplace_search', expect.objectContaining({
+        p_listed_after: '2025-09-01T00:00:00.000Z',
+        p_listed_before: '2025-10-01T00:00:00.000Z',
+      }))
+    })
+  })
+})
@@ -0,0 +1,258 @@
+/**
+ * Tests for offer amount checks, RPC error mapping, accepting and expiry
+ */
+
+import { expireOffers, makeOffer, offerCheckout, OfferError, respondToOffer } from '../offers'
+import { effectiveOfferStatus, offerAwaiting } from '../offer-status'
+
+const rpc = vi.fn()
+const rows: Record<string, unknown> = {}
+const errors: Record<string, { message: string }> = {}
+
+// .from(table).select().eq().maybeSingle() resolves to rows[table], or errors[table]
+function query(table: string) {
+  const chain = {
+    select: () => chain,
+    eq: () => chain,
+    maybeSingle: () => Promise.resolve(
+      errors[table] ? { data: null, error: errors[table] } : { data: rows[table] ?? null, error: null }
+    ),
+  }
+  return chain
+}
+
+vi.mock('../supabase-admin', () => ({
+  supabaseAdmin: {
+    rpc: (...args: unknown[]) => rpc(...args),
+    from: (table: string) => query(table),
+  },
+}))
+
+const payments = vi.hoisted(() => ({
+  marketPaymentTerms: vi.fn(),
+  createMarketPaymentIntent: vi.fn(),
+  retrieveMarketPaymentIntent: vi.fn(),
+  cancelMarketPaymentIntent: vi.fn(),
+}))
+
+vi.mock('../marketplace-payments', () => payments)
+
+const sendTemplateEmail = vi.fn()
+
+vi.mock('../email-templates', () => ({
+  sendTemplateEmail: (...args: unknown[]) => sendTemplateEmail(...args),
+}))
+
+const BUYER = '0b7a5c1e-2d3f-4a5b-8c6d-7e8f9a0b1c2d'
+const SELLER = '3f6c1a2e-8b9d-4c1e-9f3a-1b2c3d4e5f60'
+const LISTING = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d'
+
+const OFFER = {
+  id: '9c8b7a6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d',
+  listing_id: LISTING,
+  buyer_id: BUYER,
+  seller_id: SELLER,
+  amount_cents: 900,
+  currency: 'USD',
+  proposed_by: 'buyer',
+  status: 'open',
+  counter_count: 0,
+  expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  payment_intent_id: null,
+  stripe_account_id: null,
+  payment_expires_at: null,
+  created_at: '2025-09-03T12:00:00.000Z',
+}
+
+function rpcReturns(result: { data?: unknown; error?: { message: string } | null }) {
+  rpc.mockReturnValue({ single: () => Promise.resolve({ data: null, error: null, ...result }) })
+}
+
+async function errorCode(promise: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await promise
+  } catch (error) {
+    return error instanceof OfferError ? error.code : 'OTHER'
+  }
+  return undefined
+}
+
+describe('offers', () => {
+  beforeEach(() => {
+    rpc.mockReset()
+    sendTemplateEmail.mockReset()
+    payments.marketPaymentTerms.mockReset()
+    payments.createMarketPaymentIntent.mockReset()
+    payments.cancelMarketPaymentIntent.mockReset()
+    payments.retrieveMarketPaymentIntent.mockReset()
+    delete errors.mkt_offers
+    rows.mkt_offers = OFFER
+    rows.mkt_listings = { title: 'Dragon' }
+    rows.mkt_profiles = { email: 'someone@example.com', display_name: 'Someone' }
+  })
+
+  describe('makeOffer', () => {
+    it('should reject amounts outside the listing price bounds without calling the database', async () => {
+      expect(await errorCode(makeOffer(BUYER, { listingId: LISTING, amountCents: 50 }))).toBe('INVALID_AMOUNT')
+      expect(rpc).not.toHaveBeenCalled()
+    })
+
+    it('should map RPC error tokens to offer errors', async () => {
+      const cases: [string, string][] = [
+        ['offer_amount_too_high', 'INVALID_AMOUNT'],
+        ['offer_listing_unavailable', 'LISTING_UNAVAILABLE'],
+        ['offer_listing_locked', 'LISTING_LOCKED'],
+        ['offer_own_listing', 'OWN_LISTING'],
+        ['offer_duplicate', 'DUPLICATE_OFFER'],
+      ]
+      for (const [token, code] of cases) {
+        rpcReturns({ error: { message: token } })
+        expect(await errorCode(makeOffer(BUYER, { listingId: LISTING, amountCents: 900 }))).toBe(code)
+      }
+    })
+
+    it('should create the offer and email the seller', async () => {
+      rpcReturns({ data: OFFER })
+
+      const offer = await makeOffer(BUYER, { listingId: LISTING, amountCents: 900 })
+
+      expect(rpc).toHaveBeenCalledWith('offer_create', expect.objectContaining({
+        p_listing_id: LISTING,
+        p_buyer_id: BUYER,
+        p_amount_cents: 900,
+      }))
+      expect(offer).toMatchObject({ id: OFFER.id, amountCents: 900, proposedBy: 'buyer', status: 'open' })
+      expect(sendTemplateEmail).toHaveBeenCalledWith(
+        'offer-received',
+        'someone@example.com',
+        expect.objectContaining({ listingTitle: 'Dragon', amountCents: 900, counter: false }),
+        { idempotencyKey: `offer:${OFFER.id}:received:0` }
+      )
+    })
+  })
+
+  describe('respondToOffer', () => {
+    it('should pass counters to the RPC with a fresh expiry', async () => {
+      rpcReturns({ data: { ...OFFER, amount_cents: 1000, proposed_by: 'seller', counter_count: 1 } })
+
+      await respondToOffer(SELLER, OFFER.id, { type: 'counter', amountCents: 1000 })
+
+      const [fn, args] = rpc.mock.calls[0]
+      expect(fn).toBe('offer_respond')
+      expect(args).toMatchObject({ p_action: 'counter', p_amount_cents: 1000 })
+      expect(Date.parse(args.p_expires_at)).toBeGreaterThan(Date.now())
+    })
+
+    it('should not accept an offer that waits on the other party', async () => {
+      expect(await errorCode(respondToOffer(BUYER, OFFER.id, { type: 'accept' }))).toBe('NOT_YOUR_TURN')
+      expect(payments.createMarketPaymentIntent).not.toHaveBeenCalled()
+    })
+
+    it('should not accept an offer past its expiry', async () => {
+      rows.mkt_offers = { ...OFFER, expires_at: '2020-01-01T00:00:00.000Z' }
+      expect(await errorCode(respondToOffer(SELLER, OFFER.id, { type: 'accept' }))).toBe('OFFER_NOT_OPEN')
+    })
+
+    it('should create a PaymentIntent for the offer amount and hold the listing', async () => {
+      payments.marketPaymentTerms.mockResolvedValue({ stripeAccount: 'acct_1', feeCents: 45 })
+      payments.createMarketPaymentIntent.mockResolvedValue({ id: 'pi_1' })
+      rpcReturns({ data: { offer: { ...OFFER, status: 'accepted', payment_intent_id: 'pi_1' }, superseded_intents: [] } })
+
+      const offer = await respondToOffer(SELLER, OFFER.id, { type: 'accept' })
+
+      expect(payments.createMarketPaymentIntent).toHaveBeenCalledWith(
+        expect.objectContaining({ amountCents: 900, offerId: OFFER.id }),
+        { stripeAccount: 'acct_1', feeCents: 45 }
+      )
+      expect(rpc).toHaveBeenCalledWith('offer_accept', expect.objectContaining({
+        p_payment_intent_id: 'pi_1',
+        p_stripe_account_id: 'acct_1',
+        p_platform_fee_cents: 45,
+      }))
+      expect(offer.status).toBe('accepted')
+      expect(payments.cancelMarketPaymentIntent).not.toHaveBeenCalled()
+    })
+
+    it('should cancel the other pending PaymentIntents for the listing', async () => {
+      payments.marketPaymentTerms.mockResolvedValue({ stripeAccount: 'acct_1', feeCents: 45 })
+      payments.createMarketPaymentIntent.mockResolvedValue({ id: 'pi_1' })
+      rpcReturns({
+        data: {
+          offer: { ...OFFER, status: 'accepted', payment_intent_id: 'pi_1' },
+          superseded_intents: [
+            { payment_intent_id: 'pi_list_price', stripe_account_id: 'acct_1' },
+            { payment_intent_id: 'pi_other_buyer', stripe_account_id: 'acct_1' },
+          ],
+        },
+      })
+
+      await respondToOffer(SELLER, OFFER.id, { type: 'accept' })
+
+      expect(payments.cancelMarketPaymentIntent).toHaveBeenCalledTimes(2)
+      expect(payments.cancelMarketPaymentIntent).toHaveBeenCalledWith('pi_list_price', 'acct_1')
+      expect(payments.cancelMarketPaymentIntent).toHaveBeenCalledWith('pi_other_buyer', 'acct_1')
+    })
+
+    it('should cancel the PaymentIntent when the offer cannot be accepted', async () => {
+      payments.marketPaymentTerms.mockResolvedValue({ stripeAccount: 'acct_1', feeCents: 45 })
+      payments.createMarketPaymentIntent.mockResolvedValue({ id: 'pi_1' })
+      rpcReturns({ error: { message: 'offer_changed' } })
+
+      expect(await errorCode(respondToOffer(SELLER, OFFER.id, { type: 'accept' }))).toBe('OFFER_CHANGED')
+      expect(payments.cancelMarketPaymentIntent).toHaveBeenCalledWith('pi_1', 'acct_1')
+    })
+  })
+
+  describe('offerCheckout', () => {
+    const held = { locked_offer_id: OFFER.id, locked_until: new Date(Date.now() + 60 * 60 * 1000).toISOString() }
+
+    it('should hand the buyer the intent of the offer their listing is held for', async () => {
+      rows.mkt_listings = held
+      rows.mkt_offers = { ...OFFER, status: 'accepted', payment_intent_id: 'pi_1', stripe_account_id: 'acct_1' }
+      payments.retrieveMarketPaymentIntent.mockResolvedValue({ id: 'pi_1' })
+
+      expect(await offerCheckout(LISTING, BUYER)).toEqual({ intent: { id: 'pi_1' }, stripeAccount: 'acct_1' })
+      expect(await errorCode(offerCheckout(LISTING, SELLER))).toBe('LISTING_LOCKED')
+    })
+
+    it('should fail rather than report the listing locked when the held offer cannot be loaded', async () => {
+      rows.mkt_listings = held
+      errors.mkt_offers = { message: 'connection reset' }
+
+      expect(await errorCode(offerCheckout(LISTING, BUYER))).toBe('OTHER')
+    })
+  })
+
+  describe('expireOffers', () => {
+    it('should cancel the PaymentIntents of released holds', async () => {
+      rpc.mockResolvedValue({
+        data: [
+          { offer_id: 'o1', payment_intent_id: 'pi_1', stripe_account_id: 'acct_1' },
+          { offer_id: 'o2', payment_intent_id: null, stripe_account_id: null },
+        ],
+        error: null,
+      })
+
+      expect(await expireOffers()).toEqual(['o1', 'o2'])
+      expect(payments.cancelMarketPaymentIntent).toHaveBeenCalledTimes(1)
+      expect(payments.cancelMarketPaymentIntent).toHaveBeenCalledWith('pi_1', 'acct_1')
+    })
+  })
+
+  describe('effectiveOfferStatus', () => {
+    const now = Date.parse('2025-09-03T12:00:00.000Z')
+    const state = { status: 'open' as const, proposedBy: 'buyer' as const, expiresAt: '2025-09-04T12:00:00.000Z', paymentExpiresAt: null }
+
+    it('should count offers past their deadline as expired', () => {
+      expect(effectiveOfferStatus(state, now)).toBe('open')
+      expect(effectiveOfferStatus({ ...state, expiresAt: '2025-09-03T11:59:59.000Z' }, now)).toBe('expired')
+      expect(effectiveOfferStatus({ ...state, status: 'accepted', paymentExpiresAt: '2025-09-03T11:00:00.000Z' }, now)).toBe('expired')
+      expect(effectiveOfferStatus({ ...state, status: 'completed', expiresAt: '2020-01-01T00:00:00.000Z' }, now)).toBe('completed')
+    })
+
+    it('should wait on the party that did not propose the amount', () => {
+      expect(offerAwaiting({ proposedBy: 'buyer' })).toBe('seller')
+      expect(offerAwaiting({ proposedBy: 'seller' })).toBe('buyer')
+    })
+  })
+})
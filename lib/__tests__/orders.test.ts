@@ -0,0 +1,77 @@
+/**
+ * Tests for the order status machine and the emails sent on transitions
+ */
+
+import { canTransition, Order, orderStatusEmail } from '../orders'
+
+vi.mock('../supabase-admin', () => ({ supabaseAdmin: {} }))
+
+const ORDER: Order = {
+  id: '3f6c1a2e-8b9d-4c1e-9f3a-1b2c3d4e5f60',
+  checkoutSessionId: 'cs_test_123',
+  paymentIntentId: 'pi_test_123',
+  customerEmail: 'buyer@example.com',
+  customerName: 'Ada Buyer',
+  customerPhone: null,
+  shippingAddress: { line1: '1 Main St', line2: null, city: 'Toronto', state: 'ON', postalCode: 'M5V 1A1', country: 'CA' },
+  items: [{ kind: 'display-case', quantity: 1 }],
+  serials: null,
+  amountTotalCents: 2198,
+  shippingCents: 1199,
+  currency: 'usd',
+  shippingLevel: 'tracked',
+  status: 'shipped',
+  statusChangedAt: null,
+  easyshipShipmentId: 'ESCA10000001',
+  labelUrl: null,
+  trackingNumber: '1Z999',
+  trackingUrl: 'https://track.example.com/1Z999',
+  courierName: 'UPS',
+  createdAt: '2025-08-30T10:00:00Z',
+}
+
+describe('orders', () => {
+  describe('canTransition', () => {
+    it('should allow forward steps, including skips', () => {
+      expect(canTransition('paid', 'in_production')).toBe(true)
+      expect(canTransition('paid', 'shipped')).toBe(true)
+      expect(canTransition('shipped', 'delivered')).toBe(true)
+    })
+
+    it('should not move backwards or stay put', () => {
+      expect(canTransition('delivered', 'shipped')).toBe(false)
+      expect(canTransition('shipped', 'shipped')).toBe(false)
+    })
+
+    it('should only cancel before shipping', () => {
+      expect(canTransition('in_production', 'cancelled')).toBe(true)
+      expect(canTransition('shipped', 'cancelled')).toBe(false)
+    })
+
+    it('should refund from any status until refunded', () => {
+      expect(canTransition('delivered', 'refunded')).toBe(true)
+      expect(canTransition('cancelled', 'refunded')).toBe(true)
+      expect(canTransition('refunded', 'refunded')).toBe(false)
+      expect(canTransition('cancelled', 'shipped')).toBe(false)
+    })
+  })
+
+  describe('orderStatusEmail', () => {
+    it('should include the tracking link when shipped', () => {
+      const email = orderStatusEmail(ORDER, 'shipped')
+      expect(email?.to).toBe('buyer@example.com')
+      expect(email?.subject).toBe('Your Cardify order 3F6C1A2E has shipped')
+      expect(email?.text).toContain('Tracking (UPS): https://track.example.com/1Z999')
+      expect(email?.text).toContain(`/orders/${ORDER.id}`)
+    })
+
+    it('should leave paid and refunded to their own emails', () => {
+      expect(orderStatusEmail(ORDER, 'paid')).toBeNull()
+      expect(orderStatusEmail(ORDER, 'refunded')).toBeNull()
+    })
+
+    it('should not email without an address', () => {
+      expect(orderStatusEmail({ ...ORDER, customerEmail: null }, 'delivered')).toBeNull()
+    })
+  })
+})
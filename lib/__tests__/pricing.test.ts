@@ -0,0 +1,357 @@
+/**
+ * Tests for the pricing engine shared by the modals, cart, /api/inventory and checkout
+ * Everything is integer cents, so expectations are exact
+ */
+
+import {
+  CartLine,
+  customCardLine,
+  DEFAULT_PRICE_LIST,
+  displayCaseLine,
+  limitedEditionLine,
+  normalizeFinish,
+  priceCart,
+  priceLine,
+  PriceTier,
+  tierFor,
+  tieredUnitCents,
+  tierTable,
+} from '../pricing'
+
+const TIERS: PriceTier[] = [
+  { minQuantity: 5, discountPercent: 5 },
+  { minQuantity: 10, discountPercent: 10 },
+  { minQuantity: 25, discountPercent: 15 },
+]
+
+const DROP = { priceCents: 4900, priceTiers: TIERS }
+
+/** A plain line with no tiers or surcharge */
+function flatLine(quantity: number, baseUnitCents: number): CartLine {
+  return { kind: 'display-case', quantity, baseUnitCents, tiers: [], surchargeCents: 0 }
+}
+
+describe('Pricing engine', () => {
+  describe('tierFor', () => {
+    it('should return null below the first tier', () => {
+      expect(tierFor(TIERS, 1)).toBeNull()
+      expect(tierFor(TIERS, 4)).toBeNull()
+    })
+
+    it('should apply a tier from exactly its minimum quantity', () => {
+      expect(tierFor(TIERS, 5)?.discountPercent).toBe(5)
+      expect(tierFor(TIERS, 10)?.discountPercent).toBe(10)
+      expect(tierFor(TIERS, 25)?.discountPercent).toBe(15)
+    })
+
+    it('should keep the tier between boundaries', () => {
+      expect(tierFor(TIERS, 9)?.discountPercent).toBe(5)
+      expect(tierFor(TIERS, 24)?.discountPercent).toBe(10)
+      expect(tierFor(TIERS, 100)?.discountPercent).toBe(15)
+    })
+
+    it('should not depend on tier order', () => {
+      const shuffled = [TIERS[2], TIERS[0], TIERS[1]]
+      expect(tierFor(shuffled, 12)?.minQuantity).toBe(10)
+      expect(tierFor(shuffled, 30)?.minQuantity).toBe(25)
+    })
+
+    it('should return null with no tiers', () => {
+      expect(tierFor([], 50)).toBeNull()
+    })
+  })
+
+  describe('tieredUnitCents', () => {
+    it('should return the base price without a tier', () => {
+      expect(tieredUnitCents(4900, TIERS, 1)).toBe(4900)
+    })
+
+    it('should discount the unit price by the tier', () => {
+      expect(tieredUnitCents(4900, TIERS, 5)).toBe(4655)
+      expect(tieredUnitCents(4900, TIERS, 10)).toBe(4410)
+      expect(tieredUnitCents(4900, TIERS, 25)).toBe(4165)
+    })
+
+    it('should round fractional cents down', () => {
+      // 999 * 0.95 = 949.05, 999 * 0.85 = 849.15
+      expect(tieredUnitCents(999, TIERS, 5)).toBe(949)
+      expect(tieredUnitCents(999, TIERS, 25)).toBe(849)
+    })
+
+    it('should match the old custom card tiers', () => {
+      expect(tieredUnitCents(900, TIERS, 5)).toBe(855)
+      expect(tieredUnitCents(900, TIERS, 10)).toBe(810)
+      expect(tieredUnitCents(900, TIERS, 25)).toBe(765)
+    })
+
+    it('should handle a 100% tier', () => {
+      expect(tieredUnitCents(900, [{ minQuantity: 2, discountPercent: 100 }], 2)).toBe(0)
+    })
+  })
+
+  describe('tierTable', () => {
+    it('should start with the base price and list every tier', () => {
+      expect(tierTable(900, TIERS)).toEqual([
+        { quantity: 1, pricePerUnitCents: 900, discount: 0, totalPriceCents: 900 },
+        { quantity: 5, pricePerUnitCents: 855, discount: 5, totalPriceCents: 4275 },
+        { quantity: 10, pricePerUnitCents: 810, discount: 10, totalPriceCents: 8100 },
+        { quantity: 25, pricePerUnitCents: 765, discount: 15, totalPriceCents: 19125 },
+      ])
+    })
+
+    it('should sort tiers by quantity', () => {
+      const table = tierTable(900, [TIERS[2], TIERS[0], TIERS[1]])
+      expect(table.map(row => row.quantity)).toEqual([1, 5, 10, 25])
+    })
+
+    it('should only contain the base row with no tiers', () => {
+      expect(tierTable(1900, [])).toEqual([
+        { quantity: 1, pricePerUnitCents: 1900, discount: 0, totalPriceCents: 1900 },
+      ])
+    })
+
+    it('should agree with priceLine at each tier boundary', () => {
+      for (const row of tierTable(4900, TIERS)) {
+        const line = priceLine(limitedEditionLine(DROP, row.quantity))
+        expect(line.unitCents).toBe(row.pricePerUnitCents)
+        expect(line.subtotalCents).toBe(row.totalPriceCents)
+      }
+    })
+  })
+
+  describe('normalizeFinish', () => {
+    it('should keep known finishes', () => {
+      expect(normalizeFinish('matte')).toBe('matte')
+      expect(normalizeFinish('rainbow')).toBe('rainbow')
+      expect(normalizeFinish('gloss')).toBe('gloss')
+    })
+
+    it('should treat missing and unknown finishes as matte', () => {
+      expect(normalizeFinish(undefined)).toBe('matte')
+      expect(normalizeFinish(null)).toBe('matte')
+      expect(normalizeFinish('')).toBe('matte')
+      expect(normalizeFinish('chrome')).toBe('matte')
+      expect(normalizeFinish('RAINBOW')).toBe('matte')
+    })
+  })
+
+  describe('line builders', () => {
+    it('should build a limited edition line from the drop', () => {
+      expect(limitedEditionLine(DROP, 3)).toEqual({
+        kind: 'limited-edition',
+        quantity: 3,
+        baseUnitCents: 4900,
+        tiers: TIERS,
+        surchargeCents: 0,
+      })
+    })
+
+    it('should add the finish surcharge to custom cards', () => {
+      expect(customCardLine(DEFAULT_PRICE_LIST, 'matte', 1).surchargeCents).toBe(0)
+      expect(customCardLine(DEFAULT_PRICE_LIST, 'rainbow', 1).surchargeCents).toBe(400)
+      expect(customCardLine(DEFAULT_PRICE_LIST, 'gloss', 1).surchargeCents).toBe(400)
+      expect(customCardLine(DEFAULT_PRICE_LIST, 'holo', 1).surchargeCents).toBe(0)
+    })
+
+    it('should use the price list for custom cards and display cases', () => {
+      const priceList = { ...DEFAULT_PRICE_LIST, customCardCents: 1000, displayCaseCents: 2500 }
+      expect(customCardLine(priceList, 'matte', 2).baseUnitCents).toBe(1000)
+      expect(customCardLine(priceList, 'matte', 2).tiers).toBe(priceList.customCardTiers)
+      expect(displayCaseLine(priceList, 2)).toEqual({
+        kind: 'display-case',
+        quantity: 2,
+        baseUnitCents: 2500,
+        tiers: [],
+        surchargeCents: 0,
+      })
+    })
+  })
+
+  describe('priceLine', () => {
+    it('should price a single card at the base price', () => {
+      const line = priceLine(limitedEditionLine(DROP, 1))
+      expect(line.unitCents).toBe(4900)
+      expect(line.subtotalCents).toBe(4900)
+      expect(line.discountPercent).toBe(0)
+      expect(line.savingsCents).toBe(0)
+    })
+
+    it('should apply the volume discount and report the savings', () => {
+      const line = priceLine(limitedEditionLine(DROP, 10))
+      expect(line.unitCents).toBe(4410)
+      expect(line.subtotalCents).toBe(44100)
+      expect(line.discountPercent).toBe(10)
+      expect(line.savingsCents).toBe(4900)
+    })
+
+    it('should not discount the finish surcharge', () => {
+      const line = priceLine(customCardLine(DEFAULT_PRICE_LIST, 'rainbow', 10))
+      expect(line.unitCents).toBe(810 + 400)
+      expect(line.subtotalCents).toBe(12100)
+      expect(line.savingsCents).toBe(900)
+    })
+
+    it('should price a zero quantity line at nothing', () => {
+      const line = priceLine(flatLine(0, 1900))
+      expect(line.subtotalCents).toBe(0)
+      expect(line.savingsCents).toBe(0)
+    })
+
+    it('should reject negative or fractional quantities', () => {
+      expect(() => priceLine(flatLine(-1, 1900))).toThrow(RangeError)
+      expect(() => priceLine(flatLine(1.5, 1900))).toThrow(RangeError)
+      expect(() => priceLine(flatLine(NaN, 1900))).toThrow(RangeError)
+    })
+
+    it('should reject negative or fractional prices', () => {
+      expect(() => priceLine(flatLine(1, -100))).toThrow(RangeError)
+      expect(() => priceLine(flatLine(1, 19.99))).toThrow(RangeError)
+    })
+
+    it('should keep the line inputs on the result', () => {
+      const input = customCardLine(DEFAULT_PRICE_LIST, 'gloss', 5)
+      expect(priceLine(input)).toMatchObject(input)
+    })
+  })
+
+  describe('priceCart', () => {
+    it('should price an empty cart at zero', () => {
+      expect(priceCart([])).toEqual({
+        lines: [],
+        itemsCents: 0,
+        savingsCents: 0,
+        discountCents: 0,
+        shippingCents: 0,
+        totalCents: 0,
+      })
+    })
+
+    it('should sum line subtotals and savings', () => {
+      const breakdown = priceCart([
+        limitedEditionLine(DROP, 5),
+        customCardLine(DEFAULT_PRICE_LIST, 'gloss', 2),
+        displayCaseLine(DEFAULT_PRICE_LIST, 3),
+      ])
+      expect(breakdown.itemsCents).toBe(4655 * 5 + 1300 * 2 + 1900 * 3)
+      expect(breakdown.savingsCents).toBe(245 * 5)
+      expect(breakdown.totalCents).toBe(breakdown.itemsCents)
+    })
+
+    it('should drop zero quantity lines', () => {
+      const breakdown = priceCart([limitedEditionLine(DROP, 1), displayCaseLine(DEFAULT_PRICE_LIST, 0)])
+      expect(breakdown.lines).toHaveLength(1)
+      expect(breakdown.lines[0].kind).toBe('limited-edition')
+    })
+
+    it('should price each line on its own quantity', () => {
+      // Two custom card lines of 4 don't reach the 5 card tier together
+      const breakdown = priceCart([
+        customCardLine(DEFAULT_PRICE_LIST, 'matte', 4),
+        customCardLine(DEFAULT_PRICE_LIST, 'rainbow', 4),
+      ])
+      expect(breakdown.savingsCents).toBe(0)
+      expect(breakdown.itemsCents).toBe(900 * 4 + 1300 * 4)
+    })
+
+    describe('shipping', () => {
+      it('should not charge shipping without a shipping price', () => {
+        expect(priceCart([limitedEditionLine(DROP, 1)]).shippingCents).toBe(0)
+        expect(priceCart([limitedEditionLine(DROP, 1)], { shippingCents: null }).shippingCents).toBe(0)
+      })
+
+      it('should charge shipping once per order', () => {
+        const breakdown = priceCart(
+          [limitedEditionLine(DROP, 3), displayCaseLine(DEFAULT_PRICE_LIST, 3)],
+          { shippingCents: 1199 }
+        )
+        expect(breakdown.shippingCents).toBe(1199)
+        expect(breakdown.totalCents).toBe(4900 * 3 + 1900 * 3 + 1199)
+      })
+
+      it('should not charge shipping on an empty cart', () => {
+        expect(priceCart([], { shippingCents: 499 }).shippingCents).toBe(0)
+        expect(priceCart([displayCaseLine(DEFAULT_PRICE_LIST, 0)], { shippingCents: 499 }).shippingCents).toBe(0)
+      })
+
+      it('should waive shipping for a free shipping discount', () => {
+        const breakdown = priceCart([limitedEditionLine(DROP, 1)], {
+          shippingCents: 1699,
+          discount: { freeShipping: true },
+        })
+        expect(breakdown.shippingCents).toBe(0)
+        expect(breakdown.totalCents).toBe(4900)
+      })
+    })
+
+    describe('discounts', () => {
+      it('should take a percentage off the items', () => {
+        const breakdown = priceCart([displayCaseLine(DEFAULT_PRICE_LIST, 2)], { discount: { percentOff: 10 } })
+        expect(breakdown.discountCents).toBe(380)
+        expect(breakdown.totalCents).toBe(3420)
+      })
+
+      it('should round percentage discounts down', () => {
+        // 10% of 4655 = 465.5
+        const breakdown = priceCart([flatLine(1, 4655)], { discount: { percentOff: 10 } })
+        expect(breakdown.discountCents).toBe(465)
+      })
+
+      it('should apply on top of volume tiers', () => {
+        const breakdown = priceCart([limitedEditionLine(DROP, 10)], { discount: { percentOff: 10 } })
+        expect(breakdown.itemsCents).toBe(44100)
+        expect(breakdown.discountCents).toBe(4410)
+        expect(breakdown.savingsCents).toBe(4900)
+      })
+
+      it('should take a fixed amount off the items', () => {
+        const breakdown = priceCart([flatLine(1, 1900)], { discount: { amountOffCents: 500 } })
+        expect(breakdown.discountCents).toBe(500)
+        expect(breakdown.totalCents).toBe(1400)
+      })
+
+      it('should combine percentage and fixed amounts', () => {
+        const breakdown = priceCart([flatLine(1, 10000)], { discount: { percentOff: 10, amountOffCents: 500 } })
+        expect(breakdown.discountCents).toBe(1500)
+      })
+
+      it('should never discount below zero', () => {
+        const breakdown = priceCart([flatLine(1, 1900)], {
+          shippingCents: 499,
+          discount: { amountOffCents: 5000 },
+        })
+        expect(breakdown.discountCents).toBe(1900)
+        expect(breakdown.totalCents).toBe(499)
+      })
+
+      it('should not discount shipping', () => {
+        const breakdown = priceCart([flatLine(1, 1000)], {
+          shippingCents: 499,
+          discount: { percentOff: 100 },
+        })
+        expect(breakdown.discountCents).toBe(1000)
+        expect(breakdown.totalCents).toBe(499)
+      })
+
+      it('should clamp out-of-range discounts', () => {
+        expect(priceCart([flatLine(1, 1000)], { discount: { percentOff: 150 } }).discountCents).toBe(1000)
+        expect(priceCart([flatLine(1, 1000)], { discount: { percentOff: -10 } }).discountCents).toBe(0)
+        expect(priceCart([flatLine(1, 1000)], { discount: { amountOffCents: -500 } }).discountCents).toBe(0)
+      })
+
+      it('should ignore a null discount', () => {
+        expect(priceCart([flatLine(1, 1000)], { discount: null }).totalCents).toBe(1000)
+      })
+    })
+
+    it('should keep total = items - discount + shipping across quantities', () => {
+      for (let quantity = 1; quantity <= 30; quantity++) {
+        const breakdown = priceCart(
+          [customCardLine(DEFAULT_PRICE_LIST, 'rainbow', quantity), displayCaseLine(DEFAULT_PRICE_LIST, quantity)],
+          { shippingCents: 1999, discount: { percentOff: 15, amountOffCents: 100 } }
+        )
+        expect(breakdown.totalCents).toBe(breakdown.itemsCents - breakdown.discountCents + breakdown.shippingCents)
+        expect(Number.isInteger(breakdown.totalCents)).toBe(true)
+      }
+    })
+  })
+})
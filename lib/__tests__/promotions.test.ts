@@ -0,0 +1,98 @@
+/**
+ * Tests for per-customer promotion caps, counted by signed-in account
+ */
+
+import { checkPromotion, PromotionError, reservePromotion, resolvePromotion } from '../promotions'
+import type { CartLine } from '../pricing'
+
+const rpc = vi.fn()
+let automatic: Record<string, unknown>[] = []
+
+// .from().select().eq().eq().or().or() resolves to the automatic promotions
+function query() {
+  const chain = {
+    select: () => chain,
+    eq: () => chain,
+    or: () => chain,
+    then: (resolve: (value: unknown) => void) => resolve({ data: automatic, error: null }),
+  }
+  return chain
+}
+
+vi.mock('../supabase-admin', () => ({
+  supabaseAdmin: {
+    rpc: (...args: unknown[]) => rpc(...args),
+    from: () => query(),
+  },
+}))
+
+const ONCE_EACH = {
+  code: 'WELCOME10',
+  description: '10% off your first order',
+  kind: 'percent',
+  percent_off: 10,
+  amount_off_cents: null,
+  buy_quantity: null,
+  get_quantity: null,
+  min_subtotal_cents: 0,
+  automatic: true,
+  max_redemptions: null,
+  redeemed_count: 0,
+  starts_at: null,
+  expires_at: null,
+}
+
+const LINES: CartLine[] = [{ kind: 'display-case', quantity: 1, baseUnitCents: 2000, tiers: [], surchargeCents: 0 }]
+
+// checkout_promotion_check for a promotion capped at one use per customer
+function cappedPerCustomer() {
+  rpc.mockImplementation((_name: string, args: { p_customer_key: string | null }) => {
+    const result = args.p_customer_key
+      ? { data: ONCE_EACH, error: null }
+      : { data: null, error: { message: 'promo_sign_in_required' } }
+    return { single: () => Promise.resolve(result) }
+  })
+}
+
+beforeEach(() => {
+  rpc.mockReset()
+  automatic = []
+})
+
+describe('checkPromotion', () => {
+  it('should count the cap against the account email', async () => {
+    cappedPerCustomer()
+
+    await checkPromotion('welcome10', 'Buyer@Example.com')
+
+    expect(rpc).toHaveBeenCalledWith('checkout_promotion_check', { p_code: 'WELCOME10', p_customer_key: 'buyer@example.com' })
+  })
+
+  it('should ask guests to sign in for a code capped per customer', async () => {
+    cappedPerCustomer()
+
+    await expect(checkPromotion('WELCOME10', null)).rejects.toMatchObject({ code: 'PROMO_SIGN_IN_REQUIRED' })
+    await expect(checkPromotion('WELCOME10')).rejects.toBeInstanceOf(PromotionError)
+  })
+})
+
+describe('resolvePromotion', () => {
+  it('should skip automatic promotions capped per customer for guests', async () => {
+    cappedPerCustomer()
+    automatic = [ONCE_EACH]
+
+    await expect(resolvePromotion(LINES, { accountEmail: null })).resolves.toBeNull()
+    const applied = await resolvePromotion(LINES, { accountEmail: 'buyer@example.com' })
+    expect(applied?.promotion.code).toBe('WELCOME10')
+  })
+})
+
+describe('reservePromotion', () => {
+  it('should reserve a guest redemption without a customer key', async () => {
+    rpc.mockResolvedValue({ error: null })
+
+    await reservePromotion('SPRING', null, 500, new Date('2025-09-01T00:00:00Z'))
+
+    expect(rpc).toHaveBeenCalledWith('checkout_promotion_reserve', expect.objectContaining({ p_customer_key: null }))
+  })
+})
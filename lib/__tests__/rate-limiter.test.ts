@@ -0,0 +1,225 @@
+/**
+ * Tests for the rate limiting algorithms and the rateLimit middleware
+ * Algorithms are pure, so boundary cases are driven by an explicit clock
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { slidingLog, slidingCounter, tokenBucket, RateLimitAlgorithmImpl, AlgorithmSettings } from '../rate-limit-algorithms'
+import { MemoryRateLimitStore } from '../rate-limit-store'
+import { rateLimit, RateLimitConfig } from '../rate-limiter'
+import { getClientIp, getRouteScope, identityKeyGenerator } from '../rate-limit-keys'
+
+const WINDOW = 60_000
+const settings: AlgorithmSettings = { windowMs: WINDOW, maxRequests: 10 }
+
+/** Sends `count` requests at time `now`, threading state through, and returns how many were allowed */
+function send<S>(impl: RateLimitAlgorithmImpl<S>, state: S | null, count: number, now: number, opts = settings) {
+  let allowed = 0
+  for (let i = 0; i < count; i++) {
+    const result = impl.consume(state, opts, now)
+    state = result.state
+    if (result.decision.allowed) allowed++
+  }
+  return { state, allowed }
+}
+
+describe('Rate limiting algorithms', () => {
+  describe('sliding-log', () => {
+    it('should allow maxRequests and then reject', () => {
+      const { allowed } = send(slidingLog, null, 15, 0)
+      expect(allowed).toBe(10)
+    })
+
+    it('should not allow a burst across a fixed-window boundary', () => {
+      // 10 requests at the very end of one window, 10 at the start of the next
+      const first = send(slidingLog, null, 10, WINDOW - 1)
+      const second = send(slidingLog, first.state, 10, WINDOW + 1)
+      expect(first.allowed).toBe(10)
+      expect(second.allowed).toBe(0)
+    })
+
+    it('should free slots exactly one window after each hit', () => {
+      const { state } = send(slidingLog, null, 10, 1_000)
+      expect(slidingLog.consume(state, settings, 1_000 + WINDOW - 1).decision.allowed).toBe(false)
+      expect(slidingLog.consume(state, settings, 1_000 + WINDOW).decision.allowed).toBe(true)
+    })
+
+    it('should report retry time until the oldest hit expires', () => {
+      const { state } = send(slidingLog, null, 10, 5_000)
+      const { decision } = slidingLog.consume(state, settings, 20_000)
+      expect(decision.allowed).toBe(false)
+      expect(decision.retryAfterMs).toBe(5_000 + WINDOW - 20_000)
+    })
+
+    it('should give a slot back on release', () => {
+      const { state } = send(slidingLog, null, 10, 0)
+      const released = slidingLog.release(state, settings, 0)
+      expect(slidingLog.consume(released, settings, 0).decision.allowed).toBe(true)
+    })
+  })
+
+  describe('sliding-counter', () => {
+    it('should allow maxRequests within a single window', () => {
+      const { allowed } = send(slidingCounter, null, 15, 0)
+      expect(allowed).toBe(10)
+    })
+
+    it('should weight the previous window at the boundary', () => {
+      const first = send(slidingCounter, null, 10, WINDOW - 1)
+      // Just after the boundary the previous window still counts almost fully
+      const second = send(slidingCounter, first.state, 10, WINDOW + 1)
+      expect(second.allowed).toBe(0)
+    })
+
+    it('should allow requests in proportion to how much of the previous window has slid out', () => {
+      const first = send(slidingCounter, null, 10, 0)
+      // Halfway through the next window, half of the previous 10 still count
+      const second = send(slidingCounter, first.state, 10, WINDOW + WINDOW / 2)
+      expect(second.allowed).toBe(5)
+    })
+
+    it('should forget windows older than the previous one', () => {
+      const first = send(slidingCounter, null, 10, 0)
+      const later = send(slidingCounter, first.state, 10, WINDOW * 2)
+      expect(later.allowed).toBe(10)
+    })
+
+    it('should never exceed maxRequests across any window-length span at the boundary', () => {
+      const first = send(slidingCounter, null, 10, WINDOW - 1)
+      const second = send(slidingCounter, first.state, 20, WINDOW)
+      expect(first.allowed + second.allowed).toBeLessThanOrEqual(10)
+    })
+  })
+
+  describe('token-bucket', () => {
+    const bucket: AlgorithmSettings = { windowMs: WINDOW, maxRequests: 10, burst: 5, refillPerSecond: 1 }
+
+    it('should allow an initial burst up to the bucket capacity', () => {
+      const { allowed } = send(tokenBucket, null, 10, 0, bucket)
+      expect(allowed).toBe(5)
+    })
+
+    it('should refill tokens over time', () => {
+      const { state } = send(tokenBucket, null, 5, 0, bucket)
+      expect(tokenBucket.consume(state, bucket, 999).decision.allowed).toBe(false)
+      expect(tokenBucket.consume(state, bucket, 1_000).decision.allowed).toBe(true)
+    })
+
+    it('should not refill beyond the capacity', () => {
+      const { state } = send(tokenBucket, null, 5, 0, bucket)
+      const { allowed } = send(tokenBucket, state, 10, 60_000, bucket)
+      expect(allowed).toBe(5)
+    })
+
+    it('should report retry time until the next token', () => {
+      const { state } = send(tokenBucket, null, 5, 0, bucket)
+      const { decision } = tokenBucket.consume(state, bucket, 250)
+      expect(decision.allowed).toBe(false)
+      expect(decision.retryAfterMs).toBe(750)
+      expect(decision.limit).toBe(5)
+    })
+
+    it('should default to maxRequests capacity refilled once per window', () => {
+      const { state, allowed } = send(tokenBucket, null, 15, 0)
+      expect(allowed).toBe(10)
+      expect(tokenBucket.consume(state, settings, WINDOW / 10).decision.allowed).toBe(true)
+    })
+  })
+})
+
+describe('rateLimit middleware', () => {
+  const realNow = Date.now
+  let now = 0
+
+  beforeEach(() => {
+    now = 1_000_000
+    Date.now = () => now
+  })
+
+  afterEach(() => {
+    Date.now = realNow
+  })
+
+  const request = () => new NextRequest('http://localhost/api/test', {
+    headers: { 'x-forwarded-for': '203.0.113.7' },
+  })
+  const ok = async () => NextResponse.json({ ok: true })
+
+  async function hit(limiter: ReturnType<typeof rateLimit>, count: number) {
+    const statuses: number[] = []
+    for (let i = 0; i < count; i++) {
+      statuses.push((await limiter(request(), ok)).status)
+    }
+    return statuses
+  }
+
+  function limiterFor(config: Partial<RateLimitConfig>) {
+    return rateLimit({ windowMs: WINDOW, maxRequests: 3, store: new MemoryRateLimitStore(), ...config })
+  }
+
+  it('should let a fixed window admit 2x maxRequests across the boundary', async () => {
+    const limiter = limiterFor({ algorithm: 'fixed' })
+    const first = await hit(limiter, 3)
+    now += WINDOW + 1
+    const second = await hit(limiter, 3)
+    expect([...first, ...second]).toEqual([200, 200, 200, 200, 200, 200])
+  })
+
+  it('should reject across the boundary with a sliding log', async () => {
+    const limiter = limiterFor({ algorithm: 'sliding-log' })
+    await hit(limiter, 3)
+    now += WINDOW / 2
+    expect(await hit(limiter, 1)).toEqual([429])
+  })
+
+  it('should set X-RateLimit headers on allowed and rejected responses', async () => {
+    const limiter = limiterFor({ algorithm: 'token-bucket', burst: 2 })
+    const allowed = await limiter(request(), ok)
+    expect(allowed.headers.get('X-RateLimit-Limit')).toBe('2')
+    expect(allowed.headers.get('X-RateLimit-Remaining')).toBe('1')
+
+    await limiter(request(), ok)
+    const rejected = await limiter(request(), ok)
+    expect(rejected.status).toBe(429)
+    expect(rejected.headers.get('X-RateLimit-Remaining')).toBe('0')
+    expect(Number(rejected.headers.get('Retry-After'))).toBeGreaterThan(0)
+  })
+
+  it('should not count successful requests when skipSuccessfulRequests is set', async () => {
+    for (const algorithm of ['fixed', 'sliding-log', 'sliding-counter', 'token-bucket'] as const) {
+      const limiter = limiterFor({ algorithm, skipSuccessfulRequests: true })
+      expect(await hit(limiter, 5)).toEqual([200, 200, 200, 200, 200])
+    }
+  })
+})
+
+describe('Rate limit keys', () => {
+  const withForwarded = (value: string) => new NextRequest('http://localhost/api/upload', {
+    headers: { 'x-forwarded-for': value },
+  })
+
+  it('should only trust the entries added by trusted proxies', () => {
+    const req = withForwarded('6.6.6.6, 198.51.100.4, 10.0.0.1')
+    expect(getClientIp(req, 1)).toBe('10.0.0.1')
+    expect(getClientIp(req, 2)).toBe('198.51.100.4')
+  })
+
+  it('should ignore x-forwarded-for with zero trusted hops', () => {
+    expect(getClientIp(withForwarded('6.6.6.6'), 0)).toBe('unknown')
+  })
+
+  it('should not walk past the start of a short chain', () => {
+    expect(getClientIp(withForwarded('198.51.100.4'), 3)).toBe('198.51.100.4')
+  })
+
+  it('should give grouped routes one shared scope', () => {
+    expect(getRouteScope('/api/upload')).toBe('group:uploads')
+    expect(getRouteScope('/api/uploads')).toBe('group:uploads')
+    expect(getRouteScope('/api/inventory')).toBe('/api/inventory')
+  })
+
+  it('should fall back to the IP when no identity is available', async () => {
+    const key = await identityKeyGenerator({ trustedProxyHops: 1 })(withForwarded('203.0.113.9'))
+    expect(key).toBe('group:uploads:ip:203.0.113.9')
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Tests for the shipping rate table behind checkout and /api/shipping/quote
+ * Amounts are integer cents and weights grams, so expectations are exact
+ */
+
+import { DEFAULT_PRICE_LIST, displayCaseLine, customCardLine } from '../pricing'
+import {
+  PACKAGING_GRAMS,
+  quoteShipping,
+  RATE_TABLE,
+  rateForWeight,
+  SHIPPING_COUNTRY_CODES,
+  shipmentWeightGrams,
+  zoneFor,
+} from '../shipping'
+
+const cards = (quantity: number) => customCardLine(DEFAULT_PRICE_LIST, 'matte', quantity)
+const cases = (quantity: number) => displayCaseLine(DEFAULT_PRICE_LIST, quantity)
+
+describe('shipping', () => {
+  describe('zoneFor', () => {
+    it('should find the zone for a country', () => {
+      expect(zoneFor('US')?.id).toBe('us')
+      expect(zoneFor('CA')?.id).toBe('canada')
+      expect(zoneFor('DE')?.id).toBe('europe')
+      expect(zoneFor('JP')?.id).toBe('asia-pacific')
+      expect(zoneFor('ZA')?.id).toBe('middle-east-africa')
+      expect(zoneFor('MX')?.id).toBe('latin-america')
+    })
+
+    it('should ignore case and surrounding whitespace', () => {
+      expect(zoneFor(' gb ')?.id).toBe('europe')
+    })
+
+    it('should return null for countries we do not ship to', () => {
+      expect(zoneFor('ZZ')).toBeNull()
+      expect(zoneFor('RU')).toBeNull()
+    })
+
+    it('should put every country in exactly one zone', () => {
+      expect(new Set(SHIPPING_COUNTRY_CODES).size).toBe(SHIPPING_COUNTRY_CODES.length)
+    })
+  })
+
+  describe('shipmentWeightGrams', () => {
+    it('should add packaging once per parcel', () => {
+      expect(shipmentWeightGrams([cards(3)])).toBe(30 + PACKAGING_GRAMS)
+      expect(shipmentWeightGrams([cards(3), cases(2)])).toBe(30 + 220 + PACKAGING_GRAMS)
+    })
+
+    it('should weigh an empty cart at zero', () => {
+      expect(shipmentWeightGrams([])).toBe(0)
+      expect(shipmentWeightGrams([cases(0)])).toBe(0)
+    })
+  })
+
+  describe('rateForWeight', () => {
+    const [usStandard] = RATE_TABLE.us
+
+    it('should price by weight bracket, inclusive of the upper bound', () => {
+      expect(rateForWeight(usStandard, 1)).toBe(499)
+      expect(rateForWeight(usStandard, 250)).toBe(499)
+      expect(rateForWeight(usStandard, 251)).toBe(699)
+      expect(rateForWeight(usStandard, 2000)).toBe(1499)
+    })
+
+    it('should charge each started kilogram above the heaviest bracket', () => {
+      expect(rateForWeight(usStandard, 2001)).toBe(1499 + 500)
+      expect(rateForWeight(usStandard, 3000)).toBe(1499 + 500)
+      expect(rateForWeight(usStandard, 3001)).toBe(1499 + 1000)
+    })
+  })
+
+  describe('quoteShipping', () => {
+    it('should offer standard, tracked and express, cheapest first', () => {
+      const quotes = quoteShipping('US', [cards(1)])
+      expect(quotes.map(quote => quote.level)).toEqual(['standard', 'tracked', 'express'])
+      expect(quotes.map(quote => quote.amountCents)).toEqual([499, 799, 1999])
+    })
+
+    it('should price heavier parcels higher', () => {
+      // 5 display cases = 550 g + packaging, the 1 kg bracket
+      const [standard] = quoteShipping('CA', [cases(5)])
+      expect(standard.amountCents).toBe(1999)
+    })
+
+    it('should make standard free above the zone threshold', () => {
+      const [standard, tracked] = quoteShipping('US', [cards(1)], { subtotalCents: 7500 })
+      expect(standard).toMatchObject({ amountCents: 0, free: true, displayName: 'Free Standard Shipping' })
+      expect(tracked.free).toBe(false)
+    })
+
+    it('should not make standard free below the threshold or in zones without one', () => {
+      expect(quoteShipping('US', [cards(1)], { subtotalCents: 7499 })[0].free).toBe(false)
+      expect(quoteShipping('BR', [cards(1)], { subtotalCents: 1_000_000 })[0].free).toBe(false)
+    })
+
+    it('should make standard free with a free shipping promotion', () => {
+      const [standard, tracked] = quoteShipping('BR', [cards(1)], { freeShipping: true })
+      expect(standard.amountCents).toBe(0)
+      expect(tracked.amountCents).toBeGreaterThan(0)
+    })
+
+    it('should offer nothing for unknown countries or empty carts', () => {
+      expect(quoteShipping('ZZ', [cards(1)])).toEqual([])
+      expect(quoteShipping('US', [])).toEqual([])
+    })
+  })
+})
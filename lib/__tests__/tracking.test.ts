@@ -0,0 +1,115 @@
+/**
+ * Tests for the Easyship tracking adapter: webhook signature checks and
+ * turning tracking events into order status updates and checkpoints
+ */
+
+import { easyshipTrackingAdapter, getTrackingAdapter } from '../tracking'
+import { hmac } from '../signing'
+
+vi.mock('../supabase-admin', () => ({ supabaseAdmin: {} }))
+
+const SECRET = 'whsec_easyship_test'
+
+function sign(claims: Record<string, unknown>, secret = SECRET): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url')
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url')
+  return `${header}.${payload}.${hmac(secret, `${header}.${payload}`)}`
+}
+
+function headers(token: string): Headers {
+  return new Headers({ 'x-easyship-signature': token })
+}
+
+describe('tracking', () => {
+  beforeEach(() => {
+    process.env.EASYSHIP_WEBHOOK_SECRET = SECRET
+  })
+
+  describe('getTrackingAdapter', () => {
+    it('should find the Easyship adapter', () => {
+      expect(getTrackingAdapter('easyship')).toBe(easyshipTrackingAdapter)
+    })
+
+    it('should return null for unknown providers', () => {
+      expect(getTrackingAdapter('carrier-pigeon')).toBeNull()
+    })
+  })
+
+  describe('easyship verify', () => {
+    const body = '{"event_type":"shipment.tracking.status.changed"}'
+
+    it('should accept a token signed with the webhook secret', () => {
+      expect(easyshipTrackingAdapter.verify(body, headers(sign({ easyship: 'webhook' })))).toBe(true)
+    })
+
+    it('should reject a token signed with another secret', () => {
+      expect(easyshipTrackingAdapter.verify(body, headers(sign({}, 'other')))).toBe(false)
+    })
+
+    it('should reject missing signatures and secrets', () => {
+      expect(easyshipTrackingAdapter.verify(body, new Headers())).toBe(false)
+      delete process.env.EASYSHIP_WEBHOOK_SECRET
+      expect(easyshipTrackingAdapter.verify(body, headers(sign({})))).toBe(false)
+    })
+
+    it('should reject expired tokens', () => {
+      expect(easyshipTrackingAdapter.verify(body, headers(sign({ exp: 1 })))).toBe(false)
+    })
+  })
+
+  describe('easyship parse', () => {
+    it('should map a delivered status change', () => {
+      const [update] = easyshipTrackingAdapter.parse(JSON.stringify({
+        event_type: 'shipment.tracking.status.changed',
+        resource_id: 'ESCA10000001',
+        tracking_status: { easyship_shipment_id: 'ESCA10000001', tracking_number: '1Z999', status: 'Delivered' },
+      }))
+      expect(update).toMatchObject({
+        eventKey: 'easyship:ESCA10000001:status:Delivered',
+        shipmentId: 'ESCA10000001',
+        trackingNumber: '1Z999',
+        status: 'delivered',
+      })
+    })
+
+    it('should treat in transit and out for delivery as shipped', () => {
+      for (const status of ['In Transit', 'Out for Delivery']) {
+        const [update] = easyshipTrackingAdapter.parse(JSON.stringify({
+          event_type: 'shipment.tracking.status.changed',
+          tracking_status: { easyship_shipment_id: 'ESCA10000001', status },
+        }))
+        expect(update.status).toBe('shipped')
+      }
+    })
+
+    it('should record other statuses as checkpoints', () => {
+      const [update] = easyshipTrackingAdapter.parse(JSON.stringify({
+        event_type: 'shipment.tracking.status.changed',
+        tracking_status: { easyship_shipment_id: 'ESCA10000001', status: 'Exception' },
+      }))
+      expect(update.status).toBeNull()
+    })
+
+    it('should read each checkpoint with its time and location', () => {
+      const updates = easyshipTrackingAdapter.parse(JSON.stringify({
+        event_type: 'shipment.tracking.checkpoints.created',
+        tracking: {
+          easyship_shipment_id: 'ESCA10000001',
+          tracking_number: '1Z999',
+          checkpoints: [
+            { checkpoint_time: '2025-08-30T10:00:00Z', message: 'Departed facility', location: 'Toronto, ON', primary_status: 'In Transit' },
+            { checkpoint_time: '2025-08-31T09:00:00Z', message: 'Arrived at facility', location: 'Montreal, QC', primary_status: null },
+          ],
+        },
+      }))
+      expect(updates).toHaveLength(2)
+      expect(updates[0]).toMatchObject({ status: 'shipped', description: 'Departed facility', location: 'Toronto, ON', occurredAt: '2025-08-30T10:00:00Z' })
+      expect(updates[1]).toMatchObject({ status: null, description: 'Arrived at facility' })
+      expect(updates[0].eventKey).not.toBe(updates[1].eventKey)
+    })
+
+    it('should ignore events that are not about tracking', () => {
+      expect(easyshipTrackingAdapter.parse(JSON.stringify({ event_type: 'shipment.label.created' }))).toEqual([])
+    })
+  })
+})
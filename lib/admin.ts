@@ -0,0 +1,24 @@
+/**
+ * Admin checks
+ * Admins are the accounts whose marketplace profile has is_admin set; the
+ * flag is only writable with the service role.
+ */
+
+import { supabaseAdmin } from './supabase-admin';
+
+/**
+ * Whether the user is an admin. Lookup failures count as not an admin.
+ */
+export async function isAdmin(userId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('mkt_profiles')
+    .select('is_admin')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Admin lookup failed:', error.message);
+    return false;
+  }
+  return data?.is_admin === true;
+}
@@ -0,0 +1,206 @@
+/**
+ * Composable pipeline for App Router API routes
+ * defineRoute wires rate limiting, CSRF, Supabase auth, JSON body validation
+ * and error handling in a fixed order, so every route answers with the same
+ * error envelope: { success: false, error, code, correlationId, details? }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import Stripe from 'stripe';
+import type { User } from '@supabase/supabase-js';
+import { ZodError, ZodType, ZodTypeDef } from 'zod';
+import { createRateLimiter, rateLimitExceededResponse, RateLimitConfig } from './rate-limiter';
+import { isCsrfExempt, rotateCsrfTokenIfStale, validateCsrf } from './csrf';
+import { getRequestUser } from './get-request-user';
+
+const CORRELATION_HEADER = 'x-correlation-id';
+
+/**
+ * Throw from a handler to return a structured error response
+ */
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+type AuthMode = 'required' | 'optional' | 'none';
+
+export interface RouteContext<TBody, TParams, TAuth extends AuthMode> {
+  req: NextRequest;
+  body: TBody;
+  params: TParams;
+  user: TAuth extends 'required' ? User : User | null;
+  correlationId: string;
+}
+
+interface RouteDefinition<TBody, TParams, TAuth extends AuthMode> {
+  auth?: TAuth;  // Defaults to 'none'
+  csrf?: boolean;  // Validate the signed double-submit token on unsafe methods
+  rateLimit?: RateLimitConfig;
+  body?: ZodType<TBody, ZodTypeDef, unknown>;
+  /** Maps the first invalid top-level field to an error code clients already know */
+  bodyErrorCodes?: Record<string, string>;
+  handler: (ctx: RouteContext<TBody, TParams, TAuth>) => Promise<NextResponse>;
+}
+
+/**
+ * Build a JSON error response in the shared envelope
+ */
+export function errorResponse(
+  status: number,
+  code: string,
+  message: string,
+  correlationId: string,
+  details?: unknown
+): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: message,
+      code,
+      correlationId,
+      ...(details !== undefined && { details }),
+    },
+    { status }
+  );
+}
+
+function getCorrelationId(req: NextRequest): string {
+  const incoming = req.headers.get(CORRELATION_HEADER) || req.headers.get('x-request-id');
+  // Only accept short, printable ids from upstream
+  return incoming && /^[\w.-]{1,128}$/.test(incoming) ? incoming : crypto.randomUUID();
+}
+
+function toErrorResponse(error: unknown, correlationId: string, route: string): NextResponse {
+  if (error instanceof ApiError) {
+    return errorResponse(error.status, error.code, error.message, correlationId, error.details);
+  }
+
+  if (error instanceof Stripe.errors.StripeError) {
+    console.error(`[${correlationId}] Stripe error in ${route}:`, error.message);
+    return errorResponse(502, 'STRIPE_ERROR', 'Payment processing error', correlationId);
+  }
+
+  // Never leak internal messages; the correlation id ties the client report to the log
+  console.error(`[${correlationId}] Unhandled error in ${route}:`, error);
+  return errorResponse(500, 'INTERNAL_ERROR', 'Something went wrong. Please try again.', correlationId);
+}
+
+async function parseBody<TBody>(
+  req: NextRequest,
+  schema: ZodType<TBody, ZodTypeDef, unknown>,
+  errorCodes: Record<string, string> = {}
+): Promise<TBody> {
+  let raw: unknown;
+  try {
+    raw = await req.json();
+  } catch {
+    throw new ApiError(400, 'INVALID_JSON', 'Invalid JSON in request body');
+  }
+
+  try {
+    return schema.parse(raw);
+  } catch (error) {
+    if (!(error instanceof ZodError)) throw error;
+
+    const first = error.issues[0];
+    const field = first?.path[0];
+    const code = (typeof field === 'string' && errorCodes[field]) || 'VALIDATION_FAILED';
+    const issues = error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+
+    throw new ApiError(400, code, first?.message || 'Invalid request body', issues);
+  }
+}
+
+/**
+ * Define an API route handler
+ * Order: correlation id → rate limit → CSRF → auth → body → handler
+ * @example
+ * export const POST = defineRoute({
+ *   auth: 'required',
+ *   csrf: true,
+ *   rateLimit: RateLimitConfigs.checkout,
+ *   body: z.object({ usd: z.number() }),
+ *   handler: async ({ body, user }) => NextResponse.json({ ok: true }),
+ * })
+ */
+export function defineRoute<TBody = undefined, TParams = Record<string, never>, TAuth extends AuthMode = 'none'>(
+  definition: RouteDefinition<TBody, TParams, TAuth>
+) {
+  const limiter = definition.rateLimit ? createRateLimiter(definition.rateLimit) : null;
+
+  return async function routeHandler(
+    req: NextRequest,
+    context?: { params: Promise<TParams> }
+  ): Promise<NextResponse> {
+    const correlationId = getCorrelationId(req);
+    const route = `${req.method} ${req.nextUrl.pathname}`;
+
+    const respond = (response: NextResponse) => {
+      response.headers.set(CORRELATION_HEADER, correlationId);
+      return response;
+    };
+
+    // Rate limiting
+    const hit = limiter ? await limiter.check(req) : null;
+    if (limiter && hit && !hit.decision.allowed) {
+      return respond(rateLimitExceededResponse(hit.decision, limiter.message, { success: false, correlationId }));
+    }
+
+    let response: NextResponse;
+    let csrfIssuedAt: number | null = null;
+
+    try {
+      // CSRF
+      if (definition.csrf && !isCsrfExempt(req)) {
+        const check = await validateCsrf(req);
+        if (!check.valid) {
+          console.warn(`[${correlationId}] CSRF validation failed:`, check.reason, route);
+          throw new ApiError(403, 'CSRF_INVALID', 'CSRF validation failed');
+        }
+        csrfIssuedAt = check.issuedAt;
+      }
+
+      // Auth
+      const auth = definition.auth ?? 'none';
+      const user = auth === 'none' ? null : await getRequestUser(req);
+      if (auth === 'required' && !user) {
+        throw new ApiError(401, 'UNAUTHORIZED', 'Not authenticated');
+      }
+
+      // Body
+      const body = definition.body
+        ? await parseBody(req, definition.body, definition.bodyErrorCodes)
+        : (undefined as TBody);
+
+      const params = context?.params ? await context.params : ({} as TParams);
+
+      response = await definition.handler({
+        req,
+        body,
+        params,
+        user: user as RouteContext<TBody, TParams, TAuth>['user'],
+        correlationId,
+      });
+    } catch (error) {
+      response = toErrorResponse(error, correlationId, route);
+    }
+
+    if (csrfIssuedAt !== null && response.status < 400) {
+      response = await rotateCsrfTokenIfStale(req, response, csrfIssuedAt);
+    }
+    if (limiter && hit) {
+      response = await limiter.finish(hit, response);
+    }
+
+    return respond(response);
+  };
+}
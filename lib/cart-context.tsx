@@ -1,6 +1,7 @@
 "use client"
 
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'
+import { CartLine, DEFAULT_PRICE_LIST, PriceTier, priceCart } from './pricing'
 
 // Types for cart items
 export type CardFinish = 'matte' | 'rainbow' | 'gloss'
@@ -12,10 +13,21 @@ export interface CartItemBase {
   displayCaseQuantity: number
   pricePerUnit: number
   displayCasePricePerUnit?: number
+  pricing?: CartItemPricing  // Missing on items added before lib/pricing
+}
+
+// What the item was priced from, so totals follow quantity changes. Checkout
+// reprices from the server catalogue regardless.
+export interface CartItemPricing {
+  baseUnitCents: number
+  tiers: PriceTier[]
+  surchargeCents: number
+  displayCaseCents: number
 }
 
 export interface LimitedEditionCartItem extends CartItemBase {
   type: 'limited-edition'
+  dropId?: string  // Items added before drops belong to the original drop
   name: string
   image: string
 }
@@ -30,10 +42,43 @@ export interface CustomCardCartItem extends CartItemBase {
 
 export type CartItem = LimitedEditionCartItem | CustomCardCartItem
 
+// What addItem takes; Omit on each member keeps type-specific fields
+export type NewCartItem = Omit<LimitedEditionCartItem, 'id'> | Omit<CustomCardCartItem, 'id'>
+
+/**
+ * Price lines for an item: the cards, then its display cases if included
+ */
+export function cartItemLines(item: CartItem): CartLine[] {
+  const pricing = item.pricing ?? {
+    baseUnitCents: Math.round(item.pricePerUnit * 100),
+    tiers: [],
+    surchargeCents: 0,
+    displayCaseCents: Math.round((item.displayCasePricePerUnit ?? DEFAULT_PRICE_LIST.displayCaseCents / 100) * 100),
+  }
+
+  const lines: CartLine[] = [{
+    kind: item.type,
+    quantity: item.quantity,
+    baseUnitCents: pricing.baseUnitCents,
+    tiers: pricing.tiers,
+    surchargeCents: pricing.surchargeCents,
+  }]
+  if (item.includeDisplayCase) {
+    lines.push({
+      kind: 'display-case',
+      quantity: item.displayCaseQuantity,
+      baseUnitCents: pricing.displayCaseCents,
+      tiers: [],
+      surchargeCents: 0,
+    })
+  }
+  return lines
+}
+
 // Cart context type
 interface CartContextType {
   items: CartItem[]
-  addItem: (item: Omit<CartItem, 'id'>) => void
+  addItem: (item: NewCartItem) => void
   removeItem: (id: string) => void
   updateItem: (id: string, updates: Partial<CartItem>) => void
   clearCart: () => void
@@ -83,15 +128,16 @@ export function CartProvider({ children }: { children: ReactNode }) {
   }, [items, isLoading])
 
   // Add item to cart
-  const addItem = useCallback((item: Omit<CartItem, 'id'>) => {
+  const addItem = useCallback((item: NewCartItem) => {
     const id = `${item.type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
     const newItem = { ...item, id } as CartItem
     
     setItems(prevItems => {
-      // For limited edition, check if item already exists and update quantity
+      // For limited edition, check if the drop is already in the cart and update quantity
       if (item.type === 'limited-edition') {
         const existingIndex = prevItems.findIndex(
           i => i.type === 'limited-edition' && 
+              i.dropId === item.dropId &&
               i.includeDisplayCase === item.includeDisplayCase
         )
         
@@ -123,7 +169,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
   // Update item in cart
   const updateItem = useCallback((id: string, updates: Partial<CartItem>) => {
     setItems(prevItems => prevItems.map(item => 
-      item.id === id ? { ...item, ...updates } : item
+      item.id === id ? { ...item, ...updates } as CartItem : item
     ))
   }, [])
 
@@ -144,13 +190,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
 
   // Calculate subtotal
   const getSubtotal = useCallback(() => {
-    return items.reduce((total, item) => {
-      const itemTotal = item.pricePerUnit * item.quantity
-      const displayCaseTotal = item.includeDisplayCase && item.displayCasePricePerUnit
-        ? item.displayCasePricePerUnit * item.displayCaseQuantity
-        : 0
-      return total + itemTotal + displayCaseTotal
-    }, 0)
+    return priceCart(items.flatMap(cartItemLines)).itemsCents / 100
   }, [items])
 
   const value: CartContextType = {
@@ -0,0 +1,107 @@
+/**
+ * Product catalogue
+ * The Stripe products for display cases and custom cards, and the price list
+ * (lib/pricing.ts) built from their metadata. /api/inventory shows these
+ * prices and checkout charges them, so both read them from here.
+ */
+
+import Stripe from 'stripe';
+import { getStripeServer } from './stripe';
+import { DEFAULT_DROP_ID, getDrop } from './drops';
+import { CartLine, customCardLine, DEFAULT_PRICE_LIST, displayCaseLine, limitedEditionLine, PriceList } from './pricing';
+
+export const CatalogProductIds = {
+  displayCase: 'prod_acrylic_display_case',
+  customCard: 'prod_custom_card',
+} as const;
+
+// A cart entry as the clients send it; prices are never taken from the client
+export interface CatalogItem {
+  productId: string;  // 'limited-edition-card' | 'custom-card' | 'display-case'
+  dropId?: string | null;
+  quantity: number;
+  cardFinish?: string | null;
+}
+
+export interface Catalog {
+  priceList: PriceList;
+  displayCaseProduct: Stripe.Product;
+  customCardProduct: Stripe.Product;
+}
+
+/**
+ * Retrieve a product, creating it on first use
+ */
+async function ensureProduct(
+  stripe: Stripe,
+  id: string,
+  params: Omit<Stripe.ProductCreateParams, 'id'>
+): Promise<Stripe.Product> {
+  try {
+    return await stripe.products.retrieve(id);
+  } catch {
+    console.log(`Creating ${id} product...`);
+    return stripe.products.create({ id, ...params });
+  }
+}
+
+function metadataCents(product: Stripe.Product, fallback: number): number {
+  const cents = parseInt(product.metadata.price_per_unit ?? '', 10);
+  return Number.isInteger(cents) && cents > 0 ? cents : fallback;
+}
+
+export async function getCatalog(): Promise<Catalog> {
+  const stripe = getStripeServer('platform');
+
+  const [displayCaseProduct, customCardProduct] = await Promise.all([
+    ensureProduct(stripe, CatalogProductIds.displayCase, {
+      name: 'Acrylic Display Case',
+      description: 'Premium acrylic display case for collectible cards',
+      images: ['https://your-domain.com/display_case.webp'], // Update with actual domain
+      metadata: {
+        price_per_unit: DEFAULT_PRICE_LIST.displayCaseCents.toString(),
+        created_at: new Date().toISOString(),
+        type: 'display_case',
+      },
+    }),
+    ensureProduct(stripe, CatalogProductIds.customCard, {
+      name: 'Custom Cardify Card',
+      description: 'Custom trading card with your own artwork',
+      images: ['https://your-domain.com/custom_card_placeholder.webp'], // Update with actual domain
+      metadata: {
+        price_per_unit: DEFAULT_PRICE_LIST.customCardCents.toString(),
+        created_at: new Date().toISOString(),
+        type: 'custom_card',
+      },
+    }),
+  ]);
+
+  return {
+    priceList: {
+      ...DEFAULT_PRICE_LIST,
+      displayCaseCents: metadataCents(displayCaseProduct, DEFAULT_PRICE_LIST.displayCaseCents),
+      customCardCents: metadataCents(customCardProduct, DEFAULT_PRICE_LIST.customCardCents),
+    },
+    displayCaseProduct,
+    customCardProduct,
+  };
+}
+
+/**
+ * Price lines for cart entries at catalogue prices. Unknown products and
+ * drops are skipped; checkout rejects them separately.
+ */
+export async function catalogLines(catalog: Catalog, items: CatalogItem[]): Promise<CartLine[]> {
+  const lines: CartLine[] = [];
+  for (const item of items) {
+    if (item.productId === 'limited-edition-card') {
+      const drop = await getDrop(item.dropId || DEFAULT_DROP_ID);
+      if (drop) lines.push(limitedEditionLine(drop, item.quantity));
+    } else if (item.productId === 'custom-card') {
+      lines.push(customCardLine(catalog.priceList, item.cardFinish, item.quantity));
+    } else if (item.productId === 'display-case') {
+      lines.push(displayCaseLine(catalog.priceList, item.quantity));
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,127 @@
+/**
+ * Credit packs and promo codes
+ * Packs live in the credit_packs table so /credits and /api/credits/checkout
+ * price from the same source. Promo codes grant free credits through the
+ * ledger (redeem_promo_code RPC) without a Stripe payment.
+ */
+
+import { supabaseAdmin } from './supabase-admin';
+
+export interface CreditPack {
+  id: string;
+  usd: number;
+  baseCredits: number;
+  bonusPercent: number;
+  bonusCredits: number;
+  credits: number;  // baseCredits + bonusCredits
+  tag: string | null;
+  expiresAt: string | null;
+}
+
+interface CreditPackRow {
+  id: string;
+  usd: number;
+  credits: number;
+  bonus_percent: number;
+  tag: string | null;
+  expires_at: string | null;
+}
+
+export type PromoErrorCode = 'PROMO_NOT_FOUND' | 'PROMO_EXPIRED' | 'PROMO_EXHAUSTED' | 'PROMO_ALREADY_REDEEMED';
+
+export class PromoCodeError extends Error {
+  constructor(public code: PromoErrorCode, message: string) {
+    super(message);
+    this.name = 'PromoCodeError';
+  }
+}
+
+const PROMO_ERRORS: Record<string, [PromoErrorCode, string]> = {
+  promo_not_found: ['PROMO_NOT_FOUND', 'That promo code is not valid'],
+  promo_expired: ['PROMO_EXPIRED', 'That promo code has expired'],
+  promo_exhausted: ['PROMO_EXHAUSTED', 'That promo code has been fully redeemed'],
+  promo_already_redeemed: ['PROMO_ALREADY_REDEEMED', 'You have already redeemed that promo code'],
+};
+
+/**
+ * Bonus credits for a pack, rounded down
+ */
+export function bonusCreditsFor(baseCredits: number, bonusPercent: number): number {
+  return Math.floor((baseCredits * bonusPercent) / 100);
+}
+
+function toPack(row: CreditPackRow): CreditPack {
+  const bonusCredits = bonusCreditsFor(row.credits, row.bonus_percent);
+  return {
+    id: row.id,
+    usd: row.usd,
+    baseCredits: row.credits,
+    bonusPercent: row.bonus_percent,
+    bonusCredits,
+    credits: row.credits + bonusCredits,
+    tag: row.tag,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * Packs currently on sale, in display order
+ */
+export async function listCreditPacks(): Promise<CreditPack[]> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('credit_packs')
+    .select('id, usd, credits, bonus_percent, tag, expires_at')
+    .eq('active', true)
+    .or(`starts_at.is.null,starts_at.lte."${now}"`)
+    .or(`expires_at.is.null,expires_at.gt."${now}"`)
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load credit packs: ${error.message}`);
+  }
+
+  return (data ?? []).map(toPack);
+}
+
+/**
+ * A pack that is currently on sale, or null
+ */
+export async function getCreditPack(id: string): Promise<CreditPack | null> {
+  const packs = await listCreditPacks();
+  return packs.find(pack => pack.id === id) ?? null;
+}
+
+/**
+ * Credits to grant for a completed credits_purchase Checkout Session.
+ * `credits` is the base amount; `bonusCredits` was recorded at checkout time
+ * so later pack changes don't affect sessions already paid for.
+ */
+export function creditsFromMetadata(metadata: Record<string, string | undefined>): { base: number; bonus: number; total: number } {
+  const base = parseInt(metadata.credits ?? '0', 10) || 0;
+  const bonus = Math.max(parseInt(metadata.bonusCredits ?? '0', 10) || 0, 0);
+  return { base, bonus, total: base > 0 ? base + bonus : 0 };
+}
+
+/**
+ * Redeem a promo code for a user; throws PromoCodeError for invalid codes
+ */
+export async function redeemPromoCode(userId: string, code: string): Promise<{ credits: number; balance: number }> {
+  const { data, error } = await supabaseAdmin
+    .rpc('redeem_promo_code', { p_code: code, p_user_id: userId })
+    .single<{ credits: number; balance: number }>();
+
+  if (error) {
+    const known = Object.keys(PROMO_ERRORS).find(key => error.message.includes(key));
+    if (known) {
+      const [promoCode, message] = PROMO_ERRORS[known];
+      throw new PromoCodeError(promoCode, message);
+    }
+    throw new Error(`Failed to redeem promo code: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error('Failed to redeem promo code: no result');
+  }
+
+  return data;
+}
@@ -0,0 +1,293 @@
+/**
+ * Credits ledger
+ * Every change to a user's credits is one append-only credits_ledger row with a
+ * unique idempotency key; mkt_profiles.credits is a projection kept in step by
+ * the credits_apply() RPC (supabase/migrations/20250819_credits_ledger.sql).
+ */
+
+import { supabaseAdmin } from './supabase-admin';
+
+export type LedgerReason = 'purchase' | 'spend' | 'refund' | 'promo' | 'adjustment';
+
+export const LEDGER_REASONS: LedgerReason[] = ['purchase', 'spend', 'refund', 'promo', 'adjustment'];
+
+export interface LedgerEntryInput {
+  userId: string;
+  delta: number;  // Positive grants, negative spends
+  reason: LedgerReason;
+  idempotencyKey: string;  // Replays with the same key are no-ops
+  paymentIntent?: string;
+  amountCents?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface LedgerResult {
+  entryId: string;
+  balance: number;
+  applied: boolean;  // False when the idempotency key was already recorded
+}
+
+export interface CreditDrift {
+  userId: string;
+  projectedBalance: number;
+  ledgerBalance: number;
+  drift: number;
+}
+
+export class InsufficientCreditsError extends Error {
+  constructor() {
+    super('insufficient_credits');
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+export class InvalidHistoryCursorError extends Error {
+  constructor() {
+    super('Invalid history cursor');
+    this.name = 'InvalidHistoryCursorError';
+  }
+}
+
+/**
+ * Idempotency keys for the events we record. One business event, one key.
+ */
+export const LedgerKeys = {
+  purchase: (paymentIntent: string) => `purchase:${paymentIntent}`,
+  upload: (uploadedImageId: string) => `upload:${uploadedImageId}`,
+  refund: (chargeOrRefundId: string) => `refund:${chargeOrRefundId}`,
+  dispute: (disputeId: string) => `dispute:${disputeId}`,
+  promo: (code: string, userId: string) => `promo:${code}:${userId}`,
+  adjustment: (reference: string) => `adjustment:${reference}`,
+};
+
+/**
+ * Append one ledger entry and update the balance atomically
+ */
+export async function applyCredits(input: LedgerEntryInput): Promise<LedgerResult> {
+  if (!Number.isInteger(input.delta) || input.delta === 0) {
+    throw new Error(`Invalid credit delta: ${input.delta}`);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .rpc('credits_apply', {
+      p_user_id: input.userId,
+      p_delta: input.delta,
+      p_reason: input.reason,
+      p_idempotency_key: input.idempotencyKey,
+      p_payment_intent: input.paymentIntent ?? null,
+      p_amount_cents: input.amountCents ?? null,
+      p_metadata: input.metadata ?? {},
+    })
+    .single<{ entry_id: string; balance: number; applied: boolean }>();
+
+  if (error) {
+    if (error.message.includes('insufficient_credits')) {
+      throw new InsufficientCreditsError();
+    }
+    throw new Error(`Failed to apply credits: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error('Failed to apply credits: no result');
+  }
+
+  return { entryId: data.entry_id, balance: data.balance, applied: data.applied };
+}
+
+/**
+ * Recompute every balance from the ledger and report users whose projection
+ * has drifted. With `fix`, the projection is rewritten from the ledger.
+ */
+export async function reconcileCredits(options: { fix?: boolean } = {}): Promise<CreditDrift[]> {
+  const { data, error } = await supabaseAdmin.rpc('credits_reconcile', { p_fix: options.fix ?? false });
+
+  if (error) {
+    throw new Error(`Failed to reconcile credits: ${error.message}`);
+  }
+
+  return (data ?? []).map((row: { user_id: string; projected_balance: number; ledger_balance: number; drift: number }) => ({
+    userId: row.user_id,
+    projectedBalance: row.projected_balance,
+    ledgerBalance: row.ledger_balance,
+    drift: row.drift,
+  }));
+}
+
+export interface ClawbackInput {
+  paymentIntent: string;  // The purchase being reversed
+  refundedCents: number;  // Cumulative amount refunded or disputed on the charge
+  idempotencyKey: string;  // LedgerKeys.refund / LedgerKeys.dispute
+  metadata?: Record<string, unknown>;
+}
+
+export interface ClawbackResult extends LedgerResult {
+  userId: string;
+  credits: number;  // Credits taken back by this entry (negative)
+  overdrawn: boolean;  // Balance is now below zero and the profile is flagged
+}
+
+/**
+ * Take back the credits bought with a refunded or disputed payment, in
+ * proportion to the amount returned. Entries already recorded against the
+ * payment count towards the total, so a partial refund followed by a full one
+ * never reverses more than was granted. The credits_clawback() RPC reads those
+ * entries and appends the new one under a per-payment lock, so concurrent
+ * refund and dispute events can't both reverse the full amount. The balance
+ * may go negative. Returns null when the payment was not a credits purchase
+ * or nothing is left to reverse.
+ */
+export async function clawbackPurchaseCredits(input: ClawbackInput): Promise<ClawbackResult | null> {
+  const { data, error } = await supabaseAdmin
+    .rpc('credits_clawback', {
+      p_payment_intent: input.paymentIntent,
+      p_refunded_cents: input.refundedCents,
+      p_idempotency_key: input.idempotencyKey,
+      p_metadata: input.metadata ?? {},
+    })
+    .maybeSingle<{ user_id: string; credits: number; entry_id: string; balance: number; applied: boolean }>();
+
+  if (error) {
+    throw new Error(`Failed to claw back credits: ${error.message}`);
+  }
+  if (!data) return null;
+
+  return {
+    entryId: data.entry_id,
+    balance: data.balance,
+    applied: data.applied,
+    userId: data.user_id,
+    credits: data.credits,
+    overdrawn: data.balance < 0,
+  };
+}
+
+/**
+ * The cumulative amount to claw back for when a charge is disputed: what was
+ * already refunded on it plus the disputed amount, capped at the charge.
+ * clawbackPurchaseCredits counts earlier refunds towards its total, so the
+ * disputed amount on its own would leave a partly refunded buyer with
+ * credits they were paid back for.
+ */
+export function disputedCents(charge: { amount: number; amount_refunded: number }, disputeCents: number): number {
+  return Math.min(charge.amount, charge.amount_refunded + disputeCents);
+}
+
+export interface LedgerHistoryQuery {
+  reasons?: LedgerReason[];  // Defaults to all
+  from?: string;  // ISO timestamp, inclusive
+  to?: string;  // ISO timestamp, exclusive
+  cursor?: string | null;  // nextCursor from the previous page
+  limit?: number;
+}
+
+export interface LedgerHistoryEntry {
+  id: string;
+  reason: LedgerReason;
+  credits: number;
+  balanceAfter: number | null;
+  createdAt: string;
+  paymentIntent: string | null;
+  amountCents: number | null;
+  metadata: Record<string, unknown>;
+  upload: { id: string; imageUrl: string } | null;  // The uploaded_images row a spend paid for
+}
+
+export interface LedgerHistoryPage {
+  entries: LedgerHistoryEntry[];
+  nextCursor: string | null;
+}
+
+interface LedgerRow {
+  id: string;
+  reason: LedgerReason;
+  credits: number;
+  balance_after: number | null;
+  created_at: string;
+  payment_intent: string | null;
+  amount_cents: number | null;
+  metadata: Record<string, unknown> | null;
+}
+
+const MAX_HISTORY_PAGE = 100;
+
+function encodeCursor(row: LedgerRow): string {
+  return Buffer.from(`${row.created_at}|${row.id}`).toString('base64url');
+}
+
+// Cursor parts end up inside a PostgREST filter, so only accept exact shapes
+const CURSOR_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/;
+const CURSOR_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function decodeCursor(cursor: string): { createdAt: string; id: string } | null {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString().split('|');
+  if (!CURSOR_TIMESTAMP.test(createdAt ?? '') || !CURSOR_ID.test(id ?? '')) return null;
+  return { createdAt, id };
+}
+
+/**
+ * One page of a user's ledger, newest first. Pages are keyed on
+ * (created_at, id) so new entries never shift later pages.
+ */
+export async function listLedgerEntries(userId: string, query: LedgerHistoryQuery = {}): Promise<LedgerHistoryPage> {
+  const limit = Math.min(Math.max(query.limit ?? 25, 1), MAX_HISTORY_PAGE);
+
+  let request = supabaseAdmin
+    .from('credits_ledger')
+    .select('id, reason, credits, balance_after, created_at, payment_intent, amount_cents, metadata')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (query.reasons?.length) request = request.in('reason', query.reasons);
+  if (query.from) request = request.gte('created_at', query.from);
+  if (query.to) request = request.lt('created_at', query.to);
+
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor);
+    if (!cursor) throw new InvalidHistoryCursorError();
+    request = request.or(
+      `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+    );
+  }
+
+  const { data, error } = await request;
+  if (error) {
+    throw new Error(`Failed to read credits history: ${error.message}`);
+  }
+
+  const rows = (data ?? []) as LedgerRow[];
+  const page = rows.slice(0, limit);
+
+  // Attach the image each spend paid for (rows may since have been deleted)
+  const uploadIds = page
+    .map(row => row.metadata?.uploaded_image_id)
+    .filter((id): id is string => typeof id === 'string');
+  const imageUrls = new Map<string, string>();
+  if (uploadIds.length > 0) {
+    const { data: images } = await supabaseAdmin
+      .from('uploaded_images')
+      .select('id, image_url')
+      .in('id', uploadIds);
+    for (const image of images ?? []) imageUrls.set(image.id, image.image_url);
+  }
+
+  return {
+    entries: page.map(row => {
+      const uploadId = row.metadata?.uploaded_image_id;
+      return {
+        id: row.id,
+        reason: row.reason,
+        credits: row.credits,
+        balanceAfter: row.balance_after,
+        createdAt: row.created_at,
+        paymentIntent: row.payment_intent,
+        amountCents: row.amount_cents,
+        metadata: row.metadata ?? {},
+        upload: typeof uploadId === 'string' && imageUrls.has(uploadId)
+          ? { id: uploadId, imageUrl: imageUrls.get(uploadId)! }
+          : null,
+      };
+    }),
+    nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
@@ -50,9 +50,9 @@ async function fetchNewToken(): Promise<string> {
       throw new Error('CSRF token not found in response');
     }
 
-    // Update in-memory cache
+    // Update in-memory cache (server tells us the lifetime in seconds)
     csrfToken = data.csrfToken;
-    tokenExpiry = Date.now() + MAX_AGE;
+    tokenExpiry = Date.now() + (typeof data.expiresIn === 'number' ? data.expiresIn * 1000 : MAX_AGE);
     
     return data.csrfToken;
   } catch (error) {
@@ -108,9 +108,38 @@ export async function createCSRFHeaders(
   };
 }
 
+/**
+ * Pick up a token the server rotated on a successful request
+ * @param response - Response from a CSRF-protected endpoint
+ */
+function captureRotatedToken(response: Response): void {
+  const rotated = response.headers.get('X-CSRF-Token');
+  if (rotated) {
+    csrfToken = rotated;
+    tokenExpiry = Date.now() + MAX_AGE;
+  }
+}
+
+/**
+ * Build request options carrying the current CSRF token
+ */
+async function withCsrfHeaders(options: RequestInit): Promise<RequestInit> {
+  const extra = options.headers ? Object.fromEntries(new Headers(options.headers)) : {};
+  const headers = await createCSRFHeaders(extra);
+
+  // Let the browser set the multipart boundary for FormData bodies
+  if (options.body instanceof FormData && !extra['content-type']) {
+    delete headers['Content-Type'];
+  }
+
+  return { ...options, headers, credentials: 'same-origin' };
+}
+
 /**
  * Enhanced fetch wrapper that automatically includes CSRF token
- * For POST, PUT, DELETE, PATCH requests
+ * For POST, PUT, DELETE, PATCH requests. Retries once with a fresh token
+ * when the server rejects the current one (expired, or bound to a session
+ * that changed, e.g. after signing in).
  * @param url - Request URL
  * @param options - Fetch options
  * @returns Promise resolving to fetch response
@@ -122,16 +151,24 @@ export async function csrfFetch(
   const method = options.method?.toUpperCase() || 'GET';
   const requiresCSRF = ['POST', 'PUT', 'DELETE', 'PATCH'].includes(method);
   
-  if (requiresCSRF) {
-    const headers = await createCSRFHeaders(
-      options.headers ? Object.fromEntries(new Headers(options.headers)) : {}
-    );
-    
-    options.headers = headers;
-    options.credentials = 'same-origin'; // Include cookies
+  if (!requiresCSRF) {
+    return fetch(url, options);
   }
-  
-  return fetch(url, options);
+
+  const response = await fetch(url, await withCsrfHeaders(options));
+
+  if (response.status === 403) {
+    const body = await response.clone().json().catch(() => null);
+    if (body?.code === 'CSRF_INVALID') {
+      clearCsrfToken();
+      const retried = await fetch(url, await withCsrfHeaders(options));
+      captureRotatedToken(retried);
+      return retried;
+    }
+  }
+
+  captureRotatedToken(response);
+  return response;
 }
 
 /**
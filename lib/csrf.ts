@@ -1,133 +1,245 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+/**
+ * CSRF protection for App Router API routes
+ * Signed double-submit tokens: the token is set in an HttpOnly cookie and must
+ * be echoed in the X-CSRF-Token header. Each token carries an HMAC over its
+ * issue time and the caller's session/user binding, so a token minted for one
+ * browser session or account can't be replayed from another. Origin/Referer
+ * is checked as a second factor.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
 import crypto from 'crypto';
-import { serialize, parse } from 'cookie';
+import { getRequestUserId } from './get-request-user';
+import { getSigningSecret, hmac, safeEqual } from './signing';
 
 // CSRF token configuration
-const CSRF_TOKEN_LENGTH = 32; // 256 bits (32 bytes)
+const CSRF_NONCE_LENGTH = 32; // 256 bits (32 bytes)
 const CSRF_COOKIE_NAME = 'csrf_token';
+const CSRF_SESSION_COOKIE_NAME = 'csrf_session';
 const CSRF_HEADER_NAME = 'x-csrf-token';
 const TOKEN_MAX_AGE = 60 * 60; // 1 hour in seconds
+const TOKEN_ROTATE_AFTER = 30 * 60; // Re-issue on use once a token is half way through its life
+const SESSION_MAX_AGE = 60 * 60 * 24 * 7; // 1 week in seconds
 
-/**
- * Generate a cryptographically strong CSRF token
- * Uses Node.js crypto.randomBytes to ensure unpredictability
- * @returns A 64-character hex string (256 bits of entropy)
- */
-export function generateCsrfToken(): string {
-  return crypto.randomBytes(CSRF_TOKEN_LENGTH).toString('hex');
+const METHODS_REQUIRING_CSRF = ['POST', 'PUT', 'DELETE', 'PATCH'];
+
+function sign(payload: string): string {
+  return hmac(getSigningSecret('CSRF_SECRET'), payload);
 }
 
 /**
- * Set CSRF token in HTTP-only secure cookie
- * Configures cookie with appropriate security attributes
- * @param res - Next.js API response object
- * @returns The generated CSRF token
+ * Everything a token is bound to: the browser session cookie and, when signed
+ * in, the Supabase user id
  */
-export function setCsrfCookie(res: NextApiResponse): string {
-  const token = generateCsrfToken();
-  
-  const cookieOptions = {
+async function getBinding(req: NextRequest, sessionId: string): Promise<string> {
+  const userId = await getRequestUserId(req);
+  return `${sessionId}:${userId ?? 'anon'}`;
+}
+
+function cookieOptions(maxAge: number) {
+  return {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'strict' as const,
     path: '/',
-    maxAge: TOKEN_MAX_AGE,
+    maxAge,
   };
-  
-  res.setHeader('Set-Cookie', serialize(CSRF_COOKIE_NAME, token, cookieOptions));
-  
-  return token;
 }
 
 /**
- * Extract CSRF token from request cookies
- * @param req - Next.js API request object
- * @returns The CSRF token or null if not found
+ * Generate a signed CSRF token
+ * Format: `<issuedAt>.<nonce>.<hmac(issuedAt.nonce.binding)>`
  */
-export function getCsrfTokenFromCookies(req: NextApiRequest): string | null {
-  const cookies = parse(req.headers.cookie || '');
-  return cookies[CSRF_COOKIE_NAME] || null;
+export function generateCsrfToken(binding: string, issuedAt: number = Math.floor(Date.now() / 1000)): string {
+  const nonce = crypto.randomBytes(CSRF_NONCE_LENGTH).toString('base64url');
+  return `${issuedAt}.${nonce}.${sign(`${issuedAt}.${nonce}.${binding}`)}`;
 }
 
+type TokenCheck =
+  | { valid: true; issuedAt: number }
+  | { valid: false; reason: string };
+
 /**
- * Extract CSRF token from request headers
- * @param req - Next.js API request object
- * @returns The CSRF token or null if not found
+ * Verify a token's signature and age against a binding
  */
-export function getCsrfTokenFromHeaders(req: NextApiRequest): string | null {
-  return (req.headers[CSRF_HEADER_NAME] as string) || null;
+export function verifyCsrfToken(token: string, binding: string, now: number = Math.floor(Date.now() / 1000)): TokenCheck {
+  const [issuedAtRaw, nonce, signature] = token.split('.');
+  const issuedAt = Number(issuedAtRaw);
+
+  if (!nonce || !signature || !Number.isInteger(issuedAt)) {
+    return { valid: false, reason: 'malformed' };
+  }
+  if (issuedAt > now + 60 || now - issuedAt > TOKEN_MAX_AGE) {
+    return { valid: false, reason: 'expired' };
+  }
+  if (!safeEqual(signature, sign(`${issuedAt}.${nonce}.${binding}`))) {
+    return { valid: false, reason: 'bad_signature' };
+  }
+
+  return { valid: true, issuedAt };
 }
 
 /**
- * Validate CSRF token using constant-time comparison
- * Compares the token from cookies with the token from headers
- * @param req - Next.js API request object
- * @returns True if tokens match, false otherwise
+ * Origins this deployment answers on: the request's own host plus the
+ * configured site URL
  */
-export function validateCSRF(req: NextApiRequest): boolean {
-  const cookieToken = getCsrfTokenFromCookies(req);
-  const headerToken = getCsrfTokenFromHeaders(req);
-  
-  // Both tokens must be present
-  if (!cookieToken || !headerToken) {
-    return false;
+function allowedOrigins(req: NextRequest): Set<string> {
+  const origins = new Set<string>([req.nextUrl.origin]);
+
+  const forwardedHost = req.headers.get('x-forwarded-host');
+  if (forwardedHost) {
+    const proto = req.headers.get('x-forwarded-proto') || 'https';
+    origins.add(`${proto}://${forwardedHost}`);
   }
-  
-  // Both tokens must be the same length to prevent timing attacks
-  if (cookieToken.length !== headerToken.length) {
-    return false;
+
+  for (const url of [process.env.NEXT_PUBLIC_SITE_URL, process.env.SITE_URL]) {
+    if (!url) continue;
+    try {
+      origins.add(new URL(url).origin);
+    } catch {
+      // Ignore malformed config
+    }
   }
-  
+
+  return origins;
+}
+
+/**
+ * Second factor: the request must come from one of our own origins.
+ * Falls back to Referer when Origin is absent; rejects when both are.
+ */
+export function verifyOrigin(req: NextRequest): boolean {
+  const origin = req.headers.get('origin');
+  const referer = req.headers.get('referer');
+
+  let source: string | null = null;
   try {
-    // Use constant-time comparison to prevent timing attacks
-    return crypto.timingSafeEqual(
-      Buffer.from(cookieToken, 'hex'),
-      Buffer.from(headerToken, 'hex')
-    );
-  } catch (error) {
-    // If there's an error (e.g., invalid hex), tokens don't match
-    console.error('CSRF token validation error:', error);
+    if (origin && origin !== 'null') {
+      source = new URL(origin).origin;
+    } else if (referer) {
+      source = new URL(referer).origin;
+    }
+  } catch {
     return false;
   }
+
+  return source !== null && allowedOrigins(req).has(source);
+}
+
+/**
+ * Validate the double-submit token on a request
+ */
+export async function validateCsrf(req: NextRequest): Promise<TokenCheck> {
+  const cookieToken = req.cookies.get(CSRF_COOKIE_NAME)?.value;
+  const headerToken = req.headers.get(CSRF_HEADER_NAME);
+  const sessionId = req.cookies.get(CSRF_SESSION_COOKIE_NAME)?.value;
+
+  // Both tokens and the session must be present
+  if (!cookieToken || !headerToken || !sessionId) {
+    return { valid: false, reason: 'missing' };
+  }
+
+  if (!safeEqual(cookieToken, headerToken)) {
+    return { valid: false, reason: 'mismatch' };
+  }
+
+  if (!verifyOrigin(req)) {
+    return { valid: false, reason: 'origin' };
+  }
+
+  return verifyCsrfToken(headerToken, await getBinding(req, sessionId));
+}
+
+export interface IssuedCsrfToken {
+  token: string;
+  sessionId: string;
+  isNewSession: boolean;
+}
+
+/**
+ * Mint a token bound to the caller's session (creating one if needed)
+ */
+export async function issueCsrfToken(req: NextRequest): Promise<IssuedCsrfToken> {
+  const existing = req.cookies.get(CSRF_SESSION_COOKIE_NAME)?.value;
+  const sessionId = existing || crypto.randomBytes(CSRF_NONCE_LENGTH).toString('base64url');
+  const token = generateCsrfToken(await getBinding(req, sessionId));
+
+  return { token, sessionId, isNewSession: !existing };
 }
 
 /**
- * CSRF protection middleware for API routes
- * Validates CSRF tokens for state-changing HTTP methods
- * @param req - Next.js API request object
- * @param res - Next.js API response object
- * @param next - Optional callback to continue processing
- * @returns True if validation passes, false otherwise
+ * Set the token (and, for new sessions, the session) cookies on a response
  */
-export function csrfProtection(
-  req: NextApiRequest, 
-  res: NextApiResponse,
-  next?: () => void
-): boolean {
-  // Only validate CSRF for state-changing methods
-  const methodsRequiringCSRF = ['POST', 'PUT', 'DELETE', 'PATCH'];
-  
-  if (!methodsRequiringCSRF.includes(req.method || '')) {
-    if (next) next();
+export function setCsrfCookies(res: NextResponse, issued: IssuedCsrfToken): void {
+  if (issued.isNewSession) {
+    res.cookies.set(CSRF_SESSION_COOKIE_NAME, issued.sessionId, cookieOptions(SESSION_MAX_AGE));
+  }
+  res.cookies.set(CSRF_COOKIE_NAME, issued.token, cookieOptions(TOKEN_MAX_AGE));
+}
+
+/**
+ * Safe methods, and scripted requests in development (x-test-mode), skip CSRF
+ */
+export function isCsrfExempt(req: NextRequest): boolean {
+  if (!METHODS_REQUIRING_CSRF.includes(req.method)) {
     return true;
   }
-  
-  if (!validateCSRF(req)) {
-    res.status(403).json({ 
-      error: 'Invalid or missing CSRF token',
-      code: 'CSRF_VALIDATION_FAILED'
-    });
-    return false;
+
+  // Allow local scripted testing without a browser session
+  return process.env.NODE_ENV === 'development' && req.headers.get('x-test-mode') === 'true';
+}
+
+/**
+ * Re-issue a token that is past TOKEN_ROTATE_AFTER. The new token is set as a
+ * cookie and returned in the X-CSRF-Token response header (csrfFetch picks it up).
+ */
+export async function rotateCsrfTokenIfStale(
+  req: NextRequest,
+  response: NextResponse,
+  issuedAt: number
+): Promise<NextResponse> {
+  if (Math.floor(Date.now() / 1000) - issuedAt > TOKEN_ROTATE_AFTER) {
+    const rotated = await issueCsrfToken(req);
+    setCsrfCookies(response, rotated);
+    response.headers.set(CSRF_HEADER_NAME, rotated.token);
   }
-  
-  if (next) next();
-  return true;
+
+  return response;
+}
+
+/**
+ * Wrap an App Router handler with CSRF protection for state-changing methods
+ */
+export function withCsrf<C = unknown>(
+  handler: (req: NextRequest, context: C) => Promise<NextResponse>
+) {
+  return async function csrfProtectedHandler(req: NextRequest, context?: C): Promise<NextResponse> {
+    if (isCsrfExempt(req)) {
+      return handler(req, context as C);
+    }
+
+    const check = await validateCsrf(req);
+    if (!check.valid) {
+      console.warn('CSRF validation failed:', check.reason, req.nextUrl.pathname);
+      return NextResponse.json(
+        {
+          error: 'CSRF validation failed',
+          code: 'CSRF_INVALID',
+        },
+        { status: 403 }
+      );
+    }
+
+    const response = await handler(req, context as C);
+    return rotateCsrfTokenIfStale(req, response, check.issuedAt);
+  };
 }
 
 // Export constants for use in other modules
 export const CSRF_CONFIG = {
-  TOKEN_LENGTH: CSRF_TOKEN_LENGTH,
   COOKIE_NAME: CSRF_COOKIE_NAME,
+  SESSION_COOKIE_NAME: CSRF_SESSION_COOKIE_NAME,
   HEADER_NAME: CSRF_HEADER_NAME,
   MAX_AGE: TOKEN_MAX_AGE,
-} as const; 
\ No newline at end of file
+  ROTATE_AFTER: TOKEN_ROTATE_AFTER,
+} as const;
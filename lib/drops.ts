@@ -0,0 +1,245 @@
+/**
+ * Limited-edition drops
+ * Each drop (supabase/migrations/20250825_drops.sql) has its own artwork,
+ * edition size, price tiers, sale window and per-customer limit. Stock is the
+ * inventory row named by drop.sku, so reservations work per drop.
+ * Scheduled drops take waitlist signups before starts_at, and waitlisted
+ * emails get an early access window once they open
+ * (supabase/migrations/20250826_drop_waitlist.sql).
+ */
+
+import { supabaseAdmin } from './supabase-admin';
+import { getInventoryLevels, InventoryLevel } from './inventory';
+import { PriceTier, tieredUnitCents } from './pricing';
+
+// Cart items and checkouts without a dropId buy this one
+export const DEFAULT_DROP_ID = 'kol-legend-series';
+
+export type DropStatus = 'upcoming' | 'early_access' | 'live' | 'sold_out' | 'ended';
+
+export type DropPriceTier = PriceTier;
+
+export interface Drop {
+  id: string;
+  sku: string;
+  name: string;
+  description: string | null;
+  artworkUrl: string;
+  editionSize: number;
+  priceCents: number;
+  priceTiers: DropPriceTier[];  // Ascending by minQuantity
+  perCustomerLimit: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  earlyAccessMinutes: number | null;
+  soldOutAt: string | null;  // Set when the last unit sold; null while in stock
+}
+
+export interface DropWithAvailability extends Drop {
+  status: DropStatus;
+  available: number;
+}
+
+interface DropRow {
+  id: string;
+  sku: string;
+  name: string;
+  description: string | null;
+  artwork_url: string;
+  edition_size: number;
+  price_cents: number;
+  per_customer_limit: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  early_access_minutes: number | null;
+  sold_out_at: string | null;
+  drop_price_tiers: { min_quantity: number; discount_percent: number }[] | null;
+}
+
+export type DropErrorCode = 'DROP_NOT_FOUND' | 'DROP_NOT_STARTED' | 'DROP_ENDED' | 'EARLY_ACCESS_ONLY';
+
+export class DropUnavailableError extends Error {
+  constructor(public code: DropErrorCode, message: string) {
+    super(message);
+    this.name = 'DropUnavailableError';
+  }
+}
+
+const DROP_COLUMNS =
+  'id, sku, name, description, artwork_url, edition_size, price_cents, per_customer_limit, starts_at, ends_at, ' +
+  'early_access_minutes, sold_out_at, ' +
+  'drop_price_tiers(min_quantity, discount_percent)';
+
+function toDrop(row: DropRow): Drop {
+  return {
+    id: row.id,
+    sku: row.sku,
+    name: row.name,
+    description: row.description,
+    artworkUrl: row.artwork_url,
+    editionSize: row.edition_size,
+    priceCents: row.price_cents,
+    priceTiers: (row.drop_price_tiers ?? [])
+      .map(tier => ({ minQuantity: tier.min_quantity, discountPercent: tier.discount_percent }))
+      .sort((a, b) => a.minQuantity - b.minQuantity),
+    perCustomerLimit: row.per_customer_limit,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    earlyAccessMinutes: row.early_access_minutes,
+    soldOutAt: row.sold_out_at,
+  };
+}
+
+/**
+ * When the waitlist-only window closes, or null if the drop has none
+ */
+export function earlyAccessEndsAt(drop: Drop): Date | null {
+  if (!drop.startsAt || !drop.earlyAccessMinutes) return null;
+  return new Date(new Date(drop.startsAt).getTime() + drop.earlyAccessMinutes * 60 * 1000);
+}
+
+/**
+ * True while only waitlisted emails can buy
+ */
+export function isEarlyAccess(drop: Drop, now = new Date()): boolean {
+  const endsAt = earlyAccessEndsAt(drop);
+  return !!endsAt && !!drop.startsAt && new Date(drop.startsAt) <= now && now < endsAt;
+}
+
+/**
+ * Where a drop is in its sale window
+ */
+export function dropStatus(drop: Drop, level: InventoryLevel, now = new Date()): DropStatus {
+  if (drop.startsAt && new Date(drop.startsAt) > now) return 'upcoming';
+  if (drop.endsAt && new Date(drop.endsAt) <= now) return 'ended';
+  if (level.available <= 0) return 'sold_out';
+  return isEarlyAccess(drop, now) ? 'early_access' : 'live';
+}
+
+/**
+ * Unit price in cents for a quantity, after the best volume discount
+ */
+export function unitPriceCents(drop: Drop, quantity: number): number {
+  return tieredUnitCents(drop.priceCents, drop.priceTiers, quantity);
+}
+
+/**
+ * Throws DropUnavailableError unless the drop is inside its sale window, or
+ * its early access window for waitlisted buyers.
+ * Stock is checked separately by the reservation.
+ */
+export function assertDropOnSale(drop: Drop, { waitlisted = false }: { waitlisted?: boolean } = {}, now = new Date()): void {
+  if (drop.startsAt && new Date(drop.startsAt) > now) {
+    throw new DropUnavailableError('DROP_NOT_STARTED', `${drop.name} is not on sale yet`);
+  }
+  if (drop.endsAt && new Date(drop.endsAt) <= now) {
+    throw new DropUnavailableError('DROP_ENDED', `${drop.name} is no longer on sale`);
+  }
+  if (!waitlisted && isEarlyAccess(drop, now)) {
+    throw new DropUnavailableError(
+      'EARLY_ACCESS_ONLY',
+      `${drop.name} is open to waitlist members until ${earlyAccessEndsAt(drop)!.toISOString()}`
+    );
+  }
+}
+
+async function withAvailability(drops: Drop[]): Promise<DropWithAvailability[]> {
+  if (drops.length === 0) return [];
+  const levels = await getInventoryLevels(drops.map(drop => drop.sku));
+  return drops.map(drop => ({
+    ...drop,
+    status: dropStatus(drop, levels[drop.sku]),
+    available: levels[drop.sku].available,
+  }));
+}
+
+/**
+ * Active drops with their stock, in display order
+ */
+export async function listDrops(): Promise<DropWithAvailability[]> {
+  const { data, error } = await supabaseAdmin
+    .from('drops')
+    .select(DROP_COLUMNS)
+    .eq('active', true)
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load drops: ${error.message}`);
+  }
+
+  return withAvailability(((data ?? []) as unknown as DropRow[]).map(toDrop));
+}
+
+/**
+ * One drop by id, whatever its sale window, or null. Inactive drops are only
+ * returned with `includeInactive` (webhooks settling past orders).
+ */
+export async function getDrop(id: string, options: { includeInactive?: boolean } = {}): Promise<Drop | null> {
+  let query = supabaseAdmin.from('drops').select(DROP_COLUMNS).eq('id', id);
+  if (!options.includeInactive) query = query.eq('active', true);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load drop: ${error.message}`);
+  }
+
+  return data ? toDrop(data as unknown as DropRow) : null;
+}
+
+/**
+ * One active drop with its stock, or null
+ */
+export async function getDropWithAvailability(id: string): Promise<DropWithAvailability | null> {
+  const drop = await getDrop(id);
+  if (!drop) return null;
+  const [withStock] = await withAvailability([drop]);
+  return withStock;
+}
+
+/**
+ * Change a drop's base unit price (admin); tiers discount from it
+ */
+export async function setDropPrice(id: string, priceCents: number): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('drops')
+    .update({ price_cents: priceCents, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to update drop price: ${error.message}`);
+  }
+}
+
+/**
+ * Add an email to a drop's waitlist. Returns false if it was already on it.
+ */
+export async function joinWaitlist(dropId: string, email: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('drop_waitlist')
+    .upsert({ drop_id: dropId, email: email.trim().toLowerCase() }, { onConflict: 'drop_id,email', ignoreDuplicates: true })
+    .select('drop_id');
+
+  if (error) {
+    throw new Error(`Failed to join waitlist: ${error.message}`);
+  }
+
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Whether an email signed up for a drop's waitlist
+ */
+export async function isWaitlisted(dropId: string, email: string): Promise<boolean> {
+  const { count, error } = await supabaseAdmin
+    .from('drop_waitlist')
+    .select('drop_id', { count: 'exact', head: true })
+    .eq('drop_id', dropId)
+    .eq('email', email.trim().toLowerCase());
+
+  if (error) {
+    throw new Error(`Failed to check waitlist: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
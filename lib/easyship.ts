@@ -0,0 +1,145 @@
+/**
+ * Easyship API client
+ * The few calls fulfilment needs (lib/fulfilment.ts): create a shipment with
+ * its label, find one by our order number, and buy a label for an existing
+ * shipment. EASYSHIP_API_URL points at the versioned API and defaults to
+ * production; develop against scripts/mock-easyship-server.js instead.
+ */
+
+const DEFAULT_API_URL = 'https://public-api.easyship.com/2024-09';
+const REQUEST_TIMEOUT_MS = 20_000;
+
+export interface EasyshipAddress {
+  line_1: string;
+  line_2?: string | null;
+  city: string;
+  state?: string | null;
+  postal_code: string;
+  country_alpha2: string;
+  contact_name: string;
+  contact_email?: string | null;
+  contact_phone?: string | null;
+  company_name?: string | null;
+}
+
+export interface EasyshipParcelItem {
+  description: string;
+  quantity: number;
+  actual_weight: number;  // kg
+  declared_customs_value: number;  // Per unit
+  declared_currency: string;
+  hs_code: string;
+  origin_country_alpha2: string;
+  sku?: string;
+}
+
+export interface CreateShipmentRequest {
+  origin_address: EasyshipAddress;
+  destination_address: EasyshipAddress;
+  incoterms: 'DDU' | 'DDP';
+  insurance: { is_insured: boolean };
+  order_data: {
+    platform_order_number: string;
+    buyer_selected_courier_name?: string;
+    seller_notes?: string;
+  };
+  shipping_settings: {
+    units: { weight: 'kg'; dimensions: 'cm' };
+    buy_label: boolean;
+    buy_label_synchronous: boolean;
+  };
+  parcels: {
+    total_actual_weight: number;
+    box: { length: number; width: number; height: number };
+    items: EasyshipParcelItem[];
+  }[];
+}
+
+export interface EasyshipShipment {
+  easyship_shipment_id: string;
+  label_state: string | null;  // 'not_created' | 'pending' | 'generated' | 'failed'
+  tracking_page_url: string | null;
+  courier_service: { name: string } | null;
+  trackings: { tracking_number: string | null }[];
+  shipping_documents: { category: string; url: string | null }[];
+}
+
+export class EasyshipError extends Error {
+  constructor(public status: number, message: string, public details?: unknown) {
+    super(message);
+    this.name = 'EasyshipError';
+  }
+
+  // Timeouts, rate limits and server errors are worth another attempt
+  get retryable(): boolean {
+    return this.status === 0 || this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+async function request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+  const token = process.env.EASYSHIP_API_TOKEN;
+  if (!token) {
+    throw new EasyshipError(0, 'EASYSHIP_API_TOKEN is not set');
+  }
+
+  const baseUrl = (process.env.EASYSHIP_API_URL || DEFAULT_API_URL).replace(/\/$/, '');
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new EasyshipError(0, `Easyship request failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = payload?.error?.message ?? `Easyship responded ${response.status}`;
+    throw new EasyshipError(response.status, message, payload?.error?.details);
+  }
+  return payload as T;
+}
+
+export async function createShipment(shipment: CreateShipmentRequest): Promise<EasyshipShipment> {
+  const { shipment: created } = await request<{ shipment: EasyshipShipment }>('POST', '/shipments', shipment);
+  return created;
+}
+
+export async function getShipment(easyshipShipmentId: string): Promise<EasyshipShipment> {
+  const { shipment } = await request<{ shipment: EasyshipShipment }>(
+    'GET',
+    `/shipments/${encodeURIComponent(easyshipShipmentId)}`
+  );
+  return shipment;
+}
+
+/**
+ * The shipment created for one of our orders, if any. Lets a retry pick up a
+ * shipment whose creation succeeded but was never recorded.
+ */
+export async function findShipmentByOrderNumber(platformOrderNumber: string): Promise<EasyshipShipment | null> {
+  const { shipments } = await request<{ shipments: EasyshipShipment[] }>(
+    'GET',
+    `/shipments?platform_order_number=${encodeURIComponent(platformOrderNumber)}`
+  );
+  return shipments[0] ?? null;
+}
+
+/**
+ * Request a label for a shipment created without one. Labels are generated
+ * asynchronously; read them back with getShipment.
+ */
+export async function buyLabel(easyshipShipmentId: string): Promise<void> {
+  await request('POST', '/labels', { shipments: [{ easyship_shipment_id: easyshipShipmentId }] });
+}
+
+export function labelUrlOf(shipment: EasyshipShipment): string | null {
+  return shipment.shipping_documents.find(document => document.category === 'label')?.url ?? null;
+}
@@ -0,0 +1,129 @@
+/**
+ * Edition serial numbers
+ * Each limited-edition unit sold gets a serial within its drop's edition
+ * (supabase/migrations/20250827_edition_serials.sql), shown to the buyer as
+ * "#37/472" and passed to fulfilment on the order (lib/fulfilment.ts). Assignment is
+ * idempotent per checkout session; refunds void the serials and the numbers
+ * are reissued lowest-first.
+ */
+
+import { supabaseAdmin } from './supabase-admin';
+
+export interface EditionSerial {
+  dropId: string;
+  serial: number;
+  editionSize: number;
+}
+
+export class EditionExhaustedError extends Error {
+  constructor(public dropId: string, public free: number) {
+    super(`No serials left in the ${dropId} edition`);
+    this.name = 'EditionExhaustedError';
+  }
+}
+
+/**
+ * "#37/472"
+ */
+export function formatSerial({ serial, editionSize }: EditionSerial): string {
+  return `#${serial}/${editionSize}`;
+}
+
+/**
+ * Compact form for Stripe metadata and print files, ranges collapsed:
+ * "kol-legend-series:37-40,52/472", drops separated by ";"
+ */
+export function compactSerials(serials: EditionSerial[]): string {
+  const byDrop = new Map<string, EditionSerial[]>();
+  for (const serial of serials) {
+    byDrop.set(serial.dropId, [...(byDrop.get(serial.dropId) ?? []), serial]);
+  }
+
+  return [...byDrop.entries()]
+    .map(([dropId, dropSerials]) => {
+      const numbers = dropSerials.map(s => s.serial).sort((a, b) => a - b);
+      const ranges: string[] = [];
+      for (let i = 0; i < numbers.length; i++) {
+        const start = numbers[i];
+        while (i + 1 < numbers.length && numbers[i + 1] === numbers[i] + 1) i++;
+        ranges.push(start === numbers[i] ? `${start}` : `${start}-${numbers[i]}`);
+      }
+      return `${dropId}:${ranges.join(',')}/${dropSerials[0].editionSize}`;
+    })
+    .join(';');
+}
+
+/**
+ * Serials for a session's units of one drop, assigning any it doesn't have yet.
+ * Throws EditionExhaustedError if the edition has run out of numbers.
+ */
+export async function assignSerials(
+  dropId: string,
+  checkoutSessionId: string,
+  quantity: number,
+  customerEmail?: string | null
+): Promise<EditionSerial[]> {
+  const { data, error } = await supabaseAdmin.rpc('edition_assign_serials', {
+    p_drop_id: dropId,
+    p_checkout_session_id: checkoutSessionId,
+    p_quantity: quantity,
+    p_customer_email: customerEmail ?? null,
+  });
+
+  if (error) {
+    const exhausted = error.message.match(/edition_exhausted:([^:\s]+):(\d+)/);
+    if (exhausted) {
+      throw new EditionExhaustedError(exhausted[1], parseInt(exhausted[2], 10));
+    }
+    throw new Error(`Failed to assign serials: ${error.message}`);
+  }
+
+  return (data ?? []).map((row: { serial: number; edition_size: number }) => ({
+    dropId,
+    serial: row.serial,
+    editionSize: row.edition_size,
+  }));
+}
+
+/**
+ * Live serials of a checkout session, by drop and number
+ */
+export async function getSessionSerials(checkoutSessionId: string): Promise<EditionSerial[]> {
+  const { data, error } = await supabaseAdmin
+    .from('edition_serials')
+    .select('drop_id, serial, drops(edition_size)')
+    .eq('checkout_session_id', checkoutSessionId)
+    .eq('status', 'assigned')
+    .order('drop_id', { ascending: true })
+    .order('serial', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load serials: ${error.message}`);
+  }
+
+  return ((data ?? []) as unknown as { drop_id: string; serial: number; drops: { edition_size: number } | null }[])
+    .map(row => ({
+      dropId: row.drop_id,
+      serial: row.serial,
+      editionSize: row.drops?.edition_size ?? 0,
+    }));
+}
+
+/**
+ * Void a refunded session's serials so the numbers can be reissued.
+ * Returns how many were voided; replays void nothing.
+ */
+export async function voidSessionSerials(checkoutSessionId: string): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('edition_serials')
+    .update({ status: 'void', voided_at: new Date().toISOString() })
+    .eq('checkout_session_id', checkoutSessionId)
+    .eq('status', 'assigned')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to void serials: ${error.message}`);
+  }
+
+  return (data ?? []).length;
+}
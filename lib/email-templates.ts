@@ -0,0 +1,314 @@
+/**
+ * Email templates
+ * Each template takes typed data and renders a subject, a plain text body
+ * and an HTML body in the shared Cardify layout. sendTemplateEmail() renders
+ * and sends in one step (lib/email.ts); the category decides whether the
+ * recipient's marketing consent is required.
+ */
+
+import { EmailCategory, EmailMessage, sendEmail, SendEmailOptions, SendEmailResult } from './email';
+import { orderUrl } from './order-status';
+import type { Order, OrderItem } from './orders';
+
+export interface EmailTemplates {
+  'order-confirmation': { order: Order };
+  'custom-card-proof-received': {
+    customerName: string | null;
+    quantity: number;
+    finish: string;
+    imageUrl: string | null;
+    orderId: string | null;
+  };
+  'order-in-production': { order: Order };
+  'order-shipped': { order: Order };
+  'order-delivered': { order: Order };
+  'order-cancelled': { order: Order };
+  'refund-issued': {
+    customerName: string | null;
+    amountCents: number;
+    currency: string;
+    fullRefund: boolean;
+    orderId: string | null;
+  };
+  'credits-purchased': {
+    credits: number;
+    bonusCredits: number;
+    amountCents: number;
+    currency: string;
+  };
+  'marketplace-item-sold': {
+    sellerName: string | null;
+    listingTitle: string;
+    amountCents: number;
+    netCents: number;
+    currency: string;
+  };
+  'offer-received': {
+    recipientName: string | null;
+    listingTitle: string;
+    amountCents: number;
+    currency: string;
+    counter: boolean;
+    expiresAt: string;
+  };
+  'offer-accepted': {
+    buyerName: string | null;
+    listingTitle: string;
+    listingId: string;
+    amountCents: number;
+    currency: string;
+    payBy: string;
+  };
+  'offer-declined': {
+    recipientName: string | null;
+    listingTitle: string;
+    amountCents: number;
+    currency: string;
+  };
+  'drop-updates-welcome': { customerName: string | null };
+}
+
+export type EmailTemplateName = keyof EmailTemplates;
+
+export interface RenderedEmail {
+  category: EmailCategory;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// What a template provides; the layout adds greeting, link and sign-off
+interface EmailContent {
+  category?: EmailCategory;
+  subject: string;
+  name: string | null;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+}
+
+const ITEM_LABELS: Record<OrderItem['kind'], string> = {
+  'limited-edition': 'Limited Edition Card',
+  'custom-card': 'Custom Card',
+  'display-case': 'Display Case',
+};
+
+function siteUrl(path = ''): string {
+  return `${(process.env.NEXT_PUBLIC_SITE_URL || 'https://cardify.club').replace(/\/$/, '')}${path}`;
+}
+
+function money(cents: number, currency: string): string {
+  return `$${(cents / 100).toFixed(2)} ${currency.toUpperCase()}`;
+}
+
+function reference(orderId: string): string {
+  return orderId.slice(0, 8).toUpperCase();
+}
+
+function firstName(name: string | null): string | null {
+  return name?.trim().split(/\s+/)[0] || null;
+}
+
+function describeItem(item: OrderItem): string {
+  const finish = item.kind === 'custom-card' && item.finish && item.finish !== 'matte' ? ` (${item.finish})` : '';
+  return `${item.quantity} x ${ITEM_LABELS[item.kind]}${finish}`;
+}
+
+function deadline(iso: string): string {
+  return new Date(iso).toUTCString();
+}
+
+function orderAction(orderId: string | null): EmailContent['action'] {
+  return orderId ? { label: 'View your order', url: orderUrl(orderId) } : undefined;
+}
+
+const TEMPLATES: { [K in EmailTemplateName]: (data: EmailTemplates[K]) => EmailContent } = {
+  'order-confirmation': ({ order }) => ({
+    subject: `Your Cardify order ${reference(order.id)} is confirmed`,
+    name: order.customerName,
+    paragraphs: [
+      'Thanks for your order! Here is what you bought:',
+      ...order.items.map(describeItem),
+      ...(order.serials ? [`Edition numbers: ${order.serials}`] : []),
+      `Shipping: ${money(order.shippingCents, order.currency)}. Total paid: ${money(order.amountTotalCents, order.currency)}.`,
+      'We will email you again when your order goes into production and when it ships.',
+    ],
+    action: orderAction(order.id),
+  }),
+
+  'custom-card-proof-received': data => ({
+    subject: 'We received your custom card artwork',
+    name: data.customerName,
+    paragraphs: [
+      `Your artwork for ${data.quantity} custom card${data.quantity === 1 ? '' : 's'} (${data.finish} finish) has arrived safely.`,
+      'Our team checks every design before printing. If anything needs fixing we will reach out before your cards go to print.',
+      ...(data.imageUrl ? [`Your artwork: ${data.imageUrl}`] : []),
+    ],
+    action: orderAction(data.orderId),
+  }),
+
+  'order-in-production': ({ order }) => ({
+    subject: `Your Cardify order ${reference(order.id)} is in production`,
+    name: order.customerName,
+    paragraphs: ['We are printing and packing your cards now. We will email you again when they ship.'],
+    action: orderAction(order.id),
+  }),
+
+  'order-shipped': ({ order }) => ({
+    subject: `Your Cardify order ${reference(order.id)} has shipped`,
+    name: order.customerName,
+    paragraphs: [
+      'Your cards are on their way.',
+      ...(order.trackingUrl
+        ? [`Tracking${order.courierName ? ` (${order.courierName})` : ''}: ${order.trackingUrl}`]
+        : []),
+    ],
+    action: orderAction(order.id),
+  }),
+
+  'order-delivered': ({ order }) => ({
+    subject: `Your Cardify order ${reference(order.id)} was delivered`,
+    name: order.customerName,
+    paragraphs: ['Your cards have arrived. Enjoy them, and share them with the community!'],
+    action: orderAction(order.id),
+  }),
+
+  'order-cancelled': ({ order }) => ({
+    subject: `Your Cardify order ${reference(order.id)} was cancelled`,
+    name: order.customerName,
+    paragraphs: ['Your order has been cancelled and will not ship. If you were charged, the refund follows separately.'],
+    action: orderAction(order.id),
+  }),
+
+  'refund-issued': data => ({
+    subject: data.orderId
+      ? `Refund issued for Cardify order ${reference(data.orderId)}`
+      : 'Your Cardify refund has been issued',
+    name: data.customerName,
+    paragraphs: [
+      data.fullRefund
+        ? `We have refunded your payment in full: ${money(data.amountCents, data.currency)}.`
+        : `We have refunded ${money(data.amountCents, data.currency)} of your payment.`,
+      'It can take 5-10 business days to appear on your statement.',
+    ],
+    action: orderAction(data.orderId),
+  }),
+
+  'credits-purchased': data => ({
+    subject: `${data.credits} Cardify credits added to your account`,
+    name: null,
+    paragraphs: [
+      `Thanks for your purchase of ${money(data.amountCents, data.currency)}. ${data.credits} credits are now in your account` +
+        (data.bonusCredits > 0 ? `, including ${data.bonusCredits} bonus credits.` : '.'),
+      'Each credit creates one card image.',
+    ],
+    action: { label: 'See your credits', url: siteUrl('/credits') },
+  }),
+
+  'marketplace-item-sold': data => ({
+    subject: `You sold "${data.listingTitle}" on Cardify`,
+    name: data.sellerName,
+    paragraphs: [
+      `"${data.listingTitle}" sold for ${money(data.amountCents, data.currency)}.`,
+      `After fees, ${money(data.netCents, data.currency)} will be paid out to your connected Stripe account.`,
+    ],
+    action: { label: 'View your profile', url: siteUrl('/profile') },
+  }),
+
+  'offer-received': data => ({
+    subject: data.counter
+      ? `Counter-offer on "${data.listingTitle}"`
+      : `New offer on "${data.listingTitle}"`,
+    name: data.recipientName,
+    paragraphs: [
+      data.counter
+        ? `You have a counter-offer of ${money(data.amountCents, data.currency)} on "${data.listingTitle}".`
+        : `You have an offer of ${money(data.amountCents, data.currency)} on "${data.listingTitle}".`,
+      `Accept, decline or counter it from your profile before ${deadline(data.expiresAt)}, when it expires.`,
+    ],
+    action: { label: 'Review the offer', url: siteUrl('/profile') },
+  }),
+
+  'offer-accepted': data => ({
+    subject: `Your offer on "${data.listingTitle}" was accepted`,
+    name: data.buyerName,
+    paragraphs: [
+      `"${data.listingTitle}" is yours for ${money(data.amountCents, data.currency)}.`,
+      `We are holding it for you until ${deadline(data.payBy)}. After that the offer lapses and the listing goes back on sale.`,
+    ],
+    action: { label: 'Pay now', url: siteUrl(`/checkout?listingId=${encodeURIComponent(data.listingId)}`) },
+  }),
+
+  'offer-declined': data => ({
+    subject: `Your offer on "${data.listingTitle}" was declined`,
+    name: data.recipientName,
+    paragraphs: [
+      `Your offer of ${money(data.amountCents, data.currency)} on "${data.listingTitle}" was declined.`,
+      'You can still buy it at the listed price, or make a new offer while it is for sale.',
+    ],
+    action: { label: 'Browse the marketplace', url: siteUrl('/marketplace') },
+  }),
+
+  'drop-updates-welcome': data => ({
+    category: 'marketing',
+    subject: 'You are on the list for Cardify drops',
+    name: data.customerName,
+    paragraphs: [
+      'Thanks for opting in. You will be the first to hear about new limited edition drops and exclusive offers.',
+      'You can unsubscribe at any time by replying to this email.',
+    ],
+    action: { label: 'Visit Cardify', url: siteUrl() },
+  }),
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function layout(content: EmailContent): RenderedEmail {
+  const greeting = `Hi ${firstName(content.name) ?? 'there'},`;
+
+  const text = [
+    greeting,
+    '',
+    ...content.paragraphs.flatMap(paragraph => [paragraph, '']),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`, ''] : []),
+    'The Cardify team',
+  ].join('\n');
+
+  const html = [
+    '<!doctype html><html><body style="margin:0;padding:24px;background:#0a0a0f;font-family:Helvetica,Arial,sans-serif;color:#e5e7eb">',
+    '<div style="max-width:560px;margin:0 auto;background:#12121a;border:1px solid #22d3ee55;border-radius:8px;padding:32px">',
+    '<div style="font-size:20px;font-weight:bold;letter-spacing:2px;color:#22d3ee;margin-bottom:24px">CARDIFY</div>',
+    `<p style="margin:0 0 16px">${escapeHtml(greeting)}</p>`,
+    ...content.paragraphs.map(paragraph => `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(paragraph)}</p>`),
+    ...(content.action
+      ? [`<p style="margin:24px 0"><a href="${escapeHtml(content.action.url)}" style="display:inline-block;padding:12px 20px;background:#22d3ee;color:#0a0a0f;font-weight:bold;text-decoration:none;border-radius:4px">${escapeHtml(content.action.label)}</a></p>`]
+      : []),
+    '<p style="margin:24px 0 0;color:#9ca3af">The Cardify team</p>',
+    '</div></body></html>',
+  ].join('\n');
+
+  return { category: content.category ?? 'transactional', subject: content.subject, text, html };
+}
+
+export function renderEmail<K extends EmailTemplateName>(template: K, data: EmailTemplates[K]): RenderedEmail {
+  return layout(TEMPLATES[template](data));
+}
+
+/**
+ * Render a template and send it; see sendEmail for options and errors
+ */
+export function sendTemplateEmail<K extends EmailTemplateName>(
+  template: K,
+  to: string,
+  data: EmailTemplates[K],
+  options: SendEmailOptions = {}
+): Promise<SendEmailResult> {
+  const message: EmailMessage = { to, template, ...renderEmail(template, data) };
+  return sendEmail(message, options);
+}
@@ -0,0 +1,280 @@
+/**
+ * Customer email
+ * sendEmail() is the single way the app sends mail. Messages go through the
+ * provider picked by EMAIL_PROVIDER:
+ *   console (default)  writes the message to the server log
+ *   file               writes .eml files to EMAIL_OUTBOX_DIR for local dev
+ *   smtp               SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS (lib/smtp.ts);
+ *                      SMTP_ALLOW_INSECURE=true allows AUTH without TLS for local catchers
+ *   api                POSTs JSON to EMAIL_API_URL with EMAIL_API_KEY; a stub
+ *                      for an HTTP email service until one is chosen
+ * Every send is recorded in email_deliveries; an idempotency key makes
+ * webhook replays send once. Marketing mail is only sent with consent.
+ * Templates live in lib/email-templates.ts.
+ */
+
+import crypto from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { supabaseAdmin } from './supabase-admin';
+import { sendSmtp } from './smtp';
+
+export type EmailCategory = 'transactional' | 'marketing';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  category?: EmailCategory;  // Defaults to transactional
+  template?: string;  // For the delivery log
+}
+
+export interface EmailProvider {
+  id: string;
+  send(message: EmailMessage, mime: string, messageId: string): Promise<void>;
+}
+
+export interface SendEmailOptions {
+  idempotencyKey?: string;  // Sends with the same key after the first are skipped
+  marketingConsent?: boolean;  // Required for marketing messages
+}
+
+export type SendEmailResult =
+  | { status: 'sent'; messageId: string }
+  | { status: 'skipped'; reason: 'no_consent' | 'duplicate' };
+
+export class EmailError extends Error {
+  constructor(public provider: string, message: string) {
+    super(message);
+    this.name = 'EmailError';
+  }
+}
+
+const DEFAULT_FROM = 'Cardify <orders@cardify.club>';
+const DEFAULT_OUTBOX_DIR = '.emails';
+const API_TIMEOUT_MS = 15000;
+
+export function emailFrom(): string {
+  return process.env.EMAIL_FROM || DEFAULT_FROM;
+}
+
+// The bare address in "Name <address>"
+function addressOf(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+// RFC 2047 encoding for headers that aren't plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Body(content: string): string {
+  return Buffer.from(content, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+/**
+ * The message as RFC 5322 text: plain text, or multipart/alternative when
+ * there is an HTML part
+ */
+export function formatMime(message: EmailMessage, messageId: string, date = new Date()): string {
+  const headers = [
+    `From: ${encodeHeader(emailFrom())}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${messageId}>`,
+    'MIME-Version: 1.0',
+  ];
+  const part = (type: string, content: string) => [
+    `Content-Type: ${type}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(content),
+  ];
+
+  if (!message.html) {
+    return [...headers, ...part('text/plain', message.text)].join('\r\n');
+  }
+
+  const boundary = `cardify-${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...part('text/plain', message.text),
+    `--${boundary}`,
+    ...part('text/html', message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+const consoleProvider: EmailProvider = {
+  id: 'console',
+  async send(message) {
+    console.log(`[email] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+  },
+};
+
+const fileProvider: EmailProvider = {
+  id: 'file',
+  async send(message, mime, messageId) {
+    const dir = path.resolve(process.env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR);
+    await mkdir(dir, { recursive: true });
+    const file = path.join(dir, `${Date.now()}-${messageId.split('@')[0]}.eml`);
+    await writeFile(file, mime, 'utf8');
+    console.log(`[email] To: ${message.to} | Subject: ${message.subject} | ${file}`);
+  },
+};
+
+const smtpProvider: EmailProvider = {
+  id: 'smtp',
+  async send(message, mime) {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new EmailError('smtp', 'SMTP_HOST is not set');
+    }
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    await sendSmtp(
+      {
+        host,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER || undefined,
+        pass: process.env.SMTP_PASS || undefined,
+        allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE === 'true',
+      },
+      { from: addressOf(emailFrom()), to: [addressOf(message.to)] },
+      mime
+    );
+  },
+};
+
+const apiProvider: EmailProvider = {
+  id: 'api',
+  async send(message, _mime, messageId) {
+    const url = process.env.EMAIL_API_URL;
+    const key = process.env.EMAIL_API_KEY;
+    if (!url || !key) {
+      throw new EmailError('api', 'EMAIL_API_URL and EMAIL_API_KEY must be set');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${key}`,
+          'Content-Type': 'application/json',
+          'Idempotency-Key': messageId,
+        },
+        body: JSON.stringify({
+          from: emailFrom(),
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+        }),
+        signal: AbortSignal.timeout(API_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new EmailError('api', `Email API request failed: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!response.ok) {
+      throw new EmailError('api', `Email API returned ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+  },
+};
+
+const PROVIDERS: Record<string, EmailProvider> = {
+  console: consoleProvider,
+  file: fileProvider,
+  smtp: smtpProvider,
+  api: apiProvider,
+};
+
+export function emailProvider(): EmailProvider {
+  const id = process.env.EMAIL_PROVIDER || 'console';
+  const provider = PROVIDERS[id];
+  if (!provider) {
+    throw new EmailError(id, `Unknown EMAIL_PROVIDER "${id}"`);
+  }
+  return provider;
+}
+
+/**
+ * Claim the delivery row for a message. Returns false when a message with
+ * the same idempotency key was already sent or is being sent; failed
+ * deliveries are claimed again so a retry can send them.
+ */
+async function claimDelivery(message: EmailMessage, key: string | null, provider: string, messageId: string): Promise<boolean> {
+  const row = {
+    idempotency_key: key,
+    message_id: messageId,
+    template: message.template ?? null,
+    category: message.category ?? 'transactional',
+    recipient: message.to,
+    provider,
+    status: 'sending',
+    error: null,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error } = await supabaseAdmin.from('email_deliveries').insert(row);
+  if (!error) return true;
+  if (error.code !== '23505' || !key) {
+    throw new Error(`Failed to record email delivery: ${error.message}`);
+  }
+
+  const { data, error: retryError } = await supabaseAdmin
+    .from('email_deliveries')
+    .update(row)
+    .eq('idempotency_key', key)
+    .eq('status', 'failed')
+    .select('id');
+  if (retryError) {
+    throw new Error(`Failed to record email delivery: ${retryError.message}`);
+  }
+  return (data ?? []).length > 0;
+}
+
+async function finishDelivery(messageId: string, error: unknown): Promise<void> {
+  const { error: updateError } = await supabaseAdmin
+    .from('email_deliveries')
+    .update({
+      status: error ? 'failed' : 'sent',
+      error: error ? String(error instanceof Error ? error.message : error).slice(0, 500) : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('message_id', messageId);
+  if (updateError) {
+    console.error(`Failed to update email delivery ${messageId}:`, updateError.message);
+  }
+}
+
+/**
+ * Send one message through the configured provider. Marketing messages
+ * without consent are skipped, as are repeats of an idempotency key.
+ * Throws EmailError / SmtpError when the provider fails.
+ */
+export async function sendEmail(message: EmailMessage, options: SendEmailOptions = {}): Promise<SendEmailResult> {
+  if (message.category === 'marketing' && options.marketingConsent !== true) {
+    return { status: 'skipped', reason: 'no_consent' };
+  }
+
+  const provider = emailProvider();
+  const messageId = `${crypto.randomUUID()}@${addressOf(emailFrom()).split('@')[1] || 'cardify.club'}`;
+  if (!(await claimDelivery(message, options.idempotencyKey ?? null, provider.id, messageId))) {
+    return { status: 'skipped', reason: 'duplicate' };
+  }
+
+  try {
+    await provider.send(message, formatMime(message, messageId), messageId);
+  } catch (error) {
+    await finishDelivery(messageId, error);
+    throw error;
+  }
+  await finishDelivery(messageId, null);
+  return { status: 'sent', messageId };
+}
@@ -89,6 +89,48 @@ export const ENV_VARS = {
   STRIPE_WEBHOOK_SECRET: 'STRIPE_WEBHOOK_SECRET',
   NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY: 'NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY',
   
+  // CSRF token signing (HMAC key)
+  CSRF_SECRET: 'CSRF_SECRET',
+  
+  // Guest quota device cookie and fingerprint signing (HMAC key)
+  GUEST_QUOTA_SECRET: 'GUEST_QUOTA_SECRET',
+  
+  // Rate limiting ("memory" | "supabase")
+  RATE_LIMIT_STORE: 'RATE_LIMIT_STORE',
+  RATE_LIMIT_TRUSTED_PROXY_HOPS: 'RATE_LIMIT_TRUSTED_PROXY_HOPS',
+  
+  // Privy (server-side identity token verification)
+  PRIVY_VERIFICATION_KEY: 'PRIVY_VERIFICATION_KEY',
+  
+  // Scheduled jobs (Bearer token, e.g. credits reconciliation)
+  CRON_SECRET: 'CRON_SECRET',
+  
+  // Easyship fulfilment (EASYSHIP_API_URL defaults to production; point it at scripts/mock-easyship-server.js locally; the webhook secret verifies /api/tracking/easyship)
+  EASYSHIP_API_TOKEN: 'EASYSHIP_API_TOKEN',
+  EASYSHIP_API_URL: 'EASYSHIP_API_URL',
+  EASYSHIP_WEBHOOK_SECRET: 'EASYSHIP_WEBHOOK_SECRET',
+  
+  // Email (EMAIL_PROVIDER: console (default) | file | smtp | api; see lib/email.ts)
+  EMAIL_PROVIDER: 'EMAIL_PROVIDER',
+  EMAIL_FROM: 'EMAIL_FROM',
+  EMAIL_OUTBOX_DIR: 'EMAIL_OUTBOX_DIR',
+  SMTP_HOST: 'SMTP_HOST',
+  SMTP_PORT: 'SMTP_PORT',
+  SMTP_SECURE: 'SMTP_SECURE',
+  SMTP_USER: 'SMTP_USER',
+  SMTP_PASS: 'SMTP_PASS',
+  SMTP_ALLOW_INSECURE: 'SMTP_ALLOW_INSECURE',
+  EMAIL_API_URL: 'EMAIL_API_URL',
+  EMAIL_API_KEY: 'EMAIL_API_KEY',
+  
+  // Marketplace listing price bounds in cents (default $1 - $1,000; lib/listing-price.ts)
+  NEXT_PUBLIC_LISTING_MIN_PRICE_CENTS: 'NEXT_PUBLIC_LISTING_MIN_PRICE_CENTS',
+  NEXT_PUBLIC_LISTING_MAX_PRICE_CENTS: 'NEXT_PUBLIC_LISTING_MAX_PRICE_CENTS',
+  
+  // Marketplace offers: hours an offer stays open, and hours the buyer has to pay once accepted (defaults 48 / 24; lib/offers.ts)
+  OFFER_EXPIRY_HOURS: 'OFFER_EXPIRY_HOURS',
+  OFFER_PAYMENT_HOURS: 'OFFER_PAYMENT_HOURS',
+  
   // Vercel
   VERCEL_URL: 'VERCEL_URL',
   
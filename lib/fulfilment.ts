@@ -0,0 +1,366 @@
+/**
+ * Order fulfilment
+ * Each paid checkout session becomes an order with one fulfilment job
+ * (supabase/migrations/20250829_orders_and_fulfilment.sql). The webhook
+ * enqueues the job and makes the first attempt; /api/cron/fulfilment retries
+ * failures with exponential backoff. A job creates the Easyship shipment with
+ * its label and stores the shipment id, label and tracking on the order.
+ * Shipments are created at most once per session: a retry reuses the shipment
+ * recorded on the order, or the one Easyship has under our order number.
+ */
+
+import { supabaseAdmin } from './supabase-admin';
+import { CartLineKind } from './pricing';
+import { ITEM_WEIGHTS_GRAMS, PACKAGING_GRAMS } from './shipping';
+import { getOrder, NewOrder, Order, OrderItem, OrderTransitionError, transitionOrder } from './orders';
+import {
+  buyLabel,
+  createShipment,
+  CreateShipmentRequest,
+  EasyshipAddress,
+  EasyshipError,
+  EasyshipShipment,
+  findShipmentByOrderNumber,
+  getShipment,
+  labelUrlOf,
+} from './easyship';
+
+export interface FulfilmentResult {
+  orderId: string;
+  status: 'succeeded' | 'retrying' | 'failed';
+  attempts: number;
+  easyshipShipmentId?: string;
+  error?: string;
+}
+
+interface ClaimedJob {
+  job_id: string;
+  order_id: string;
+  attempts: number;
+  max_attempts: number;
+}
+
+// Where every parcel ships from
+export const ORIGIN_ADDRESS: EasyshipAddress = {
+  line_1: '3070 N Garehime St',
+  city: 'Las Vegas',
+  state: 'NV',
+  postal_code: '89108',
+  country_alpha2: 'US',
+  contact_name: 'Cardify LLC',
+  contact_phone: '+17604022716',
+  contact_email: 'shipping@cardify.com',
+  company_name: 'Cardify LLC',
+};
+
+// Padded mailer, cm
+const PARCEL_BOX = { length: 20, width: 15, height: 10 };
+const TOYS_AND_GAMES_HS_CODE = '9504.40.00';
+const DESCRIPTION_LIMIT = 200;
+
+// A worker that dies mid-job releases it after this long
+const JOB_LOCK_SECONDS = 5 * 60;
+const BASE_RETRY_SECONDS = 60;
+const MAX_RETRY_SECONDS = 6 * 60 * 60;
+
+/**
+ * What a session bought, from the metadata checkout wrote: cart checkouts
+ * list item{i}_type/_quantity/_dropId/_finish/_imageUrl, single checkouts
+ * use quantity, isCustomCard and displayCaseQuantity
+ */
+export function orderItemsFromMetadata(metadata: Record<string, string>): OrderItem[] {
+  const items: OrderItem[] = [];
+  const quantityOf = (value: string | undefined, fallback = 0) => parseInt(value || `${fallback}`, 10) || 0;
+
+  if (metadata.isCartCheckout === 'true') {
+    for (let itemIndex = 0; metadata[`item${itemIndex}_type`]; itemIndex++) {
+      const kind = metadata[`item${itemIndex}_type`] as CartLineKind;
+      const quantity = quantityOf(metadata[`item${itemIndex}_quantity`]);
+      if (quantity <= 0 || !(kind in ITEM_WEIGHTS_GRAMS)) continue;
+      items.push({
+        kind,
+        quantity,
+        ...(metadata[`item${itemIndex}_dropId`] && { dropId: metadata[`item${itemIndex}_dropId`] }),
+        ...(metadata[`item${itemIndex}_finish`] && { finish: metadata[`item${itemIndex}_finish`] }),
+        ...(metadata[`item${itemIndex}_imageUrl`] && { imageUrl: metadata[`item${itemIndex}_imageUrl`] }),
+      });
+    }
+    return items;
+  }
+
+  const quantity = quantityOf(metadata.quantity, 1);
+  const isCustomCard = metadata.isCustomCard === 'true' || !!metadata.uploadId || !!metadata.customImageUrl;
+  if (quantity > 0) {
+    items.push(isCustomCard
+      ? {
+          kind: 'custom-card',
+          quantity,
+          finish: metadata.cardFinish || 'matte',
+          ...(metadata.customImageUrl && { imageUrl: metadata.customImageUrl }),
+        }
+      : { kind: 'limited-edition', quantity, ...(metadata.dropId && { dropId: metadata.dropId }) });
+  }
+
+  const displayCases = quantityOf(metadata.displayCaseQuantity);
+  if (metadata.includeDisplayCase === 'true' && displayCases > 0) {
+    items.push({ kind: 'display-case', quantity: displayCases });
+  }
+  return items;
+}
+
+/**
+ * Packing description: "Limited Edition Cards (3) + Custom Cards (2, rainbow) + Display Cases (1) [SN: ...]"
+ */
+export function describeItems(items: OrderItem[], serials?: string | null): string {
+  const labels: Record<CartLineKind, string> = {
+    'limited-edition': 'Limited Edition Cards',
+    'custom-card': 'Custom Cards',
+    'display-case': 'Display Cases',
+  };
+
+  let description = items
+    .map(item => {
+      const finish = item.kind === 'custom-card' && item.finish && item.finish !== 'matte' ? `, ${item.finish}` : '';
+      return `${labels[item.kind]} (${item.quantity}${finish})`;
+    })
+    .join(' + ');
+
+  if (serials) description += ` [SN: ${serials}]`;
+  return description.length > DESCRIPTION_LIMIT ? `${description.slice(0, DESCRIPTION_LIMIT - 3)}...` : description;
+}
+
+/**
+ * The Easyship shipment for an order: one parcel from ORIGIN_ADDRESS, weighed
+ * with the same unit weights shipping is priced on, declared at the goods value
+ */
+export function buildShipmentRequest(order: Order | NewOrder): CreateShipmentRequest {
+  const itemsGrams = order.items.reduce((sum, item) => sum + ITEM_WEIGHTS_GRAMS[item.kind] * item.quantity, 0);
+  const weightKg = (itemsGrams + PACKAGING_GRAMS) / 1000;
+  const goodsCents = Math.max(order.amountTotalCents - order.shippingCents, 0);
+  const address = order.shippingAddress;
+
+  return {
+    origin_address: ORIGIN_ADDRESS,
+    destination_address: {
+      line_1: address.line1,
+      line_2: address.line2,
+      city: address.city,
+      state: address.state,
+      postal_code: address.postalCode,
+      country_alpha2: address.country,
+      contact_name: order.customerName || 'Cardify Customer',
+      contact_email: order.customerEmail,
+      contact_phone: order.customerPhone,
+    },
+    incoterms: 'DDU',
+    insurance: { is_insured: false },
+    order_data: {
+      platform_order_number: order.checkoutSessionId,
+      seller_notes: `${order.shippingLevel} shipping`,
+    },
+    shipping_settings: {
+      units: { weight: 'kg', dimensions: 'cm' },
+      buy_label: true,
+      buy_label_synchronous: true,
+    },
+    parcels: [
+      {
+        total_actual_weight: weightKg,
+        box: PARCEL_BOX,
+        items: [
+          {
+            description: describeItems(order.items, order.serials),
+            quantity: 1,
+            actual_weight: weightKg,
+            declared_customs_value: goodsCents / 100,
+            declared_currency: order.currency.toUpperCase(),
+            hs_code: TOYS_AND_GAMES_HS_CODE,
+            origin_country_alpha2: 'US',
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Seconds to wait before a failed job's next attempt: 1 min, 2 min, 4 min...
+ * capped at 6 hours
+ */
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(BASE_RETRY_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_SECONDS);
+}
+
+/**
+ * Record a paid session's order and enqueue its fulfilment. Replays return
+ * the existing order's id. Returns the order id.
+ */
+export async function enqueueFulfilment(order: NewOrder): Promise<string> {
+  const { data, error } = await supabaseAdmin.rpc('fulfilment_enqueue', {
+    p_order: {
+      checkout_session_id: order.checkoutSessionId,
+      payment_intent_id: order.paymentIntentId,
+      customer_email: order.customerEmail,
+      customer_name: order.customerName,
+      customer_phone: order.customerPhone,
+      shipping_address: {
+        line1: order.shippingAddress.line1,
+        line2: order.shippingAddress.line2,
+        city: order.shippingAddress.city,
+        state: order.shippingAddress.state,
+        postal_code: order.shippingAddress.postalCode,
+        country: order.shippingAddress.country,
+      },
+      items: order.items,
+      serials: order.serials,
+      amount_total_cents: order.amountTotalCents,
+      shipping_cents: order.shippingCents,
+      currency: order.currency,
+      shipping_level: order.shippingLevel,
+    },
+  });
+
+  if (error) {
+    throw new Error(`Failed to enqueue fulfilment: ${error.message}`);
+  }
+
+  return data as string;
+}
+
+async function recordShipment(orderId: string, shipment: EasyshipShipment): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('orders')
+    .update({
+      easyship_shipment_id: shipment.easyship_shipment_id,
+      label_url: labelUrlOf(shipment),
+      tracking_number: shipment.trackings[0]?.tracking_number ?? null,
+      tracking_url: shipment.tracking_page_url,
+      courier_name: shipment.courier_service?.name ?? null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', orderId);
+
+  if (error) {
+    throw new Error(`Failed to record shipment: ${error.message}`);
+  }
+}
+
+/**
+ * Create (or pick up) the order's shipment and record it. Throws while the
+ * label isn't ready, so the job is retried until it is.
+ */
+async function shipOrder(order: Order): Promise<EasyshipShipment> {
+  let shipment = order.easyshipShipmentId
+    ? await getShipment(order.easyshipShipmentId)
+    : await findShipmentByOrderNumber(order.checkoutSessionId);
+  if (!shipment) {
+    shipment = await createShipment(buildShipmentRequest(order));
+  }
+
+  await recordShipment(order.id, shipment);
+
+  if (!labelUrlOf(shipment)) {
+    if (shipment.label_state !== 'pending') {
+      await buyLabel(shipment.easyship_shipment_id);
+    }
+    throw new Error(`Label for shipment ${shipment.easyship_shipment_id} is not ready yet`);
+  }
+  return shipment;
+}
+
+async function finishJob(
+  job: ClaimedJob,
+  update: { status: 'succeeded' | 'pending' | 'failed'; runAfter?: Date; lastError?: string | null }
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('fulfilment_jobs')
+    .update({
+      status: update.status,
+      locked_until: null,
+      last_error: update.lastError ?? null,
+      ...(update.runAfter && { run_after: update.runAfter.toISOString() }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', job.job_id);
+
+  if (error) {
+    throw new Error(`Failed to update fulfilment job: ${error.message}`);
+  }
+}
+
+/**
+ * A labelled shipment means the order is being made. Orders tracking has
+ * already moved further along stay where they are.
+ */
+async function markInProduction(order: Order, shipment: EasyshipShipment): Promise<void> {
+  try {
+    await transitionOrder(order.id, 'in_production', {
+      source: 'fulfilment',
+      description: 'Shipping label created; your order is being printed and packed',
+      eventKey: `fulfilment:${shipment.easyship_shipment_id}`,
+    });
+  } catch (error) {
+    if (!(error instanceof OrderTransitionError)) throw error;
+  }
+}
+
+async function runJob(job: ClaimedJob): Promise<FulfilmentResult> {
+  try {
+    const order = await getOrder(job.order_id);
+    if (!order) {
+      throw new Error(`Order ${job.order_id} not found`);
+    }
+    if (order.status === 'cancelled' || order.status === 'refunded') {
+      await finishJob(job, { status: 'failed', lastError: `Order ${order.status} before shipping` });
+      return { orderId: job.order_id, status: 'failed', attempts: job.attempts, error: `Order ${order.status}` };
+    }
+
+    const shipment = await shipOrder(order);
+    await finishJob(job, { status: 'succeeded' });
+    await markInProduction(order, shipment);
+    return {
+      orderId: job.order_id,
+      status: 'succeeded',
+      attempts: job.attempts,
+      easyshipShipmentId: shipment.easyship_shipment_id,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Easyship rejecting the shipment (bad address, unsupported route) needs a person
+    const retryable = !(error instanceof EasyshipError) || error.retryable;
+    const exhausted = !retryable || job.attempts >= job.max_attempts;
+
+    await finishJob(job, exhausted
+      ? { status: 'failed', lastError: message }
+      : {
+          status: 'pending',
+          lastError: message,
+          runAfter: new Date(Date.now() + retryDelaySeconds(job.attempts) * 1000),
+        });
+
+    return { orderId: job.order_id, status: exhausted ? 'failed' : 'retrying', attempts: job.attempts, error: message };
+  }
+}
+
+/**
+ * Run the fulfilment jobs that are due, or just one order's job with orderId
+ */
+export async function runFulfilmentJobs(
+  options: { limit?: number; orderId?: string } = {}
+): Promise<FulfilmentResult[]> {
+  const { data, error } = await supabaseAdmin.rpc('fulfilment_claim_jobs', {
+    p_limit: options.limit ?? 10,
+    p_lock_seconds: JOB_LOCK_SECONDS,
+    p_order_id: options.orderId ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim fulfilment jobs: ${error.message}`);
+  }
+
+  const results: FulfilmentResult[] = [];
+  for (const job of (data ?? []) as ClaimedJob[]) {
+    results.push(await runJob(job));
+  }
+  return results;
+}
@@ -0,0 +1,135 @@
+/**
+ * Server-side free creation quota for signed-out users
+ * A guest is identified by a signed device cookie plus a fingerprint of their
+ * trusted client IP and user agent. Usage is stored against both, so clearing
+ * storage or opening a private window doesn't reset it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { supabaseAdmin } from './supabase-admin';
+import { getClientIp } from './rate-limit-keys';
+import { getSigningSecret, hmac, safeEqual } from './signing';
+import { FREE_LIMIT } from './guest-quota';
+
+const DEVICE_COOKIE_NAME = 'cardify_device';
+const DEVICE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365; // 1 year in seconds
+const SECRET_ENV = 'GUEST_QUOTA_SECRET';
+
+export interface GuestIdentity {
+  deviceId: string;
+  fingerprint: string;
+  isNewDevice: boolean;  // Cookie missing or forged; set it on the response
+}
+
+export interface GuestQuota {
+  used: number;
+  remaining: number;
+  limit: number;
+}
+
+function toQuota(used: number): GuestQuota {
+  const clamped = Math.min(Math.max(used, 0), FREE_LIMIT);
+  return { used: clamped, remaining: FREE_LIMIT - clamped, limit: FREE_LIMIT };
+}
+
+function signDeviceId(deviceId: string): string {
+  return hmac(getSigningSecret(SECRET_ENV), `device.${deviceId}`);
+}
+
+function readDeviceId(req: NextRequest): string | null {
+  const value = req.cookies.get(DEVICE_COOKIE_NAME)?.value;
+  if (!value) return null;
+
+  const [deviceId, signature] = value.split('.');
+  if (!deviceId || !signature) return null;
+
+  return safeEqual(signature, signDeviceId(deviceId)) ? deviceId : null;
+}
+
+/**
+ * Resolve the guest's device id (minting one if needed) and fingerprint
+ */
+export function getGuestIdentity(req: NextRequest): GuestIdentity {
+  const existing = readDeviceId(req);
+  const deviceId = existing ?? crypto.randomBytes(16).toString('base64url');
+
+  const ip = getClientIp(req);
+  const userAgent = req.headers.get('user-agent') ?? '';
+  const fingerprint = hmac(getSigningSecret(SECRET_ENV), `fp.${ip}.${userAgent}`);
+
+  return { deviceId, fingerprint, isNewDevice: !existing };
+}
+
+/**
+ * Set the signed device cookie when the identity was just minted
+ */
+export function setGuestDeviceCookie(res: NextResponse, identity: GuestIdentity): void {
+  if (!identity.isNewDevice) return;
+
+  res.cookies.set(DEVICE_COOKIE_NAME, `${identity.deviceId}.${signDeviceId(identity.deviceId)}`, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: DEVICE_COOKIE_MAX_AGE,
+  });
+}
+
+const deviceSubject = (identity: GuestIdentity) => `device:${identity.deviceId}`;
+const fingerprintSubject = (identity: GuestIdentity) => `fp:${identity.fingerprint}`;
+
+/**
+ * Current usage for a guest: the higher of the device and fingerprint counts
+ */
+export async function getRemaining(identity: GuestIdentity): Promise<GuestQuota> {
+  const { data, error } = await supabaseAdmin
+    .from('guest_quota_usage')
+    .select('used')
+    .in('subject', [deviceSubject(identity), fingerprintSubject(identity)]);
+
+  if (error) {
+    throw new Error(`Failed to read guest quota: ${error.message}`);
+  }
+
+  return toQuota(Math.max(0, ...(data ?? []).map(row => row.used as number)));
+}
+
+/**
+ * Use one free creation. `allowed` is false once the limit is reached.
+ */
+export async function consume(identity: GuestIdentity): Promise<{ allowed: boolean; quota: GuestQuota }> {
+  const { data, error } = await supabaseAdmin
+    .rpc('guest_quota_consume', {
+      p_device: deviceSubject(identity),
+      p_fingerprint: fingerprintSubject(identity),
+      p_limit: FREE_LIMIT,
+    })
+    .single<{ allowed: boolean; used: number }>();
+
+  if (error || !data) {
+    throw new Error(`Failed to consume guest quota: ${error?.message ?? 'no result'}`);
+  }
+
+  return { allowed: data.allowed, quota: toQuota(data.used) };
+}
+
+/**
+ * Copy the device's guest usage onto the user's mkt_profiles row. Called after
+ * sign in; a no-op for requests without a valid device cookie.
+ */
+export async function mergeGuestUsage(req: NextRequest, userId: string): Promise<number> {
+  const deviceId = readDeviceId(req);
+  if (!deviceId) return 0;
+
+  const { data, error } = await supabaseAdmin.rpc('guest_quota_merge', {
+    p_device: `device:${deviceId}`,
+    p_user_id: userId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to merge guest quota: ${error.message}`);
+  }
+
+  return Number(data ?? 0);
+}
@@ -1,8 +1,12 @@
 // "use client"
+// The server (/api/guest-quota) owns the count; localStorage only caches the
+// last known value so the UI can render before the first fetch.
+import { csrfFetch } from "./csrf-client";
+
 const KEY = "cardify.freeCreations.v1";
 export const FREE_LIMIT = Number(process.env.NEXT_PUBLIC_FREE_CREATIONS ?? 3);
 
-/** Get how many creations the current guest has used (0..FREE_LIMIT). */
+/** Get how many creations the current guest has used (0..FREE_LIMIT), as last reported by the server. */
 export function getGuestCount(): number {
   try {
     const raw = localStorage.getItem(KEY);
@@ -13,7 +17,7 @@ export function getGuestCount(): number {
   }
 }
 
-export function setGuestCount(n: number) {
+function setGuestCount(n: number) {
   try {
     localStorage.setItem(KEY, String(Math.min(Math.max(n, 0), FREE_LIMIT)));
     // fire a custom event so other components (e.g., nav) can update immediately
@@ -21,9 +25,39 @@ export function setGuestCount(n: number) {
   } catch {}
 }
 
-export function incrementGuestCreation() {
-  const used = getGuestCount();
-  if (used < FREE_LIMIT) setGuestCount(used + 1);
+/** Re-sync the cached count from the server. Keeps the cached value if the server is unreachable. */
+export async function refreshGuestQuota(): Promise<number> {
+  try {
+    const res = await fetch("/api/guest-quota", { credentials: "same-origin" });
+    if (res.ok) {
+      const { used } = await res.json();
+      setGuestCount(used);
+    }
+  } catch {}
+  return getRemaining();
+}
+
+/**
+ * Upload a guest's artwork through /api/upload, which uses one free creation
+ * once the upload is stored. Resolves null when the server says the limit is
+ * reached; throws if the upload failed.
+ */
+export async function uploadGuestCreation(file: Blob): Promise<{ uploadId: string; publicUrl: string } | null> {
+  const form = new FormData();
+  form.append("file", file, file instanceof File ? file.name : `creation.${file.type.split("/")[1] || "png"}`);
+
+  const res = await csrfFetch("/api/upload", { method: "POST", body: form });
+  const data = await res.json().catch(() => ({}));
+
+  if (res.ok) {
+    setGuestCount(data.quota.used);
+    return { uploadId: data.data.uploadId, publicUrl: data.data.publicUrl };
+  }
+  if (data.code === "GUEST_QUOTA_EXHAUSTED") {
+    setGuestCount(FREE_LIMIT);
+    return null;
+  }
+  throw new Error(data.error || "Failed to upload image");
 }
 
 export function getRemaining(): number {
@@ -34,7 +68,7 @@ export function canCreateMore(): boolean {
   return getGuestCount() < FREE_LIMIT;
 }
 
-/** Optional helper if you want to reset for testing */
+/** Clears the local cache only; the server-side count is unaffected */
 export function resetGuestQuota() {
   try {
     localStorage.removeItem(KEY);
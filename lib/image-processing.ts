@@ -86,8 +86,9 @@ export async function cropImageToAspectRatio(
  */
 export function blobToFile(blob: Blob, originalFilename: string): File {
   // Preserve the original filename but indicate it's been processed
-  const extension = originalFilename.split('.').pop() || 'png'
-  const nameWithoutExt = originalFilename.substring(0, originalFilename.lastIndexOf('.')) || originalFilename
+  const dot = originalFilename.lastIndexOf('.')
+  const extension = (dot > 0 && originalFilename.slice(dot + 1)) || 'png'
+  const nameWithoutExt = dot > 0 ? originalFilename.substring(0, dot) : originalFilename
   const processedFilename = `${nameWithoutExt}_cropped.${extension}`
   
   return new File([blob], processedFilename, {
@@ -0,0 +1,239 @@
+/**
+ * Inventory
+ * Stock for physical products lives in the inventory table
+ * (supabase/migrations/20250823_inventory.sql). Every change goes through an
+ * RPC that locks the row, so concurrent checkouts can't oversell.
+ * Checkout reserves stock before the Stripe session exists; the webhook
+ * commits the reservation on payment and releases it when the session expires.
+ * Holds also lapse at their expires_at, and /api/cron/release-reservations
+ * sweeps up any whose expiry event never arrived.
+ */
+
+import crypto from 'crypto';
+import { supabaseAdmin } from './supabase-admin';
+
+export const InventorySkus = {
+  limitedEdition: 'limited-edition-card',
+  displayCase: 'display-case',
+} as const;
+
+export interface InventoryLevel {
+  sku: string;
+  onHand: number;
+  reserved: number;  // Units in unexpired holds
+  available: number;  // onHand - reserved
+}
+
+export interface ReleasedHold {
+  sku: string;
+  units: number;
+}
+
+export interface ReservationItem {
+  sku: string;
+  quantity: number;
+  perCustomerLimit?: number | null;  // Drops cap units per customer across checkouts
+}
+
+export class InsufficientInventoryError extends Error {
+  constructor(public sku: string, public available: number) {
+    super(`Insufficient inventory for ${sku}`);
+    this.name = 'InsufficientInventoryError';
+  }
+}
+
+export class PurchaseLimitError extends Error {
+  constructor(public sku: string, public remaining: number) {
+    super(`Purchase limit reached for ${sku}`);
+    this.name = 'PurchaseLimitError';
+  }
+}
+
+export class CustomerRequiredError extends Error {
+  constructor(public sku: string) {
+    super(`A customer is required to reserve ${sku}`);
+    this.name = 'CustomerRequiredError';
+  }
+}
+
+function toLevel(sku: string, row: { on_hand: number; reserved: number }): InventoryLevel {
+  return { sku, onHand: row.on_hand, reserved: row.reserved, available: row.on_hand - row.reserved };
+}
+
+// RPC errors carry 'insufficient_inventory:<sku>:<available>',
+// 'purchase_limit_exceeded:<sku>:<remaining>' or 'customer_required:<sku>'
+function toInventoryError(message: string, action: string): Error {
+  const insufficient = message.match(/insufficient_inventory:([^:\s]+):(-?\d+)/);
+  if (insufficient) {
+    return new InsufficientInventoryError(insufficient[1], Math.max(parseInt(insufficient[2], 10), 0));
+  }
+  const limited = message.match(/purchase_limit_exceeded:([^:\s]+):(\d+)/);
+  if (limited) {
+    return new PurchaseLimitError(limited[1], parseInt(limited[2], 10));
+  }
+  const anonymous = message.match(/customer_required:([^:\s]+)/);
+  if (anonymous) {
+    return new CustomerRequiredError(anonymous[1]);
+  }
+  return new Error(`Failed to ${action}: ${message}`);
+}
+
+/**
+ * Current stock for the given SKUs net of active holds, keyed by SKU
+ */
+export async function getInventoryLevels(skus: string[]): Promise<Record<string, InventoryLevel>> {
+  const { data, error } = await supabaseAdmin
+    .from('inventory_levels')
+    .select('sku, on_hand, reserved')
+    .in('sku', skus);
+
+  if (error) {
+    throw new Error(`Failed to load inventory: ${error.message}`);
+  }
+
+  const levels: Record<string, InventoryLevel> = {};
+  for (const row of data ?? []) {
+    levels[row.sku] = toLevel(row.sku, row);
+  }
+  for (const sku of skus) {
+    if (!levels[sku]) {
+      throw new Error(`Failed to load inventory: unknown SKU ${sku}`);
+    }
+  }
+  return levels;
+}
+
+/**
+ * Set the absolute stock count; throws InsufficientInventoryError if that
+ * would leave less than is currently reserved
+ */
+export async function setInventory(sku: string, onHand: number): Promise<InventoryLevel> {
+  const { data, error } = await supabaseAdmin
+    .rpc('inventory_set', { p_sku: sku, p_on_hand: onHand })
+    .single<{ on_hand: number; reserved: number }>();
+
+  if (error) throw toInventoryError(error.message, 'set inventory');
+  if (!data) throw new Error('Failed to set inventory: no result');
+  return toLevel(sku, data);
+}
+
+/**
+ * Add (restock, refund) or remove (sale without a reservation) units.
+ * Removals that would eat into reserved stock throw InsufficientInventoryError.
+ */
+export async function adjustInventory(sku: string, delta: number): Promise<InventoryLevel> {
+  if (!Number.isInteger(delta) || delta === 0) {
+    throw new Error(`Invalid inventory delta: ${delta}`);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .rpc('inventory_adjust', { p_sku: sku, p_delta: delta })
+    .single<{ on_hand: number; reserved: number }>();
+
+  if (error) throw toInventoryError(error.message, 'adjust inventory');
+  if (!data) throw new Error('Failed to adjust inventory: no result');
+  return toLevel(sku, data);
+}
+
+/**
+ * adjustInventory, applied at most once per reference and SKU, for webhook
+ * handlers that may run again for the same event. Returns null when the
+ * reference was already applied.
+ */
+export async function adjustInventoryOnce(sku: string, delta: number, reference: string): Promise<InventoryLevel | null> {
+  if (!Number.isInteger(delta) || delta === 0) {
+    throw new Error(`Invalid inventory delta: ${delta}`);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .rpc('inventory_adjust_once', { p_sku: sku, p_delta: delta, p_reference: reference })
+    .single<{ on_hand: number; reserved: number; applied: boolean }>();
+
+  if (error) throw toInventoryError(error.message, 'adjust inventory');
+  if (!data) throw new Error('Failed to adjust inventory: no result');
+  return data.applied ? toLevel(sku, data) : null;
+}
+
+/**
+ * Hold stock for every item or none until `expiresAt`. Returns the
+ * reservation reference to store in the Checkout Session metadata.
+ * `customerKey` (the lower-cased email) is required for items with a
+ * per-customer limit, or it throws CustomerRequiredError; going over the
+ * limit throws PurchaseLimitError.
+ */
+export async function reserveInventory(
+  items: ReservationItem[],
+  expiresAt: Date,
+  customerKey?: string
+): Promise<string> {
+  const reference = crypto.randomUUID();
+  const { error } = await supabaseAdmin.rpc('inventory_reserve', {
+    p_reference: reference,
+    p_items: items.map(item => ({
+      sku: item.sku,
+      quantity: item.quantity,
+      per_customer_limit: item.perCustomerLimit ?? null,
+    })),
+    p_expires_at: expiresAt.toISOString(),
+    p_customer_key: customerKey ?? null,
+  });
+
+  if (error) throw toInventoryError(error.message, 'reserve inventory');
+  return reference;
+}
+
+/**
+ * Record which Checkout Session a reservation belongs to
+ */
+export async function attachReservationSession(reference: string, checkoutSessionId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('inventory_reservations')
+    .update({ checkout_session_id: checkoutSessionId, updated_at: new Date().toISOString() })
+    .eq('reference', reference);
+
+  if (error) {
+    throw new Error(`Failed to attach reservation session: ${error.message}`);
+  }
+}
+
+async function settleReservation(reference: string, commit: boolean): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('inventory_settle', {
+    p_reference: reference,
+    p_commit: commit,
+  });
+
+  if (error) throw toInventoryError(error.message, `${commit ? 'commit' : 'release'} reservation`);
+  return (data ?? 0) > 0;
+}
+
+/**
+ * Turn held stock into a sale. False when the reservation was already settled.
+ * A hold that lapsed before payment landed takes its units back if they are
+ * still available, and throws InsufficientInventoryError if they are not.
+ */
+export function commitReservation(reference: string): Promise<boolean> {
+  return settleReservation(reference, true);
+}
+
+/**
+ * Hand held stock back. False when the reservation was already settled.
+ */
+export function releaseReservation(reference: string): Promise<boolean> {
+  return settleReservation(reference, false);
+}
+
+/**
+ * Release every hold past its expiry (the sweeper)
+ */
+export async function releaseExpiredReservations(): Promise<ReleasedHold[]> {
+  const { data, error } = await supabaseAdmin.rpc('inventory_release_expired');
+
+  if (error) {
+    throw new Error(`Failed to release expired reservations: ${error.message}`);
+  }
+
+  return (data ?? []).map((row: { sku: string; released_units: number }) => ({
+    sku: row.sku,
+    units: row.released_units,
+  }));
+}
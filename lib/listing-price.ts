@@ -0,0 +1,52 @@
+/**
+ * Listing prices
+ * Sellers price their own marketplace listings within bounds set by
+ * NEXT_PUBLIC_LISTING_MIN_PRICE_CENTS / NEXT_PUBLIC_LISTING_MAX_PRICE_CENTS.
+ * Shared by the listings API, which enforces them, and the profile page,
+ * which checks them as the seller types; free of server imports.
+ */
+
+export interface ListingPriceBounds {
+  minCents: number;
+  maxCents: number;
+}
+
+// $1 to $1,000 unless configured
+export const DEFAULT_LISTING_PRICE_BOUNDS: ListingPriceBounds = { minCents: 100, maxCents: 100000 };
+
+function centsFromEnv(value: string | undefined, fallback: number): number {
+  const cents = parseInt(value ?? '', 10);
+  return Number.isFinite(cents) && cents > 0 ? cents : fallback;
+}
+
+export function listingPriceBounds(): ListingPriceBounds {
+  // Referenced literally so Next.js inlines them into the client bundle
+  const minCents = centsFromEnv(process.env.NEXT_PUBLIC_LISTING_MIN_PRICE_CENTS, DEFAULT_LISTING_PRICE_BOUNDS.minCents);
+  const maxCents = centsFromEnv(process.env.NEXT_PUBLIC_LISTING_MAX_PRICE_CENTS, DEFAULT_LISTING_PRICE_BOUNDS.maxCents);
+  return maxCents >= minCents ? { minCents, maxCents } : DEFAULT_LISTING_PRICE_BOUNDS;
+}
+
+export function formatListingPrice(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * Dollars as typed by a seller ("12", "12.5", "$12.50") to cents; null when
+ * it isn't an amount
+ */
+export function parseListingPrice(input: string): number | null {
+  const match = input.trim().replace(/^\$/, '').match(/^(\d{1,7})(?:\.(\d{1,2}))?$/);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 100 + parseInt((match[2] ?? '0').padEnd(2, '0'), 10);
+}
+
+/**
+ * Why a price can't be used, or null when it is within bounds
+ */
+export function listingPriceError(cents: number, bounds = listingPriceBounds()): string | null {
+  if (!Number.isInteger(cents)) return 'Price must be a whole number of cents';
+  if (cents < bounds.minCents || cents > bounds.maxCents) {
+    return `Price must be between ${formatListingPrice(bounds.minCents)} and ${formatListingPrice(bounds.maxCents)}`;
+  }
+  return null;
+}
@@ -0,0 +1,173 @@
+/**
+ * Marketplace listings
+ * Sellers list, reprice and cancel through /api/listings; browsers can
+ * read mkt_listings but no longer write it. The RPCs in
+ * supabase/migrations/20250901_listing_api.sql check that the seller owns
+ * the listed source (a user_assets or uploaded_images row) and is verified
+ * with Stripe, keep one active listing per source, and every change lands
+ * in mkt_listing_audit. Prices are checked here against the bounds in
+ * lib/listing-price.ts; buyers pay whatever the price is when they check out
+ * (app/api/create-payment-intent).
+ */
+
+import { supabaseAdmin } from './supabase-admin';
+import { listingPriceError } from './listing-price';
+import type { CardFinish } from './pricing';
+
+export type ListingSourceType = 'asset' | 'uploaded_image';
+
+export interface Listing {
+  id: string;
+  sourceType: ListingSourceType;
+  sourceId: string;
+  sellerId: string;
+  title: string;
+  description: string | null;
+  imageUrl: string | null;
+  priceCents: number;
+  currency: string;
+  finish: CardFinish;
+  status: string;
+  isActive: boolean;
+}
+
+export interface ListingChanges {
+  priceCents?: number;
+  title?: string;
+  description?: string;
+  finish?: CardFinish;
+}
+
+interface ListingRow {
+  id: string;
+  source_type: ListingSourceType;
+  source_id: string;
+  seller_id: string;
+  title: string;
+  description: string | null;
+  image_url: string | null;
+  price_cents: number;
+  currency: string | null;
+  finish: CardFinish;
+  status: string;
+  is_active: boolean;
+}
+
+export type ListingErrorCode =
+  | 'INVALID_PRICE'
+  | 'SELLER_NOT_VERIFIED'
+  | 'SOURCE_NOT_FOUND'
+  | 'DUPLICATE_LISTING'
+  | 'LISTING_NOT_FOUND'
+  | 'LISTING_NOT_EDITABLE'
+  | 'LISTING_LOCKED';
+
+// HTTP status for each error, for the API routes
+export const LISTING_ERROR_STATUS: Record<ListingErrorCode, number> = {
+  INVALID_PRICE: 400,
+  SELLER_NOT_VERIFIED: 403,
+  SOURCE_NOT_FOUND: 404,
+  DUPLICATE_LISTING: 409,
+  LISTING_NOT_FOUND: 404,
+  LISTING_NOT_EDITABLE: 409,
+  LISTING_LOCKED: 409,
+};
+
+export class ListingError extends Error {
+  constructor(public code: ListingErrorCode, message: string) {
+    super(message);
+    this.name = 'ListingError';
+  }
+}
+
+const LISTING_ERRORS: Record<string, [ListingErrorCode, string]> = {
+  listing_seller_not_verified: ['SELLER_NOT_VERIFIED', 'Connect and verify your Stripe account to sell'],
+  listing_source_not_found: ['SOURCE_NOT_FOUND', 'Item not found'],
+  listing_duplicate: ['DUPLICATE_LISTING', 'This item is already listed for sale'],
+  listing_not_found: ['LISTING_NOT_FOUND', 'Listing not found'],
+  listing_not_editable: ['LISTING_NOT_EDITABLE', 'Only listings that are for sale can be changed'],
+  listing_locked: ['LISTING_LOCKED', 'This listing is held for an accepted offer'],
+};
+
+function toListing(row: ListingRow): Listing {
+  return {
+    id: row.id,
+    sourceType: row.source_type,
+    sourceId: row.source_id,
+    sellerId: row.seller_id,
+    title: row.title,
+    description: row.description,
+    imageUrl: row.image_url,
+    priceCents: row.price_cents,
+    currency: row.currency ?? 'USD',
+    finish: row.finish,
+    status: row.status,
+    isActive: row.is_active,
+  };
+}
+
+function checkPrice(priceCents: number) {
+  const problem = listingPriceError(priceCents);
+  if (problem) {
+    throw new ListingError('INVALID_PRICE', problem);
+  }
+}
+
+async function callListingRpc(fn: string, args: Record<string, unknown>, action: string): Promise<Listing> {
+  const { data, error } = await supabaseAdmin.rpc(fn, args).single<ListingRow>();
+
+  if (error) {
+    const known = Object.keys(LISTING_ERRORS).find(token => error.message.includes(token));
+    if (known) {
+      const [code, message] = LISTING_ERRORS[known];
+      throw new ListingError(code, message);
+    }
+    throw new Error(`Failed to ${action} listing: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error(`Failed to ${action} listing: no row returned`);
+  }
+
+  return toListing(data);
+}
+
+/**
+ * List a source the seller owns at their price (matte unless a finish is
+ * given). Throws ListingError.
+ */
+export async function createListing(
+  sellerId: string,
+  input: { sourceType: ListingSourceType; sourceId: string; priceCents: number; finish?: CardFinish }
+): Promise<Listing> {
+  checkPrice(input.priceCents);
+  return callListingRpc('listing_create', {
+    p_seller_id: sellerId,
+    p_source_type: input.sourceType,
+    p_source_id: input.sourceId,
+    p_price_cents: input.priceCents,
+    p_finish: input.finish ?? 'matte',
+  }, 'create');
+}
+
+/**
+ * Change the price, title, description or finish of a listing that is still for
+ * sale. Throws ListingError.
+ */
+export async function updateListing(sellerId: string, listingId: string, changes: ListingChanges): Promise<Listing> {
+  if (changes.priceCents !== undefined) checkPrice(changes.priceCents);
+  return callListingRpc('listing_update', {
+    p_listing_id: listingId,
+    p_seller_id: sellerId,
+    p_price_cents: changes.priceCents ?? null,
+    p_title: changes.title ?? null,
+    p_description: changes.description ?? null,
+    p_finish: changes.finish ?? null,
+  }, 'update');
+}
+
+/**
+ * Take a listing off sale. Throws ListingError.
+ */
+export async function cancelListing(sellerId: string, listingId: string): Promise<Listing> {
+  return callListingRpc('listing_cancel', { p_listing_id: listingId, p_seller_id: sellerId }, 'cancel');
+}
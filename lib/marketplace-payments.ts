@@ -0,0 +1,125 @@
+/**
+ * Marketplace payments
+ * Buyers pay sellers through PaymentIntents on the market Stripe account.
+ * Verified sellers are paid on their connected account and the platform
+ * takes PLATFORM_FEE_PERCENT as an application fee; admin listings settle
+ * to the platform itself. Used for fixed-price checkout
+ * (app/api/create-payment-intent) and for accepted offers (lib/offers.ts),
+ * which differ only in the amount.
+ */
+
+import type Stripe from 'stripe';
+import { getStripeServer } from './stripe';
+import { supabaseAdmin } from './supabase-admin';
+
+export const PLATFORM_FEE_PERCENT = 5;
+
+export interface MarketPaymentTerms {
+  stripeAccount: string | null;  // Connected account, or null for the platform
+  feeCents: number | undefined;  // Application fee; none on platform payments
+}
+
+export type MarketPaymentErrorCode = 'SELLER_LOOKUP_FAILED' | 'SELLER_PROFILE_MISSING' | 'SELLER_NOT_VERIFIED';
+
+// HTTP status for each error, for the API routes
+export const MARKET_PAYMENT_ERROR_STATUS: Record<MarketPaymentErrorCode, number> = {
+  SELLER_LOOKUP_FAILED: 500,
+  SELLER_PROFILE_MISSING: 500,
+  SELLER_NOT_VERIFIED: 400,
+};
+
+export class MarketPaymentError extends Error {
+  constructor(public code: MarketPaymentErrorCode, message: string) {
+    super(message);
+    this.name = 'MarketPaymentError';
+  }
+}
+
+export interface MarketPaymentInput {
+  listingId: string;
+  buyerId: string;
+  sellerId: string;
+  amountCents: number;
+  currency: string;
+  offerId?: string;
+}
+
+function stripeOptions(stripeAccount: string | null): Stripe.RequestOptions | undefined {
+  return stripeAccount ? { stripeAccount } : undefined;
+}
+
+/**
+ * Where a payment to this seller goes and the fee on it. Throws
+ * MarketPaymentError when the seller can't be paid.
+ */
+export async function marketPaymentTerms(sellerId: string, amountCents: number): Promise<MarketPaymentTerms> {
+  const { data: seller, error } = await supabaseAdmin
+    .from('mkt_profiles')
+    .select('stripe_account_id, is_admin, stripe_verified')
+    .eq('id', sellerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new MarketPaymentError('SELLER_LOOKUP_FAILED', 'Seller lookup failed');
+  }
+  if (!seller) {
+    throw new MarketPaymentError('SELLER_PROFILE_MISSING', 'Seller profile missing');
+  }
+
+  const stripeAccount: string | null = seller.is_admin ? null : (seller.stripe_account_id ?? null);
+  if (!seller.is_admin && (!stripeAccount || seller.stripe_verified !== true)) {
+    throw new MarketPaymentError('SELLER_NOT_VERIFIED', 'Seller not connected/verified with Stripe');
+  }
+
+  return {
+    stripeAccount,
+    feeCents: stripeAccount ? Math.round(amountCents * PLATFORM_FEE_PERCENT / 100) : undefined,
+  };
+}
+
+export function createMarketPaymentIntent(input: MarketPaymentInput, terms: MarketPaymentTerms): Promise<Stripe.PaymentIntent> {
+  return getStripeServer('market').paymentIntents.create(
+    {
+      amount: input.amountCents,
+      currency: input.currency.toLowerCase(),
+      application_fee_amount: terms.feeCents,  // Ignored when undefined
+      metadata: {
+        mkt_listing_id: input.listingId,
+        mkt_buyer_id: input.buyerId,
+        mkt_seller_id: input.sellerId,
+        ...(input.offerId && { mkt_offer_id: input.offerId }),
+      },
+    },
+    stripeOptions(terms.stripeAccount)
+  );
+}
+
+export function retrieveMarketPaymentIntent(id: string, stripeAccount: string | null): Promise<Stripe.PaymentIntent> {
+  return getStripeServer('market').paymentIntents.retrieve(id, stripeOptions(stripeAccount));
+}
+
+/**
+ * Cancel an unpaid PaymentIntent so it can no longer be paid. Failures are
+ * logged, not thrown; an intent that already succeeded stays paid.
+ */
+export async function cancelMarketPaymentIntent(id: string, stripeAccount: string | null): Promise<void> {
+  try {
+    await getStripeServer('market').paymentIntents.cancel(id, undefined, stripeOptions(stripeAccount));
+  } catch (error) {
+    console.error(`Failed to cancel payment intent ${id}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Refund a payment in full, including the platform's fee, for a listing that
+ * was sold to someone else before it went through. Throws on failure.
+ */
+export function refundMarketPaymentIntent(id: string, stripeAccount: string | null): Promise<Stripe.Refund> {
+  return getStripeServer('market').refunds.create(
+    {
+      payment_intent: id,
+      ...(stripeAccount && { refund_application_fee: true }),
+    },
+    { ...stripeOptions(stripeAccount), idempotencyKey: `mkt-refund:${id}` }
+  );
+}
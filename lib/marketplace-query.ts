@@ -0,0 +1,97 @@
+/**
+ * Marketplace query string
+ * The marketplace page keeps its search in the URL (?q=dragon&min=5&sort=popular)
+ * and sends the same parameters to GET /api/marketplace/search, so both read
+ * and write them here. Values that can't be read are dropped rather than
+ * rejected, so a hand-edited link still shows results. Free of server imports.
+ */
+
+import type { CardFinish } from './pricing';
+import { parseListingPrice } from './listing-price';
+
+export type MarketplaceSort = 'newest' | 'price_asc' | 'price_desc' | 'popular';
+
+export const MARKETPLACE_SORTS: { value: MarketplaceSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'price_asc', label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+  { value: 'popular', label: 'Most popular' },
+];
+
+export const MARKETPLACE_FINISHES: CardFinish[] = ['matte', 'rainbow', 'gloss'];
+
+export interface MarketplaceFilters {
+  q: string;
+  minPriceCents: number | null;
+  maxPriceCents: number | null;
+  sellerId: string | null;
+  listedFrom: string | null;  // YYYY-MM-DD, inclusive
+  listedTo: string | null;  // YYYY-MM-DD, inclusive
+  finish: CardFinish | null;
+  sort: MarketplaceSort;
+}
+
+export const DEFAULT_MARKETPLACE_FILTERS: MarketplaceFilters = {
+  q: '',
+  minPriceCents: null,
+  maxPriceCents: null,
+  sellerId: null,
+  listedFrom: null,
+  listedTo: null,
+  finish: null,
+  sort: 'newest',
+};
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_QUERY_LENGTH = 200;
+
+function readDate(value: string | null): string | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  return Number.isNaN(Date.parse(`${value}T00:00:00Z`)) ? null : value;
+}
+
+function readPrice(value: string | null): number | null {
+  return value ? parseListingPrice(value) : null;
+}
+
+function priceParam(cents: number): string {
+  return cents % 100 === 0 ? String(cents / 100) : (cents / 100).toFixed(2);
+}
+
+/**
+ * Filters from the page URL or an API request
+ */
+export function parseMarketplaceQuery(params: URLSearchParams): MarketplaceFilters {
+  const sort = params.get('sort');
+  const finish = params.get('finish');
+  const seller = params.get('seller');
+
+  return {
+    q: (params.get('q') ?? '').trim().slice(0, MAX_QUERY_LENGTH),
+    minPriceCents: readPrice(params.get('min')),
+    maxPriceCents: readPrice(params.get('max')),
+    sellerId: seller && UUID.test(seller) ? seller : null,
+    listedFrom: readDate(params.get('from')),
+    listedTo: readDate(params.get('to')),
+    finish: MARKETPLACE_FINISHES.find(f => f === finish) ?? null,
+    sort: MARKETPLACE_SORTS.find(s => s.value === sort)?.value ?? 'newest',
+  };
+}
+
+/**
+ * The query string for a set of filters, leaving out defaults; an API cursor
+ * can be appended for the next page
+ */
+export function marketplaceQueryString(filters: MarketplaceFilters, cursor?: string | null): string {
+  const params = new URLSearchParams();
+  if (filters.q) params.set('q', filters.q);
+  if (filters.minPriceCents !== null) params.set('min', priceParam(filters.minPriceCents));
+  if (filters.maxPriceCents !== null) params.set('max', priceParam(filters.maxPriceCents));
+  if (filters.sellerId) params.set('seller', filters.sellerId);
+  if (filters.listedFrom) params.set('from', filters.listedFrom);
+  if (filters.listedTo) params.set('to', filters.listedTo);
+  if (filters.finish) params.set('finish', filters.finish);
+  if (filters.sort !== 'newest') params.set('sort', filters.sort);
+  if (cursor) params.set('cursor', cursor);
+  return params.toString();
+}
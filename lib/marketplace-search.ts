@@ -0,0 +1,177 @@
+/**
+ * Marketplace search
+ * Full-text search, filters, sorts and cursor pages over listings for sale,
+ * for GET /api/marketplace/search. The work is done by the
+ * marketplace_search() RPC (supabase/migrations/20250902_marketplace_search.sql);
+ * this module turns filters into its arguments and each page's last row into
+ * an opaque cursor for the next one. Query strings are read in
+ * lib/marketplace-query.ts.
+ */
+
+import { supabaseAdmin } from './supabase-admin';
+import type { CardFinish } from './pricing';
+import type { MarketplaceFilters, MarketplaceSort } from './marketplace-query';
+
+export interface MarketplaceListing {
+  id: string;
+  title: string;
+  description: string | null;
+  imageUrl: string | null;
+  priceCents: number;
+  currency: string;
+  finish: CardFinish;
+  sellerId: string;
+  sellerName: string | null;
+  sellerAvatarUrl: string | null;
+  checkoutCount: number;
+  createdAt: string;
+}
+
+export interface MarketplacePage {
+  listings: MarketplaceListing[];
+  nextCursor: string | null;
+}
+
+interface SearchRow {
+  id: string;
+  title: string;
+  description: string | null;
+  image_url: string | null;
+  price_cents: number;
+  currency: string | null;
+  finish: CardFinish;
+  seller_id: string;
+  seller_name: string | null;
+  seller_avatar_url: string | null;
+  checkout_count: number;
+  created_at: string;
+}
+
+// The last row of a page: its id and the value it was sorted on
+interface Cursor {
+  sort: MarketplaceSort;
+  id: string;
+  value: string | number;
+}
+
+export class MarketplaceSearchError extends Error {
+  constructor(public code: 'INVALID_CURSOR', message: string) {
+    super(message);
+    this.name = 'MarketplaceSearchError';
+  }
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 48;
+
+function sortValue(sort: MarketplaceSort, row: SearchRow): string | number {
+  switch (sort) {
+    case 'newest':
+      return row.created_at;
+    case 'price_asc':
+    case 'price_desc':
+      return row.price_cents;
+    case 'popular':
+      return row.checkout_count;
+  }
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.id, cursor.value]), 'utf8').toString('base64url');
+}
+
+/**
+ * Read a cursor from the previous page. It must come from the same sort;
+ * throws MarketplaceSearchError otherwise.
+ */
+export function decodeCursor(raw: string, sort: MarketplaceSort): Cursor {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    throw new MarketplaceSearchError('INVALID_CURSOR', 'Invalid cursor');
+  }
+
+  if (!Array.isArray(parsed) || parsed.length !== 3 || parsed[0] !== sort || !UUID.test(String(parsed[1]))) {
+    throw new MarketplaceSearchError('INVALID_CURSOR', 'Invalid cursor');
+  }
+  const [, id, value] = parsed;
+  const valid = sort === 'newest'
+    ? typeof value === 'string' && !Number.isNaN(Date.parse(value))
+    : Number.isInteger(value);
+  if (!valid) {
+    throw new MarketplaceSearchError('INVALID_CURSOR', 'Invalid cursor');
+  }
+  return { sort, id, value };
+}
+
+function toListing(row: SearchRow): MarketplaceListing {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    imageUrl: row.image_url,
+    priceCents: row.price_cents,
+    currency: row.currency ?? 'USD',
+    finish: row.finish,
+    sellerId: row.seller_id,
+    sellerName: row.seller_name,
+    sellerAvatarUrl: row.seller_avatar_url,
+    checkoutCount: row.checkout_count,
+    createdAt: row.created_at,
+  };
+}
+
+// Date filters are whole days in UTC; "to" includes its day
+function dayStart(date: string | null, plusDays = 0): string | null {
+  if (!date) return null;
+  const start = new Date(`${date}T00:00:00Z`);
+  start.setUTCDate(start.getUTCDate() + plusDays);
+  return start.toISOString();
+}
+
+/**
+ * One page of listings for sale. Pass the previous page's nextCursor for the
+ * page after it; nextCursor is null on the last page.
+ */
+export async function searchMarketplace(
+  filters: MarketplaceFilters,
+  options: { cursor?: string | null; limit?: number } = {}
+): Promise<MarketplacePage> {
+  const limit = Math.min(Math.max(Math.trunc(options.limit ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+  const after = options.cursor ? decodeCursor(options.cursor, filters.sort) : null;
+
+  const { data, error } = await supabaseAdmin.rpc('marketplace_search', {
+    p_query: filters.q || null,
+    p_min_price_cents: filters.minPriceCents,
+    p_max_price_cents: filters.maxPriceCents,
+    p_seller_id: filters.sellerId,
+    p_listed_after: dayStart(filters.listedFrom),
+    p_listed_before: dayStart(filters.listedTo, 1),
+    p_finish: filters.finish,
+    p_sort: filters.sort,
+    p_after_id: after?.id ?? null,
+    p_after_created_at: after?.sort === 'newest' ? after.value : null,
+    p_after_price_cents: after?.sort === 'price_asc' || after?.sort === 'price_desc' ? after.value : null,
+    p_after_checkout_count: after?.sort === 'popular' ? after.value : null,
+    // One extra row tells us whether there is another page
+    p_limit: limit + 1,
+  });
+
+  if (error) {
+    throw new Error(`Marketplace search failed: ${error.message}`);
+  }
+
+  const rows: SearchRow[] = data ?? [];
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    listings: page.map(toListing),
+    nextCursor: rows.length > limit && last
+      ? encodeCursor({ sort: filters.sort, id: last.id, value: sortValue(filters.sort, last) })
+      : null,
+  };
+}
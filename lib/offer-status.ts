@@ -0,0 +1,44 @@
+/**
+ * Offer states
+ * Shared by the offers API (lib/offers.ts) and the profile page; free of
+ * server imports. An open offer waits on the party that didn't propose its
+ * amount, and stops being open at expires_at even before the sweeper marks
+ * it expired.
+ */
+
+export type OfferStatus = 'open' | 'accepted' | 'declined' | 'withdrawn' | 'expired' | 'completed' | 'closed';
+
+export type OfferParty = 'buyer' | 'seller';
+
+export const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+  open: 'Open',
+  accepted: 'Accepted - awaiting payment',
+  declined: 'Declined',
+  withdrawn: 'Withdrawn',
+  expired: 'Expired',
+  completed: 'Paid',
+  closed: 'Listing closed',
+};
+
+export interface OfferState {
+  status: OfferStatus;
+  proposedBy: OfferParty;
+  expiresAt: string;
+  paymentExpiresAt: string | null;
+}
+
+/**
+ * The status as of `now`, counting offers past their deadline as expired
+ */
+export function effectiveOfferStatus(offer: OfferState, now = Date.now()): OfferStatus {
+  if (offer.status === 'open' && Date.parse(offer.expiresAt) <= now) return 'expired';
+  if (offer.status === 'accepted' && offer.paymentExpiresAt && Date.parse(offer.paymentExpiresAt) <= now) return 'expired';
+  return offer.status;
+}
+
+/**
+ * Who has to answer an open offer
+ */
+export function offerAwaiting(offer: Pick<OfferState, 'proposedBy'>): OfferParty {
+  return offer.proposedBy === 'buyer' ? 'seller' : 'buyer';
+}
@@ -0,0 +1,421 @@
+/**
+ * Marketplace offers
+ * Buyers offer below a listing's price; the seller accepts, declines or
+ * counters, and a counter goes back to the buyer to answer the same way.
+ * Offers expire OFFER_EXPIRY_HOURS after the last move (default 48).
+ * Accepting creates the buyer's PaymentIntent for the agreed amount
+ * (lib/marketplace-payments.ts) and holds the listing for them for
+ * OFFER_PAYMENT_HOURS (default 24); create-payment-intent hands that intent
+ * to the buyer at checkout and turns everyone else away. The RPCs are in
+ * supabase/migrations/20250903_listing_offers.sql; lapsed offers are swept
+ * by /api/cron/expire-offers.
+ */
+
+import type Stripe from 'stripe';
+import { supabaseAdmin } from './supabase-admin';
+import { listingPriceError } from './listing-price';
+import {
+  cancelMarketPaymentIntent,
+  createMarketPaymentIntent,
+  marketPaymentTerms,
+  retrieveMarketPaymentIntent,
+} from './marketplace-payments';
+import { EmailTemplateName, EmailTemplates, sendTemplateEmail } from './email-templates';
+import { effectiveOfferStatus, OfferParty, OfferStatus } from './offer-status';
+
+export interface Offer {
+  id: string;
+  listingId: string;
+  buyerId: string;
+  sellerId: string;
+  amountCents: number;
+  currency: string;
+  proposedBy: OfferParty;
+  status: OfferStatus;
+  counterCount: number;
+  expiresAt: string;
+  paymentExpiresAt: string | null;
+  createdAt: string;
+}
+
+interface OfferRow {
+  id: string;
+  listing_id: string;
+  buyer_id: string;
+  seller_id: string;
+  amount_cents: number;
+  currency: string;
+  proposed_by: OfferParty;
+  status: OfferStatus;
+  counter_count: number;
+  expires_at: string;
+  payment_intent_id: string | null;
+  stripe_account_id: string | null;
+  payment_expires_at: string | null;
+  created_at: string;
+}
+
+// A PaymentIntent the offer RPCs hand back for cancelling
+interface IntentRow {
+  payment_intent_id: string | null;
+  stripe_account_id: string | null;
+}
+
+interface AcceptedOfferRow {
+  offer: OfferRow;
+  superseded_intents: IntentRow[] | null;
+}
+
+export type OfferAction =
+  | { type: 'accept' }
+  | { type: 'decline' }
+  | { type: 'withdraw' }
+  | { type: 'counter'; amountCents: number };
+
+export type OfferErrorCode =
+  | 'INVALID_AMOUNT'
+  | 'LISTING_UNAVAILABLE'
+  | 'LISTING_LOCKED'
+  | 'OWN_LISTING'
+  | 'DUPLICATE_OFFER'
+  | 'OFFER_NOT_FOUND'
+  | 'OFFER_NOT_OPEN'
+  | 'NOT_YOUR_TURN'
+  | 'OFFER_CHANGED';
+
+// HTTP status for each error, for the API routes
+export const OFFER_ERROR_STATUS: Record<OfferErrorCode, number> = {
+  INVALID_AMOUNT: 400,
+  LISTING_UNAVAILABLE: 409,
+  LISTING_LOCKED: 409,
+  OWN_LISTING: 403,
+  DUPLICATE_OFFER: 409,
+  OFFER_NOT_FOUND: 404,
+  OFFER_NOT_OPEN: 409,
+  NOT_YOUR_TURN: 403,
+  OFFER_CHANGED: 409,
+};
+
+export class OfferError extends Error {
+  constructor(public code: OfferErrorCode, message: string) {
+    super(message);
+    this.name = 'OfferError';
+  }
+}
+
+const OFFER_ERRORS: Record<string, [OfferErrorCode, string]> = {
+  offer_amount_too_high: ['INVALID_AMOUNT', 'Offers must be below the listed price'],
+  offer_listing_unavailable: ['LISTING_UNAVAILABLE', 'This listing is no longer for sale'],
+  offer_listing_locked: ['LISTING_LOCKED', 'This listing is reserved for another buyer'],
+  offer_own_listing: ['OWN_LISTING', 'You cannot make an offer on your own listing'],
+  offer_duplicate: ['DUPLICATE_OFFER', 'You already have an open offer on this listing'],
+  offer_not_found: ['OFFER_NOT_FOUND', 'Offer not found'],
+  offer_not_open: ['OFFER_NOT_OPEN', 'This offer is no longer open'],
+  offer_not_your_turn: ['NOT_YOUR_TURN', 'This offer is waiting on the other party'],
+  offer_changed: ['OFFER_CHANGED', 'The offer changed; refresh and try again'],
+};
+
+const OFFER_COLUMNS =
+  'id, listing_id, buyer_id, seller_id, amount_cents, currency, proposed_by, status, counter_count, expires_at, payment_intent_id, stripe_account_id, payment_expires_at, created_at';
+
+const DEFAULT_OFFER_EXPIRY_HOURS = 48;
+const DEFAULT_OFFER_PAYMENT_HOURS = 24;
+const HOUR_MS = 60 * 60 * 1000;
+
+function hoursFromEnv(value: string | undefined, fallback: number): number {
+  const hours = parseFloat(value ?? '');
+  return Number.isFinite(hours) && hours > 0 ? hours : fallback;
+}
+
+/** When an offer or counter made now expires */
+export function offerExpiry(now = new Date()): Date {
+  return new Date(now.getTime() + hoursFromEnv(process.env.OFFER_EXPIRY_HOURS, DEFAULT_OFFER_EXPIRY_HOURS) * HOUR_MS);
+}
+
+/** How long the buyer has to pay once an offer is accepted */
+export function offerPaymentDeadline(now = new Date()): Date {
+  return new Date(now.getTime() + hoursFromEnv(process.env.OFFER_PAYMENT_HOURS, DEFAULT_OFFER_PAYMENT_HOURS) * HOUR_MS);
+}
+
+function toOffer(row: OfferRow): Offer {
+  return {
+    id: row.id,
+    listingId: row.listing_id,
+    buyerId: row.buyer_id,
+    sellerId: row.seller_id,
+    amountCents: row.amount_cents,
+    currency: row.currency,
+    proposedBy: row.proposed_by,
+    status: row.status,
+    counterCount: row.counter_count,
+    expiresAt: row.expires_at,
+    paymentExpiresAt: row.payment_expires_at,
+    createdAt: row.created_at,
+  };
+}
+
+function checkAmount(amountCents: number) {
+  const problem = listingPriceError(amountCents);
+  if (problem) {
+    throw new OfferError('INVALID_AMOUNT', problem.replace(/^Price/, 'Offer'));
+  }
+}
+
+function partyOf(row: Pick<OfferRow, 'buyer_id'>, userId: string): OfferParty {
+  return userId === row.buyer_id ? 'buyer' : 'seller';
+}
+
+async function callOfferRpc<T = OfferRow>(fn: string, args: Record<string, unknown>, action: string): Promise<T> {
+  const { data, error } = await supabaseAdmin.rpc(fn, args).single<T>();
+
+  if (error) {
+    const known = Object.keys(OFFER_ERRORS).find(token => error.message.includes(token));
+    if (known) {
+      const [code, message] = OFFER_ERRORS[known];
+      throw new OfferError(code, message);
+    }
+    throw new Error(`Failed to ${action} offer: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error(`Failed to ${action} offer: no row returned`);
+  }
+
+  return data;
+}
+
+/* ───────────────────────── notifications ───────────────────────── */
+
+// A user's contact address: their marketplace profile, else their account
+async function contactOf(userId: string): Promise<{ email: string | null; name: string | null }> {
+  const { data: profile } = await supabaseAdmin
+    .from('mkt_profiles')
+    .select('email, display_name')
+    .eq('id', userId)
+    .maybeSingle();
+  if (profile?.email) return { email: profile.email, name: profile.display_name ?? null };
+
+  const { data } = await supabaseAdmin.auth.admin.getUserById(userId);
+  return { email: data.user?.email ?? null, name: profile?.display_name ?? null };
+}
+
+async function listingTitle(listingId: string): Promise<string> {
+  const { data } = await supabaseAdmin.from('mkt_listings').select('title').eq('id', listingId).maybeSingle();
+  return data?.title || 'your listing';
+}
+
+// Emails never fail the offer; the idempotency key stops repeats
+async function notify<K extends EmailTemplateName>(
+  template: K,
+  userId: string,
+  data: (name: string | null) => EmailTemplates[K],
+  idempotencyKey: string
+): Promise<void> {
+  try {
+    const contact = await contactOf(userId);
+    if (!contact.email) {
+      console.warn(`No email address for ${template} (${idempotencyKey})`);
+      return;
+    }
+    await sendTemplateEmail(template, contact.email, data(contact.name), { idempotencyKey });
+  } catch (error) {
+    console.error(`Failed to send ${template} (${idempotencyKey}):`, error instanceof Error ? error.message : error);
+  }
+}
+
+// Tell whoever has to answer the amount on the table
+async function notifyAwaiting(row: OfferRow): Promise<void> {
+  const title = await listingTitle(row.listing_id);
+  await notify('offer-received', row.proposed_by === 'buyer' ? row.seller_id : row.buyer_id, name => ({
+    recipientName: name,
+    listingTitle: title,
+    amountCents: row.amount_cents,
+    currency: row.currency,
+    counter: row.counter_count > 0,
+    expiresAt: row.expires_at,
+  }), `offer:${row.id}:received:${row.counter_count}`);
+}
+
+/* ───────────────────────── offers ───────────────────────── */
+
+/**
+ * A buyer's offer on a listing for sale. Throws OfferError.
+ */
+export async function makeOffer(buyerId: string, input: { listingId: string; amountCents: number }): Promise<Offer> {
+  checkAmount(input.amountCents);
+  const row = await callOfferRpc('offer_create', {
+    p_listing_id: input.listingId,
+    p_buyer_id: buyerId,
+    p_amount_cents: input.amountCents,
+    p_expires_at: offerExpiry().toISOString(),
+  }, 'create');
+
+  await notifyAwaiting(row);
+  return toOffer(row);
+}
+
+/**
+ * Accept, decline, counter or withdraw an open offer. Accepting creates the
+ * PaymentIntent, holds the listing for the buyer and cancels every other
+ * pending PaymentIntent for it. Throws OfferError, or
+ * MarketPaymentError when the seller can't be paid.
+ */
+export async function respondToOffer(actorId: string, offerId: string, action: OfferAction): Promise<Offer> {
+  if (action.type === 'accept') {
+    return acceptOffer(actorId, offerId);
+  }
+  if (action.type === 'counter') {
+    checkAmount(action.amountCents);
+  }
+
+  const row = await callOfferRpc('offer_respond', {
+    p_offer_id: offerId,
+    p_actor_id: actorId,
+    p_action: action.type,
+    p_amount_cents: action.type === 'counter' ? action.amountCents : null,
+    p_expires_at: action.type === 'counter' ? offerExpiry().toISOString() : null,
+  }, action.type);
+
+  if (action.type === 'counter') {
+    await notifyAwaiting(row);
+  } else if (action.type === 'decline' && row.proposed_by === 'buyer') {
+    // Sellers see declined counters on their profile; buyers are told
+    const title = await listingTitle(row.listing_id);
+    await notify('offer-declined', row.buyer_id, name => ({
+      recipientName: name,
+      listingTitle: title,
+      amountCents: row.amount_cents,
+      currency: row.currency,
+    }), `offer:${row.id}:declined`);
+  }
+
+  return toOffer(row);
+}
+
+async function acceptOffer(actorId: string, offerId: string): Promise<Offer> {
+  const { data: current, error } = await supabaseAdmin
+    .from('mkt_offers')
+    .select(OFFER_COLUMNS)
+    .eq('id', offerId)
+    .maybeSingle<OfferRow>();
+  if (error) {
+    throw new Error(`Failed to load offer: ${error.message}`);
+  }
+
+  // Checked again under lock by offer_accept; these avoid a needless PaymentIntent
+  if (!current || (actorId !== current.buyer_id && actorId !== current.seller_id)) {
+    throw new OfferError(...OFFER_ERRORS.offer_not_found);
+  }
+  if (effectiveOfferStatus({
+    status: current.status,
+    proposedBy: current.proposed_by,
+    expiresAt: current.expires_at,
+    paymentExpiresAt: current.payment_expires_at,
+  }) !== 'open') {
+    throw new OfferError(...OFFER_ERRORS.offer_not_open);
+  }
+  if (partyOf(current, actorId) === current.proposed_by) {
+    throw new OfferError(...OFFER_ERRORS.offer_not_your_turn);
+  }
+
+  const terms = await marketPaymentTerms(current.seller_id, current.amount_cents);
+  const intent = await createMarketPaymentIntent({
+    listingId: current.listing_id,
+    buyerId: current.buyer_id,
+    sellerId: current.seller_id,
+    amountCents: current.amount_cents,
+    currency: current.currency,
+    offerId: current.id,
+  }, terms);
+
+  let accepted: AcceptedOfferRow;
+  try {
+    accepted = await callOfferRpc<AcceptedOfferRow>('offer_accept', {
+      p_offer_id: offerId,
+      p_actor_id: actorId,
+      p_amount_cents: current.amount_cents,
+      p_payment_intent_id: intent.id,
+      p_stripe_account_id: terms.stripeAccount,
+      p_platform_fee_cents: terms.feeCents ?? 0,
+      p_payment_expires_at: offerPaymentDeadline().toISOString(),
+    }, 'accept');
+  } catch (error) {
+    await cancelMarketPaymentIntent(intent.id, terms.stripeAccount);
+    throw error;
+  }
+
+  // Only the accepted offer's intent may be paid while the listing is held
+  const row = accepted.offer;
+  for (const superseded of accepted.superseded_intents ?? []) {
+    if (superseded.payment_intent_id) {
+      await cancelMarketPaymentIntent(superseded.payment_intent_id, superseded.stripe_account_id);
+    }
+  }
+
+  const title = await listingTitle(row.listing_id);
+  await notify('offer-accepted', row.buyer_id, name => ({
+    buyerName: name,
+    listingTitle: title,
+    listingId: row.listing_id,
+    amountCents: row.amount_cents,
+    currency: row.currency,
+    payBy: row.payment_expires_at ?? '',
+  }), `offer:${row.id}:accepted`);
+
+  return toOffer(row);
+}
+
+/**
+ * The PaymentIntent for a listing held for an accepted offer: the buyer's
+ * own, or null when the listing isn't held. Throws OfferError
+ * (LISTING_LOCKED) when it is held for someone else.
+ */
+export async function offerCheckout(
+  listingId: string,
+  buyerId: string
+): Promise<{ intent: Stripe.PaymentIntent; stripeAccount: string | null } | null> {
+  const { data: listing, error } = await supabaseAdmin
+    .from('mkt_listings')
+    .select('locked_offer_id, locked_until')
+    .eq('id', listingId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load listing hold: ${error.message}`);
+  }
+  if (!listing?.locked_offer_id || !listing.locked_until || Date.parse(listing.locked_until) <= Date.now()) {
+    return null;
+  }
+
+  const { data: offer, error: offerError } = await supabaseAdmin
+    .from('mkt_offers')
+    .select(OFFER_COLUMNS)
+    .eq('id', listing.locked_offer_id)
+    .maybeSingle<OfferRow>();
+  if (offerError) {
+    throw new Error(`Failed to load held offer: ${offerError.message}`);
+  }
+  if (!offer || offer.buyer_id !== buyerId || !offer.payment_intent_id) {
+    throw new OfferError(...OFFER_ERRORS.offer_listing_locked);
+  }
+
+  const intent = await retrieveMarketPaymentIntent(offer.payment_intent_id, offer.stripe_account_id);
+  return { intent, stripeAccount: offer.stripe_account_id };
+}
+
+/**
+ * Sweeper: mark lapsed offers expired, release listings whose buyer didn't
+ * pay in time and cancel those PaymentIntents. Returns the released offer ids.
+ */
+export async function expireOffers(): Promise<string[]> {
+  const { data, error } = await supabaseAdmin.rpc('offer_expire');
+  if (error) {
+    throw new Error(`Failed to expire offers: ${error.message}`);
+  }
+
+  const lapsed: (IntentRow & { offer_id: string })[] = data ?? [];
+  for (const offer of lapsed) {
+    if (offer.payment_intent_id) {
+      await cancelMarketPaymentIntent(offer.payment_intent_id, offer.stripe_account_id);
+    }
+  }
+  return lapsed.map(offer => offer.offer_id);
+}
@@ -0,0 +1,37 @@
+/**
+ * Order statuses
+ * The status machine shared by the server (lib/orders.ts) and the order
+ * pages; free of server imports so client components can use it.
+ */
+
+export type OrderStatus = 'paid' | 'in_production' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  paid: 'Paid',
+  in_production: 'In production',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+// The happy path, in order; cancelled and refunded leave it
+export const ORDER_PROGRESS: OrderStatus[] = ['paid', 'in_production', 'shipped', 'delivered'];
+
+/**
+ * Mirrors order_can_transition: forward steps may skip, cancelling stops once
+ * shipped, refunds are possible until refunded
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  if (from === 'refunded') return false;
+  if (to === 'refunded') return true;
+  if (from === 'cancelled') return false;
+  if (to === 'cancelled') return from === 'paid' || from === 'in_production';
+  return ORDER_PROGRESS.indexOf(to) > ORDER_PROGRESS.indexOf(from);
+}
+
+// The customer's page for an order, as an absolute link for emails
+export function orderUrl(orderId: string): string {
+  const origin = (process.env.NEXT_PUBLIC_SITE_URL || 'https://cardify.club').replace(/\/$/, '');
+  return `${origin}/orders/${orderId}`;
+}
@@ -0,0 +1,282 @@
+/**
+ * Orders
+ * One order per paid checkout session, recorded by the Stripe webhook and
+ * shipped by lib/fulfilment.ts. Status moves paid -> in_production -> shipped
+ * -> delivered, or to cancelled / refunded, only through order_transition
+ * (supabase/migrations/20250830_order_status.sql), which also keeps the
+ * timeline in order_events. Customers are emailed as the order progresses
+ * (lib/email-templates.ts).
+ */
+
+import { supabaseAdmin } from './supabase-admin';
+import { CartLineKind } from './pricing';
+import { ServiceLevel } from './shipping';
+import { EmailMessage, sendEmail } from './email';
+import { renderEmail } from './email-templates';
+import { OrderStatus } from './order-status';
+
+export { canTransition, ORDER_PROGRESS, ORDER_STATUS_LABELS, orderUrl } from './order-status';
+export type { OrderStatus } from './order-status';
+
+export interface OrderItem {
+  kind: CartLineKind;
+  quantity: number;
+  dropId?: string;
+  finish?: string;
+  imageUrl?: string;
+}
+
+export interface OrderAddress {
+  line1: string;
+  line2: string | null;
+  city: string;
+  state: string | null;
+  postalCode: string;
+  country: string;
+}
+
+// What the webhook records for a paid session
+export interface NewOrder {
+  checkoutSessionId: string;
+  paymentIntentId: string | null;
+  customerEmail: string | null;
+  customerName: string | null;
+  customerPhone: string | null;
+  shippingAddress: OrderAddress;
+  items: OrderItem[];
+  serials: string | null;
+  amountTotalCents: number;
+  shippingCents: number;
+  currency: string;
+  shippingLevel: ServiceLevel;
+}
+
+export interface Order extends NewOrder {
+  id: string;
+  status: OrderStatus;
+  statusChangedAt: string | null;
+  easyshipShipmentId: string | null;
+  labelUrl: string | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  courierName: string | null;
+  createdAt: string;
+}
+
+export interface OrderEvent {
+  status: OrderStatus | null;  // Null for tracking checkpoints
+  description: string;
+  location: string | null;
+  source: string;
+  occurredAt: string;
+}
+
+export interface OrderTransition {
+  changed: boolean;
+  from: OrderStatus;
+  to: OrderStatus;
+}
+
+interface OrderRow {
+  id: string;
+  checkout_session_id: string;
+  payment_intent_id: string | null;
+  customer_email: string | null;
+  customer_name: string | null;
+  customer_phone: string | null;
+  shipping_address: {
+    line1: string;
+    line2: string | null;
+    city: string;
+    state: string | null;
+    postal_code: string;
+    country: string;
+  };
+  items: OrderItem[];
+  serials: string | null;
+  amount_total_cents: number;
+  shipping_cents: number;
+  currency: string;
+  shipping_level: ServiceLevel;
+  status: OrderStatus;
+  status_changed_at: string | null;
+  easyship_shipment_id: string | null;
+  label_url: string | null;
+  tracking_number: string | null;
+  tracking_url: string | null;
+  courier_name: string | null;
+  created_at: string;
+}
+
+export type OrderErrorCode = 'ORDER_NOT_FOUND' | 'INVALID_TRANSITION';
+
+export class OrderTransitionError extends Error {
+  constructor(public code: OrderErrorCode, message: string) {
+    super(message);
+    this.name = 'OrderTransitionError';
+  }
+}
+
+// Status emails; paid and refunded have their own (the order confirmation
+// and refund-issued, sent by the Stripe webhook)
+const STATUS_TEMPLATES: Partial<Record<OrderStatus, 'order-in-production' | 'order-shipped' | 'order-delivered' | 'order-cancelled'>> = {
+  in_production: 'order-in-production',
+  shipped: 'order-shipped',
+  delivered: 'order-delivered',
+  cancelled: 'order-cancelled',
+};
+
+/**
+ * The email a customer gets when their order enters a status; null for
+ * statuses without one
+ */
+export function orderStatusEmail(order: Order, status: OrderStatus): EmailMessage | null {
+  const template = STATUS_TEMPLATES[status];
+  if (!template || !order.customerEmail) return null;
+  return { to: order.customerEmail, template, ...renderEmail(template, { order }) };
+}
+
+function toOrder(row: OrderRow): Order {
+  return {
+    id: row.id,
+    checkoutSessionId: row.checkout_session_id,
+    paymentIntentId: row.payment_intent_id,
+    customerEmail: row.customer_email,
+    customerName: row.customer_name,
+    customerPhone: row.customer_phone,
+    shippingAddress: {
+      line1: row.shipping_address.line1,
+      line2: row.shipping_address.line2,
+      city: row.shipping_address.city,
+      state: row.shipping_address.state,
+      postalCode: row.shipping_address.postal_code,
+      country: row.shipping_address.country,
+    },
+    items: row.items,
+    serials: row.serials,
+    amountTotalCents: row.amount_total_cents,
+    shippingCents: row.shipping_cents,
+    currency: row.currency,
+    shippingLevel: row.shipping_level,
+    status: row.status,
+    statusChangedAt: row.status_changed_at,
+    easyshipShipmentId: row.easyship_shipment_id,
+    labelUrl: row.label_url,
+    trackingNumber: row.tracking_number,
+    trackingUrl: row.tracking_url,
+    courierName: row.courier_name,
+    createdAt: row.created_at,
+  };
+}
+
+async function findOrder(column: string, value: string): Promise<Order | null> {
+  const { data, error } = await supabaseAdmin
+    .from('orders')
+    .select('*')
+    .eq(column, value)
+    .maybeSingle<OrderRow>();
+
+  if (error) {
+    throw new Error(`Failed to load order: ${error.message}`);
+  }
+
+  return data ? toOrder(data) : null;
+}
+
+export function getOrder(orderId: string): Promise<Order | null> {
+  return findOrder('id', orderId);
+}
+
+export function getOrderBySession(checkoutSessionId: string): Promise<Order | null> {
+  return findOrder('checkout_session_id', checkoutSessionId);
+}
+
+export function getOrderByPaymentIntent(paymentIntentId: string): Promise<Order | null> {
+  return findOrder('payment_intent_id', paymentIntentId);
+}
+
+/**
+ * The order a carrier update is about, by shipment id, then tracking number
+ */
+export async function findOrderByShipment(
+  ref: { shipmentId?: string | null; trackingNumber?: string | null }
+): Promise<Order | null> {
+  if (ref.shipmentId) {
+    const order = await findOrder('easyship_shipment_id', ref.shipmentId);
+    if (order) return order;
+  }
+  return ref.trackingNumber ? findOrder('tracking_number', ref.trackingNumber) : null;
+}
+
+/**
+ * The order's timeline, oldest first
+ */
+export async function getOrderEvents(orderId: string): Promise<OrderEvent[]> {
+  const { data, error } = await supabaseAdmin
+    .from('order_events')
+    .select('status, description, location, source, occurred_at')
+    .eq('order_id', orderId)
+    .order('occurred_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load order events: ${error.message}`);
+  }
+
+  return (data ?? []).map(row => ({
+    status: row.status as OrderStatus | null,
+    description: row.description,
+    location: row.location,
+    source: row.source,
+    occurredAt: row.occurred_at,
+  }));
+}
+
+/**
+ * Move an order to a status, or record a checkpoint when status is null or
+ * unchanged. Replays with the same eventKey change nothing. Emails the
+ * customer when the status changes; a failed email doesn't undo the
+ * transition. Throws OrderTransitionError.
+ */
+export async function transitionOrder(
+  orderId: string,
+  status: OrderStatus | null,
+  event: { source: string; description: string; eventKey?: string; occurredAt?: string | null; location?: string | null }
+): Promise<OrderTransition> {
+  const { data, error } = await supabaseAdmin
+    .rpc('order_transition', {
+      p_order_id: orderId,
+      p_status: status,
+      p_source: event.source,
+      p_description: event.description,
+      p_event_key: event.eventKey ?? null,
+      p_occurred_at: event.occurredAt ?? null,
+      p_location: event.location ?? null,
+    })
+    .single<{ changed: boolean; from_status: OrderStatus; to_status: OrderStatus }>();
+
+  if (error) {
+    if (error.message.includes('order_not_found')) {
+      throw new OrderTransitionError('ORDER_NOT_FOUND', `Order ${orderId} not found`);
+    }
+    const invalid = error.message.match(/order_invalid_transition:(\w+):(\w+)/);
+    if (invalid) {
+      throw new OrderTransitionError('INVALID_TRANSITION', `Order cannot move from ${invalid[1]} to ${invalid[2]}`);
+    }
+    throw new Error(`Failed to update order status: ${error.message}`);
+  }
+  if (!data) {
+    throw new OrderTransitionError('ORDER_NOT_FOUND', `Order ${orderId} not found`);
+  }
+
+  const transition = { changed: data.changed, from: data.from_status, to: data.to_status };
+  if (transition.changed) {
+    try {
+      const order = await getOrder(orderId);
+      const email = order && orderStatusEmail(order, transition.to);
+      if (email) await sendEmail(email, { idempotencyKey: `order:${orderId}:${transition.to}` });
+    } catch (emailError) {
+      console.error(`Failed to email order ${orderId} status ${transition.to}:`, emailError);
+    }
+  }
+  return transition;
+}
@@ -0,0 +1,186 @@
+/**
+ * Pricing engine
+ * The one place cart prices are computed: volume tiers, card finishes,
+ * display cases, shipping and discounts. Pure and dependency-free, so the
+ * modals and cart price exactly as /api/inventory and checkout do. Checkout
+ * rebuilds every line from its own catalogue and never uses client prices.
+ * All amounts are integer cents.
+ */
+
+export type CardFinish = 'matte' | 'rainbow' | 'gloss';
+
+export interface PriceTier {
+  minQuantity: number;
+  discountPercent: number;
+}
+
+/**
+ * Prices that aren't per drop. The base prices can be overridden from the
+ * Stripe product metadata; see /api/inventory.
+ */
+export interface PriceList {
+  customCardCents: number;
+  customCardTiers: PriceTier[];
+  finishSurchargeCents: Record<CardFinish, number>;
+  displayCaseCents: number;
+}
+
+export const DEFAULT_PRICE_LIST: PriceList = {
+  customCardCents: 900,
+  customCardTiers: [
+    { minQuantity: 5, discountPercent: 5 },
+    { minQuantity: 10, discountPercent: 10 },
+    { minQuantity: 25, discountPercent: 15 },
+  ],
+  finishSurchargeCents: { matte: 0, rainbow: 400, gloss: 400 },
+  displayCaseCents: 1900,
+};
+
+export type CartLineKind = 'limited-edition' | 'custom-card' | 'display-case';
+
+/**
+ * One priceable line. Build these with the helpers below rather than by hand.
+ */
+export interface CartLine {
+  kind: CartLineKind;
+  quantity: number;
+  baseUnitCents: number;  // Before volume discounts
+  tiers: PriceTier[];
+  surchargeCents: number;  // Per unit, added after the volume discount (finishes)
+}
+
+export interface PricedLine extends CartLine {
+  discountPercent: number;  // Volume tier that applied, 0 if none
+  unitCents: number;  // Tiered base plus surcharge
+  subtotalCents: number;
+  savingsCents: number;  // Volume discount over the whole line
+}
+
+export interface CartDiscount {
+  percentOff?: number;
+  amountOffCents?: number;
+  freeShipping?: boolean;
+}
+
+export interface PriceBreakdown {
+  lines: PricedLine[];
+  itemsCents: number;  // Sum of line subtotals
+  savingsCents: number;  // Volume discounts already taken off itemsCents
+  discountCents: number;  // Percent/amount discount off itemsCents
+  shippingCents: number;
+  totalCents: number;
+}
+
+/**
+ * The tier with the highest minQuantity the quantity reaches, or null
+ */
+export function tierFor(tiers: PriceTier[], quantity: number): PriceTier | null {
+  let best: PriceTier | null = null;
+  for (const tier of tiers) {
+    if (quantity >= tier.minQuantity && (!best || tier.minQuantity > best.minQuantity)) {
+      best = tier;
+    }
+  }
+  return best;
+}
+
+/**
+ * Unit price after the volume discount, rounded down to the cent
+ */
+export function tieredUnitCents(baseUnitCents: number, tiers: PriceTier[], quantity: number): number {
+  const tier = tierFor(tiers, quantity);
+  return tier ? Math.floor((baseUnitCents * (100 - tier.discountPercent)) / 100) : baseUnitCents;
+}
+
+/**
+ * The price-per-quantity table shown in the modals: base price, then one row per tier
+ */
+export function tierTable(baseUnitCents: number, tiers: PriceTier[]) {
+  const rows = [{ quantity: 1, pricePerUnitCents: baseUnitCents, discount: 0 }];
+  for (const tier of [...tiers].sort((a, b) => a.minQuantity - b.minQuantity)) {
+    rows.push({
+      quantity: tier.minQuantity,
+      pricePerUnitCents: tieredUnitCents(baseUnitCents, tiers, tier.minQuantity),
+      discount: tier.discountPercent,
+    });
+  }
+  return rows.map(row => ({ ...row, totalPriceCents: row.pricePerUnitCents * row.quantity }));
+}
+
+export function limitedEditionLine(drop: { priceCents: number; priceTiers: PriceTier[] }, quantity: number): CartLine {
+  return { kind: 'limited-edition', quantity, baseUnitCents: drop.priceCents, tiers: drop.priceTiers, surchargeCents: 0 };
+}
+
+export function customCardLine(priceList: PriceList, finish: CardFinish | string | null | undefined, quantity: number): CartLine {
+  return {
+    kind: 'custom-card',
+    quantity,
+    baseUnitCents: priceList.customCardCents,
+    tiers: priceList.customCardTiers,
+    surchargeCents: priceList.finishSurchargeCents[normalizeFinish(finish)],
+  };
+}
+
+export function displayCaseLine(priceList: PriceList, quantity: number): CartLine {
+  return { kind: 'display-case', quantity, baseUnitCents: priceList.displayCaseCents, tiers: [], surchargeCents: 0 };
+}
+
+/**
+ * Unknown finishes price as matte
+ */
+export function normalizeFinish(finish: string | null | undefined): CardFinish {
+  return finish === 'rainbow' || finish === 'gloss' ? finish : 'matte';
+}
+
+export function priceLine(line: CartLine): PricedLine {
+  if (!Number.isInteger(line.quantity) || line.quantity < 0) {
+    throw new RangeError(`Invalid quantity ${line.quantity} for ${line.kind}`);
+  }
+  if (!Number.isInteger(line.baseUnitCents) || line.baseUnitCents < 0) {
+    throw new RangeError(`Invalid price ${line.baseUnitCents} for ${line.kind}`);
+  }
+
+  const tier = tierFor(line.tiers, line.quantity);
+  const tieredCents = tieredUnitCents(line.baseUnitCents, line.tiers, line.quantity);
+  const unitCents = tieredCents + line.surchargeCents;
+
+  return {
+    ...line,
+    discountPercent: tier?.discountPercent ?? 0,
+    unitCents,
+    subtotalCents: unitCents * line.quantity,
+    savingsCents: (line.baseUnitCents - tieredCents) * line.quantity,
+  };
+}
+
+/**
+ * Price a cart. shippingCents (from lib/shipping) applies once per order when
+ * there is anything to ship; the discount comes off the items, never below zero.
+ */
+export function priceCart(
+  lines: CartLine[],
+  options: { shippingCents?: number | null; discount?: CartDiscount | null } = {}
+): PriceBreakdown {
+  const priced = lines.filter(line => line.quantity > 0).map(priceLine);
+  const itemsCents = priced.reduce((sum, line) => sum + line.subtotalCents, 0);
+  const savingsCents = priced.reduce((sum, line) => sum + line.savingsCents, 0);
+
+  const discount = options.discount ?? {};
+  const percentOff = Math.min(Math.max(discount.percentOff ?? 0, 0), 100);
+  const percentCents = Math.floor((itemsCents * percentOff) / 100);
+  const amountCents = Math.max(discount.amountOffCents ?? 0, 0);
+  const discountCents = Math.min(itemsCents, percentCents + amountCents);
+
+  const shippingCents = priced.length > 0 && !discount.freeShipping
+    ? Math.max(options.shippingCents ?? 0, 0)
+    : 0;
+
+  return {
+    lines: priced,
+    itemsCents,
+    savingsCents,
+    discountCents,
+    shippingCents,
+    totalCents: itemsCents - discountCents + shippingCents,
+  };
+}
@@ -0,0 +1,71 @@
+// lib/privy-server.ts (SERVER ONLY)
+import crypto from 'crypto'
+import type { NextRequest } from 'next/server'
+
+// Same app id the client-side PrivyProvider uses
+const PRIVY_APP_ID = process.env.PRIVY_APP_ID || process.env.NEXT_PUBLIC_PRIVY_APP_ID || 'cmc8285yr000yjp0m47vdx6c9'
+
+interface PrivyIdentityClaims {
+  sub: string
+  aud: string
+  iss: string
+  exp: number
+  linked_accounts?: string
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'))
+}
+
+/**
+ * Verifies a Privy ES256 JWT against PRIVY_VERIFICATION_KEY (the PEM from the
+ * Privy dashboard). Returns null for anything missing, malformed or expired.
+ */
+function verifyPrivyJwt(token: string): PrivyIdentityClaims | null {
+  const verificationKey = process.env.PRIVY_VERIFICATION_KEY
+  if (!verificationKey) return null
+
+  const [header, payload, signature] = token.split('.')
+  if (!header || !payload || !signature) return null
+
+  try {
+    const { alg } = decodeSegment<{ alg: string }>(header)
+    if (alg !== 'ES256') return null
+
+    const valid = crypto.verify(
+      'sha256',
+      Buffer.from(`${header}.${payload}`),
+      { key: verificationKey.replace(/\\n/g, '\n'), dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature, 'base64url')
+    )
+    if (!valid) return null
+
+    const claims = decodeSegment<PrivyIdentityClaims>(payload)
+    if (claims.iss !== 'privy.io' || claims.aud !== PRIVY_APP_ID) return null
+    if (claims.exp * 1000 < Date.now()) return null
+
+    return claims
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Returns the lower-cased wallet address of the signed-in Privy user, read from
+ * the `privy-id-token` identity cookie. Null when there is no verified wallet.
+ */
+export function getPrivyWalletFromRequest(req: NextRequest): string | null {
+  const token = req.cookies.get('privy-id-token')?.value
+  if (!token) return null
+
+  const claims = verifyPrivyJwt(token)
+  if (!claims?.linked_accounts) return null
+
+  try {
+    const accounts = JSON.parse(claims.linked_accounts) as Array<{ type: string; address?: string }>
+    const wallet = accounts.find(account => account.type === 'wallet' && account.address)
+    return wallet?.address?.toLowerCase() ?? null
+  } catch {
+    return null
+  }
+}
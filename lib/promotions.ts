@@ -0,0 +1,329 @@
+/**
+ * Checkout promotions
+ * Discounts on card orders (supabase/migrations/20250828_checkout_promotions.sql):
+ * percentage or fixed amounts off, free shipping, and buy-X-get-Y on display
+ * cases. Customers enter codes; automatic promotions apply on their own. The
+ * discount is computed with lib/pricing against the server's own prices, and
+ * creating the Checkout Session reserves a redemption so the caps hold for
+ * checkouts open at the same time. The webhook marks it redeemed once the
+ * order is paid, or releases it when the session expires.
+ */
+
+import crypto from 'crypto';
+import { supabaseAdmin } from './supabase-admin';
+import { CartDiscount, CartLine, PriceBreakdown, priceCart, priceLine } from './pricing';
+import { quoteShipping } from './shipping';
+
+export type PromotionKind = 'percent' | 'fixed' | 'free_shipping' | 'buy_x_get_y';
+
+export interface Promotion {
+  code: string;
+  description: string;
+  kind: PromotionKind;
+  percentOff: number | null;
+  amountOffCents: number | null;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  minSubtotalCents: number;
+  automatic: boolean;
+}
+
+export interface AppliedPromotion {
+  promotion: Promotion;
+  discount: CartDiscount;
+  breakdown: PriceBreakdown;
+  savedCents: number;  // Discount plus any shipping waived
+}
+
+interface PromotionRow {
+  code: string;
+  description: string;
+  kind: PromotionKind;
+  percent_off: number | null;
+  amount_off_cents: number | null;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  min_subtotal_cents: number;
+  automatic: boolean;
+  max_redemptions: number | null;
+  redeemed_count: number;
+  starts_at: string | null;
+  expires_at: string | null;
+}
+
+export type PromotionErrorCode =
+  | 'PROMO_NOT_FOUND'
+  | 'PROMO_NOT_STARTED'
+  | 'PROMO_EXPIRED'
+  | 'PROMO_EXHAUSTED'
+  | 'PROMO_SIGN_IN_REQUIRED'
+  | 'PROMO_CUSTOMER_LIMIT'
+  | 'PROMO_NOT_APPLICABLE';
+
+export class PromotionError extends Error {
+  constructor(public code: PromotionErrorCode, message: string) {
+    super(message);
+    this.name = 'PromotionError';
+  }
+}
+
+const PROMOTION_ERRORS: Record<string, [PromotionErrorCode, string]> = {
+  promo_not_found: ['PROMO_NOT_FOUND', 'That promo code is not valid'],
+  promo_not_started: ['PROMO_NOT_STARTED', 'That promo code is not active yet'],
+  promo_expired: ['PROMO_EXPIRED', 'That promo code has expired'],
+  promo_exhausted: ['PROMO_EXHAUSTED', 'That promo code has been fully redeemed'],
+  promo_sign_in_required: ['PROMO_SIGN_IN_REQUIRED', 'Sign in to use that promo code'],
+  promo_customer_limit: ['PROMO_CUSTOMER_LIMIT', 'You have already used that promo code'],
+};
+
+const PROMOTION_COLUMNS =
+  'code, description, kind, percent_off, amount_off_cents, buy_quantity, get_quantity, min_subtotal_cents, automatic, max_redemptions, redeemed_count, starts_at, expires_at';
+
+function toPromotion(row: PromotionRow): Promotion {
+  return {
+    code: row.code,
+    description: row.description,
+    kind: row.kind,
+    percentOff: row.percent_off,
+    amountOffCents: row.amount_off_cents,
+    buyQuantity: row.buy_quantity,
+    getQuantity: row.get_quantity,
+    minSubtotalCents: row.min_subtotal_cents,
+    automatic: row.automatic,
+  };
+}
+
+function promotionError(error: { message: string }, action: string): Error {
+  const known = Object.keys(PROMOTION_ERRORS).find(key => error.message.includes(key));
+  if (known) {
+    const [promotionCode, message] = PROMOTION_ERRORS[known];
+    return new PromotionError(promotionCode, message);
+  }
+  return new Error(`Failed to ${action}: ${error.message}`);
+}
+
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * The discount a promotion gives a cart. Buy-X-get-Y makes every
+ * (X + Y)th display case free, cheapest first. Throws PROMO_NOT_APPLICABLE
+ * if the cart doesn't qualify.
+ */
+export function promotionDiscount(promotion: Promotion, lines: CartLine[]): CartDiscount {
+  const { itemsCents } = priceCart(lines);
+  if (itemsCents === 0 || itemsCents < promotion.minSubtotalCents) {
+    throw new PromotionError(
+      'PROMO_NOT_APPLICABLE',
+      promotion.minSubtotalCents > 0
+        ? `That promo code needs an order of at least $${(promotion.minSubtotalCents / 100).toFixed(2)}`
+        : 'That promo code does not apply to your order'
+    );
+  }
+
+  switch (promotion.kind) {
+    case 'percent':
+      return { percentOff: promotion.percentOff ?? 0 };
+    case 'fixed':
+      return { amountOffCents: promotion.amountOffCents ?? 0 };
+    case 'free_shipping':
+      return { freeShipping: true };
+    case 'buy_x_get_y': {
+      const buy = promotion.buyQuantity ?? 0;
+      const get = promotion.getQuantity ?? 0;
+      const unitPrices = lines
+        .filter(line => line.kind === 'display-case' && line.quantity > 0)
+        .flatMap(line => Array<number>(line.quantity).fill(priceLine(line).unitCents))
+        .sort((a, b) => a - b);
+      const free = buy + get > 0 ? Math.floor(unitPrices.length / (buy + get)) * get : 0;
+      if (free === 0) {
+        throw new PromotionError(
+          'PROMO_NOT_APPLICABLE',
+          `Add ${buy + get} display cases to get ${get} free`
+        );
+      }
+      return { amountOffCents: unitPrices.slice(0, free).reduce((sum, cents) => sum + cents, 0) };
+    }
+  }
+}
+
+/**
+ * Standard shipping as it would be charged without a promotion
+ */
+function standardShippingCents(lines: CartLine[], shippingCountry?: string | null): number {
+  if (!shippingCountry) return 0;
+  const [standard] = quoteShipping(shippingCountry, lines, { subtotalCents: priceCart(lines).itemsCents });
+  return standard?.amountCents ?? 0;
+}
+
+function applyTo(promotion: Promotion, lines: CartLine[], shippingCountry?: string | null): AppliedPromotion {
+  const discount = promotionDiscount(promotion, lines);
+  const shippingCents = standardShippingCents(lines, shippingCountry);
+  const breakdown = priceCart(lines, { shippingCents, discount });
+  const undiscounted = priceCart(lines, { shippingCents });
+  return { promotion, discount, breakdown, savedCents: undiscounted.totalCents - breakdown.totalCents };
+}
+
+/**
+ * A promotion the customer may use now, by code. Per-customer caps are
+ * counted by the signed-in account's confirmed email; without one, a
+ * promotion with such a cap throws PROMO_SIGN_IN_REQUIRED. Throws
+ * PromotionError.
+ */
+export async function checkPromotion(code: string, accountEmail?: string | null): Promise<Promotion> {
+  const { data, error } = await supabaseAdmin
+    .rpc('checkout_promotion_check', {
+      p_code: normalizeCode(code),
+      p_customer_key: accountEmail ? accountEmail.toLowerCase() : null,
+    })
+    .single<PromotionRow>();
+
+  if (error) {
+    throw promotionError(error, 'check promotion');
+  }
+  if (!data) {
+    throw new PromotionError('PROMO_NOT_FOUND', PROMOTION_ERRORS.promo_not_found[1]);
+  }
+
+  return toPromotion(data);
+}
+
+/**
+ * Automatic promotions running now with paid redemptions left. Live
+ * reservations and per-customer caps are counted when the promotion is
+ * checked or reserved.
+ */
+export async function listAutomaticPromotions(): Promise<Promotion[]> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('checkout_promotions')
+    .select(PROMOTION_COLUMNS)
+    .eq('active', true)
+    .eq('automatic', true)
+    .or(`starts_at.is.null,starts_at.lte."${now}"`)
+    .or(`expires_at.is.null,expires_at.gt."${now}"`);
+
+  if (error) {
+    throw new Error(`Failed to load promotions: ${error.message}`);
+  }
+
+  return ((data ?? []) as PromotionRow[])
+    .filter(row => row.max_redemptions === null || row.redeemed_count < row.max_redemptions)
+    .map(toPromotion);
+}
+
+/**
+ * The promotion for a cart: the entered code if there is one (errors
+ * propagate), otherwise the automatic promotion that saves the most, or null.
+ * Automatic promotions are re-checked for the customer's per-customer cap,
+ * so guests skip those that have one.
+ */
+export async function resolvePromotion(
+  lines: CartLine[],
+  options: { code?: string | null; accountEmail?: string | null; shippingCountry?: string | null } = {}
+): Promise<AppliedPromotion | null> {
+  const { code, accountEmail, shippingCountry } = options;
+
+  if (code && code.trim()) {
+    const promotion = await checkPromotion(code, accountEmail);
+    return applyTo(promotion, lines, shippingCountry);
+  }
+
+  const candidates: AppliedPromotion[] = [];
+  for (const promotion of await listAutomaticPromotions()) {
+    try {
+      candidates.push(applyTo(promotion, lines, shippingCountry));
+    } catch (error) {
+      if (!(error instanceof PromotionError)) throw error;
+    }
+  }
+  candidates.sort((a, b) => b.savedCents - a.savedCents);
+
+  for (const candidate of candidates) {
+    if (candidate.savedCents <= 0) break;
+    try {
+      await checkPromotion(candidate.promotion.code, accountEmail);
+      return candidate;
+    } catch (error) {
+      if (!(error instanceof PromotionError)) throw error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Reserve a redemption for a checkout about to be created. It counts towards
+ * both caps until expiresAt unless released or redeemed first; the
+ * per-customer cap is counted against accountEmail, as in checkPromotion.
+ * Throws PromotionError if the promotion can no longer be used; returns the
+ * reservation reference to store in the session metadata.
+ */
+export async function reservePromotion(
+  code: string,
+  accountEmail: string | null,
+  discountCents: number,
+  expiresAt: Date
+): Promise<string> {
+  const reference = crypto.randomUUID();
+  const { error } = await supabaseAdmin.rpc('checkout_promotion_reserve', {
+    p_code: normalizeCode(code),
+    p_reference: reference,
+    p_customer_key: accountEmail ? accountEmail.toLowerCase() : null,
+    p_discount_cents: discountCents,
+    p_expires_at: expiresAt.toISOString(),
+  });
+
+  if (error) {
+    throw promotionError(error, 'reserve promotion');
+  }
+
+  return reference;
+}
+
+/**
+ * Link a reservation to the Checkout Session created for it
+ */
+export async function attachPromotionSession(reference: string, checkoutSessionId: string): Promise<void> {
+  const { error } = await supabaseAdmin.rpc('checkout_promotion_attach', {
+    p_reference: reference,
+    p_checkout_session_id: checkoutSessionId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to attach promotion reservation: ${error.message}`);
+  }
+}
+
+/**
+ * Give back an unpaid checkout's reservation. Returns whether one was
+ * released; false if it was already released or redeemed.
+ */
+export async function releasePromotion(reference: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('checkout_promotion_release', {
+    p_reference: reference,
+  });
+
+  if (error) {
+    throw new Error(`Failed to release promotion reservation: ${error.message}`);
+  }
+
+  return data === true;
+}
+
+/**
+ * Mark a paid session's reservation redeemed; replays record nothing.
+ * Returns whether a redemption was recorded.
+ */
+export async function recordRedemption(reference: string, checkoutSessionId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('checkout_promotion_redeem', {
+    p_reference: reference,
+    p_checkout_session_id: checkoutSessionId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record promotion redemption: ${error.message}`);
+  }
+
+  return data === true;
+}
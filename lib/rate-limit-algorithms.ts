@@ -0,0 +1,209 @@
+/**
+ * Rate limiting algorithms
+ * Each algorithm is a pure function of (stored state, settings, now) so it can
+ * run against any RateLimitStore and be unit tested without timers.
+ * Fixed windows are handled by RateLimitStore.increment directly.
+ */
+
+export type RateLimitAlgorithm = 'fixed' | 'sliding-log' | 'sliding-counter' | 'token-bucket';
+
+export interface AlgorithmSettings {
+  windowMs: number;
+  maxRequests: number;
+  burst?: number;  // Token bucket capacity (defaults to maxRequests)
+  refillPerSecond?: number;  // Token bucket refill rate (defaults to maxRequests per window)
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number;  // Epoch ms for X-RateLimit-Reset
+  retryAfterMs: number;  // How long a rejected caller should wait
+}
+
+interface AlgorithmResult<S> {
+  state: S;
+  decision: RateLimitDecision;
+}
+
+export interface RateLimitAlgorithmImpl<S> {
+  consume(state: S | null, settings: AlgorithmSettings, now: number): AlgorithmResult<S>;
+  release(state: S | null, settings: AlgorithmSettings, now: number): S | null;
+  ttlMs(settings: AlgorithmSettings): number;
+}
+
+// ---------------------------------------------------------------------------
+// Sliding log: exact, stores one timestamp per request in the window
+// ---------------------------------------------------------------------------
+
+interface SlidingLogState {
+  hits: number[];
+}
+
+export const slidingLog: RateLimitAlgorithmImpl<SlidingLogState> = {
+  consume(state, { windowMs, maxRequests }, now) {
+    const hits = (state?.hits ?? []).filter(t => t > now - windowMs);
+    const allowed = hits.length < maxRequests;
+
+    if (allowed) {
+      hits.push(now);
+    }
+
+    // The oldest hit leaving the window frees the next slot
+    const resetTime = hits.length > 0 ? hits[0] + windowMs : now + windowMs;
+
+    return {
+      state: { hits },
+      decision: {
+        allowed,
+        limit: maxRequests,
+        remaining: Math.max(0, maxRequests - hits.length),
+        resetTime,
+        retryAfterMs: allowed ? 0 : resetTime - now,
+      },
+    };
+  },
+
+  release(state) {
+    if (!state || state.hits.length === 0) return state;
+    return { hits: state.hits.slice(0, -1) };
+  },
+
+  ttlMs: ({ windowMs }) => windowMs,
+};
+
+// ---------------------------------------------------------------------------
+// Sliding counter: approximates the log with two fixed windows, weighting the
+// previous one by how much of it still overlaps the sliding window
+// ---------------------------------------------------------------------------
+
+interface SlidingCounterState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+export const slidingCounter: RateLimitAlgorithmImpl<SlidingCounterState> = {
+  consume(state, { windowMs, maxRequests }, now) {
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    let current = 0;
+    let previous = 0;
+
+    if (state?.windowStart === windowStart) {
+      current = state.current;
+      previous = state.previous;
+    } else if (state?.windowStart === windowStart - windowMs) {
+      previous = state.current;
+    }
+
+    const overlap = 1 - (now - windowStart) / windowMs;
+    const estimated = previous * overlap + current;
+    const allowed = estimated + 1 <= maxRequests;
+
+    if (allowed) {
+      current++;
+    }
+
+    const used = previous * overlap + current;
+    const resetTime = windowStart + windowMs;
+
+    let retryAfterMs = 0;
+    if (!allowed) {
+      // Time until the previous window's weight decays enough for one more request
+      retryAfterMs = previous > 0 && current + 1 <= maxRequests
+        ? Math.ceil(((estimated + 1 - maxRequests) / previous) * windowMs)
+        : resetTime - now;
+    }
+
+    return {
+      state: { windowStart, current, previous },
+      decision: {
+        allowed,
+        limit: maxRequests,
+        remaining: Math.max(0, Math.floor(maxRequests - used)),
+        resetTime,
+        retryAfterMs,
+      },
+    };
+  },
+
+  release(state) {
+    if (!state || state.current === 0) return state;
+    return { ...state, current: state.current - 1 };
+  },
+
+  // Keep the counter around for the following window too
+  ttlMs: ({ windowMs }) => windowMs * 2,
+};
+
+// ---------------------------------------------------------------------------
+// Token bucket: allows bursts up to `burst`, refilled continuously
+// ---------------------------------------------------------------------------
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+function bucketSettings({ windowMs, maxRequests, burst, refillPerSecond }: AlgorithmSettings) {
+  return {
+    capacity: burst ?? maxRequests,
+    ratePerMs: (refillPerSecond ?? maxRequests / (windowMs / 1000)) / 1000,
+  };
+}
+
+export const tokenBucket: RateLimitAlgorithmImpl<TokenBucketState> = {
+  consume(state, settings, now) {
+    const { capacity, ratePerMs } = bucketSettings(settings);
+    const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+    let tokens = state ? Math.min(capacity, state.tokens + elapsed * ratePerMs) : capacity;
+
+    const allowed = tokens >= 1;
+    if (allowed) {
+      tokens -= 1;
+    }
+
+    return {
+      state: { tokens, updatedAt: now },
+      decision: {
+        allowed,
+        limit: capacity,
+        remaining: Math.floor(tokens),
+        resetTime: now + Math.ceil((capacity - tokens) / ratePerMs),
+        retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / ratePerMs),
+      },
+    };
+  },
+
+  release(state, settings) {
+    if (!state) return state;
+    const { capacity } = bucketSettings(settings);
+    return { ...state, tokens: Math.min(capacity, state.tokens + 1) };
+  },
+
+  ttlMs(settings) {
+    // Once the bucket would be full again the state carries no information
+    const { capacity, ratePerMs } = bucketSettings(settings);
+    return Math.ceil(capacity / ratePerMs);
+  },
+};
+
+// Stored state of each algorithm; fixed windows keep theirs in the store
+interface AlgorithmStates {
+  'sliding-log': SlidingLogState;
+  'sliding-counter': SlidingCounterState;
+  'token-bucket': TokenBucketState;
+}
+
+export type AlgorithmState = AlgorithmStates[keyof AlgorithmStates];
+
+const ALGORITHMS: { [K in keyof AlgorithmStates]: RateLimitAlgorithmImpl<AlgorithmStates[K]> } = {
+  'sliding-log': slidingLog,
+  'sliding-counter': slidingCounter,
+  'token-bucket': tokenBucket,
+};
+
+export function getAlgorithm<K extends Exclude<RateLimitAlgorithm, 'fixed'>>(name: K): RateLimitAlgorithmImpl<AlgorithmStates[K]> {
+  return ALGORITHMS[name];
+}
@@ -0,0 +1,104 @@
+/**
+ * Key generators for the API rate limiter
+ * Prefer a verified identity (Supabase user, Privy wallet) and only fall back
+ * to the client IP, resolved through a configurable number of trusted proxy hops
+ */
+
+import { NextRequest } from 'next/server';
+import { getRequestUserId } from './get-request-user';
+import { getPrivyWalletFromRequest } from './privy-server';
+
+export type RateLimitKeyGenerator = (req: NextRequest) => string | Promise<string>;
+
+export type IdentitySource = 'user' | 'wallet' | 'ip';
+
+/**
+ * Routes that share one budget. A request to any listed path is counted
+ * against the group name instead of its own path.
+ */
+export const RateLimitRouteGroups: Record<string, string[]> = {
+  uploads: ['/api/upload', '/api/uploads'],
+};
+
+// Vercel's edge appends exactly one hop to x-forwarded-for
+const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+
+function trustedProxyHops(): number {
+  const configured = Number(process.env.RATE_LIMIT_TRUSTED_PROXY_HOPS);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_TRUSTED_PROXY_HOPS;
+}
+
+/**
+ * Resolves the client IP from x-forwarded-for. Entries are appended by each
+ * proxy, so only the one added by our outermost trusted proxy (`hops` from the
+ * right) can be believed; anything to its left is client-controlled.
+ * With zero trusted hops the header is ignored entirely.
+ */
+export function getClientIp(req: NextRequest, hops: number = trustedProxyHops()): string {
+  if (hops > 0) {
+    const forwarded = req.headers.get('x-forwarded-for');
+    const chain = forwarded ? forwarded.split(',').map(ip => ip.trim()).filter(Boolean) : [];
+
+    if (chain.length > 0) {
+      return chain[Math.max(0, chain.length - hops)];
+    }
+
+    const realIp = req.headers.get('x-real-ip');
+    if (realIp) return realIp.trim();
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Returns the route group a path belongs to, or the path itself
+ */
+export function getRouteScope(pathname: string, group?: string): string {
+  if (group) return `group:${group}`;
+
+  for (const [name, paths] of Object.entries(RateLimitRouteGroups)) {
+    if (paths.includes(pathname)) return `group:${name}`;
+  }
+
+  return pathname;
+}
+
+interface IdentityKeyOptions {
+  sources?: IdentitySource[];  // Tried in order (default: user, wallet, ip)
+  group?: string;  // Force a named budget instead of resolving from the path
+  trustedProxyHops?: number;  // Overrides RATE_LIMIT_TRUSTED_PROXY_HOPS
+}
+
+/**
+ * Builds a key generator that uses the first identity it can verify
+ */
+export function identityKeyGenerator(options: IdentityKeyOptions = {}): RateLimitKeyGenerator {
+  const { sources = ['user', 'wallet', 'ip'], group } = options;
+
+  return async function keyForIdentity(req: NextRequest): Promise<string> {
+    const scope = getRouteScope(new URL(req.url).pathname, group);
+
+    for (const source of sources) {
+      if (source === 'user') {
+        const userId = await getRequestUserId(req);
+        if (userId) return `${scope}:user:${userId}`;
+      } else if (source === 'wallet') {
+        const wallet = getPrivyWalletFromRequest(req);
+        if (wallet) return `${scope}:wallet:${wallet}`;
+      } else {
+        return `${scope}:ip:${getClientIp(req, options.trustedProxyHops)}`;
+      }
+    }
+
+    // No source matched and IP wasn't allowed: everyone shares the anonymous bucket
+    return `${scope}:anonymous`;
+  };
+}
+
+/**
+ * Default key generator - client IP (trusted hops only) plus route scope
+ */
+export function ipKeyGenerator(req: NextRequest): string {
+  const scope = getRouteScope(new URL(req.url).pathname);
+  return `${scope}:ip:${getClientIp(req)}`;
+}
@@ -0,0 +1,239 @@
+/**
+ * Backing stores for the API rate limiter
+ * The in-memory store is per-instance; the Supabase store shares counters
+ * across every serverless instance through the `rate_limit_counters` and
+ * `rate_limit_state` tables
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+export interface RateLimitHit {
+  count: number;  // Requests counted in the current window, including this one
+  resetTime: number;  // Epoch ms at which the window resets
+}
+
+export interface RateLimitStore {
+  /**
+   * Atomically increments the counter for `key`, starting a fresh window of
+   * `windowMs` if the previous one has expired
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+
+  /**
+   * Gives back one request (used by `skipSuccessfulRequests`)
+   */
+  decrement(key: string): Promise<void>;
+
+  /**
+   * Atomically reads, transforms and writes the algorithm state for `key`.
+   * `mutate` may be called more than once under contention, so it must be pure.
+   * Returning a null state deletes the entry.
+   */
+  update<S, R>(
+    key: string,
+    ttlMs: number,
+    mutate: (state: S | null) => { state: S | null; result: R }
+  ): Promise<R>;
+}
+
+const MAX_CAS_ATTEMPTS = 5;
+
+interface StateEntry {
+  state: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Per-process store backed by a Map. Good for local dev and single instances.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitHit>();
+  private states = new Map<string, StateEntry>();
+
+  constructor(cleanupIntervalMs: number = 5 * 60 * 1000) {
+    // Cleanup old entries periodically
+    const timer = setInterval(() => this.cleanup(), cleanupIntervalMs);
+    // Don't keep the process alive just for cleanup (scripts, tests)
+    if (typeof timer === 'object' && typeof timer.unref === 'function') {
+      timer.unref();
+    }
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    let entry = this.entries.get(key);
+
+    if (!entry || entry.resetTime < now) {
+      entry = { count: 0, resetTime: now + windowMs };
+      this.entries.set(key, entry);
+    }
+
+    entry.count++;
+    return { ...entry };
+  }
+
+  async decrement(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry && entry.count > 0) {
+      entry.count--;
+    }
+  }
+
+  async update<S, R>(
+    key: string,
+    ttlMs: number,
+    mutate: (state: S | null) => { state: S | null; result: R }
+  ): Promise<R> {
+    // Single-threaded, so read-modify-write without an await in between is atomic
+    const now = Date.now();
+    const current = this.states.get(key);
+    const live = current && current.expiresAt > now ? (current.state as S) : null;
+    const { state, result } = mutate(live);
+
+    if (state === null) {
+      this.states.delete(key);
+    } else {
+      this.states.set(key, { state, expiresAt: now + ttlMs });
+    }
+
+    return result;
+  }
+
+  private cleanup() {
+    const now = Date.now();
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.resetTime < now) {
+        this.entries.delete(key);
+      }
+    }
+    for (const [key, entry] of this.states.entries()) {
+      if (entry.expiresAt < now) {
+        this.states.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Shared store backed by Postgres via the `rate_limit_hit` / `rate_limit_release`
+ * functions (see supabase/migrations/20250816_create_rate_limit_counters.sql)
+ * and the `rate_limit_state` table for the non-fixed algorithms.
+ * Point it at a local Supabase (`supabase start`) to exercise it in development.
+ */
+export class SupabaseRateLimitStore implements RateLimitStore {
+  constructor(private client: SupabaseClient) {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const { data, error } = await this.client.rpc('rate_limit_hit', {
+      p_key: key,
+      p_window_ms: windowMs,
+    });
+
+    if (error) {
+      throw new Error(`rate_limit_hit failed: ${error.message}`);
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return {
+      count: Number(row?.hit_count ?? 0),
+      resetTime: new Date(row?.reset_at).getTime(),
+    };
+  }
+
+  async decrement(key: string): Promise<void> {
+    const { error } = await this.client.rpc('rate_limit_release', { p_key: key });
+    if (error) {
+      console.error('rate_limit_release failed:', error.message);
+    }
+  }
+
+  /**
+   * Compare-and-swap on `rate_limit_state.version`, retried on conflict
+   */
+  async update<S, R>(
+    key: string,
+    ttlMs: number,
+    mutate: (state: S | null) => { state: S | null; result: R }
+  ): Promise<R> {
+    for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+      const { data: row, error } = await this.client
+        .from('rate_limit_state')
+        .select('state, version, expires_at')
+        .eq('key', key)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`rate_limit_state read failed: ${error.message}`);
+      }
+
+      const live = row && new Date(row.expires_at).getTime() > Date.now() ? (row.state as S) : null;
+      const { state, result } = mutate(live);
+      const expiresAt = new Date(Date.now() + ttlMs).toISOString();
+
+      if (!row) {
+        if (state === null) return result;
+
+        const { error: insertError } = await this.client
+          .from('rate_limit_state')
+          .insert({ key, state, version: 1, expires_at: expiresAt });
+
+        if (!insertError) return result;
+        if (insertError.code === '23505') continue;  // Someone else created it first
+        throw new Error(`rate_limit_state insert failed: ${insertError.message}`);
+      }
+
+      const write = state === null
+        ? this.client.from('rate_limit_state').delete()
+        : this.client.from('rate_limit_state').update({ state, version: row.version + 1, expires_at: expiresAt });
+
+      const { data: written, error: writeError } = await write
+        .eq('key', key)
+        .eq('version', row.version)
+        .select('key');
+
+      if (writeError) {
+        throw new Error(`rate_limit_state write failed: ${writeError.message}`);
+      }
+      if (written && written.length > 0) return result;
+    }
+
+    throw new Error(`rate_limit_state contention on ${key}`);
+  }
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+/**
+ * Returns the store selected by RATE_LIMIT_STORE ("memory" | "supabase").
+ * Defaults to memory so local dev works without a database.
+ */
+export function getDefaultRateLimitStore(): RateLimitStore {
+  if (defaultStore) return defaultStore;
+
+  const kind = process.env.RATE_LIMIT_STORE || 'memory';
+
+  if (kind === 'supabase') {
+    const url = process.env.SUPABASE_URL;
+    const serviceKey = process.env.SUPABASE_SERVICE_KEY;
+
+    if (!url || !serviceKey) {
+      console.warn('RATE_LIMIT_STORE=supabase but SUPABASE_URL/SUPABASE_SERVICE_KEY are missing, falling back to memory');
+      defaultStore = new MemoryRateLimitStore();
+    } else {
+      defaultStore = new SupabaseRateLimitStore(
+        createClient(url, serviceKey, { auth: { persistSession: false } })
+      );
+    }
+  } else {
+    defaultStore = new MemoryRateLimitStore();
+  }
+
+  return defaultStore;
+}
+
+/**
+ * Overrides the default store (tests, custom deployments)
+ */
+export function setDefaultRateLimitStore(store: RateLimitStore | null): void {
+  defaultStore = store;
+}
@@ -1,121 +1,185 @@
 /**
- * Simple in-memory rate limiter for API routes
- * This provides basic protection against abuse without external dependencies
+ * Rate limiter for API routes
+ * Counters live in a pluggable RateLimitStore (in-memory by default, or a
+ * shared Supabase table when RATE_LIMIT_STORE=supabase)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getDefaultRateLimitStore, RateLimitStore } from './rate-limit-store';
+import { AlgorithmState, getAlgorithm, RateLimitAlgorithm, RateLimitDecision } from './rate-limit-algorithms';
+import { identityKeyGenerator, ipKeyGenerator, RateLimitKeyGenerator } from './rate-limit-keys';
 
-interface RateLimitConfig {
+export interface RateLimitConfig {
   windowMs: number;  // Time window in milliseconds
   maxRequests: number;  // Maximum requests per window
+  algorithm?: RateLimitAlgorithm;  // Defaults to 'fixed'
+  burst?: number;  // Token bucket capacity (defaults to maxRequests)
+  refillPerSecond?: number;  // Token bucket refill rate (defaults to maxRequests per window)
   message?: string;  // Custom error message
   skipSuccessfulRequests?: boolean;  // Only count failed requests
-  keyGenerator?: (req: NextRequest) => string;  // Custom key generator
+  keyGenerator?: RateLimitKeyGenerator;  // Custom key generator (see rate-limit-keys.ts)
+  store?: RateLimitStore;  // Overrides the store chosen by RATE_LIMIT_STORE
 }
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
+export interface RateLimitHitResult {
+  key: string;
+  decision: RateLimitDecision;
 }
 
-// Store for rate limit data (in production, use Redis or similar)
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-// Cleanup old entries periodically (every 5 minutes)
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (entry.resetTime < now) {
-      rateLimitStore.delete(key);
-    }
-  }
-}, 5 * 60 * 1000);
+export interface RateLimiter {
+  message: string;
+  /** Counts the request. Null when the store is unavailable (fail open). */
+  check(req: NextRequest): Promise<RateLimitHitResult | null>;
+  /** Applies skipSuccessfulRequests and X-RateLimit-* headers to the handler's response */
+  finish(hit: RateLimitHitResult, response: NextResponse): Promise<NextResponse>;
+}
 
 /**
- * Default key generator - uses IP address or x-forwarded-for header
+ * Build a 429 response for a rejected request
+ * @param decision - The rejecting decision
+ * @param message - Error message for the body
+ * @param extraBody - Additional body fields (e.g. a correlation id)
  */
-function defaultKeyGenerator(req: NextRequest): string {
-  const forwarded = req.headers.get('x-forwarded-for');
-  const ip = forwarded ? forwarded.split(',')[0].trim() : 'unknown';
-  const path = new URL(req.url).pathname;
-  return `${ip}:${path}`;
+export function rateLimitExceededResponse(
+  decision: RateLimitDecision,
+  message: string,
+  extraBody: Record<string, unknown> = {}
+): NextResponse {
+  const retryAfter = Math.max(0, Math.ceil(decision.retryAfterMs / 1000));
+  
+  return NextResponse.json(
+    {
+      error: message,
+      code: 'RATE_LIMIT_EXCEEDED',
+      retryAfter,
+      ...extraBody,
+    },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': retryAfter.toString(),
+        'X-RateLimit-Limit': decision.limit.toString(),
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': new Date(decision.resetTime).toISOString(),
+      },
+    }
+  );
 }
 
 /**
- * Rate limiter middleware for Next.js API routes
+ * Create a rate limiter from a configuration
  * @param config - Rate limiting configuration
- * @returns Middleware function
+ * @returns Limiter with separate check/finish steps, for composing into pipelines
  */
-export function rateLimit(config: RateLimitConfig) {
+export function createRateLimiter(config: RateLimitConfig): RateLimiter {
   const {
     windowMs,
     maxRequests,
     message = 'Too many requests, please try again later.',
     skipSuccessfulRequests = false,
-    keyGenerator = defaultKeyGenerator,
+    keyGenerator = ipKeyGenerator,
   } = config;
+  const store = config.store ?? getDefaultRateLimitStore();
+  const algorithm = config.algorithm ?? 'fixed';
+  const settings = {
+    windowMs,
+    maxRequests,
+    burst: config.burst,
+    refillPerSecond: config.refillPerSecond,
+  };
+
+  async function consume(key: string): Promise<RateLimitDecision> {
+    if (algorithm === 'fixed') {
+      // Fixed windows map onto the store's native atomic counter
+      const hit = await store.increment(key, windowMs);
+      return {
+        allowed: hit.count <= maxRequests,
+        limit: maxRequests,
+        remaining: Math.max(0, maxRequests - hit.count),
+        resetTime: hit.resetTime,
+        retryAfterMs: hit.resetTime - Date.now(),
+      };
+    }
+
+    const impl = getAlgorithm(algorithm);
+    return store.update<AlgorithmState, RateLimitDecision>(`${algorithm}:${key}`, impl.ttlMs(settings), (state) => {
+      const { state: next, decision } = impl.consume(state, settings, Date.now());
+      return { state: next, result: decision };
+    });
+  }
+
+  async function release(key: string): Promise<void> {
+    if (algorithm === 'fixed') {
+      return store.decrement(key);
+    }
+
+    const impl = getAlgorithm(algorithm);
+    await store.update<AlgorithmState, void>(`${algorithm}:${key}`, impl.ttlMs(settings), (state) => ({
+      state: impl.release(state, settings, Date.now()),
+      result: undefined,
+    }));
+  }
+
+  return {
+    message,
+
+    async check(req) {
+      const key = await keyGenerator(req);
+
+      // Count this request up front so concurrent requests can't slip past the check
+      try {
+        return { key, decision: await consume(key) };
+      } catch (error) {
+        // Fail open: a store outage shouldn't take the API down with it
+        console.error('Rate limit store unavailable:', error);
+        return null;
+      }
+    },
+
+    async finish({ key, decision }, response) {
+      // If configured to skip successful requests and this was successful, give the hit back
+      if (skipSuccessfulRequests && response.status < 400) {
+        await release(key);
+        decision.remaining = Math.min(decision.limit, decision.remaining + 1);
+      }
+      
+      // Add rate limit headers to successful responses
+      if (response.status < 400) {
+        response.headers.set('X-RateLimit-Limit', decision.limit.toString());
+        response.headers.set('X-RateLimit-Remaining', decision.remaining.toString());
+        response.headers.set('X-RateLimit-Reset', new Date(decision.resetTime).toISOString());
+      }
+      
+      return response;
+    },
+  };
+}
+
+/**
+ * Rate limiter middleware for Next.js API routes
+ * @param config - Rate limiting configuration
+ * @returns Middleware function
+ */
+export function rateLimit(config: RateLimitConfig) {
+  const limiter = createRateLimiter(config);
 
   return async function rateLimitMiddleware(
     req: NextRequest,
     handler: () => Promise<NextResponse>
   ): Promise<NextResponse> {
-    const key = keyGenerator(req);
-    const now = Date.now();
-    
-    // Get or create rate limit entry
-    let entry = rateLimitStore.get(key);
-    
-    if (!entry || entry.resetTime < now) {
-      // Create new entry or reset expired one
-      entry = {
-        count: 0,
-        resetTime: now + windowMs,
-      };
-      rateLimitStore.set(key, entry);
+    const hit = await limiter.check(req);
+    if (!hit) {
+      return handler();
     }
-    
+
     // Check if limit exceeded
-    if (entry.count >= maxRequests) {
-      const retryAfter = Math.ceil((entry.resetTime - now) / 1000);
-      
-      return NextResponse.json(
-        {
-          error: message,
-          code: 'RATE_LIMIT_EXCEEDED',
-          retryAfter,
-        },
-        {
-          status: 429,
-          headers: {
-            'Retry-After': retryAfter.toString(),
-            'X-RateLimit-Limit': maxRequests.toString(),
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': new Date(entry.resetTime).toISOString(),
-          },
-        }
-      );
+    if (!hit.decision.allowed) {
+      return rateLimitExceededResponse(hit.decision, limiter.message);
     }
     
-    // Increment counter (might be decremented later if skipSuccessfulRequests is true)
-    entry.count++;
-    
     // Process the request
     const response = await handler();
-    
-    // If configured to skip successful requests and this was successful, decrement
-    if (skipSuccessfulRequests && response.status < 400) {
-      entry.count--;
-    }
-    
-    // Add rate limit headers to successful responses
-    if (response.status < 400) {
-      const remaining = Math.max(0, maxRequests - entry.count);
-      response.headers.set('X-RateLimit-Limit', maxRequests.toString());
-      response.headers.set('X-RateLimit-Remaining', remaining.toString());
-      response.headers.set('X-RateLimit-Reset', new Date(entry.resetTime).toISOString());
-    }
-    
-    return response;
+    return limiter.finish(hit, response);
   };
 }
 
@@ -123,10 +187,11 @@ export function rateLimit(config: RateLimitConfig) {
  * Common rate limit configurations
  */
 export const RateLimitConfigs = {
-  // Strict rate limit for sensitive operations (10 requests per minute)
+  // Strict rate limit for sensitive operations (10 requests per sliding minute)
   strict: {
     windowMs: 60 * 1000,
     maxRequests: 10,
+    algorithm: 'sliding-counter',
   },
   
   // Standard rate limit for API endpoints (60 requests per minute)
@@ -149,13 +214,23 @@ export const RateLimitConfigs = {
     message: 'Too many authentication attempts. Please try again later.',
   },
   
-  // Checkout sessions (20 per 5 minutes per IP)
+  // Uploads (10 per sliding minute per user/wallet/IP, shared by /api/upload and /api/uploads)
+  uploads: {
+    windowMs: 60 * 1000,
+    maxRequests: 10,
+    algorithm: 'sliding-counter',
+    keyGenerator: identityKeyGenerator({ group: 'uploads' }),
+  },
+  
+  // Checkout sessions (20 per sliding 5 minutes per user/wallet/IP)
   checkout: {
     windowMs: 5 * 60 * 1000,
     maxRequests: 20,
+    algorithm: 'sliding-counter',
+    keyGenerator: identityKeyGenerator(),
     message: 'Too many checkout attempts. Please wait a few minutes and try again.',
   },
-};
+} satisfies Record<string, RateLimitConfig>;
 
 /**
  * Helper function to wrap an API handler with rate limiting
@@ -0,0 +1,276 @@
+/**
+ * Shipping rules
+ * Destination zones, parcel weights and the rate table behind every shipping
+ * price: checkout's Stripe shipping_options, /api/shipping/quote and the
+ * country list in the address form. Each zone offers standard, tracked and
+ * express service priced by weight bracket, and standard ships free above
+ * the zone's threshold. Pure and dependency-free like lib/pricing.
+ * All amounts are integer cents, weights are grams.
+ */
+
+import { CartLine, CartLineKind } from './pricing';
+
+export type ShippingZoneId = 'us' | 'canada' | 'europe' | 'asia-pacific' | 'middle-east-africa' | 'latin-america';
+
+export type ServiceLevel = 'standard' | 'tracked' | 'express';
+
+export interface ShippingCountry {
+  code: string;
+  name: string;
+}
+
+export interface ShippingZone {
+  id: ShippingZoneId;
+  name: string;
+  countries: ShippingCountry[];
+}
+
+export interface ServiceRate {
+  level: ServiceLevel;
+  displayName: string;
+  minBusinessDays: number;
+  maxBusinessDays: number;
+  bracketCents: number[];  // Price per weight bracket, see WEIGHT_BRACKETS_GRAMS
+  extraKgCents: number;  // Each started kilogram above the last bracket
+  freeOverCents: number | null;  // Free when the items come to at least this much
+}
+
+export interface ShippingQuote {
+  level: ServiceLevel;
+  displayName: string;
+  amountCents: number;
+  minBusinessDays: number;
+  maxBusinessDays: number;
+  free: boolean;  // Waived by the threshold or a free shipping promotion
+  freeOverCents: number | null;
+}
+
+export const SHIPPING_ZONES: ShippingZone[] = [
+  {
+    id: 'us',
+    name: 'United States',
+    countries: [{ code: 'US', name: 'United States' }],
+  },
+  {
+    id: 'canada',
+    name: 'Canada',
+    countries: [{ code: 'CA', name: 'Canada' }],
+  },
+  {
+    id: 'europe',
+    name: 'Europe',
+    countries: [
+      { code: 'GB', name: 'United Kingdom' },
+      { code: 'DE', name: 'Germany' },
+      { code: 'FR', name: 'France' },
+      { code: 'IT', name: 'Italy' },
+      { code: 'ES', name: 'Spain' },
+      { code: 'NL', name: 'Netherlands' },
+      { code: 'BE', name: 'Belgium' },
+      { code: 'AT', name: 'Austria' },
+      { code: 'CH', name: 'Switzerland' },
+      { code: 'SE', name: 'Sweden' },
+      { code: 'NO', name: 'Norway' },
+      { code: 'DK', name: 'Denmark' },
+      { code: 'FI', name: 'Finland' },
+      { code: 'IE', name: 'Ireland' },
+      { code: 'PT', name: 'Portugal' },
+      { code: 'PL', name: 'Poland' },
+      { code: 'CZ', name: 'Czech Republic' },
+      { code: 'HU', name: 'Hungary' },
+      { code: 'RO', name: 'Romania' },
+      { code: 'BG', name: 'Bulgaria' },
+      { code: 'HR', name: 'Croatia' },
+      { code: 'SI', name: 'Slovenia' },
+      { code: 'SK', name: 'Slovakia' },
+      { code: 'LT', name: 'Lithuania' },
+      { code: 'LV', name: 'Latvia' },
+      { code: 'EE', name: 'Estonia' },
+      { code: 'GR', name: 'Greece' },
+      { code: 'CY', name: 'Cyprus' },
+      { code: 'MT', name: 'Malta' },
+      { code: 'LU', name: 'Luxembourg' },
+    ],
+  },
+  {
+    id: 'asia-pacific',
+    name: 'Asia-Pacific',
+    countries: [
+      { code: 'AU', name: 'Australia' },
+      { code: 'NZ', name: 'New Zealand' },
+      { code: 'JP', name: 'Japan' },
+      { code: 'SG', name: 'Singapore' },
+      { code: 'HK', name: 'Hong Kong' },
+      { code: 'KR', name: 'South Korea' },
+      { code: 'TW', name: 'Taiwan' },
+      { code: 'MY', name: 'Malaysia' },
+      { code: 'TH', name: 'Thailand' },
+      { code: 'PH', name: 'Philippines' },
+      { code: 'ID', name: 'Indonesia' },
+      { code: 'VN', name: 'Vietnam' },
+      { code: 'IN', name: 'India' },
+    ],
+  },
+  {
+    id: 'middle-east-africa',
+    name: 'Middle East & Africa',
+    countries: [
+      { code: 'AE', name: 'United Arab Emirates' },
+      { code: 'SA', name: 'Saudi Arabia' },
+      { code: 'IL', name: 'Israel' },
+      { code: 'TR', name: 'Turkey' },
+      { code: 'ZA', name: 'South Africa' },
+    ],
+  },
+  {
+    id: 'latin-america',
+    name: 'Latin America',
+    countries: [
+      { code: 'MX', name: 'Mexico' },
+      { code: 'BR', name: 'Brazil' },
+      { code: 'AR', name: 'Argentina' },
+      { code: 'CL', name: 'Chile' },
+      { code: 'PE', name: 'Peru' },
+      { code: 'CO', name: 'Colombia' },
+    ],
+  },
+];
+
+// Every country we ship to, for Stripe's shipping_address_collection
+export const SHIPPING_COUNTRY_CODES = SHIPPING_ZONES.flatMap(zone => zone.countries.map(country => country.code));
+
+// Packed weight of one unit, card sleeves and toploaders included
+export const ITEM_WEIGHTS_GRAMS: Record<CartLineKind, number> = {
+  'limited-edition': 10,
+  'custom-card': 10,
+  'display-case': 110,
+};
+
+// Mailer and padding, once per parcel
+export const PACKAGING_GRAMS = 40;
+
+// Upper bounds of the weight brackets priced in the rate table
+export const WEIGHT_BRACKETS_GRAMS = [250, 500, 1000, 2000];
+
+const standard = (days: [number, number], bracketCents: number[], extraKgCents: number, freeOverCents: number | null): ServiceRate => ({
+  level: 'standard',
+  displayName: 'Standard Shipping',
+  minBusinessDays: days[0],
+  maxBusinessDays: days[1],
+  bracketCents,
+  extraKgCents,
+  freeOverCents,
+});
+
+const tracked = (days: [number, number], bracketCents: number[], extraKgCents: number): ServiceRate => ({
+  level: 'tracked',
+  displayName: 'Tracked Shipping',
+  minBusinessDays: days[0],
+  maxBusinessDays: days[1],
+  bracketCents,
+  extraKgCents,
+  freeOverCents: null,
+});
+
+const express = (days: [number, number], bracketCents: number[], extraKgCents: number): ServiceRate => ({
+  level: 'express',
+  displayName: 'Express Shipping',
+  minBusinessDays: days[0],
+  maxBusinessDays: days[1],
+  bracketCents,
+  extraKgCents,
+  freeOverCents: null,
+});
+
+// The lightest bracket keeps the old flat rates ($4.99 US, $11.99 CA, $16.99 elsewhere)
+export const RATE_TABLE: Record<ShippingZoneId, ServiceRate[]> = {
+  'us': [
+    standard([5, 7], [499, 699, 999, 1499], 500, 7500),
+    tracked([3, 5], [799, 999, 1299, 1799], 500),
+    express([1, 2], [1999, 2299, 2799, 3499], 1000),
+  ],
+  'canada': [
+    standard([7, 14], [1199, 1499, 1999, 2799], 1000, 15000),
+    tracked([5, 10], [1699, 1999, 2499, 3299], 1000),
+    express([2, 4], [3499, 3999, 4799, 5999], 1500),
+  ],
+  'europe': [
+    standard([10, 21], [1699, 1999, 2599, 3499], 1200, 20000),
+    tracked([7, 14], [2299, 2699, 3299, 4299], 1200),
+    express([3, 5], [4499, 4999, 5999, 7499], 2000),
+  ],
+  'asia-pacific': [
+    standard([10, 21], [1699, 2099, 2799, 3799], 1400, 20000),
+    tracked([7, 14], [2499, 2899, 3599, 4599], 1400),
+    express([3, 6], [4999, 5499, 6499, 7999], 2200),
+  ],
+  'middle-east-africa': [
+    standard([10, 21], [1699, 2199, 2999, 3999], 1500, null),
+    tracked([8, 16], [2699, 3199, 3899, 4999], 1500),
+    express([4, 7], [5499, 5999, 6999, 8499], 2500),
+  ],
+  'latin-america': [
+    standard([10, 21], [1699, 2199, 2999, 3999], 1500, null),
+    tracked([8, 16], [2699, 3199, 3899, 4999], 1500),
+    express([4, 7], [5499, 5999, 6999, 8499], 2500),
+  ],
+};
+
+/**
+ * The zone a country ships in, or null if we don't ship there
+ */
+export function zoneFor(country: string): ShippingZone | null {
+  const code = country.trim().toUpperCase();
+  return SHIPPING_ZONES.find(zone => zone.countries.some(c => c.code === code)) ?? null;
+}
+
+/**
+ * Parcel weight for a cart: every unit plus packaging once. Empty carts weigh nothing.
+ */
+export function shipmentWeightGrams(lines: CartLine[]): number {
+  const itemsGrams = lines.reduce((sum, line) => sum + ITEM_WEIGHTS_GRAMS[line.kind] * Math.max(line.quantity, 0), 0);
+  return itemsGrams > 0 ? itemsGrams + PACKAGING_GRAMS : 0;
+}
+
+/**
+ * Price of one service for a parcel weight
+ */
+export function rateForWeight(rate: ServiceRate, weightGrams: number): number {
+  const bracket = WEIGHT_BRACKETS_GRAMS.findIndex(maxGrams => weightGrams <= maxGrams);
+  if (bracket >= 0) return rate.bracketCents[bracket];
+
+  const heaviest = WEIGHT_BRACKETS_GRAMS[WEIGHT_BRACKETS_GRAMS.length - 1];
+  const extraKg = Math.ceil((weightGrams - heaviest) / 1000);
+  return rate.bracketCents[rate.bracketCents.length - 1] + extraKg * rate.extraKgCents;
+}
+
+/**
+ * Shipping options for a cart, cheapest service first. Standard is free once
+ * subtotalCents reaches the zone's threshold, or with freeShipping (promotions).
+ * Returns [] for countries we don't ship to and for empty carts.
+ */
+export function quoteShipping(
+  country: string,
+  lines: CartLine[],
+  options: { subtotalCents?: number; freeShipping?: boolean } = {}
+): ShippingQuote[] {
+  const zone = zoneFor(country);
+  const weightGrams = shipmentWeightGrams(lines);
+  if (!zone || weightGrams === 0) return [];
+
+  return RATE_TABLE[zone.id].map(rate => {
+    const free = rate.level === 'standard' && (
+      !!options.freeShipping ||
+      (rate.freeOverCents !== null && (options.subtotalCents ?? 0) >= rate.freeOverCents)
+    );
+    return {
+      level: rate.level,
+      displayName: free ? 'Free Standard Shipping' : rate.displayName,
+      amountCents: free ? 0 : rateForWeight(rate, weightGrams),
+      minBusinessDays: rate.minBusinessDays,
+      maxBusinessDays: rate.maxBusinessDays,
+      free,
+      freeOverCents: rate.freeOverCents,
+    };
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * HMAC helpers for values we hand to the browser and later need to trust
+ * (CSRF tokens, guest device ids)
+ */
+
+import crypto from 'crypto';
+
+const devSecrets = new Map<string, string>();
+
+/**
+ * Reads an HMAC key from the environment. Required in production; development
+ * falls back to a per-process random key (signed values reset on restart).
+ */
+export function getSigningSecret(envVar: string): string {
+  const secret = process.env[envVar];
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(`Required environment variable ${envVar} is not set`);
+  }
+
+  let devSecret = devSecrets.get(envVar);
+  if (!devSecret) {
+    devSecret = crypto.randomBytes(32).toString('hex');
+    devSecrets.set(envVar, devSecret);
+    console.warn(`⚠️ ${envVar} not set, using a random development secret`);
+  }
+  return devSecret;
+}
+
+export function hmac(secret: string, payload: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Constant-time string comparison
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  // Length check first, timingSafeEqual throws on mismatched lengths
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
@@ -0,0 +1,201 @@
+/**
+ * SMTP client
+ * Just enough SMTP to hand a formatted message to a relay: EHLO, STARTTLS
+ * when offered (or implicit TLS on port 465), AUTH PLAIN, one message per
+ * connection. Credentials are only sent over TLS unless allowInsecureAuth is
+ * set. Used by the smtp email provider (lib/email.ts); locally it talks to a
+ * catcher such as Mailpit on port 1025.
+ */
+
+import net from 'net';
+import tls from 'tls';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;  // Implicit TLS; otherwise STARTTLS is used when the server offers it
+  user?: string;
+  pass?: string;
+  allowInsecureAuth?: boolean;  // Send AUTH without TLS; only for local catchers
+  timeoutMs?: number;  // Applies to connecting, the TLS handshake and each reply
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+
+  // 4xx replies and dropped connections are worth retrying; 5xx are not
+  get retryable(): boolean {
+    return this.code === 0 || (this.code >= 400 && this.code < 500);
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];  // Complete replies nobody has read yet
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket, private timeoutMs: number, public encrypted: boolean) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('timeout', () => this.fail(new SmtpError(0, 'SMTP connection timed out')));
+    socket.on('error', error => this.fail(new SmtpError(0, `SMTP connection failed: ${error.message}`)));
+    socket.on('close', () => this.fail(new SmtpError(0, 'SMTP connection closed')));
+  }
+
+  private receive(chunk: string) {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.lines.map(l => l.slice(4)) };
+        this.lines = [];
+        if (this.waiting) {
+          const { resolve } = this.waiting;
+          this.waiting = null;
+          resolve(reply);
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return;
+    this.failure = error;
+    this.waiting?.reject(error);
+    this.waiting = null;
+    this.socket.destroy();
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /** Send a command and expect one of the given reply codes */
+  async command(line: string, expect: number[]): Promise<SmtpReply> {
+    const reply = this.read();
+    this.socket.write(`${line}\r\n`);
+    return expectReply(await reply, expect, line.split(' ')[0]);
+  }
+
+  /** Switch the connection to TLS after STARTTLS */
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners();
+    this.socket = await secured(tls.connect({ socket: this.socket, servername: host }), 'secureConnect', this.timeoutMs);
+    this.encrypted = true;
+    this.attach(this.socket);
+  }
+
+  close() {
+    this.socket.end('QUIT\r\n');
+  }
+}
+
+function expectReply(reply: SmtpReply, expect: number[], command: string): SmtpReply {
+  if (!expect.includes(reply.code)) {
+    throw new SmtpError(reply.code, `SMTP ${command} failed: ${reply.code} ${reply.lines.join(' ')}`);
+  }
+  return reply;
+}
+
+/**
+ * Wait for a socket to connect (and finish its TLS handshake), giving up
+ * after timeoutMs so an unreachable or stalled server can't hang the caller
+ */
+function secured<S extends net.Socket>(socket: S, ready: 'connect' | 'secureConnect', timeoutMs: number): Promise<S> {
+  return new Promise((resolve, reject) => {
+    const onTimeout = () => {
+      socket.destroy();
+      reject(new SmtpError(0, 'SMTP connection timed out'));
+    };
+    socket.setTimeout(timeoutMs);
+    socket.once('timeout', onTimeout);
+    socket.once(ready, () => {
+      socket.off('timeout', onTimeout);
+      resolve(socket);
+    });
+    socket.once('error', error => reject(new SmtpError(0, `SMTP connection failed: ${error.message}`)));
+  });
+}
+
+function connect(config: SmtpConfig, timeoutMs: number): Promise<net.Socket> {
+  return config.secure
+    ? secured(tls.connect({ host: config.host, port: config.port, servername: config.host }), 'secureConnect', timeoutMs)
+    : secured(net.connect({ host: config.host, port: config.port }), 'connect', timeoutMs);
+}
+
+/**
+ * Lines starting with a dot are doubled so they aren't read as the end of
+ * the message
+ */
+export function dotStuff(data: string): string {
+  return data.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+}
+
+/**
+ * Deliver one message. `data` is the full RFC 5322 message, headers
+ * included. Throws SmtpError.
+ */
+export async function sendSmtp(config: SmtpConfig, envelope: SmtpEnvelope, data: string): Promise<void> {
+  const timeoutMs = config.timeoutMs ?? 30000;
+  const connection = new SmtpConnection(await connect(config, timeoutMs), timeoutMs, config.secure);
+
+  try {
+    expectReply(await connection.read(), [220], 'greeting');
+    const ehlo = await connection.command('EHLO cardify.club', [250]);
+
+    if (!config.secure && ehlo.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+      await connection.command('STARTTLS', [220]);
+      await connection.upgrade(config.host);
+      await connection.command('EHLO cardify.club', [250]);
+    }
+
+    if (config.user) {
+      // A missing or stripped STARTTLS must not put the password on the wire
+      if (!connection.encrypted && !config.allowInsecureAuth) {
+        throw new SmtpError(530, 'SMTP server did not offer STARTTLS; refusing to send credentials unencrypted');
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass ?? ''}`).toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await connection.command(`MAIL FROM:<${envelope.from}>`, [250]);
+    for (const recipient of envelope.to) {
+      await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await connection.command('DATA', [354]);
+    await connection.command(`${dotStuff(data)}\r\n.`, [250]);
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Carrier tracking
+ * Tracking webhooks arrive at /api/tracking/[provider] and are handled by
+ * the adapter registered for that provider: it verifies the request and
+ * turns the payload into TrackingUpdates, which move the matching order to
+ * shipped or delivered (lib/orders.ts) or add a checkpoint to its timeline.
+ * Easyship is the first adapter; others register the same way.
+ */
+
+import crypto from 'crypto';
+import { hmac, safeEqual } from './signing';
+import { findOrderByShipment, OrderTransition, OrderTransitionError, transitionOrder } from './orders';
+import { OrderStatus } from './order-status';
+
+export interface TrackingUpdate {
+  eventKey: string;  // Unique per update, so replays are ignored
+  shipmentId: string | null;
+  trackingNumber: string | null;
+  status: Extract<OrderStatus, 'shipped' | 'delivered'> | null;  // Null: a checkpoint only
+  description: string;
+  location: string | null;
+  occurredAt: string | null;
+}
+
+export interface TrackingAdapter {
+  id: string;
+  verify(rawBody: string, headers: Headers): boolean;
+  parse(rawBody: string): TrackingUpdate[];
+}
+
+export type TrackingOutcome =
+  | { update: TrackingUpdate; result: 'applied'; orderId: string; transition: OrderTransition }
+  | { update: TrackingUpdate; result: 'unknown_order' }
+  | { update: TrackingUpdate; result: 'ignored'; orderId: string; reason: string };
+
+// Easyship tracking statuses that move the order, lowercased with underscores
+const EASYSHIP_STATUS_MAP: Record<string, TrackingUpdate['status']> = {
+  in_transit: 'shipped',
+  in_transit_to_customer: 'shipped',
+  out_for_delivery: 'shipped',
+  failed_attempt: 'shipped',
+  delivered: 'delivered',
+};
+
+interface EasyshipWebhook {
+  event_type?: string;
+  resource_id?: string;
+  tracking_status?: {
+    easyship_shipment_id?: string;
+    tracking_number?: string | null;
+    status?: string | null;
+  };
+  tracking?: {
+    easyship_shipment_id?: string;
+    tracking_number?: string | null;
+    checkpoints?: {
+      checkpoint_time?: string | null;
+      message?: string | null;
+      location?: string | null;
+      primary_status?: string | null;
+    }[];
+  };
+}
+
+function easyshipStatus(value: string | null | undefined): TrackingUpdate['status'] {
+  return EASYSHIP_STATUS_MAP[(value ?? '').trim().toLowerCase().replace(/\s+/g, '_')] ?? null;
+}
+
+/**
+ * Easyship signs webhooks with an HS256 JWT over the body in
+ * X-EASYSHIP-SIGNATURE, keyed with the webhook's secret
+ */
+export const easyshipTrackingAdapter: TrackingAdapter = {
+  id: 'easyship',
+
+  verify(rawBody, headers) {
+    const secret = process.env.EASYSHIP_WEBHOOK_SECRET;
+    const token = headers.get('x-easyship-signature');
+    if (!secret || !token) return false;
+
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) return false;
+    if (!safeEqual(hmac(secret, `${header}.${payload}`), signature)) return false;
+
+    // The token carries a digest of the body it was issued for
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      if (typeof claims.exp === 'number' && claims.exp * 1000 < Date.now()) return false;
+      if (typeof claims.body_sha256 === 'string') {
+        const digest = crypto.createHash('sha256').update(rawBody).digest('hex');
+        return safeEqual(digest, claims.body_sha256);
+      }
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  parse(rawBody) {
+    const event = JSON.parse(rawBody) as EasyshipWebhook;
+
+    if (event.event_type === 'shipment.tracking.status.changed' && event.tracking_status) {
+      const tracking = event.tracking_status;
+      const shipmentId = tracking.easyship_shipment_id ?? event.resource_id ?? null;
+      return [{
+        eventKey: `easyship:${shipmentId}:status:${tracking.status ?? 'unknown'}`,
+        shipmentId,
+        trackingNumber: tracking.tracking_number ?? null,
+        status: easyshipStatus(tracking.status),
+        description: tracking.status ? `Carrier status: ${tracking.status}` : 'Carrier status updated',
+        location: null,
+        occurredAt: null,
+      }];
+    }
+
+    if (event.event_type === 'shipment.tracking.checkpoints.created' && event.tracking) {
+      const tracking = event.tracking;
+      const shipmentId = tracking.easyship_shipment_id ?? event.resource_id ?? null;
+      return (tracking.checkpoints ?? []).map((checkpoint, index) => ({
+        eventKey: `easyship:${shipmentId}:checkpoint:${checkpoint.checkpoint_time ?? index}:${checkpoint.primary_status ?? ''}`,
+        shipmentId,
+        trackingNumber: tracking.tracking_number ?? null,
+        status: easyshipStatus(checkpoint.primary_status),
+        description: checkpoint.message || checkpoint.primary_status || 'Tracking update',
+        location: checkpoint.location ?? null,
+        occurredAt: checkpoint.checkpoint_time ?? null,
+      }));
+    }
+
+    // Label and other events don't concern order status
+    return [];
+  },
+};
+
+const adapters = new Map<string, TrackingAdapter>([[easyshipTrackingAdapter.id, easyshipTrackingAdapter]]);
+
+export function registerTrackingAdapter(adapter: TrackingAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+export function getTrackingAdapter(id: string): TrackingAdapter | null {
+  return adapters.get(id) ?? null;
+}
+
+/**
+ * Apply one carrier update to its order. Updates that would move an order
+ * backwards (out-of-order deliveries from the carrier) are ignored.
+ */
+export async function applyTrackingUpdate(provider: string, update: TrackingUpdate): Promise<TrackingOutcome> {
+  const order = await findOrderByShipment(update);
+  if (!order) return { update, result: 'unknown_order' };
+
+  try {
+    const transition = await transitionOrder(order.id, update.status, {
+      source: provider,
+      description: update.description,
+      eventKey: update.eventKey,
+      occurredAt: update.occurredAt,
+      location: update.location,
+    });
+    return { update, result: 'applied', orderId: order.id, transition };
+  } catch (error) {
+    if (!(error instanceof OrderTransitionError)) throw error;
+    return { update, result: 'ignored', orderId: order.id, reason: error.message };
+  }
+}
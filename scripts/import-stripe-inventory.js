@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+
+/**
+ * One-time import of stock counts from Stripe product metadata into the
+ * inventory table (supabase/migrations/20250823_inventory.sql).
+ * Run once after the migration and before new checkouts start reserving stock.
+ * Usage: node scripts/import-stripe-inventory.js [--dry-run]
+ */
+
+const { createClient } = require('@supabase/supabase-js');
+require('dotenv').config();
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_KEY;
+const STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY;
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY || !STRIPE_SECRET_KEY) {
+  console.error('❌ Missing environment variables. Please set NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_KEY and STRIPE_SECRET_KEY');
+  process.exit(1);
+}
+
+const stripe = require('stripe')(STRIPE_SECRET_KEY);
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+const dryRun = process.argv.includes('--dry-run');
+
+// inventory.sku -> Stripe product that used to carry metadata.inventory
+const PRODUCTS = {
+  'limited-edition-card': 'prod_limited_edition_card',
+  'display-case': 'prod_acrylic_display_case',
+};
+
+async function importSku(sku, productId) {
+  let product;
+  try {
+    product = await stripe.products.retrieve(productId);
+  } catch (error) {
+    if (error.code === 'resource_missing') {
+      console.log(`⚠️  ${productId} not found in Stripe, keeping the migration default for ${sku}`);
+      return;
+    }
+    throw error;
+  }
+
+  const onHand = parseInt(product.metadata.inventory, 10);
+  if (isNaN(onHand) || onHand < 0) {
+    console.log(`⚠️  ${productId} has no inventory metadata, keeping the migration default for ${sku}`);
+    return;
+  }
+
+  const { data: current, error: readError } = await supabase
+    .from('inventory')
+    .select('on_hand, reserved')
+    .eq('sku', sku)
+    .single();
+  if (readError) throw new Error(`Failed to read ${sku}: ${readError.message}`);
+
+  console.log(`📦 ${sku}: Stripe metadata ${onHand}, database ${current.on_hand} (${current.reserved} reserved)`);
+  if (dryRun || current.on_hand === onHand) return;
+
+  const { error } = await supabase.rpc('inventory_set', { p_sku: sku, p_on_hand: onHand });
+  if (error) throw new Error(`Failed to import ${sku}: ${error.message}`);
+  console.log(`✅ ${sku} set to ${onHand}`);
+}
+
+async function run() {
+  try {
+    console.log(`🚀 Importing inventory from Stripe${dryRun ? ' (dry run)' : ''}...\n`);
+    for (const [sku, productId] of Object.entries(PRODUCTS)) {
+      await importSku(sku, productId);
+    }
+    console.log('\n✅ Done. Stripe product metadata.inventory is no longer read by the app.');
+  } catch (error) {
+    console.error('❌ Import failed:', error.message);
+    process.exit(1);
+  }
+}
+
+run();
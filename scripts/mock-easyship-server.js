@@ -0,0 +1,169 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the Easyship API, for developing fulfilment (lib/fulfilment.ts)
+ * Usage: node scripts/mock-easyship-server.js
+ * Then run the app with:
+ *   EASYSHIP_API_URL=http://localhost:4010/2024-09 EASYSHIP_API_TOKEN=mock
+ *
+ * Implements the calls lib/easyship.ts makes, keeping shipments in memory:
+ *   POST /2024-09/shipments                               create (label bought when buy_label is set)
+ *   GET  /2024-09/shipments?platform_order_number=...     find by our order number
+ *   GET  /2024-09/shipments/:id                           read back
+ *   POST /2024-09/labels                                  buy a label (generated after LABEL_DELAY_MS)
+ *   GET  /labels/:id.pdf                                  the label "document"
+ *
+ * Options (env):
+ *   MOCK_EASYSHIP_PORT        port, default 4010
+ *   MOCK_EASYSHIP_FAIL_RATE   0-1, share of requests answered 503 to exercise retries
+ *   MOCK_EASYSHIP_LABEL_DELAY ms before a label bought asynchronously is ready, default 2000
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.env.MOCK_EASYSHIP_PORT || '4010', 10);
+const FAIL_RATE = parseFloat(process.env.MOCK_EASYSHIP_FAIL_RATE || '0');
+const LABEL_DELAY_MS = parseInt(process.env.MOCK_EASYSHIP_LABEL_DELAY || '2000', 10);
+const API_PREFIX = '/2024-09';
+
+const shipments = new Map();
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res, status, message, details) {
+  send(res, status, { error: { code: status, message, details: details || [] } });
+}
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
+
+function generateLabel(shipment) {
+  const trackingNumber = `MOCK${crypto.randomInt(1e9, 1e10)}`;
+  shipment.label_state = 'generated';
+  shipment.trackings = [{ tracking_number: trackingNumber }];
+  shipment.tracking_page_url = `https://www.trackmyshipment.co/shipment-tracking/${shipment.easyship_shipment_id}`;
+  shipment.shipping_documents = [
+    { category: 'label', url: `http://localhost:${PORT}/labels/${shipment.easyship_shipment_id}.pdf` },
+  ];
+}
+
+function validateShipment(body) {
+  const missing = [];
+  const destination = body.destination_address || {};
+  for (const field of ['line_1', 'city', 'postal_code', 'country_alpha2', 'contact_name']) {
+    if (!destination[field]) missing.push(`destination_address.${field}`);
+  }
+  if (!body.origin_address) missing.push('origin_address');
+  if (!Array.isArray(body.parcels) || body.parcels.length === 0) missing.push('parcels');
+  return missing;
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  console.log(`${req.method} ${url.pathname}${url.search}`);
+
+  const label = url.pathname.match(/^\/labels\/([^/]+)\.pdf$/);
+  if (req.method === 'GET' && label) {
+    res.writeHead(200, { 'Content-Type': 'application/pdf' });
+    return res.end(`%PDF-1.4\n% Mock Easyship label for ${label[1]}\n%%EOF\n`);
+  }
+
+  if (!url.pathname.startsWith(API_PREFIX)) {
+    return sendError(res, 404, 'Not found');
+  }
+  if (!(req.headers.authorization || '').startsWith('Bearer ')) {
+    return sendError(res, 401, 'Missing access token');
+  }
+  if (FAIL_RATE > 0 && Math.random() < FAIL_RATE) {
+    return sendError(res, 503, 'Service temporarily unavailable (mock failure)');
+  }
+
+  const path = url.pathname.slice(API_PREFIX.length);
+
+  if (req.method === 'POST' && path === '/shipments') {
+    const body = await readJson(req);
+    const missing = validateShipment(body);
+    if (missing.length > 0) {
+      return sendError(res, 422, 'Shipment is invalid', missing.map(field => `${field} is required`));
+    }
+
+    const shipment = {
+      easyship_shipment_id: `ESMOCK${crypto.randomBytes(5).toString('hex').toUpperCase()}`,
+      platform_order_number: body.order_data?.platform_order_number || null,
+      label_state: 'not_created',
+      tracking_page_url: null,
+      courier_service: { name: 'Mock Courier - Standard' },
+      trackings: [],
+      shipping_documents: [],
+      request: body,
+    };
+    if (body.shipping_settings?.buy_label) {
+      if (body.shipping_settings.buy_label_synchronous) {
+        generateLabel(shipment);
+      } else {
+        shipment.label_state = 'pending';
+        setTimeout(() => generateLabel(shipment), LABEL_DELAY_MS);
+      }
+    }
+    shipments.set(shipment.easyship_shipment_id, shipment);
+    return send(res, 201, { shipment });
+  }
+
+  if (req.method === 'GET' && path === '/shipments') {
+    const orderNumber = url.searchParams.get('platform_order_number');
+    const found = [...shipments.values()].filter(
+      shipment => !orderNumber || shipment.platform_order_number === orderNumber
+    );
+    return send(res, 200, { shipments: found, meta: { pagination: { page: 1, count: found.length } } });
+  }
+
+  const shipmentPath = path.match(/^\/shipments\/([^/]+)$/);
+  if (req.method === 'GET' && shipmentPath) {
+    const shipment = shipments.get(decodeURIComponent(shipmentPath[1]));
+    return shipment ? send(res, 200, { shipment }) : sendError(res, 404, 'Shipment not found');
+  }
+
+  if (req.method === 'POST' && path === '/labels') {
+    const body = await readJson(req);
+    const labels = [];
+    for (const { easyship_shipment_id: id } of body.shipments || []) {
+      const shipment = shipments.get(id);
+      if (!shipment) return sendError(res, 404, `Shipment ${id} not found`);
+      if (shipment.label_state !== 'generated') {
+        shipment.label_state = 'pending';
+        setTimeout(() => generateLabel(shipment), LABEL_DELAY_MS);
+      }
+      labels.push({ easyship_shipment_id: id, label_state: shipment.label_state });
+    }
+    return send(res, 200, { labels });
+  }
+
+  return sendError(res, 404, 'Not found');
+}
+
+http
+  .createServer((req, res) => {
+    handle(req, res).catch(error => {
+      console.error(error);
+      sendError(res, 400, 'Malformed request');
+    });
+  })
+  .listen(PORT, () => {
+    console.log(`📦 Mock Easyship API on http://localhost:${PORT}${API_PREFIX}`);
+    if (FAIL_RATE > 0) console.log(`   Failing ${Math.round(FAIL_RATE * 100)}% of requests with 503`);
+  });
@@ -0,0 +1,53 @@
+-- Shared counters for the API rate limiter (lib/rate-limit-store.ts)
+CREATE TABLE IF NOT EXISTS public.rate_limit_counters (
+    key TEXT PRIMARY KEY,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    reset_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_reset_at ON public.rate_limit_counters(reset_at);
+
+-- Only the service role touches this table
+ALTER TABLE public.rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+-- Atomic increment-and-expire: starts a new window when the old one has passed
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(p_key TEXT, p_window_ms INTEGER)
+RETURNS TABLE (hit_count INTEGER, reset_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+AS $$
+    INSERT INTO public.rate_limit_counters AS c (key, hit_count, reset_at)
+    VALUES (p_key, 1, NOW() + make_interval(secs => p_window_ms / 1000.0))
+    ON CONFLICT (key) DO UPDATE SET
+        hit_count = CASE WHEN c.reset_at <= NOW() THEN 1 ELSE c.hit_count + 1 END,
+        reset_at = CASE WHEN c.reset_at <= NOW()
+            THEN NOW() + make_interval(secs => p_window_ms / 1000.0)
+            ELSE c.reset_at END
+    RETURNING c.hit_count, c.reset_at;
+$$;
+
+-- Gives back one request (skipSuccessfulRequests)
+CREATE OR REPLACE FUNCTION public.rate_limit_release(p_key TEXT)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+    UPDATE public.rate_limit_counters
+    SET hit_count = GREATEST(hit_count - 1, 0)
+    WHERE key = p_key AND reset_at > NOW();
+$$;
+
+-- Housekeeping, safe to call from a cron job
+CREATE OR REPLACE FUNCTION public.rate_limit_cleanup()
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+    WITH deleted AS (
+        DELETE FROM public.rate_limit_counters WHERE reset_at <= NOW() RETURNING 1
+    )
+    SELECT COUNT(*)::INTEGER FROM deleted;
+$$;
+
+REVOKE ALL ON FUNCTION public.rate_limit_hit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.rate_limit_release(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.rate_limit_cleanup() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.rate_limit_counters IS 'Fixed-window request counters shared by all API instances';
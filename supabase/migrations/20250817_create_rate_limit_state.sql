@@ -0,0 +1,28 @@
+-- Per-key algorithm state for the sliding-log, sliding-counter and token-bucket
+-- rate limiters (lib/rate-limit-algorithms.ts). Updated with compare-and-swap on version.
+CREATE TABLE IF NOT EXISTS public.rate_limit_state (
+    key TEXT PRIMARY KEY,
+    state JSONB NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_state_expires_at ON public.rate_limit_state(expires_at);
+
+-- Only the service role touches this table
+ALTER TABLE public.rate_limit_state ENABLE ROW LEVEL SECURITY;
+
+-- Extend the housekeeping function to cover both tables
+CREATE OR REPLACE FUNCTION public.rate_limit_cleanup()
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+    WITH deleted_counters AS (
+        DELETE FROM public.rate_limit_counters WHERE reset_at <= NOW() RETURNING 1
+    ), deleted_state AS (
+        DELETE FROM public.rate_limit_state WHERE expires_at <= NOW() RETURNING 1
+    )
+    SELECT ((SELECT COUNT(*) FROM deleted_counters) + (SELECT COUNT(*) FROM deleted_state))::INTEGER;
+$$;
+
+COMMENT ON TABLE public.rate_limit_state IS 'Algorithm state for non-fixed-window rate limits';
@@ -0,0 +1,86 @@
+-- Server-side free creation quota for signed-out users (lib/guest-quota-server.ts)
+-- Each guest is counted under two subjects: a signed device cookie ("device:<id>")
+-- and an IP + user agent fingerprint ("fp:<hash>"), so clearing cookies alone
+-- doesn't reset the count
+CREATE TABLE IF NOT EXISTS public.guest_quota_usage (
+    subject TEXT PRIMARY KEY,
+    used INTEGER NOT NULL DEFAULT 0,
+    merged_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Only the service role touches this table
+ALTER TABLE public.guest_quota_usage ENABLE ROW LEVEL SECURITY;
+
+-- Free creations a user made as a guest before signing up
+ALTER TABLE public.mkt_profiles
+ADD COLUMN IF NOT EXISTS free_creations_used INTEGER NOT NULL DEFAULT 0;
+
+-- Atomically consume one creation if both subjects are under the limit.
+-- Both rows are moved to the higher count, so a new cookie on a known
+-- fingerprint (or a known cookie from a new network) inherits the usage.
+CREATE OR REPLACE FUNCTION public.guest_quota_consume(p_device TEXT, p_fingerprint TEXT, p_limit INTEGER)
+RETURNS TABLE (allowed BOOLEAN, used INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_used INTEGER;
+BEGIN
+    INSERT INTO public.guest_quota_usage (subject)
+    VALUES (p_device), (p_fingerprint)
+    ON CONFLICT (subject) DO NOTHING;
+
+    -- Lock in a stable order so concurrent calls can't deadlock
+    PERFORM 1 FROM public.guest_quota_usage
+    WHERE subject IN (p_device, p_fingerprint)
+    ORDER BY subject
+    FOR UPDATE;
+
+    SELECT MAX(g.used) INTO v_used
+    FROM public.guest_quota_usage g
+    WHERE g.subject IN (p_device, p_fingerprint);
+
+    IF v_used >= p_limit THEN
+        RETURN QUERY SELECT FALSE, v_used;
+        RETURN;
+    END IF;
+
+    UPDATE public.guest_quota_usage
+    SET used = v_used + 1, updated_at = NOW()
+    WHERE subject IN (p_device, p_fingerprint);
+
+    RETURN QUERY SELECT TRUE, v_used + 1;
+END;
+$$;
+
+-- Carry a device's guest usage over to the profile it signed up with
+CREATE OR REPLACE FUNCTION public.guest_quota_merge(p_device TEXT, p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_used INTEGER;
+BEGIN
+    UPDATE public.guest_quota_usage
+    SET merged_user_id = p_user_id, updated_at = NOW()
+    WHERE subject = p_device
+    RETURNING used INTO v_used;
+
+    IF v_used IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    UPDATE public.mkt_profiles
+    SET free_creations_used = GREATEST(free_creations_used, v_used)
+    WHERE id = p_user_id;
+
+    RETURN v_used;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.guest_quota_consume(TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.guest_quota_merge(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.guest_quota_usage IS 'Free creations used by signed-out guests, per device cookie and per fingerprint';
+COMMENT ON COLUMN public.mkt_profiles.free_creations_used IS 'Guest free creations merged in at sign up';
@@ -0,0 +1,294 @@
+-- Append-only credits ledger (lib/credits-ledger.ts)
+-- Every grant, spend, refund and admin adjustment is one credits_ledger row with a
+-- unique idempotency key. mkt_profiles.credits is a projection maintained by
+-- credits_apply() and can't be written directly.
+CREATE TABLE IF NOT EXISTS public.credits_ledger (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL,
+    payment_intent TEXT,
+    amount_cents INTEGER,
+    credits INTEGER NOT NULL,
+    reason TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.credits_ledger ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+ALTER TABLE public.credits_ledger ADD COLUMN IF NOT EXISTS balance_after INTEGER;
+ALTER TABLE public.credits_ledger ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Existing purchase rows were keyed on payment_intent
+UPDATE public.credits_ledger
+SET idempotency_key = CASE
+    WHEN reason = 'purchase' AND payment_intent IS NOT NULL THEN 'purchase:' || payment_intent
+    ELSE 'legacy:' || id::TEXT
+END
+WHERE idempotency_key IS NULL;
+
+ALTER TABLE public.credits_ledger ALTER COLUMN idempotency_key SET NOT NULL;
+
+-- A refund shares its purchase's payment intent, so uniqueness moves to idempotency_key
+DO $$
+DECLARE
+    r RECORD;
+BEGIN
+    FOR r IN
+        SELECT c.conname
+        FROM pg_constraint c
+        JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = ANY (c.conkey)
+        WHERE c.conrelid = 'public.credits_ledger'::regclass
+          AND c.contype = 'u'
+          AND a.attname = 'payment_intent'
+    LOOP
+        EXECUTE format('ALTER TABLE public.credits_ledger DROP CONSTRAINT %I', r.conname);
+    END LOOP;
+
+    FOR r IN
+        SELECT i.indexrelid::regclass AS index_name
+        FROM pg_index i
+        JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY (i.indkey)
+        WHERE i.indrelid = 'public.credits_ledger'::regclass
+          AND i.indisunique
+          AND NOT i.indisprimary
+          AND a.attname = 'payment_intent'
+    LOOP
+        EXECUTE format('DROP INDEX %s', r.index_name);
+    END LOOP;
+END;
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credits_ledger_idempotency_key ON public.credits_ledger(idempotency_key);
+CREATE INDEX IF NOT EXISTS idx_credits_ledger_user_id_created_at ON public.credits_ledger(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_credits_ledger_payment_intent ON public.credits_ledger(payment_intent);
+
+DO $$
+BEGIN
+    ALTER TABLE public.credits_ledger
+    ADD CONSTRAINT credits_ledger_reason_check
+    CHECK (reason IN ('purchase', 'spend', 'refund', 'promo', 'adjustment'));
+EXCEPTION WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+-- Spends made by the old upload trigger never reached the ledger. One opening
+-- adjustment per profile makes the ledger agree with today's balances.
+INSERT INTO public.credits_ledger (user_id, credits, reason, idempotency_key, balance_after, metadata)
+SELECT
+    p.id,
+    COALESCE(p.credits, 0) - COALESCE(l.total, 0),
+    'adjustment',
+    'opening-balance:' || p.id::TEXT,
+    COALESCE(p.credits, 0),
+    '{"note": "opening balance at ledger migration"}'::jsonb
+FROM public.mkt_profiles p
+LEFT JOIN (
+    SELECT user_id, SUM(credits) AS total
+    FROM public.credits_ledger
+    GROUP BY user_id
+) l ON l.user_id = p.id
+WHERE COALESCE(p.credits, 0) <> COALESCE(l.total, 0)
+ON CONFLICT (idempotency_key) DO NOTHING;
+
+-- Users can read their own history; all writes go through credits_apply()
+ALTER TABLE public.credits_ledger ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own credits ledger" ON public.credits_ledger;
+CREATE POLICY "Users can read own credits ledger" ON public.credits_ledger
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = user_id);
+
+-- Append-only
+CREATE OR REPLACE FUNCTION public.credits_ledger_immutable()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RAISE EXCEPTION 'credits_ledger is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_credits_ledger_immutable ON public.credits_ledger;
+CREATE TRIGGER trg_credits_ledger_immutable
+    BEFORE UPDATE OR DELETE ON public.credits_ledger
+    FOR EACH ROW EXECUTE FUNCTION public.credits_ledger_immutable();
+
+-- mkt_profiles.credits only changes through the ledger functions, which set
+-- cardify.credits_projection for the duration of their transaction
+CREATE OR REPLACE FUNCTION public.mkt_profiles_guard_credits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF COALESCE(current_setting('cardify.credits_projection', TRUE), '') = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' AND COALESCE(NEW.credits, 0) <> 0 THEN
+        RAISE EXCEPTION 'mkt_profiles.credits is maintained by credits_apply()';
+    END IF;
+    IF TG_OP = 'UPDATE' AND NEW.credits IS DISTINCT FROM OLD.credits THEN
+        RAISE EXCEPTION 'mkt_profiles.credits is maintained by credits_apply()';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_mkt_profiles_guard_credits ON public.mkt_profiles;
+CREATE TRIGGER trg_mkt_profiles_guard_credits
+    BEFORE INSERT OR UPDATE ON public.mkt_profiles
+    FOR EACH ROW EXECUTE FUNCTION public.mkt_profiles_guard_credits();
+
+-- Append one entry and move the projection in the same transaction.
+-- Replaying an idempotency key returns the original entry with applied = FALSE.
+-- Spends that would take the balance below zero raise 'insufficient_credits'.
+CREATE OR REPLACE FUNCTION public.credits_apply(
+    p_user_id UUID,
+    p_delta INTEGER,
+    p_reason TEXT,
+    p_idempotency_key TEXT,
+    p_payment_intent TEXT DEFAULT NULL,
+    p_amount_cents INTEGER DEFAULT NULL,
+    p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (entry_id UUID, balance INTEGER, applied BOOLEAN)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_current INTEGER;
+    v_balance INTEGER;
+    v_entry_id UUID;
+BEGIN
+    PERFORM set_config('cardify.credits_projection', 'on', TRUE);
+
+    INSERT INTO public.mkt_profiles (id) VALUES (p_user_id)
+    ON CONFLICT (id) DO NOTHING;
+
+    -- Serialises all ledger writes for this user
+    SELECT COALESCE(credits, 0) INTO v_current
+    FROM public.mkt_profiles
+    WHERE id = p_user_id
+    FOR UPDATE;
+
+    SELECT l.id INTO v_entry_id
+    FROM public.credits_ledger l
+    WHERE l.idempotency_key = p_idempotency_key;
+
+    IF v_entry_id IS NOT NULL THEN
+        RETURN QUERY SELECT v_entry_id, v_current, FALSE;
+        RETURN;
+    END IF;
+
+    v_balance := v_current + p_delta;
+    IF p_reason = 'spend' AND v_balance < 0 THEN
+        RAISE EXCEPTION 'insufficient_credits' USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO public.credits_ledger
+        (user_id, credits, reason, idempotency_key, payment_intent, amount_cents, balance_after, metadata)
+    VALUES
+        (p_user_id, p_delta, p_reason, p_idempotency_key, p_payment_intent, p_amount_cents, v_balance, COALESCE(p_metadata, '{}'::jsonb))
+    RETURNING id INTO v_entry_id;
+
+    UPDATE public.mkt_profiles SET credits = v_balance WHERE id = p_user_id;
+
+    RETURN QUERY SELECT v_entry_id, v_balance, TRUE;
+END;
+$$;
+
+-- Uploads spend one credit through the ledger. Replaces whichever trigger on
+-- uploaded_images used to decrement mkt_profiles.credits directly.
+DO $$
+DECLARE
+    r RECORD;
+BEGIN
+    FOR r IN
+        SELECT t.tgname
+        FROM pg_trigger t
+        JOIN pg_proc p ON p.oid = t.tgfoid
+        WHERE t.tgrelid = 'public.uploaded_images'::regclass
+          AND NOT t.tgisinternal
+          AND p.prosrc ILIKE '%credits%'
+    LOOP
+        EXECUTE format('DROP TRIGGER %I ON public.uploaded_images', r.tgname);
+    END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.uploaded_images_spend_credit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.user_id IS NOT NULL THEN
+        PERFORM public.credits_apply(
+            NEW.user_id,
+            -1,
+            'spend',
+            'upload:' || NEW.id::TEXT,
+            NULL,
+            NULL,
+            jsonb_build_object('uploaded_image_id', NEW.id, 'storage_path', NEW.storage_path)
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_uploaded_images_spend_credit
+    BEFORE INSERT ON public.uploaded_images
+    FOR EACH ROW EXECUTE FUNCTION public.uploaded_images_spend_credit();
+
+-- Recompute every balance from the ledger and report drift against the
+-- projection. With p_fix the projection is rewritten to match the ledger.
+CREATE OR REPLACE FUNCTION public.credits_reconcile(p_fix BOOLEAN DEFAULT FALSE)
+RETURNS TABLE (user_id UUID, projected_balance INTEGER, ledger_balance INTEGER, drift INTEGER)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+BEGIN
+    CREATE TEMP TABLE credits_drift ON COMMIT DROP AS
+    SELECT
+        COALESCE(p.id, l.user_id) AS user_id,
+        COALESCE(p.credits, 0)::INTEGER AS projected_balance,
+        COALESCE(l.total, 0)::INTEGER AS ledger_balance
+    FROM public.mkt_profiles p
+    FULL OUTER JOIN (
+        SELECT user_id, SUM(credits) AS total
+        FROM public.credits_ledger
+        GROUP BY user_id
+    ) l ON l.user_id = p.id
+    WHERE COALESCE(p.credits, 0) <> COALESCE(l.total, 0);
+
+    IF p_fix THEN
+        PERFORM set_config('cardify.credits_projection', 'on', TRUE);
+
+        INSERT INTO public.mkt_profiles (id)
+        SELECT d.user_id FROM credits_drift d
+        ON CONFLICT (id) DO NOTHING;
+
+        UPDATE public.mkt_profiles p
+        SET credits = d.ledger_balance
+        FROM credits_drift d
+        WHERE p.id = d.user_id;
+    END IF;
+
+    RETURN QUERY
+    SELECT d.user_id, d.projected_balance, d.ledger_balance, d.projected_balance - d.ledger_balance
+    FROM credits_drift d
+    ORDER BY ABS(d.projected_balance - d.ledger_balance) DESC;
+
+    DROP TABLE credits_drift;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.credits_apply(UUID, INTEGER, TEXT, TEXT, TEXT, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.credits_reconcile(BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.credits_ledger IS 'Append-only record of every credit grant, spend, refund and adjustment';
+COMMENT ON COLUMN public.credits_ledger.idempotency_key IS 'Unique per business event, e.g. purchase:<payment_intent>, upload:<uploaded_image_id>';
+COMMENT ON COLUMN public.credits_ledger.balance_after IS 'Projected balance right after this entry';
+COMMENT ON COLUMN public.mkt_profiles.credits IS 'Projection of SUM(credits_ledger.credits); written only by credits_apply()';
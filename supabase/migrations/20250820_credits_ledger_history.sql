@@ -0,0 +1,15 @@
+-- Credit history (GET /api/credits/history, /credits timeline)
+
+-- The timeline subscribes to new ledger rows for the signed-in user
+DO $$
+BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.credits_ledger;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+    WHEN undefined_object THEN NULL;
+END;
+$$;
+
+-- History pages walk (created_at, id) backwards; supersedes the (user_id, created_at) index
+DROP INDEX IF EXISTS public.idx_credits_ledger_user_id_created_at;
+CREATE INDEX IF NOT EXISTS idx_credits_ledger_user_history ON public.credits_ledger(user_id, created_at DESC, id DESC);
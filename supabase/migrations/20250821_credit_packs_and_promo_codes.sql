@@ -0,0 +1,119 @@
+-- Credit packs sold on /credits and promo codes that grant free credits
+-- (lib/credit-packs.ts, /api/credits/packs, /api/credits/redeem)
+CREATE TABLE IF NOT EXISTS public.credit_packs (
+    id TEXT PRIMARY KEY,
+    usd INTEGER NOT NULL CHECK (usd > 0),
+    credits INTEGER NOT NULL CHECK (credits > 0),
+    bonus_percent INTEGER NOT NULL DEFAULT 0 CHECK (bonus_percent BETWEEN 0 AND 100),
+    tag TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    starts_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Packs are public catalogue data
+ALTER TABLE public.credit_packs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read credit packs" ON public.credit_packs;
+CREATE POLICY "Anyone can read credit packs" ON public.credit_packs
+    FOR SELECT
+    TO public
+    USING (true);
+
+-- The packs that used to be hard-coded ($1 = 4 credits)
+INSERT INTO public.credit_packs (id, usd, credits, bonus_percent, tag, sort_order) VALUES
+    ('starter', 20, 80, 0, 'Starter', 1),
+    ('popular', 40, 160, 0, 'Popular', 2),
+    ('best-value', 60, 240, 10, 'Best Value', 3)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+    code TEXT PRIMARY KEY CHECK (code = UPPER(code)),
+    credits INTEGER NOT NULL CHECK (credits > 0),
+    max_redemptions INTEGER CHECK (max_redemptions > 0),  -- NULL = unlimited
+    redeemed_count INTEGER NOT NULL DEFAULT 0,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    starts_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.promo_redemptions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    code TEXT NOT NULL REFERENCES public.promo_codes(code),
+    user_id UUID NOT NULL,
+    ledger_entry_id UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (code, user_id)
+);
+
+-- Codes and redemptions are only touched by the service role
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promo_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Redeem a code once per user. Raises promo_not_found, promo_expired,
+-- promo_exhausted or promo_already_redeemed.
+CREATE OR REPLACE FUNCTION public.redeem_promo_code(p_code TEXT, p_user_id UUID)
+RETURNS TABLE (credits INTEGER, balance INTEGER)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_promo public.promo_codes%ROWTYPE;
+    v_entry_id UUID;
+    v_balance INTEGER;
+BEGIN
+    SELECT * INTO v_promo
+    FROM public.promo_codes
+    WHERE code = UPPER(TRIM(p_code))
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_promo.active THEN
+        RAISE EXCEPTION 'promo_not_found';
+    END IF;
+    IF (v_promo.starts_at IS NOT NULL AND v_promo.starts_at > NOW())
+        OR (v_promo.expires_at IS NOT NULL AND v_promo.expires_at <= NOW()) THEN
+        RAISE EXCEPTION 'promo_expired';
+    END IF;
+    IF v_promo.max_redemptions IS NOT NULL AND v_promo.redeemed_count >= v_promo.max_redemptions THEN
+        RAISE EXCEPTION 'promo_exhausted';
+    END IF;
+
+    BEGIN
+        INSERT INTO public.promo_redemptions (code, user_id) VALUES (v_promo.code, p_user_id);
+    EXCEPTION WHEN unique_violation THEN
+        RAISE EXCEPTION 'promo_already_redeemed';
+    END;
+
+    SELECT a.entry_id, a.balance INTO v_entry_id, v_balance
+    FROM public.credits_apply(
+        p_user_id,
+        v_promo.credits,
+        'promo',
+        'promo:' || v_promo.code || ':' || p_user_id::TEXT,
+        NULL,
+        NULL,
+        jsonb_build_object('code', v_promo.code)
+    ) a;
+
+    UPDATE public.promo_redemptions
+    SET ledger_entry_id = v_entry_id
+    WHERE code = v_promo.code AND user_id = p_user_id;
+
+    UPDATE public.promo_codes
+    SET redeemed_count = redeemed_count + 1
+    WHERE code = v_promo.code;
+
+    RETURN QUERY SELECT v_promo.credits, v_balance;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_promo_code(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.credit_packs IS 'Credit packs for sale; credits + floor(credits * bonus_percent / 100) are granted';
+COMMENT ON COLUMN public.credit_packs.expires_at IS 'Pack is hidden and unpurchasable after this time (NULL = no expiry)';
+COMMENT ON TABLE public.promo_codes IS 'Codes that grant free credits through the ledger without a payment';
+COMMENT ON TABLE public.promo_redemptions IS 'One row per user per redeemed promo code';
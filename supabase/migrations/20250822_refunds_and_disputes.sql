@@ -0,0 +1,137 @@
+-- Refunds and disputes (app/api/webhooks/stripe, app/api/stripe-webhook)
+-- Clawbacks may take a balance below zero; the profile is flagged until the
+-- balance recovers, and spends stay blocked in the meantime.
+ALTER TABLE public.mkt_profiles ADD COLUMN IF NOT EXISTS credits_overdrawn_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_mkt_profiles_credits_overdrawn_at
+    ON public.mkt_profiles(credits_overdrawn_at)
+    WHERE credits_overdrawn_at IS NOT NULL;
+
+-- Same contract as before; additionally maintains credits_overdrawn_at
+CREATE OR REPLACE FUNCTION public.credits_apply(
+    p_user_id UUID,
+    p_delta INTEGER,
+    p_reason TEXT,
+    p_idempotency_key TEXT,
+    p_payment_intent TEXT DEFAULT NULL,
+    p_amount_cents INTEGER DEFAULT NULL,
+    p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (entry_id UUID, balance INTEGER, applied BOOLEAN)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_current INTEGER;
+    v_balance INTEGER;
+    v_entry_id UUID;
+BEGIN
+    PERFORM set_config('cardify.credits_projection', 'on', TRUE);
+
+    INSERT INTO public.mkt_profiles (id) VALUES (p_user_id)
+    ON CONFLICT (id) DO NOTHING;
+
+    -- Serialises all ledger writes for this user
+    SELECT COALESCE(credits, 0) INTO v_current
+    FROM public.mkt_profiles
+    WHERE id = p_user_id
+    FOR UPDATE;
+
+    SELECT l.id INTO v_entry_id
+    FROM public.credits_ledger l
+    WHERE l.idempotency_key = p_idempotency_key;
+
+    IF v_entry_id IS NOT NULL THEN
+        RETURN QUERY SELECT v_entry_id, v_current, FALSE;
+        RETURN;
+    END IF;
+
+    v_balance := v_current + p_delta;
+    IF p_reason = 'spend' AND v_balance < 0 THEN
+        RAISE EXCEPTION 'insufficient_credits' USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO public.credits_ledger
+        (user_id, credits, reason, idempotency_key, payment_intent, amount_cents, balance_after, metadata)
+    VALUES
+        (p_user_id, p_delta, p_reason, p_idempotency_key, p_payment_intent, p_amount_cents, v_balance, COALESCE(p_metadata, '{}'::jsonb))
+    RETURNING id INTO v_entry_id;
+
+    UPDATE public.mkt_profiles
+    SET credits = v_balance,
+        credits_overdrawn_at = CASE
+            WHEN v_balance < 0 THEN COALESCE(credits_overdrawn_at, NOW())
+            ELSE NULL
+        END
+    WHERE id = p_user_id;
+
+    RETURN QUERY SELECT v_entry_id, v_balance, TRUE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.credits_apply(UUID, INTEGER, TEXT, TEXT, TEXT, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Take back the credits bought with p_payment_intent in proportion to the
+-- cumulative p_refunded_cents, less what earlier refunds and disputes on it
+-- already reversed. The read and the insert are serialised per payment, so a
+-- refund and a dispute arriving together can't both reverse the full amount.
+-- Returns no row when the payment wasn't a credits purchase or nothing is
+-- left to reverse.
+CREATE OR REPLACE FUNCTION public.credits_clawback(
+    p_payment_intent TEXT,
+    p_refunded_cents INTEGER,
+    p_idempotency_key TEXT,
+    p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (user_id UUID, credits INTEGER, entry_id UUID, balance INTEGER, applied BOOLEAN)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_purchase public.credits_ledger;
+    v_reversed INTEGER;
+    v_target INTEGER;
+    v_delta INTEGER;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('credits_clawback:' || p_payment_intent));
+
+    SELECT * INTO v_purchase
+    FROM public.credits_ledger l
+    WHERE l.idempotency_key = 'purchase:' || p_payment_intent;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    SELECT -COALESCE(SUM(l.credits), 0) INTO v_reversed
+    FROM public.credits_ledger l
+    WHERE l.payment_intent = p_payment_intent AND l.reason = 'refund';
+
+    v_target := CASE
+        WHEN COALESCE(v_purchase.amount_cents, 0) > 0
+            THEN LEAST(v_purchase.credits, ROUND(v_purchase.credits::NUMERIC * p_refunded_cents / v_purchase.amount_cents)::INTEGER)
+        ELSE v_purchase.credits
+    END;
+    v_delta := -(v_target - v_reversed);
+    IF v_delta >= 0 THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT v_purchase.user_id, v_delta, a.entry_id, a.balance, a.applied
+    FROM public.credits_apply(
+        v_purchase.user_id, v_delta, 'refund', p_idempotency_key, p_payment_intent, p_refunded_cents, p_metadata
+    ) a;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.credits_clawback(TEXT, INTEGER, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Marketplace reversals
+ALTER TABLE public.mkt_transactions ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.mkt_transactions ADD COLUMN IF NOT EXISTS disputed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.mkt_listings ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.mkt_profiles.credits_overdrawn_at IS 'Set when a refund or dispute clawback left credits below zero; cleared once the balance is back at or above zero';
+COMMENT ON COLUMN public.mkt_transactions.refunded_at IS 'When the payment was fully refunded (status = refunded)';
+COMMENT ON COLUMN public.mkt_transactions.disputed_at IS 'When the buyer opened a dispute on the payment (status = disputed)';
+COMMENT ON COLUMN public.mkt_listings.refunded_at IS 'When the sale was refunded and the asset returned to the seller';
@@ -0,0 +1,188 @@
+-- Stock for physical products (lib/inventory.ts). Replaces the inventory and
+-- version fields in Stripe product metadata, which had no compare-and-swap.
+-- Every write goes through the RPCs below, which lock the row first.
+CREATE TABLE IF NOT EXISTS public.inventory (
+    sku TEXT PRIMARY KEY,
+    stripe_product_id TEXT UNIQUE,
+    on_hand INTEGER NOT NULL CHECK (on_hand >= 0),
+    reserved INTEGER NOT NULL DEFAULT 0 CHECK (reserved >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT inventory_reserved_within_on_hand CHECK (reserved <= on_hand)
+);
+
+-- Stock held for an open checkout. One reference per Checkout Session, one
+-- row per SKU in it.
+CREATE TABLE IF NOT EXISTS public.inventory_reservations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    reference UUID NOT NULL,
+    sku TEXT NOT NULL REFERENCES public.inventory(sku),
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    status TEXT NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'committed', 'released')),
+    checkout_session_id TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (reference, sku)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_session ON public.inventory_reservations(checkout_session_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_held ON public.inventory_reservations(sku) WHERE status = 'held';
+
+-- Stock levels are public; reservations are only touched by the service role
+ALTER TABLE public.inventory ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_reservations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read inventory" ON public.inventory;
+CREATE POLICY "Anyone can read inventory" ON public.inventory
+    FOR SELECT
+    TO public
+    USING (true);
+
+-- The defaults the app used to create the Stripe products with.
+-- scripts/import-stripe-inventory.js overwrites these with the live values.
+INSERT INTO public.inventory (sku, stripe_product_id, on_hand) VALUES
+    ('limited-edition-card', 'prod_limited_edition_card', 472),
+    ('display-case', 'prod_acrylic_display_case', 5000)
+ON CONFLICT (sku) DO NOTHING;
+
+-- Hold stock for every item or none. p_items is [{"sku": ..., "quantity": ...}].
+-- Raises 'insufficient_inventory:<sku>:<available>' or 'unknown_sku:<sku>'.
+CREATE OR REPLACE FUNCTION public.inventory_reserve(p_reference UUID, p_items JSONB)
+RETURNS TABLE (sku TEXT, available INTEGER)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_item RECORD;
+    v_row public.inventory%ROWTYPE;
+BEGIN
+    -- Lock in SKU order so concurrent reservations can't deadlock
+    FOR v_item IN
+        SELECT i.sku, SUM(i.quantity)::INTEGER AS quantity
+        FROM jsonb_to_recordset(p_items) AS i(sku TEXT, quantity INTEGER)
+        GROUP BY i.sku
+        ORDER BY i.sku
+    LOOP
+        IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+            RAISE EXCEPTION 'invalid_quantity:%', v_item.sku;
+        END IF;
+
+        SELECT * INTO v_row
+        FROM public.inventory
+        WHERE sku = v_item.sku
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'unknown_sku:%', v_item.sku;
+        END IF;
+        IF v_row.on_hand - v_row.reserved < v_item.quantity THEN
+            RAISE EXCEPTION 'insufficient_inventory:%:%', v_item.sku, v_row.on_hand - v_row.reserved;
+        END IF;
+
+        UPDATE public.inventory
+        SET reserved = reserved + v_item.quantity, updated_at = NOW()
+        WHERE sku = v_item.sku;
+
+        INSERT INTO public.inventory_reservations (reference, sku, quantity)
+        VALUES (p_reference, v_item.sku, v_item.quantity);
+
+        RETURN QUERY SELECT v_item.sku, v_row.on_hand - v_row.reserved - v_item.quantity;
+    END LOOP;
+END;
+$$;
+
+-- Settle a reference's held rows: commit takes the units off on_hand, release
+-- hands them back. Rows already settled are skipped, so replays return 0.
+CREATE OR REPLACE FUNCTION public.inventory_settle(p_reference UUID, p_commit BOOLEAN)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_res RECORD;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_res IN
+        SELECT r.id, r.sku, r.quantity
+        FROM public.inventory_reservations r
+        WHERE r.reference = p_reference AND r.status = 'held'
+        ORDER BY r.sku
+        FOR UPDATE
+    LOOP
+        UPDATE public.inventory
+        SET reserved = reserved - v_res.quantity,
+            on_hand = CASE WHEN p_commit THEN on_hand - v_res.quantity ELSE on_hand END,
+            updated_at = NOW()
+        WHERE sku = v_res.sku;
+
+        UPDATE public.inventory_reservations
+        SET status = CASE WHEN p_commit THEN 'committed' ELSE 'released' END, updated_at = NOW()
+        WHERE id = v_res.id;
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+-- Conditional change to on_hand (restocks, refunds, sales made without a
+-- reservation). Never takes on_hand below what is reserved.
+CREATE OR REPLACE FUNCTION public.inventory_adjust(p_sku TEXT, p_delta INTEGER)
+RETURNS TABLE (on_hand INTEGER, reserved INTEGER)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_row public.inventory%ROWTYPE;
+BEGIN
+    SELECT * INTO v_row
+    FROM public.inventory
+    WHERE sku = p_sku
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'unknown_sku:%', p_sku;
+    END IF;
+    IF v_row.on_hand + p_delta < v_row.reserved THEN
+        RAISE EXCEPTION 'insufficient_inventory:%:%', p_sku, v_row.on_hand - v_row.reserved;
+    END IF;
+
+    RETURN QUERY
+    UPDATE public.inventory
+    SET on_hand = on_hand + p_delta, updated_at = NOW()
+    WHERE sku = p_sku
+    RETURNING on_hand, reserved;
+END;
+$$;
+
+-- Absolute stock count (admin). Can't go below what is reserved.
+CREATE OR REPLACE FUNCTION public.inventory_set(p_sku TEXT, p_on_hand INTEGER)
+RETURNS TABLE (on_hand INTEGER, reserved INTEGER)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_row public.inventory%ROWTYPE;
+BEGIN
+    SELECT * INTO v_row
+    FROM public.inventory
+    WHERE sku = p_sku
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'unknown_sku:%', p_sku;
+    END IF;
+
+    RETURN QUERY SELECT * FROM public.inventory_adjust(p_sku, p_on_hand - v_row.on_hand);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.inventory_reserve(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.inventory_settle(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.inventory_adjust(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.inventory_set(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.inventory IS 'Stock per SKU; available = on_hand - reserved';
+COMMENT ON COLUMN public.inventory.reserved IS 'Units held by inventory_reservations rows with status held';
+COMMENT ON TABLE public.inventory_reservations IS 'Stock held for a Checkout Session; committed on payment, released on expiry';
+COMMENT ON COLUMN public.inventory_reservations.reference IS 'Shared by every SKU of one checkout; stored in the session metadata as inventoryReservation';
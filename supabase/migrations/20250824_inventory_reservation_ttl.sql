@@ -0,0 +1,221 @@
+-- Reservations expire with their Checkout Session (lib/inventory.ts).
+-- Expired holds stop counting against stock straight away (inventory_levels)
+-- and are released by the next reservation on the SKU or by the sweeper
+-- (/api/cron/release-reservations), whichever comes first.
+ALTER TABLE public.inventory_reservations ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_expiring
+    ON public.inventory_reservations(expires_at)
+    WHERE status = 'held';
+
+-- Stock net of active holds; what /api/inventory reports
+CREATE OR REPLACE VIEW public.inventory_levels AS
+SELECT
+    i.sku,
+    i.on_hand,
+    COALESCE(h.held, 0)::INTEGER AS reserved,
+    (i.on_hand - COALESCE(h.held, 0))::INTEGER AS available,
+    i.updated_at
+FROM public.inventory i
+LEFT JOIN (
+    SELECT r.sku, SUM(r.quantity) AS held
+    FROM public.inventory_reservations r
+    WHERE r.status = 'held' AND (r.expires_at IS NULL OR r.expires_at > NOW())
+    GROUP BY r.sku
+) h ON h.sku = i.sku;
+
+-- Release a SKU's expired holds. The caller must hold the inventory row lock.
+CREATE OR REPLACE FUNCTION public.inventory_release_expired_locked(p_sku TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_units INTEGER;
+BEGIN
+    WITH released AS (
+        UPDATE public.inventory_reservations
+        SET status = 'released', updated_at = NOW()
+        WHERE sku = p_sku AND status = 'held' AND expires_at <= NOW()
+        RETURNING quantity
+    )
+    SELECT COALESCE(SUM(quantity), 0)::INTEGER INTO v_units FROM released;
+
+    IF v_units > 0 THEN
+        UPDATE public.inventory
+        SET reserved = reserved - v_units, updated_at = NOW()
+        WHERE sku = p_sku;
+    END IF;
+
+    RETURN v_units;
+END;
+$$;
+
+-- Sweeper: release every expired hold, one SKU lock at a time
+CREATE OR REPLACE FUNCTION public.inventory_release_expired()
+RETURNS TABLE (sku TEXT, released_units INTEGER)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_sku TEXT;
+    v_units INTEGER;
+BEGIN
+    FOR v_sku IN
+        SELECT DISTINCT r.sku
+        FROM public.inventory_reservations r
+        WHERE r.status = 'held' AND r.expires_at <= NOW()
+        ORDER BY r.sku
+    LOOP
+        PERFORM 1 FROM public.inventory WHERE sku = v_sku FOR UPDATE;
+        v_units := public.inventory_release_expired_locked(v_sku);
+        IF v_units > 0 THEN
+            RETURN QUERY SELECT v_sku, v_units;
+        END IF;
+    END LOOP;
+END;
+$$;
+
+-- Reservations now carry an expiry
+DROP FUNCTION IF EXISTS public.inventory_reserve(UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.inventory_reserve(p_reference UUID, p_items JSONB, p_expires_at TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (sku TEXT, available INTEGER)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_item RECORD;
+    v_row public.inventory%ROWTYPE;
+BEGIN
+    IF p_expires_at IS NULL OR p_expires_at <= NOW() THEN
+        RAISE EXCEPTION 'invalid_expiry';
+    END IF;
+
+    -- Lock in SKU order so concurrent reservations can't deadlock
+    FOR v_item IN
+        SELECT i.sku, SUM(i.quantity)::INTEGER AS quantity
+        FROM jsonb_to_recordset(p_items) AS i(sku TEXT, quantity INTEGER)
+        GROUP BY i.sku
+        ORDER BY i.sku
+    LOOP
+        IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+            RAISE EXCEPTION 'invalid_quantity:%', v_item.sku;
+        END IF;
+
+        PERFORM 1 FROM public.inventory WHERE sku = v_item.sku FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'unknown_sku:%', v_item.sku;
+        END IF;
+
+        -- Abandoned checkouts don't block new ones while waiting for the sweeper
+        PERFORM public.inventory_release_expired_locked(v_item.sku);
+
+        SELECT * INTO v_row FROM public.inventory WHERE sku = v_item.sku;
+        IF v_row.on_hand - v_row.reserved < v_item.quantity THEN
+            RAISE EXCEPTION 'insufficient_inventory:%:%', v_item.sku, v_row.on_hand - v_row.reserved;
+        END IF;
+
+        UPDATE public.inventory
+        SET reserved = reserved + v_item.quantity, updated_at = NOW()
+        WHERE sku = v_item.sku;
+
+        INSERT INTO public.inventory_reservations (reference, sku, quantity, expires_at)
+        VALUES (p_reference, v_item.sku, v_item.quantity, p_expires_at);
+
+        RETURN QUERY SELECT v_item.sku, v_row.on_hand - v_row.reserved - v_item.quantity;
+    END LOOP;
+END;
+$$;
+
+-- As before, plus: a payment that lands after its hold expired and was
+-- released still takes its units, if they haven't been sold to someone else.
+-- Raises 'insufficient_inventory:<sku>:<available>' when they have.
+CREATE OR REPLACE FUNCTION public.inventory_settle(p_reference UUID, p_commit BOOLEAN)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_res RECORD;
+    v_row public.inventory%ROWTYPE;
+    v_status TEXT;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_res IN
+        SELECT r.id, r.sku, r.quantity
+        FROM public.inventory_reservations r
+        WHERE r.reference = p_reference
+          AND (r.status = 'held' OR (p_commit AND r.status = 'released'))
+        ORDER BY r.sku
+    LOOP
+        SELECT * INTO v_row FROM public.inventory WHERE sku = v_res.sku FOR UPDATE;
+
+        -- Re-read under the inventory lock; the sweeper may have got here first
+        SELECT r.status INTO v_status FROM public.inventory_reservations r WHERE r.id = v_res.id FOR UPDATE;
+
+        IF v_status = 'held' THEN
+            UPDATE public.inventory
+            SET reserved = reserved - v_res.quantity,
+                on_hand = CASE WHEN p_commit THEN on_hand - v_res.quantity ELSE on_hand END,
+                updated_at = NOW()
+            WHERE sku = v_res.sku;
+        ELSIF p_commit AND v_status = 'released' THEN
+            PERFORM public.inventory_release_expired_locked(v_res.sku);
+            SELECT * INTO v_row FROM public.inventory WHERE sku = v_res.sku;
+            IF v_row.on_hand - v_row.reserved < v_res.quantity THEN
+                RAISE EXCEPTION 'insufficient_inventory:%:%', v_res.sku, v_row.on_hand - v_row.reserved;
+            END IF;
+
+            UPDATE public.inventory
+            SET on_hand = on_hand - v_res.quantity, updated_at = NOW()
+            WHERE sku = v_res.sku;
+        ELSE
+            CONTINUE;
+        END IF;
+
+        UPDATE public.inventory_reservations
+        SET status = CASE WHEN p_commit THEN 'committed' ELSE 'released' END, updated_at = NOW()
+        WHERE id = v_res.id;
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+-- As before, but expired holds no longer block restocks or direct sales
+CREATE OR REPLACE FUNCTION public.inventory_adjust(p_sku TEXT, p_delta INTEGER)
+RETURNS TABLE (on_hand INTEGER, reserved INTEGER)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_row public.inventory%ROWTYPE;
+BEGIN
+    PERFORM 1 FROM public.inventory WHERE sku = p_sku FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'unknown_sku:%', p_sku;
+    END IF;
+
+    PERFORM public.inventory_release_expired_locked(p_sku);
+
+    SELECT * INTO v_row FROM public.inventory WHERE sku = p_sku;
+    IF v_row.on_hand + p_delta < v_row.reserved THEN
+        RAISE EXCEPTION 'insufficient_inventory:%:%', p_sku, v_row.on_hand - v_row.reserved;
+    END IF;
+
+    RETURN QUERY
+    UPDATE public.inventory
+    SET on_hand = on_hand + p_delta, updated_at = NOW()
+    WHERE sku = p_sku
+    RETURNING on_hand, reserved;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.inventory_release_expired_locked(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.inventory_release_expired() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.inventory_reserve(UUID, JSONB, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.inventory_settle(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.inventory_reservations.expires_at IS 'Hold lapses at this time; set from the Checkout Session expires_at plus a short grace period';
+COMMENT ON VIEW public.inventory_levels IS 'Stock per SKU net of unexpired holds; available = on_hand - reserved';
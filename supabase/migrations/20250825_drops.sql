@@ -0,0 +1,149 @@
+-- Limited-edition drops (lib/drops.ts, /api/drops). Each drop has its own
+-- artwork, edition size, price tiers, sale window and per-customer limit,
+-- and its own inventory row.
+CREATE TABLE IF NOT EXISTS public.drops (
+    id TEXT PRIMARY KEY CHECK (id ~ '^[a-z0-9][a-z0-9-]*$'),
+    sku TEXT NOT NULL UNIQUE REFERENCES public.inventory(sku),
+    name TEXT NOT NULL,
+    description TEXT,
+    artwork_url TEXT NOT NULL,
+    edition_size INTEGER NOT NULL CHECK (edition_size > 0),
+    price_cents INTEGER NOT NULL CHECK (price_cents > 0),
+    per_customer_limit INTEGER CHECK (per_customer_limit > 0),  -- NULL = no limit; with one, buyers must be signed in
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT drops_window_check CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+-- Volume discounts; the tier with the highest min_quantity <= quantity applies
+CREATE TABLE IF NOT EXISTS public.drop_price_tiers (
+    drop_id TEXT NOT NULL REFERENCES public.drops(id) ON DELETE CASCADE,
+    min_quantity INTEGER NOT NULL CHECK (min_quantity > 1),
+    discount_percent INTEGER NOT NULL CHECK (discount_percent BETWEEN 1 AND 90),
+    PRIMARY KEY (drop_id, min_quantity)
+);
+
+-- Drops are public catalogue data
+ALTER TABLE public.drops ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.drop_price_tiers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read drops" ON public.drops;
+CREATE POLICY "Anyone can read drops" ON public.drops
+    FOR SELECT
+    TO public
+    USING (active);
+
+DROP POLICY IF EXISTS "Anyone can read drop price tiers" ON public.drop_price_tiers;
+CREATE POLICY "Anyone can read drop price tiers" ON public.drop_price_tiers
+    FOR SELECT
+    TO public
+    USING (true);
+
+-- The single drop that used to be hard-coded in /api/inventory and the modal.
+-- No per-customer limit: limits are counted by signed-in account, so a drop
+-- with one can't be bought as a guest.
+INSERT INTO public.drops (id, sku, name, description, artwork_url, edition_size, price_cents, sort_order) VALUES
+    ('kol-legend-series', 'limited-edition-card', 'Limited Edition "KOL Legend Series"',
+     'Exclusive limited edition collectible card', '/Panther_v7_Pinkhair_FLAT.jpg', 472, 4900, 1)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.drop_price_tiers (drop_id, min_quantity, discount_percent) VALUES
+    ('kol-legend-series', 5, 5),
+    ('kol-legend-series', 10, 10),
+    ('kol-legend-series', 25, 15)
+ON CONFLICT (drop_id, min_quantity) DO NOTHING;
+
+-- Per-customer limits count held and committed units by customer
+ALTER TABLE public.inventory_reservations ADD COLUMN IF NOT EXISTS customer_key TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_customer
+    ON public.inventory_reservations(sku, customer_key)
+    WHERE customer_key IS NOT NULL;
+
+-- Reservations now take the customer and per-item limits.
+-- p_items is [{"sku": ..., "quantity": ..., "per_customer_limit": ...}].
+-- Additionally raises 'purchase_limit_exceeded:<sku>:<remaining>'.
+DROP FUNCTION IF EXISTS public.inventory_reserve(UUID, JSONB, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION public.inventory_reserve(
+    p_reference UUID,
+    p_items JSONB,
+    p_expires_at TIMESTAMP WITH TIME ZONE,
+    p_customer_key TEXT DEFAULT NULL
+)
+RETURNS TABLE (sku TEXT, available INTEGER)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_item RECORD;
+    v_row public.inventory%ROWTYPE;
+    v_bought INTEGER;
+BEGIN
+    IF p_expires_at IS NULL OR p_expires_at <= NOW() THEN
+        RAISE EXCEPTION 'invalid_expiry';
+    END IF;
+
+    -- Lock in SKU order so concurrent reservations can't deadlock
+    FOR v_item IN
+        SELECT i.sku, SUM(i.quantity)::INTEGER AS quantity, MIN(i.per_customer_limit) AS per_customer_limit
+        FROM jsonb_to_recordset(p_items) AS i(sku TEXT, quantity INTEGER, per_customer_limit INTEGER)
+        GROUP BY i.sku
+        ORDER BY i.sku
+    LOOP
+        IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+            RAISE EXCEPTION 'invalid_quantity:%', v_item.sku;
+        END IF;
+
+        PERFORM 1 FROM public.inventory WHERE sku = v_item.sku FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'unknown_sku:%', v_item.sku;
+        END IF;
+
+        -- Abandoned checkouts don't block new ones while waiting for the sweeper
+        PERFORM public.inventory_release_expired_locked(v_item.sku);
+
+        IF v_item.per_customer_limit IS NOT NULL THEN
+            IF p_customer_key IS NULL THEN
+                RAISE EXCEPTION 'customer_required:%', v_item.sku;
+            END IF;
+
+            SELECT COALESCE(SUM(r.quantity), 0)::INTEGER INTO v_bought
+            FROM public.inventory_reservations r
+            WHERE r.sku = v_item.sku
+              AND r.customer_key = p_customer_key
+              AND r.status IN ('held', 'committed');
+
+            IF v_bought + v_item.quantity > v_item.per_customer_limit THEN
+                RAISE EXCEPTION 'purchase_limit_exceeded:%:%', v_item.sku, GREATEST(v_item.per_customer_limit - v_bought, 0);
+            END IF;
+        END IF;
+
+        SELECT * INTO v_row FROM public.inventory WHERE sku = v_item.sku;
+        IF v_row.on_hand - v_row.reserved < v_item.quantity THEN
+            RAISE EXCEPTION 'insufficient_inventory:%:%', v_item.sku, v_row.on_hand - v_row.reserved;
+        END IF;
+
+        UPDATE public.inventory
+        SET reserved = reserved + v_item.quantity, updated_at = NOW()
+        WHERE sku = v_item.sku;
+
+        INSERT INTO public.inventory_reservations (reference, sku, quantity, expires_at, customer_key)
+        VALUES (p_reference, v_item.sku, v_item.quantity, p_expires_at, p_customer_key);
+
+        RETURN QUERY SELECT v_item.sku, v_row.on_hand - v_row.reserved - v_item.quantity;
+    END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.inventory_reserve(UUID, JSONB, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.drops IS 'Limited-edition drops; stock lives in inventory under drops.sku';
+COMMENT ON COLUMN public.drops.edition_size IS 'Total units in the edition, for display; inventory.on_hand is what is left';
+COMMENT ON COLUMN public.drops.per_customer_limit IS 'Most units one customer (by email) can hold or buy across checkouts';
+COMMENT ON TABLE public.drop_price_tiers IS 'Volume discounts per drop';
+COMMENT ON COLUMN public.inventory_reservations.customer_key IS 'Lower-cased customer email, for per-customer limits';
@@ -0,0 +1,51 @@
+-- Scheduled drop launches (lib/drops.ts). Before starts_at a drop takes
+-- waitlist signups; for the first early_access_minutes after it opens only
+-- waitlisted emails can check out, then it opens to everyone.
+ALTER TABLE public.drops ADD COLUMN IF NOT EXISTS early_access_minutes INTEGER
+    CHECK (early_access_minutes > 0);  -- NULL = no early access window
+ALTER TABLE public.drops ADD COLUMN IF NOT EXISTS sold_out_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS public.drop_waitlist (
+    drop_id TEXT NOT NULL REFERENCES public.drops(id) ON DELETE CASCADE,
+    email TEXT NOT NULL CHECK (email = LOWER(email)),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (drop_id, email)
+);
+
+-- Signups go through /api/drops/[id]/waitlist with the service role
+ALTER TABLE public.drop_waitlist ENABLE ROW LEVEL SECURITY;
+
+-- Stamp drops.sold_out_at when the last unit is sold; restocks and refunds
+-- that bring stock back clear it
+CREATE OR REPLACE FUNCTION public.drops_track_sold_out()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE public.drops
+    SET sold_out_at = CASE WHEN NEW.on_hand <= 0 THEN COALESCE(sold_out_at, NOW()) ELSE NULL END,
+        updated_at = NOW()
+    WHERE sku = NEW.sku
+      AND (NEW.on_hand <= 0) IS DISTINCT FROM (sold_out_at IS NOT NULL);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inventory_track_sold_out ON public.inventory;
+CREATE TRIGGER inventory_track_sold_out
+    AFTER UPDATE OF on_hand ON public.inventory
+    FOR EACH ROW
+    WHEN (OLD.on_hand IS DISTINCT FROM NEW.on_hand)
+    EXECUTE FUNCTION public.drops_track_sold_out();
+
+-- Drops already at zero
+UPDATE public.drops d
+SET sold_out_at = NOW()
+FROM public.inventory i
+WHERE i.sku = d.sku AND i.on_hand <= 0 AND d.sold_out_at IS NULL;
+
+REVOKE ALL ON FUNCTION public.drops_track_sold_out() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.drops.early_access_minutes IS 'Minutes after starts_at when only waitlisted emails can buy';
+COMMENT ON COLUMN public.drops.sold_out_at IS 'When on_hand reached zero; cleared if stock comes back';
+COMMENT ON TABLE public.drop_waitlist IS 'Emails signed up before a drop opened; they get the early access window';
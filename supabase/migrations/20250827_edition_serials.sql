@@ -0,0 +1,98 @@
+-- Edition serial numbers (lib/edition-serials.ts). Every limited-edition unit
+-- sold gets a serial within its drop's edition ("#37/472"), assigned by the
+-- checkout webhook once the stock is taken. Refunds void the serials, and
+-- voided numbers go back to the pool so the edition never exceeds its size.
+CREATE TABLE IF NOT EXISTS public.edition_serials (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    drop_id TEXT NOT NULL REFERENCES public.drops(id),
+    serial INTEGER NOT NULL CHECK (serial > 0),
+    checkout_session_id TEXT NOT NULL,
+    customer_email TEXT,
+    status TEXT NOT NULL DEFAULT 'assigned' CHECK (status IN ('assigned', 'void')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    voided_at TIMESTAMP WITH TIME ZONE
+);
+
+-- A serial belongs to at most one live unit
+CREATE UNIQUE INDEX IF NOT EXISTS idx_edition_serials_live
+    ON public.edition_serials(drop_id, serial)
+    WHERE status = 'assigned';
+
+CREATE INDEX IF NOT EXISTS idx_edition_serials_session
+    ON public.edition_serials(checkout_session_id);
+
+-- Written by the webhook and read by the success page with the service role
+ALTER TABLE public.edition_serials ENABLE ROW LEVEL SECURITY;
+
+-- Give a session p_quantity serials in a drop, lowest free numbers first.
+-- Replays return the serials already assigned to the session instead of
+-- assigning more. Raises 'edition_exhausted:<drop>:<free>' when the edition
+-- has fewer free numbers than units sold.
+CREATE OR REPLACE FUNCTION public.edition_assign_serials(
+    p_drop_id TEXT,
+    p_checkout_session_id TEXT,
+    p_quantity INTEGER,
+    p_customer_email TEXT DEFAULT NULL
+)
+RETURNS TABLE (serial INTEGER, edition_size INTEGER)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_edition_size INTEGER;
+    v_missing INTEGER;
+    v_free INTEGER;
+BEGIN
+    IF p_quantity IS NULL OR p_quantity <= 0 THEN
+        RAISE EXCEPTION 'invalid_quantity:%', p_drop_id;
+    END IF;
+
+    -- Serialise assignment per drop
+    SELECT d.edition_size INTO v_edition_size FROM public.drops d WHERE d.id = p_drop_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'unknown_drop:%', p_drop_id;
+    END IF;
+
+    SELECT p_quantity - COUNT(*)::INTEGER INTO v_missing
+    FROM public.edition_serials s
+    WHERE s.drop_id = p_drop_id
+      AND s.checkout_session_id = p_checkout_session_id
+      AND s.status = 'assigned';
+
+    IF v_missing > 0 THEN
+        SELECT COUNT(*)::INTEGER INTO v_free
+        FROM generate_series(1, v_edition_size) AS n(serial)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.edition_serials s
+            WHERE s.drop_id = p_drop_id AND s.serial = n.serial AND s.status = 'assigned'
+        );
+
+        IF v_free < v_missing THEN
+            RAISE EXCEPTION 'edition_exhausted:%:%', p_drop_id, v_free;
+        END IF;
+
+        INSERT INTO public.edition_serials (drop_id, serial, checkout_session_id, customer_email)
+        SELECT p_drop_id, n.serial, p_checkout_session_id, LOWER(p_customer_email)
+        FROM generate_series(1, v_edition_size) AS n(serial)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.edition_serials s
+            WHERE s.drop_id = p_drop_id AND s.serial = n.serial AND s.status = 'assigned'
+        )
+        ORDER BY n.serial
+        LIMIT v_missing;
+    END IF;
+
+    RETURN QUERY
+    SELECT s.serial, v_edition_size
+    FROM public.edition_serials s
+    WHERE s.drop_id = p_drop_id
+      AND s.checkout_session_id = p_checkout_session_id
+      AND s.status = 'assigned'
+    ORDER BY s.serial;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.edition_assign_serials(TEXT, TEXT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.edition_serials IS 'Serial numbers of sold limited-edition units, per drop';
+COMMENT ON COLUMN public.edition_serials.status IS 'assigned = live unit; void = refunded, number free to reissue';
@@ -0,0 +1,207 @@
+-- Checkout promotions (lib/promotions.ts, /api/promotions/validate). Unlike
+-- promo_codes, which grant credits, these discount a card order: a percentage
+-- or fixed amount off, free shipping, or buy-X-get-Y on display cases.
+-- Automatic promotions apply without a code. Usage is capped globally and per
+-- customer, by confirmed account email, so guests can't use codes with a
+-- per-customer cap. Creating a Checkout Session reserves a redemption, which
+-- counts towards both caps until the session expires; the webhook marks it
+-- redeemed once paid or releases it when the session expires.
+CREATE TABLE IF NOT EXISTS public.checkout_promotions (
+    code TEXT PRIMARY KEY CHECK (code = UPPER(code)),
+    description TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('percent', 'fixed', 'free_shipping', 'buy_x_get_y')),
+    percent_off INTEGER CHECK (percent_off BETWEEN 1 AND 100),
+    amount_off_cents INTEGER CHECK (amount_off_cents > 0),
+    buy_quantity INTEGER CHECK (buy_quantity > 0),  -- buy_x_get_y: display cases paid for
+    get_quantity INTEGER CHECK (get_quantity > 0),  -- buy_x_get_y: display cases free
+    min_subtotal_cents INTEGER NOT NULL DEFAULT 0 CHECK (min_subtotal_cents >= 0),
+    automatic BOOLEAN NOT NULL DEFAULT FALSE,
+    max_redemptions INTEGER CHECK (max_redemptions > 0),  -- NULL = unlimited
+    max_redemptions_per_customer INTEGER CHECK (max_redemptions_per_customer > 0),  -- NULL = unlimited
+    redeemed_count INTEGER NOT NULL DEFAULT 0,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    starts_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT checkout_promotions_kind_check CHECK (
+        (kind = 'percent' AND percent_off IS NOT NULL)
+        OR (kind = 'fixed' AND amount_off_cents IS NOT NULL)
+        OR kind = 'free_shipping'
+        OR (kind = 'buy_x_get_y' AND buy_quantity IS NOT NULL AND get_quantity IS NOT NULL)
+    ),
+    CONSTRAINT checkout_promotions_window_check CHECK (expires_at IS NULL OR starts_at IS NULL OR expires_at > starts_at)
+);
+
+CREATE TABLE IF NOT EXISTS public.checkout_promotion_redemptions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    reference UUID NOT NULL UNIQUE,  -- Made before the session exists; in its metadata as promotionReservation
+    code TEXT NOT NULL REFERENCES public.checkout_promotions(code),
+    checkout_session_id TEXT UNIQUE,
+    customer_key TEXT,  -- Lowercased confirmed account email; NULL for guests
+    discount_cents INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'redeemed', 'released')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,  -- A reservation stops counting after this
+    redeemed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkout_promotion_redemptions_customer
+    ON public.checkout_promotion_redemptions(code, customer_key);
+CREATE INDEX IF NOT EXISTS idx_checkout_promotion_redemptions_live
+    ON public.checkout_promotion_redemptions(code)
+    WHERE status IN ('reserved', 'redeemed');
+
+-- Codes and redemptions are only touched by the service role
+ALTER TABLE public.checkout_promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.checkout_promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Whether a redemption counts towards the caps: paid, or reserved by a
+-- checkout that hasn't expired yet
+CREATE OR REPLACE FUNCTION public.checkout_promotion_redemption_live(r public.checkout_promotion_redemptions)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT r.status = 'redeemed' OR (r.status = 'reserved' AND r.expires_at > NOW());
+$$;
+
+-- Look up a promotion a customer may use now. Raises promo_not_found,
+-- promo_not_started, promo_expired, promo_exhausted, promo_sign_in_required
+-- (a per-customer cap with no account to count it against) or
+-- promo_customer_limit. Both caps count paid redemptions and live reservations.
+CREATE OR REPLACE FUNCTION public.checkout_promotion_check(p_code TEXT, p_customer_key TEXT DEFAULT NULL)
+RETURNS SETOF public.checkout_promotions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_promo public.checkout_promotions%ROWTYPE;
+    v_used INTEGER;
+BEGIN
+    SELECT * INTO v_promo
+    FROM public.checkout_promotions
+    WHERE code = UPPER(TRIM(p_code));
+
+    IF NOT FOUND OR NOT v_promo.active THEN
+        RAISE EXCEPTION 'promo_not_found';
+    END IF;
+    IF v_promo.starts_at IS NOT NULL AND v_promo.starts_at > NOW() THEN
+        RAISE EXCEPTION 'promo_not_started';
+    END IF;
+    IF v_promo.expires_at IS NOT NULL AND v_promo.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'promo_expired';
+    END IF;
+
+    IF v_promo.max_redemptions IS NOT NULL THEN
+        SELECT COUNT(*)::INTEGER INTO v_used
+        FROM public.checkout_promotion_redemptions r
+        WHERE r.code = v_promo.code AND public.checkout_promotion_redemption_live(r);
+
+        IF v_used >= v_promo.max_redemptions THEN
+            RAISE EXCEPTION 'promo_exhausted';
+        END IF;
+    END IF;
+
+    IF v_promo.max_redemptions_per_customer IS NOT NULL THEN
+        IF p_customer_key IS NULL THEN
+            RAISE EXCEPTION 'promo_sign_in_required';
+        END IF;
+
+        SELECT COUNT(*)::INTEGER INTO v_used
+        FROM public.checkout_promotion_redemptions r
+        WHERE r.code = v_promo.code
+          AND r.customer_key = LOWER(p_customer_key)
+          AND public.checkout_promotion_redemption_live(r);
+
+        IF v_used >= v_promo.max_redemptions_per_customer THEN
+            RAISE EXCEPTION 'promo_customer_limit';
+        END IF;
+    END IF;
+
+    RETURN NEXT v_promo;
+END;
+$$;
+
+-- Reserve a redemption for a checkout about to be created. The promotion row
+-- is locked, so concurrent checkouts can't both take the last redemption.
+-- Raises the same errors as checkout_promotion_check.
+CREATE OR REPLACE FUNCTION public.checkout_promotion_reserve(
+    p_code TEXT,
+    p_reference UUID,
+    p_customer_key TEXT,
+    p_discount_cents INTEGER,
+    p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    PERFORM 1 FROM public.checkout_promotions WHERE code = UPPER(TRIM(p_code)) FOR UPDATE;
+    PERFORM public.checkout_promotion_check(p_code, p_customer_key);
+
+    INSERT INTO public.checkout_promotion_redemptions (reference, code, customer_key, discount_cents, expires_at)
+    VALUES (p_reference, UPPER(TRIM(p_code)), LOWER(p_customer_key), p_discount_cents, p_expires_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.checkout_promotion_attach(p_reference UUID, p_checkout_session_id TEXT)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+    UPDATE public.checkout_promotion_redemptions
+    SET checkout_session_id = p_checkout_session_id
+    WHERE reference = p_reference;
+$$;
+
+-- Mark a paid checkout's reservation redeemed. A payment that arrives after
+-- its reservation lapsed or was released is still recorded, since the
+-- customer has paid with the discount. Replays record nothing; returns
+-- whether a redemption was recorded.
+CREATE OR REPLACE FUNCTION public.checkout_promotion_redeem(p_reference UUID, p_checkout_session_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_code TEXT;
+BEGIN
+    UPDATE public.checkout_promotion_redemptions
+    SET status = 'redeemed', checkout_session_id = p_checkout_session_id, redeemed_at = NOW()
+    WHERE reference = p_reference AND status <> 'redeemed'
+    RETURNING code INTO v_code;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE public.checkout_promotions
+    SET redeemed_count = redeemed_count + 1
+    WHERE code = v_code;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Give back an unpaid checkout's reservation; returns whether one was released
+CREATE OR REPLACE FUNCTION public.checkout_promotion_release(p_reference UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE public.checkout_promotion_redemptions
+    SET status = 'released'
+    WHERE reference = p_reference AND status = 'reserved';
+
+    RETURN FOUND;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.checkout_promotion_check(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.checkout_promotion_reserve(TEXT, UUID, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.checkout_promotion_attach(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.checkout_promotion_redeem(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.checkout_promotion_release(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.checkout_promotions IS 'Discounts on card orders, entered as codes at checkout or applied automatically';
+COMMENT ON COLUMN public.checkout_promotions.min_subtotal_cents IS 'Promotion applies only when the items come to at least this much';
+COMMENT ON COLUMN public.checkout_promotions.automatic IS 'Applied to qualifying carts without a code; the best one wins';
+COMMENT ON TABLE public.checkout_promotion_redemptions IS 'One row per checkout session that used a promotion: reserved at checkout, redeemed on payment, released on expiry';
+COMMENT ON COLUMN public.checkout_promotions.redeemed_count IS 'Paid redemptions; the caps also count live reservations';
@@ -0,0 +1,128 @@
+-- Orders and their fulfilment (lib/fulfilment.ts). The Stripe webhook records
+-- one order per paid checkout session and enqueues one fulfilment job for it;
+-- the job creates the Easyship shipment and stores the shipment id, label and
+-- tracking on the order, retrying with backoff. Replaces the daily n8n export
+-- flows, which missed orders and double-shipped on reruns.
+CREATE TABLE IF NOT EXISTS public.orders (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    checkout_session_id TEXT NOT NULL UNIQUE,
+    payment_intent_id TEXT,
+    customer_email TEXT,
+    customer_name TEXT,
+    customer_phone TEXT,
+    shipping_address JSONB NOT NULL,  -- { line1, line2, city, state, postal_code, country }
+    items JSONB NOT NULL DEFAULT '[]',  -- OrderItem[] from the session metadata
+    serials TEXT,  -- Edition serials, compacted (lib/edition-serials.ts)
+    amount_total_cents INTEGER NOT NULL DEFAULT 0,
+    shipping_cents INTEGER NOT NULL DEFAULT 0,
+    currency TEXT NOT NULL DEFAULT 'usd',
+    shipping_level TEXT NOT NULL DEFAULT 'standard' CHECK (shipping_level IN ('standard', 'tracked', 'express')),
+    easyship_shipment_id TEXT UNIQUE,
+    label_url TEXT,
+    tracking_number TEXT,
+    tracking_url TEXT,
+    courier_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_orders_customer_email ON public.orders(LOWER(customer_email));
+
+CREATE TABLE IF NOT EXISTS public.fulfilment_jobs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 8 CHECK (max_attempts > 0),
+    run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_until TIMESTAMP WITH TIME ZONE,  -- A running job whose lock lapsed is claimed again
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fulfilment_jobs_due
+    ON public.fulfilment_jobs(run_after)
+    WHERE status IN ('pending', 'running');
+
+-- Orders and jobs are only touched by the service role
+ALTER TABLE public.orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fulfilment_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Record a paid session's order and enqueue its fulfilment job. Replays of
+-- the same session return the existing order and leave its job alone.
+CREATE OR REPLACE FUNCTION public.fulfilment_enqueue(p_order JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_order_id UUID;
+BEGIN
+    INSERT INTO public.orders (
+        checkout_session_id, payment_intent_id, customer_email, customer_name, customer_phone,
+        shipping_address, items, serials, amount_total_cents, shipping_cents, currency, shipping_level
+    )
+    SELECT
+        o.checkout_session_id, o.payment_intent_id, o.customer_email, o.customer_name, o.customer_phone,
+        o.shipping_address, COALESCE(o.items, '[]'), o.serials, COALESCE(o.amount_total_cents, 0),
+        COALESCE(o.shipping_cents, 0), COALESCE(o.currency, 'usd'), COALESCE(o.shipping_level, 'standard')
+    FROM jsonb_populate_record(NULL::public.orders, p_order) o
+    ON CONFLICT (checkout_session_id) DO NOTHING
+    RETURNING id INTO v_order_id;
+
+    IF v_order_id IS NULL THEN
+        SELECT id INTO v_order_id
+        FROM public.orders
+        WHERE checkout_session_id = p_order->>'checkout_session_id';
+    END IF;
+
+    INSERT INTO public.fulfilment_jobs (order_id)
+    VALUES (v_order_id)
+    ON CONFLICT (order_id) DO NOTHING;
+
+    RETURN v_order_id;
+END;
+$$;
+
+-- Claim due jobs for a worker: pending jobs whose backoff has passed, and
+-- running jobs whose worker died. Each claim counts as an attempt. Pass
+-- p_order_id to claim one order's job (the webhook's first attempt).
+CREATE OR REPLACE FUNCTION public.fulfilment_claim_jobs(
+    p_limit INTEGER DEFAULT 10,
+    p_lock_seconds INTEGER DEFAULT 300,
+    p_order_id UUID DEFAULT NULL
+)
+RETURNS TABLE (job_id UUID, order_id UUID, attempts INTEGER, max_attempts INTEGER)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+BEGIN
+    RETURN QUERY
+    UPDATE public.fulfilment_jobs j
+    SET status = 'running',
+        attempts = j.attempts + 1,
+        locked_until = NOW() + make_interval(secs => p_lock_seconds),
+        updated_at = NOW()
+    WHERE j.id IN (
+        SELECT d.id
+        FROM public.fulfilment_jobs d
+        WHERE d.attempts < d.max_attempts
+          AND (p_order_id IS NULL OR d.order_id = p_order_id)
+          AND (
+              (d.status = 'pending' AND d.run_after <= NOW())
+              OR (d.status = 'running' AND d.locked_until <= NOW())
+          )
+        ORDER BY d.run_after
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.id, j.order_id, j.attempts, j.max_attempts;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.fulfilment_enqueue(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.fulfilment_claim_jobs(INTEGER, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.orders IS 'One row per paid checkout session that ships something';
+COMMENT ON COLUMN public.orders.easyship_shipment_id IS 'Set once by the fulfilment job; a job retry reuses it instead of creating another shipment';
+COMMENT ON TABLE public.fulfilment_jobs IS 'Easyship shipment creation per order, retried with backoff until it succeeds or runs out of attempts';
@@ -0,0 +1,157 @@
+-- Order status (lib/orders.ts): paid -> in_production -> shipped -> delivered,
+-- plus cancelled (before shipping) and refunded (any time). Fulfilment moves
+-- orders into production, carrier tracking webhooks (/api/tracking/[provider])
+-- ship and deliver them, and full refunds refund them. Every transition and
+-- tracking checkpoint is kept in order_events for the /orders/[id] timeline.
+ALTER TABLE public.orders
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'paid'
+        CHECK (status IN ('paid', 'in_production', 'shipped', 'delivered', 'cancelled', 'refunded')),
+    ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_orders_tracking_number ON public.orders(tracking_number);
+
+CREATE TABLE IF NOT EXISTS public.order_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    status TEXT CHECK (status IN ('paid', 'in_production', 'shipped', 'delivered', 'cancelled', 'refunded')),  -- NULL for checkpoints that don't change it
+    description TEXT NOT NULL,
+    location TEXT,
+    source TEXT NOT NULL,  -- 'checkout' | 'fulfilment' | 'stripe' | a tracking provider | 'admin'
+    event_key TEXT UNIQUE,  -- Dedupes replayed webhooks
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_events_order ON public.order_events(order_id, occurred_at);
+
+ALTER TABLE public.order_events ENABLE ROW LEVEL SECURITY;
+
+-- Signed-in customers see the orders placed with their email (the profile's order list)
+CREATE POLICY "Customers can read their orders" ON public.orders
+    FOR SELECT
+    TO authenticated
+    USING (LOWER(customer_email) = LOWER(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Customers can read their order events" ON public.order_events
+    FOR SELECT
+    TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM public.orders o
+        WHERE o.id = order_id AND LOWER(o.customer_email) = LOWER(auth.jwt() ->> 'email')
+    ));
+
+-- Whether an order may move between two statuses. Forward steps may skip
+-- (a carrier can report delivery before we saw the pickup); cancelling stops
+-- once the parcel has shipped; refunds are always possible until refunded.
+CREATE OR REPLACE FUNCTION public.order_can_transition(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN p_from = 'refunded' THEN FALSE
+        WHEN p_to = 'refunded' THEN TRUE
+        WHEN p_from = 'cancelled' THEN FALSE
+        WHEN p_to = 'cancelled' THEN p_from IN ('paid', 'in_production')
+        ELSE array_position(ARRAY['paid', 'in_production', 'shipped', 'delivered'], p_to)
+           > array_position(ARRAY['paid', 'in_production', 'shipped', 'delivered'], p_from)
+    END;
+$$;
+
+-- Move an order to a status and record the event, or record a checkpoint
+-- when p_status is NULL or the current status. Replays with the same
+-- p_event_key change nothing. Raises order_not_found or
+-- order_invalid_transition:<from>:<to>.
+CREATE OR REPLACE FUNCTION public.order_transition(
+    p_order_id UUID,
+    p_status TEXT,
+    p_source TEXT,
+    p_description TEXT,
+    p_event_key TEXT DEFAULT NULL,
+    p_occurred_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_location TEXT DEFAULT NULL
+)
+RETURNS TABLE (changed BOOLEAN, from_status TEXT, to_status TEXT)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_current TEXT;
+BEGIN
+    SELECT status INTO v_current
+    FROM public.orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'order_not_found';
+    END IF;
+
+    IF p_event_key IS NOT NULL AND EXISTS (SELECT 1 FROM public.order_events WHERE event_key = p_event_key) THEN
+        RETURN QUERY SELECT FALSE, v_current, v_current;
+        RETURN;
+    END IF;
+
+    IF p_status IS NULL OR p_status = v_current THEN
+        INSERT INTO public.order_events (order_id, status, description, location, source, event_key, occurred_at)
+        VALUES (p_order_id, NULL, p_description, p_location, p_source, p_event_key, COALESCE(p_occurred_at, NOW()));
+        RETURN QUERY SELECT FALSE, v_current, v_current;
+        RETURN;
+    END IF;
+
+    IF NOT public.order_can_transition(v_current, p_status) THEN
+        RAISE EXCEPTION 'order_invalid_transition:%:%', v_current, p_status;
+    END IF;
+
+    UPDATE public.orders
+    SET status = p_status, status_changed_at = NOW(), updated_at = NOW()
+    WHERE id = p_order_id;
+
+    INSERT INTO public.order_events (order_id, status, description, location, source, event_key, occurred_at)
+    VALUES (p_order_id, p_status, p_description, p_location, p_source, p_event_key, COALESCE(p_occurred_at, NOW()));
+
+    RETURN QUERY SELECT TRUE, v_current, p_status;
+END;
+$$;
+
+-- New orders start their timeline with the payment
+CREATE OR REPLACE FUNCTION public.fulfilment_enqueue(p_order JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_order_id UUID;
+BEGIN
+    INSERT INTO public.orders (
+        checkout_session_id, payment_intent_id, customer_email, customer_name, customer_phone,
+        shipping_address, items, serials, amount_total_cents, shipping_cents, currency, shipping_level
+    )
+    SELECT
+        o.checkout_session_id, o.payment_intent_id, o.customer_email, o.customer_name, o.customer_phone,
+        o.shipping_address, COALESCE(o.items, '[]'), o.serials, COALESCE(o.amount_total_cents, 0),
+        COALESCE(o.shipping_cents, 0), COALESCE(o.currency, 'usd'), COALESCE(o.shipping_level, 'standard')
+    FROM jsonb_populate_record(NULL::public.orders, p_order) o
+    ON CONFLICT (checkout_session_id) DO NOTHING
+    RETURNING id INTO v_order_id;
+
+    IF v_order_id IS NULL THEN
+        SELECT id INTO v_order_id
+        FROM public.orders
+        WHERE checkout_session_id = p_order->>'checkout_session_id';
+    ELSE
+        INSERT INTO public.order_events (order_id, status, description, source, event_key)
+        VALUES (v_order_id, 'paid', 'Order placed and paid', 'checkout', 'checkout:' || (p_order->>'checkout_session_id'));
+    END IF;
+
+    INSERT INTO public.fulfilment_jobs (order_id)
+    VALUES (v_order_id)
+    ON CONFLICT (order_id) DO NOTHING;
+
+    RETURN v_order_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.order_transition(UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.fulfilment_enqueue(JSONB) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.orders.status IS 'paid -> in_production -> shipped -> delivered, or cancelled / refunded; changed only through order_transition';
+COMMENT ON TABLE public.order_events IS 'Order timeline: status transitions and carrier tracking checkpoints';
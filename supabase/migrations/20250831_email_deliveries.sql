@@ -0,0 +1,27 @@
+-- Outgoing email log (lib/email.ts). One row per message sent through the
+-- configured provider. Webhook-triggered mail carries an idempotency key so
+-- replays of the same event send once; failed deliveries can be retried
+-- under the same key.
+CREATE TABLE IF NOT EXISTS public.email_deliveries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    idempotency_key TEXT UNIQUE,  -- e.g. order:<id>:shipped; NULL for one-off mail
+    message_id TEXT NOT NULL UNIQUE,  -- Message-ID header of the latest attempt
+    template TEXT,
+    category TEXT NOT NULL DEFAULT 'transactional' CHECK (category IN ('transactional', 'marketing')),
+    recipient TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'sending' CHECK (status IN ('sending', 'sent', 'failed')),
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_recipient ON public.email_deliveries(LOWER(recipient));
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_failed
+    ON public.email_deliveries(created_at)
+    WHERE status = 'failed';
+
+-- Only the service role reads and writes the log
+ALTER TABLE public.email_deliveries ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.email_deliveries IS 'Outgoing email log; idempotency_key deduplicates webhook-triggered mail';
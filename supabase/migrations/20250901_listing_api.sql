@@ -0,0 +1,296 @@
+-- Marketplace listings are created, edited and cancelled only through
+-- /api/listings (lib/listings.ts), which calls the RPCs below with the
+-- service role. The RPCs check that the seller owns the listed source
+-- (a user_assets row or an uploaded_images row) and is verified with
+-- Stripe, and a partial unique index keeps one active listing per source.
+-- Every change to a listing, including sales and refunds from the Stripe
+-- webhook, is recorded in mkt_listing_audit by a trigger. Browsers keep
+-- read access under RLS and lose write access.
+
+-- Listings that duplicate another active listing of the same source are
+-- cancelled, newest kept, so the unique index can be built
+UPDATE public.mkt_listings l
+SET status = 'inactive', is_active = FALSE, updated_at = NOW()
+WHERE l.status = 'listed'
+  AND l.is_active
+  AND EXISTS (
+      SELECT 1
+      FROM public.mkt_listings newer
+      WHERE newer.source_type = l.source_type
+        AND newer.source_id = l.source_id
+        AND newer.status = 'listed'
+        AND newer.is_active
+        AND (newer.created_at, newer.id) > (l.created_at, l.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mkt_listings_active_source
+    ON public.mkt_listings(source_type, source_id)
+    WHERE status = 'listed' AND is_active;
+
+-- Price bounds are configurable (lib/listing-price.ts); this only rules out nonsense
+ALTER TABLE public.mkt_listings DROP CONSTRAINT IF EXISTS mkt_listings_price_positive;
+ALTER TABLE public.mkt_listings ADD CONSTRAINT mkt_listings_price_positive CHECK (price_cents > 0) NOT VALID;
+
+CREATE TABLE IF NOT EXISTS public.mkt_listing_audit (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    listing_id UUID NOT NULL,
+    actor_id UUID,  -- The seller acting through the API; NULL for system changes (webhooks)
+    action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'cancelled', 'sold', 'refunded', 'relisted', 'status_changed')),
+    changes JSONB NOT NULL DEFAULT '{}',  -- { column: { from, to } }
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mkt_listing_audit_listing ON public.mkt_listing_audit(listing_id, created_at);
+
+-- Record what changed. The listing RPCs name the acting seller in the
+-- cardify.listing_actor setting for their transaction.
+CREATE OR REPLACE FUNCTION public.mkt_listings_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_changes JSONB := '{}';
+    v_action TEXT;
+    v_column TEXT;
+    v_old JSONB;
+    v_new JSONB := to_jsonb(NEW);
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        v_action := 'created';
+        v_changes := jsonb_build_object(
+            'price_cents', jsonb_build_object('from', NULL, 'to', NEW.price_cents),
+            'status', jsonb_build_object('from', NULL, 'to', NEW.status)
+        );
+    ELSE
+        v_old := to_jsonb(OLD);
+        FOREACH v_column IN ARRAY ARRAY['price_cents', 'title', 'description', 'status', 'is_active', 'buyer_id'] LOOP
+            IF v_old -> v_column IS DISTINCT FROM v_new -> v_column THEN
+                v_changes := v_changes || jsonb_build_object(
+                    v_column, jsonb_build_object('from', v_old -> v_column, 'to', v_new -> v_column)
+                );
+            END IF;
+        END LOOP;
+
+        IF v_changes = '{}' THEN
+            RETURN NEW;
+        END IF;
+
+        v_action := CASE
+            WHEN NEW.status IS NOT DISTINCT FROM OLD.status AND NEW.is_active IS NOT DISTINCT FROM OLD.is_active THEN 'updated'
+            WHEN NEW.status = 'sold' THEN 'sold'
+            WHEN NEW.status = 'refunded' THEN 'refunded'
+            WHEN NEW.status = 'listed' AND NEW.is_active THEN 'relisted'
+            WHEN NEW.status = 'inactive' OR NOT NEW.is_active THEN 'cancelled'
+            ELSE 'status_changed'
+        END;
+    END IF;
+
+    INSERT INTO public.mkt_listing_audit (listing_id, actor_id, action, changes)
+    VALUES (
+        NEW.id,
+        COALESCE(NULLIF(current_setting('cardify.listing_actor', TRUE), '')::UUID, auth.uid()),
+        v_action,
+        v_changes
+    );
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS mkt_listings_audit ON public.mkt_listings;
+CREATE TRIGGER mkt_listings_audit
+    AFTER INSERT OR UPDATE ON public.mkt_listings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.mkt_listings_audit();
+
+-- Whether a user may sell: verified with Stripe, or an admin (whose sales
+-- settle to the platform account, see create-payment-intent)
+CREATE OR REPLACE FUNCTION public.listing_seller_can_sell(p_seller_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT COALESCE(
+        (SELECT stripe_verified IS TRUE OR is_admin IS TRUE FROM public.mkt_profiles WHERE id = p_seller_id),
+        FALSE
+    );
+$$;
+
+-- List a source the seller owns. Raises listing_seller_not_verified,
+-- listing_source_not_found or listing_duplicate.
+CREATE OR REPLACE FUNCTION public.listing_create(
+    p_seller_id UUID,
+    p_source_type TEXT,
+    p_source_id UUID,
+    p_price_cents INTEGER
+)
+RETURNS public.mkt_listings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_title TEXT;
+    v_image_url TEXT;
+    v_listing public.mkt_listings;
+BEGIN
+    IF NOT public.listing_seller_can_sell(p_seller_id) THEN
+        RAISE EXCEPTION 'listing_seller_not_verified';
+    END IF;
+
+    IF p_source_type = 'asset' THEN
+        SELECT COALESCE(NULLIF(TRIM(title), ''), regexp_replace(COALESCE(storage_path, ''), '^.*/', ''), 'Untitled'), image_url
+        INTO v_title, v_image_url
+        FROM public.user_assets
+        WHERE id = p_source_id AND owner_id = p_seller_id;
+    ELSIF p_source_type = 'uploaded_image' THEN
+        SELECT COALESCE(NULLIF(metadata ->> 'title', ''), regexp_replace(storage_path, '^.*/', '')), image_url
+        INTO v_title, v_image_url
+        FROM public.uploaded_images
+        WHERE id = p_source_id AND user_id = p_seller_id;
+    END IF;
+
+    IF NOT FOUND OR v_image_url IS NULL THEN
+        RAISE EXCEPTION 'listing_source_not_found';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.mkt_listings
+        WHERE source_type = p_source_type AND source_id = p_source_id AND status = 'listed' AND is_active
+    ) THEN
+        RAISE EXCEPTION 'listing_duplicate';
+    END IF;
+
+    PERFORM set_config('cardify.listing_actor', p_seller_id::TEXT, TRUE);
+
+    BEGIN
+        INSERT INTO public.mkt_listings (title, image_url, price_cents, seller_id, status, is_active, source_type, source_id)
+        VALUES (NULLIF(v_title, ''), v_image_url, p_price_cents, p_seller_id, 'listed', TRUE, p_source_type, p_source_id)
+        RETURNING * INTO v_listing;
+    EXCEPTION WHEN unique_violation THEN
+        -- Another request listed the same source first
+        RAISE EXCEPTION 'listing_duplicate';
+    END;
+
+    RETURN v_listing;
+END;
+$$;
+
+-- Edit a listing that is still for sale; NULL leaves a field unchanged.
+-- Raises listing_not_found or listing_not_editable.
+CREATE OR REPLACE FUNCTION public.listing_update(
+    p_listing_id UUID,
+    p_seller_id UUID,
+    p_price_cents INTEGER DEFAULT NULL,
+    p_title TEXT DEFAULT NULL,
+    p_description TEXT DEFAULT NULL
+)
+RETURNS public.mkt_listings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_listing public.mkt_listings;
+BEGIN
+    SELECT * INTO v_listing
+    FROM public.mkt_listings
+    WHERE id = p_listing_id AND seller_id = p_seller_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'listing_not_found';
+    END IF;
+    IF NOT (v_listing.status = 'listed' AND v_listing.is_active) THEN
+        RAISE EXCEPTION 'listing_not_editable';
+    END IF;
+
+    PERFORM set_config('cardify.listing_actor', p_seller_id::TEXT, TRUE);
+
+    UPDATE public.mkt_listings
+    SET price_cents = COALESCE(p_price_cents, price_cents),
+        title = COALESCE(p_title, title),
+        description = COALESCE(p_description, description),
+        updated_at = NOW()
+    WHERE id = p_listing_id
+    RETURNING * INTO v_listing;
+
+    RETURN v_listing;
+END;
+$$;
+
+-- Take a listing off sale. Raises listing_not_found or listing_not_editable.
+CREATE OR REPLACE FUNCTION public.listing_cancel(p_listing_id UUID, p_seller_id UUID)
+RETURNS public.mkt_listings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_listing public.mkt_listings;
+BEGIN
+    SELECT * INTO v_listing
+    FROM public.mkt_listings
+    WHERE id = p_listing_id AND seller_id = p_seller_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'listing_not_found';
+    END IF;
+    IF NOT (v_listing.status = 'listed' AND v_listing.is_active) THEN
+        RAISE EXCEPTION 'listing_not_editable';
+    END IF;
+
+    PERFORM set_config('cardify.listing_actor', p_seller_id::TEXT, TRUE);
+
+    UPDATE public.mkt_listings
+    SET status = 'inactive', is_active = FALSE, updated_at = NOW()
+    WHERE id = p_listing_id
+    RETURNING * INTO v_listing;
+
+    RETURN v_listing;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.mkt_listings_audit() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.listing_seller_can_sell(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.listing_create(UUID, TEXT, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.listing_update(UUID, UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.listing_cancel(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Row level security. Whatever policies were set up by hand are replaced:
+-- anyone can read listings for sale, sellers and buyers their own, and
+-- only the service role writes.
+ALTER TABLE public.mkt_listings ENABLE ROW LEVEL SECURITY;
+
+DO $$
+DECLARE
+    r RECORD;
+BEGIN
+    FOR r IN SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = 'mkt_listings' LOOP
+        EXECUTE format('DROP POLICY %I ON public.mkt_listings', r.policyname);
+    END LOOP;
+END;
+$$;
+
+CREATE POLICY "Anyone can read listings for sale" ON public.mkt_listings
+    FOR SELECT
+    TO anon, authenticated
+    USING (status = 'listed' AND is_active);
+
+CREATE POLICY "Sellers and buyers can read their listings" ON public.mkt_listings
+    FOR SELECT
+    TO authenticated
+    USING (seller_id = auth.uid() OR buyer_id = auth.uid());
+
+REVOKE INSERT, UPDATE, DELETE ON public.mkt_listings FROM anon, authenticated;
+
+ALTER TABLE public.mkt_listing_audit ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Sellers can read their listings' audit trail" ON public.mkt_listing_audit;
+
+CREATE POLICY "Sellers can read their listings' audit trail" ON public.mkt_listing_audit
+    FOR SELECT
+    TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM public.mkt_listings l
+        WHERE l.id = listing_id AND l.seller_id = auth.uid()
+    ));
+
+COMMENT ON INDEX public.idx_mkt_listings_active_source IS 'One active listing per source; listing_create maps violations to listing_duplicate';
+COMMENT ON TABLE public.mkt_listing_audit IS 'Every change to a marketplace listing, written by the mkt_listings_audit trigger';
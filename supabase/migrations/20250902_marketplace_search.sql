@@ -0,0 +1,290 @@
+-- Marketplace search for GET /api/marketplace/search (lib/marketplace-search.ts).
+-- Listings get a full-text search vector over title and description, the
+-- card finish the seller chose, and a popularity count (buyers who started
+-- checkout). marketplace_search() filters, sorts and pages with a keyset
+-- cursor so deep pages cost the same as the first.
+
+ALTER TABLE public.mkt_listings
+    ADD COLUMN IF NOT EXISTS finish TEXT NOT NULL DEFAULT 'matte'
+    CHECK (finish IN ('matte', 'rainbow', 'gloss'));
+
+ALTER TABLE public.mkt_listings ADD COLUMN IF NOT EXISTS checkout_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.mkt_listings
+    ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(description, '')), 'B')
+    ) STORED;
+
+-- Keyset paging needs a creation time on every row
+UPDATE public.mkt_listings SET created_at = NOW() WHERE created_at IS NULL;
+
+UPDATE public.mkt_listings l
+SET checkout_count = t.buyers
+FROM (
+    SELECT listing_id, COUNT(DISTINCT buyer_id) AS buyers
+    FROM public.mkt_transactions
+    GROUP BY listing_id
+) t
+WHERE t.listing_id = l.id;
+
+CREATE INDEX IF NOT EXISTS idx_mkt_listings_search ON public.mkt_listings USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_mkt_listings_for_sale_newest
+    ON public.mkt_listings(created_at DESC, id DESC) WHERE status = 'listed' AND is_active;
+CREATE INDEX IF NOT EXISTS idx_mkt_listings_for_sale_price
+    ON public.mkt_listings(price_cents, id) WHERE status = 'listed' AND is_active;
+CREATE INDEX IF NOT EXISTS idx_mkt_listings_for_sale_popular
+    ON public.mkt_listings(checkout_count DESC, id DESC) WHERE status = 'listed' AND is_active;
+
+-- create-payment-intent keeps one transaction per buyer and listing, so each
+-- insert is a new interested buyer
+CREATE OR REPLACE FUNCTION public.mkt_transactions_count_checkout()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.mkt_listings SET checkout_count = checkout_count + 1 WHERE id = NEW.listing_id;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS mkt_transactions_count_checkout ON public.mkt_transactions;
+CREATE TRIGGER mkt_transactions_count_checkout
+    AFTER INSERT ON public.mkt_transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.mkt_transactions_count_checkout();
+
+-- Sellers choose the finish when listing and can change it while for sale
+DROP FUNCTION IF EXISTS public.listing_create(UUID, TEXT, UUID, INTEGER);
+DROP FUNCTION IF EXISTS public.listing_update(UUID, UUID, INTEGER, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.listing_create(
+    p_seller_id UUID,
+    p_source_type TEXT,
+    p_source_id UUID,
+    p_price_cents INTEGER,
+    p_finish TEXT DEFAULT 'matte'
+)
+RETURNS public.mkt_listings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_title TEXT;
+    v_image_url TEXT;
+    v_listing public.mkt_listings;
+BEGIN
+    IF NOT public.listing_seller_can_sell(p_seller_id) THEN
+        RAISE EXCEPTION 'listing_seller_not_verified';
+    END IF;
+
+    IF p_source_type = 'asset' THEN
+        SELECT COALESCE(NULLIF(TRIM(title), ''), regexp_replace(COALESCE(storage_path, ''), '^.*/', ''), 'Untitled'), image_url
+        INTO v_title, v_image_url
+        FROM public.user_assets
+        WHERE id = p_source_id AND owner_id = p_seller_id;
+    ELSIF p_source_type = 'uploaded_image' THEN
+        SELECT COALESCE(NULLIF(metadata ->> 'title', ''), regexp_replace(storage_path, '^.*/', '')), image_url
+        INTO v_title, v_image_url
+        FROM public.uploaded_images
+        WHERE id = p_source_id AND user_id = p_seller_id;
+    END IF;
+
+    IF NOT FOUND OR v_image_url IS NULL THEN
+        RAISE EXCEPTION 'listing_source_not_found';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.mkt_listings
+        WHERE source_type = p_source_type AND source_id = p_source_id AND status = 'listed' AND is_active
+    ) THEN
+        RAISE EXCEPTION 'listing_duplicate';
+    END IF;
+
+    PERFORM set_config('cardify.listing_actor', p_seller_id::TEXT, TRUE);
+
+    BEGIN
+        INSERT INTO public.mkt_listings (title, image_url, price_cents, seller_id, status, is_active, source_type, source_id, finish)
+        VALUES (NULLIF(v_title, ''), v_image_url, p_price_cents, p_seller_id, 'listed', TRUE, p_source_type, p_source_id, COALESCE(p_finish, 'matte'))
+        RETURNING * INTO v_listing;
+    EXCEPTION WHEN unique_violation THEN
+        -- Another request listed the same source first
+        RAISE EXCEPTION 'listing_duplicate';
+    END;
+
+    RETURN v_listing;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.listing_update(
+    p_listing_id UUID,
+    p_seller_id UUID,
+    p_price_cents INTEGER DEFAULT NULL,
+    p_title TEXT DEFAULT NULL,
+    p_description TEXT DEFAULT NULL,
+    p_finish TEXT DEFAULT NULL
+)
+RETURNS public.mkt_listings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_listing public.mkt_listings;
+BEGIN
+    SELECT * INTO v_listing
+    FROM public.mkt_listings
+    WHERE id = p_listing_id AND seller_id = p_seller_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'listing_not_found';
+    END IF;
+    IF NOT (v_listing.status = 'listed' AND v_listing.is_active) THEN
+        RAISE EXCEPTION 'listing_not_editable';
+    END IF;
+
+    PERFORM set_config('cardify.listing_actor', p_seller_id::TEXT, TRUE);
+
+    UPDATE public.mkt_listings
+    SET price_cents = COALESCE(p_price_cents, price_cents),
+        title = COALESCE(p_title, title),
+        description = COALESCE(p_description, description),
+        finish = COALESCE(p_finish, finish),
+        updated_at = NOW()
+    WHERE id = p_listing_id
+    RETURNING * INTO v_listing;
+
+    RETURN v_listing;
+END;
+$$;
+
+-- The audit trail records finish changes too
+CREATE OR REPLACE FUNCTION public.mkt_listings_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_changes JSONB := '{}';
+    v_action TEXT;
+    v_column TEXT;
+    v_old JSONB;
+    v_new JSONB := to_jsonb(NEW);
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        v_action := 'created';
+        v_changes := jsonb_build_object(
+            'price_cents', jsonb_build_object('from', NULL, 'to', NEW.price_cents),
+            'status', jsonb_build_object('from', NULL, 'to', NEW.status)
+        );
+    ELSE
+        v_old := to_jsonb(OLD);
+        FOREACH v_column IN ARRAY ARRAY['price_cents', 'title', 'description', 'finish', 'status', 'is_active', 'buyer_id'] LOOP
+            IF v_old -> v_column IS DISTINCT FROM v_new -> v_column THEN
+                v_changes := v_changes || jsonb_build_object(
+                    v_column, jsonb_build_object('from', v_old -> v_column, 'to', v_new -> v_column)
+                );
+            END IF;
+        END LOOP;
+
+        IF v_changes = '{}' THEN
+            RETURN NEW;
+        END IF;
+
+        v_action := CASE
+            WHEN NEW.status IS NOT DISTINCT FROM OLD.status AND NEW.is_active IS NOT DISTINCT FROM OLD.is_active THEN 'updated'
+            WHEN NEW.status = 'sold' THEN 'sold'
+            WHEN NEW.status = 'refunded' THEN 'refunded'
+            WHEN NEW.status = 'listed' AND NEW.is_active THEN 'relisted'
+            WHEN NEW.status = 'inactive' OR NOT NEW.is_active THEN 'cancelled'
+            ELSE 'status_changed'
+        END;
+    END IF;
+
+    INSERT INTO public.mkt_listing_audit (listing_id, actor_id, action, changes)
+    VALUES (
+        NEW.id,
+        COALESCE(NULLIF(current_setting('cardify.listing_actor', TRUE), '')::UUID, auth.uid()),
+        v_action,
+        v_changes
+    );
+    RETURN NEW;
+END;
+$$;
+
+-- One page of listings for sale. Each sort pages on its own typed cursor
+-- (the last row's sort value and id); pass NULLs for the first page.
+-- p_sort is newest, price_asc, price_desc or popular.
+CREATE OR REPLACE FUNCTION public.marketplace_search(
+    p_query TEXT DEFAULT NULL,
+    p_min_price_cents INTEGER DEFAULT NULL,
+    p_max_price_cents INTEGER DEFAULT NULL,
+    p_seller_id UUID DEFAULT NULL,
+    p_listed_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_listed_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_finish TEXT DEFAULT NULL,
+    p_sort TEXT DEFAULT 'newest',
+    p_after_id UUID DEFAULT NULL,
+    p_after_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_after_price_cents INTEGER DEFAULT NULL,
+    p_after_checkout_count INTEGER DEFAULT NULL,
+    p_limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (
+    id UUID,
+    title TEXT,
+    description TEXT,
+    image_url TEXT,
+    price_cents INTEGER,
+    currency TEXT,
+    finish TEXT,
+    seller_id UUID,
+    seller_name TEXT,
+    seller_avatar_url TEXT,
+    checkout_count INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        l.id, l.title, l.description, l.image_url, l.price_cents, l.currency, l.finish,
+        l.seller_id, p.display_name, p.avatar_url, l.checkout_count, l.created_at
+    FROM public.mkt_listings l
+    LEFT JOIN public.mkt_profiles p ON p.id = l.seller_id
+    WHERE l.status = 'listed'
+      AND l.is_active
+      AND (NULLIF(TRIM(p_query), '') IS NULL OR l.search_vector @@ websearch_to_tsquery('english', p_query))
+      AND (p_min_price_cents IS NULL OR l.price_cents >= p_min_price_cents)
+      AND (p_max_price_cents IS NULL OR l.price_cents <= p_max_price_cents)
+      AND (p_seller_id IS NULL OR l.seller_id = p_seller_id)
+      AND (p_listed_after IS NULL OR l.created_at >= p_listed_after)
+      AND (p_listed_before IS NULL OR l.created_at < p_listed_before)
+      AND (p_finish IS NULL OR l.finish = p_finish)
+      AND (
+          p_after_id IS NULL
+          OR (p_sort = 'newest' AND (l.created_at, l.id) < (p_after_created_at, p_after_id))
+          OR (p_sort = 'price_asc' AND (l.price_cents, l.id) > (p_after_price_cents, p_after_id))
+          OR (p_sort = 'price_desc' AND (l.price_cents, l.id) < (p_after_price_cents, p_after_id))
+          OR (p_sort = 'popular' AND (l.checkout_count, l.id) < (p_after_checkout_count, p_after_id))
+      )
+    ORDER BY
+        CASE WHEN p_sort = 'newest' THEN l.created_at END DESC,
+        CASE WHEN p_sort = 'price_asc' THEN l.price_cents END ASC,
+        CASE WHEN p_sort = 'price_desc' THEN l.price_cents END DESC,
+        CASE WHEN p_sort = 'popular' THEN l.checkout_count END DESC,
+        CASE WHEN p_sort = 'price_asc' THEN l.id END ASC,
+        l.id DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100);
+$$;
+
+REVOKE ALL ON FUNCTION public.mkt_transactions_count_checkout() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.listing_create(UUID, TEXT, UUID, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.listing_update(UUID, UUID, INTEGER, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.marketplace_search(TEXT, INTEGER, INTEGER, UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, UUID, TIMESTAMP WITH TIME ZONE, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.mkt_listings.finish IS 'Card finish chosen by the seller: matte (default), rainbow or gloss';
+COMMENT ON COLUMN public.mkt_listings.checkout_count IS 'Buyers who started checkout for the listing; the marketplace popularity sort';
+COMMENT ON COLUMN public.mkt_listings.search_vector IS 'Title (weight A) and description (weight B) for marketplace_search';
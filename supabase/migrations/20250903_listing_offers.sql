@@ -0,0 +1,418 @@
+-- Offers and counter-offers on marketplace listings (lib/offers.ts).
+-- A buyer offers below the listed price; the seller accepts, declines or
+-- counters, and the buyer answers a counter the same way. proposed_by says
+-- whose amount is on the table, so the other party is the one to respond.
+-- Open offers expire at expires_at and stop counting straight away; the
+-- sweeper (/api/cron/expire-offers) records it. Accepting creates the
+-- PaymentIntent first and offer_accept records it, then locks the listing
+-- for the buyer until payment_expires_at.
+
+CREATE TABLE IF NOT EXISTS public.mkt_offers (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    listing_id UUID NOT NULL REFERENCES public.mkt_listings(id) ON DELETE CASCADE,
+    buyer_id UUID NOT NULL,
+    seller_id UUID NOT NULL,
+    amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+    currency TEXT NOT NULL DEFAULT 'USD',
+    proposed_by TEXT NOT NULL DEFAULT 'buyer' CHECK (proposed_by IN ('buyer', 'seller')),
+    status TEXT NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'accepted', 'declined', 'withdrawn', 'expired', 'completed', 'closed')),
+    counter_count INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    payment_intent_id TEXT,
+    stripe_account_id TEXT,  -- Connected account the PaymentIntent lives on; NULL for the platform
+    payment_expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One live negotiation per buyer and listing
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mkt_offers_live
+    ON public.mkt_offers(listing_id, buyer_id)
+    WHERE status IN ('open', 'accepted');
+
+CREATE INDEX IF NOT EXISTS idx_mkt_offers_seller ON public.mkt_offers(seller_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mkt_offers_buyer ON public.mkt_offers(buyer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mkt_offers_expiring ON public.mkt_offers(expires_at) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_mkt_offers_payment_expiring ON public.mkt_offers(payment_expires_at) WHERE status = 'accepted';
+
+-- The accepted offer a listing is held for, and until when
+ALTER TABLE public.mkt_listings ADD COLUMN IF NOT EXISTS locked_offer_id UUID;
+ALTER TABLE public.mkt_listings ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.mkt_transactions ADD COLUMN IF NOT EXISTS offer_id UUID;
+
+-- Whether a listing is held for an accepted offer other than p_offer_id
+CREATE OR REPLACE FUNCTION public.listing_is_locked(p_listing public.mkt_listings, p_offer_id UUID DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT p_listing.locked_offer_id IS NOT NULL
+       AND p_listing.locked_until > NOW()
+       AND p_listing.locked_offer_id IS DISTINCT FROM p_offer_id;
+$$;
+
+-- A buyer's offer. Raises offer_listing_unavailable, offer_own_listing,
+-- offer_listing_locked, offer_amount_too_high or offer_duplicate.
+CREATE OR REPLACE FUNCTION public.offer_create(
+    p_listing_id UUID,
+    p_buyer_id UUID,
+    p_amount_cents INTEGER,
+    p_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS public.mkt_offers
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_listing public.mkt_listings;
+    v_offer public.mkt_offers;
+BEGIN
+    SELECT * INTO v_listing FROM public.mkt_listings WHERE id = p_listing_id;
+
+    IF NOT FOUND OR NOT (v_listing.status = 'listed' AND v_listing.is_active) THEN
+        RAISE EXCEPTION 'offer_listing_unavailable';
+    END IF;
+    IF v_listing.seller_id = p_buyer_id THEN
+        RAISE EXCEPTION 'offer_own_listing';
+    END IF;
+    IF public.listing_is_locked(v_listing) THEN
+        RAISE EXCEPTION 'offer_listing_locked';
+    END IF;
+    IF p_amount_cents >= v_listing.price_cents THEN
+        RAISE EXCEPTION 'offer_amount_too_high';
+    END IF;
+
+    -- An open offer past its expiry no longer blocks a new one
+    UPDATE public.mkt_offers
+    SET status = 'expired', updated_at = NOW()
+    WHERE listing_id = p_listing_id AND buyer_id = p_buyer_id AND status = 'open' AND expires_at <= NOW();
+
+    BEGIN
+        INSERT INTO public.mkt_offers (listing_id, buyer_id, seller_id, amount_cents, currency, expires_at)
+        VALUES (p_listing_id, p_buyer_id, v_listing.seller_id, p_amount_cents, COALESCE(v_listing.currency, 'USD'), p_expires_at)
+        RETURNING * INTO v_offer;
+    EXCEPTION WHEN unique_violation THEN
+        RAISE EXCEPTION 'offer_duplicate';
+    END;
+
+    RETURN v_offer;
+END;
+$$;
+
+-- Lock an offer for a response from p_actor_id. Raises offer_not_found when
+-- the actor isn't a party and offer_not_open when it has been answered or
+-- has expired.
+CREATE OR REPLACE FUNCTION public.offer_lock_open(p_offer_id UUID, p_actor_id UUID)
+RETURNS public.mkt_offers
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_offer public.mkt_offers;
+BEGIN
+    SELECT * INTO v_offer
+    FROM public.mkt_offers
+    WHERE id = p_offer_id AND p_actor_id IN (buyer_id, seller_id)
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'offer_not_found';
+    END IF;
+    IF v_offer.status <> 'open' OR v_offer.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'offer_not_open';
+    END IF;
+
+    RETURN v_offer;
+END;
+$$;
+
+-- Decline, withdraw or counter. Only the party the offer is waiting on may
+-- decline or counter; only the buyer may withdraw. Raises offer_not_found,
+-- offer_not_open, offer_not_your_turn or offer_amount_too_high.
+CREATE OR REPLACE FUNCTION public.offer_respond(
+    p_offer_id UUID,
+    p_actor_id UUID,
+    p_action TEXT,
+    p_amount_cents INTEGER DEFAULT NULL,
+    p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS public.mkt_offers
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_offer public.mkt_offers;
+    v_actor TEXT;
+    v_price INTEGER;
+BEGIN
+    v_offer := public.offer_lock_open(p_offer_id, p_actor_id);
+    v_actor := CASE WHEN p_actor_id = v_offer.buyer_id THEN 'buyer' ELSE 'seller' END;
+
+    IF p_action = 'withdraw' THEN
+        IF v_actor <> 'buyer' THEN
+            RAISE EXCEPTION 'offer_not_your_turn';
+        END IF;
+        UPDATE public.mkt_offers SET status = 'withdrawn', updated_at = NOW()
+        WHERE id = p_offer_id
+        RETURNING * INTO v_offer;
+        RETURN v_offer;
+    END IF;
+
+    IF v_actor = v_offer.proposed_by THEN
+        RAISE EXCEPTION 'offer_not_your_turn';
+    END IF;
+
+    IF p_action = 'decline' THEN
+        UPDATE public.mkt_offers SET status = 'declined', updated_at = NOW()
+        WHERE id = p_offer_id
+        RETURNING * INTO v_offer;
+    ELSIF p_action = 'counter' THEN
+        SELECT price_cents INTO v_price FROM public.mkt_listings WHERE id = v_offer.listing_id;
+        IF p_amount_cents IS NULL OR p_amount_cents >= v_price THEN
+            RAISE EXCEPTION 'offer_amount_too_high';
+        END IF;
+        UPDATE public.mkt_offers
+        SET amount_cents = p_amount_cents,
+            proposed_by = v_actor,
+            counter_count = counter_count + 1,
+            expires_at = p_expires_at,
+            updated_at = NOW()
+        WHERE id = p_offer_id
+        RETURNING * INTO v_offer;
+    ELSE
+        RAISE EXCEPTION 'offer_invalid_action';
+    END IF;
+
+    RETURN v_offer;
+END;
+$$;
+
+-- Accept the amount on the table. The PaymentIntent for p_amount_cents was
+-- created by the caller; it is recorded as the buyer's pending transaction
+-- and the listing is held until p_payment_expires_at. Returns the offer with
+-- the listing's other pending PaymentIntents (everyone's list-price checkouts
+-- and lapsed offers), which the caller cancels so only the held offer can be
+-- paid. Raises offer_not_found, offer_not_open, offer_not_your_turn,
+-- offer_changed (the amount moved since the caller read it),
+-- offer_listing_unavailable or offer_listing_locked.
+CREATE OR REPLACE FUNCTION public.offer_accept(
+    p_offer_id UUID,
+    p_actor_id UUID,
+    p_amount_cents INTEGER,
+    p_payment_intent_id TEXT,
+    p_stripe_account_id TEXT,
+    p_platform_fee_cents INTEGER,
+    p_payment_expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (offer public.mkt_offers, superseded_intents JSONB)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_offer public.mkt_offers;
+    v_listing public.mkt_listings;
+    v_superseded JSONB;
+BEGIN
+    v_offer := public.offer_lock_open(p_offer_id, p_actor_id);
+
+    IF (CASE WHEN p_actor_id = v_offer.buyer_id THEN 'buyer' ELSE 'seller' END) = v_offer.proposed_by THEN
+        RAISE EXCEPTION 'offer_not_your_turn';
+    END IF;
+    IF v_offer.amount_cents <> p_amount_cents THEN
+        RAISE EXCEPTION 'offer_changed';
+    END IF;
+
+    SELECT * INTO v_listing FROM public.mkt_listings WHERE id = v_offer.listing_id FOR UPDATE;
+    IF NOT FOUND OR NOT (v_listing.status = 'listed' AND v_listing.is_active) THEN
+        RAISE EXCEPTION 'offer_listing_unavailable';
+    END IF;
+    IF public.listing_is_locked(v_listing, p_offer_id) THEN
+        RAISE EXCEPTION 'offer_listing_locked';
+    END IF;
+
+    UPDATE public.mkt_offers
+    SET status = 'accepted',
+        payment_intent_id = p_payment_intent_id,
+        stripe_account_id = p_stripe_account_id,
+        payment_expires_at = p_payment_expires_at,
+        updated_at = NOW()
+    WHERE id = p_offer_id
+    RETURNING * INTO v_offer;
+
+    UPDATE public.mkt_listings
+    SET locked_offer_id = p_offer_id, locked_until = p_payment_expires_at
+    WHERE id = v_offer.listing_id;
+
+    -- Read before the buyer's own pending transaction takes the new intent
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+               'payment_intent_id', t.stripe_payment_id,
+               'stripe_account_id', t.seller_acct
+           )), '[]'::JSONB)
+    INTO v_superseded
+    FROM public.mkt_transactions t
+    WHERE t.listing_id = v_offer.listing_id
+      AND t.status = 'pending'
+      AND t.stripe_payment_id IS NOT NULL
+      AND t.stripe_payment_id <> p_payment_intent_id;
+
+    -- create-payment-intent keeps one pending transaction per buyer and listing
+    UPDATE public.mkt_transactions
+    SET stripe_payment_id = p_payment_intent_id,
+        amount_cents = p_amount_cents,
+        currency = UPPER(v_offer.currency),
+        seller_acct = p_stripe_account_id,
+        platform_fee_cents = p_platform_fee_cents,
+        offer_id = p_offer_id
+    WHERE listing_id = v_offer.listing_id AND buyer_id = v_offer.buyer_id AND status = 'pending';
+
+    IF NOT FOUND THEN
+        INSERT INTO public.mkt_transactions (
+            buyer_id, listing_id, amount_cents, currency, stripe_payment_id, status, seller_acct, platform_fee_cents, offer_id
+        )
+        VALUES (
+            v_offer.buyer_id, v_offer.listing_id, p_amount_cents, UPPER(v_offer.currency), p_payment_intent_id,
+            'pending', p_stripe_account_id, p_platform_fee_cents, p_offer_id
+        );
+    END IF;
+
+    RETURN QUERY SELECT v_offer, v_superseded;
+END;
+$$;
+
+-- Sweeper: mark open offers past their expiry, and accepted offers whose
+-- buyer didn't pay in time, releasing their listings. Returns the lapsed
+-- accepted offers so their PaymentIntents can be cancelled.
+CREATE OR REPLACE FUNCTION public.offer_expire()
+RETURNS TABLE (offer_id UUID, payment_intent_id TEXT, stripe_account_id TEXT)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+BEGIN
+    UPDATE public.mkt_offers o
+    SET status = 'expired', updated_at = NOW()
+    WHERE o.status = 'open' AND o.expires_at <= NOW();
+
+    RETURN QUERY
+    WITH lapsed AS (
+        UPDATE public.mkt_offers o
+        SET status = 'expired', updated_at = NOW()
+        WHERE o.status = 'accepted' AND o.payment_expires_at <= NOW()
+        RETURNING o.id, o.listing_id, o.payment_intent_id, o.stripe_account_id
+    ), released AS (
+        UPDATE public.mkt_listings l
+        SET locked_offer_id = NULL, locked_until = NULL
+        FROM lapsed
+        WHERE l.id = lapsed.listing_id AND l.locked_offer_id = lapsed.id
+    )
+    SELECT lapsed.id, lapsed.payment_intent_id, lapsed.stripe_account_id FROM lapsed;
+END;
+$$;
+
+-- Sellers can't reprice or cancel a listing held for an accepted offer;
+-- cancelling closes the listing's open offers.
+CREATE OR REPLACE FUNCTION public.listing_update(
+    p_listing_id UUID,
+    p_seller_id UUID,
+    p_price_cents INTEGER DEFAULT NULL,
+    p_title TEXT DEFAULT NULL,
+    p_description TEXT DEFAULT NULL,
+    p_finish TEXT DEFAULT NULL
+)
+RETURNS public.mkt_listings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_listing public.mkt_listings;
+BEGIN
+    SELECT * INTO v_listing
+    FROM public.mkt_listings
+    WHERE id = p_listing_id AND seller_id = p_seller_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'listing_not_found';
+    END IF;
+    IF NOT (v_listing.status = 'listed' AND v_listing.is_active) THEN
+        RAISE EXCEPTION 'listing_not_editable';
+    END IF;
+    IF public.listing_is_locked(v_listing) THEN
+        RAISE EXCEPTION 'listing_locked';
+    END IF;
+
+    PERFORM set_config('cardify.listing_actor', p_seller_id::TEXT, TRUE);
+
+    UPDATE public.mkt_listings
+    SET price_cents = COALESCE(p_price_cents, price_cents),
+        title = COALESCE(p_title, title),
+        description = COALESCE(p_description, description),
+        finish = COALESCE(p_finish, finish),
+        updated_at = NOW()
+    WHERE id = p_listing_id
+    RETURNING * INTO v_listing;
+
+    RETURN v_listing;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.listing_cancel(p_listing_id UUID, p_seller_id UUID)
+RETURNS public.mkt_listings
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_listing public.mkt_listings;
+BEGIN
+    SELECT * INTO v_listing
+    FROM public.mkt_listings
+    WHERE id = p_listing_id AND seller_id = p_seller_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'listing_not_found';
+    END IF;
+    IF NOT (v_listing.status = 'listed' AND v_listing.is_active) THEN
+        RAISE EXCEPTION 'listing_not_editable';
+    END IF;
+    IF public.listing_is_locked(v_listing) THEN
+        RAISE EXCEPTION 'listing_locked';
+    END IF;
+
+    PERFORM set_config('cardify.listing_actor', p_seller_id::TEXT, TRUE);
+
+    UPDATE public.mkt_listings
+    SET status = 'inactive', is_active = FALSE, updated_at = NOW()
+    WHERE id = p_listing_id
+    RETURNING * INTO v_listing;
+
+    UPDATE public.mkt_offers
+    SET status = 'closed', updated_at = NOW()
+    WHERE listing_id = p_listing_id AND status = 'open';
+
+    RETURN v_listing;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.listing_is_locked(public.mkt_listings, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.offer_create(UUID, UUID, INTEGER, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.offer_lock_open(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.offer_respond(UUID, UUID, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.offer_accept(UUID, UUID, INTEGER, TEXT, TEXT, INTEGER, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.offer_expire() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.listing_update(UUID, UUID, INTEGER, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.listing_cancel(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Buyers and sellers read their own offers (the profile page); only the
+-- service role writes
+ALTER TABLE public.mkt_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Buyers and sellers can read their offers" ON public.mkt_offers;
+CREATE POLICY "Buyers and sellers can read their offers" ON public.mkt_offers
+    FOR SELECT
+    TO authenticated
+    USING (buyer_id = auth.uid() OR seller_id = auth.uid());
+
+REVOKE INSERT, UPDATE, DELETE ON public.mkt_offers FROM anon, authenticated;
+
+COMMENT ON TABLE public.mkt_offers IS 'Offers and counter-offers on marketplace listings; see lib/offers.ts';
+COMMENT ON COLUMN public.mkt_offers.proposed_by IS 'Whose amount is on the table; the other party accepts, declines or counters';
+COMMENT ON COLUMN public.mkt_offers.payment_expires_at IS 'When an accepted offer lapses if the buyer has not paid';
+COMMENT ON COLUMN public.mkt_listings.locked_offer_id IS 'Accepted offer the listing is held for while its payment is pending';
+COMMENT ON COLUMN public.mkt_listings.locked_until IS 'End of the hold; expired holds no longer lock the listing';
+COMMENT ON COLUMN public.mkt_transactions.offer_id IS 'The accepted offer this payment is for, if any';
@@ -0,0 +1,43 @@
+-- Idempotent stock adjustments (lib/inventory.ts adjustInventoryOnce)
+-- The Stripe webhook retries whole events, so a refund restoring stock or a
+-- sale without a reservation could otherwise be counted more than once. Each
+-- adjustment is recorded under its reference; a repeat is a no-op.
+CREATE TABLE IF NOT EXISTS public.inventory_adjustments (
+    reference TEXT NOT NULL,
+    sku TEXT NOT NULL REFERENCES public.inventory(sku),
+    delta INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (reference, sku)
+);
+
+ALTER TABLE public.inventory_adjustments ENABLE ROW LEVEL SECURITY;
+
+-- inventory_adjust() once per (p_reference, p_sku). applied is false when
+-- the reference was already recorded; the row then reports current stock.
+CREATE OR REPLACE FUNCTION public.inventory_adjust_once(p_sku TEXT, p_delta INTEGER, p_reference TEXT)
+RETURNS TABLE (on_hand INTEGER, reserved INTEGER, applied BOOLEAN)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+BEGIN
+    PERFORM 1 FROM public.inventory WHERE sku = p_sku FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'unknown_sku:%', p_sku;
+    END IF;
+
+    INSERT INTO public.inventory_adjustments (reference, sku, delta)
+    VALUES (p_reference, p_sku, p_delta)
+    ON CONFLICT (reference, sku) DO NOTHING;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT i.on_hand, i.reserved, FALSE FROM public.inventory i WHERE i.sku = p_sku;
+        RETURN;
+    END IF;
+
+    RETURN QUERY SELECT a.on_hand, a.reserved, TRUE FROM public.inventory_adjust(p_sku, p_delta) a;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.inventory_adjust_once(TEXT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.inventory_adjustments IS 'One row per applied inventory_adjust_once call; the reference names the event, e.g. restore:<checkout session id>';
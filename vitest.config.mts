@@ -0,0 +1,14 @@
+import path from "path"
+import { fileURLToPath } from "url"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.dirname(fileURLToPath(import.meta.url)) },
+  },
+  test: {
+    globals: true,
+    environment: "node",
+    include: ["lib/__tests__/**/*.test.ts"],
+  },
+})